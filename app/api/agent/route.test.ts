@@ -1,5 +1,15 @@
 import { POST } from './route'
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { resetCircuitBreakers } from '@/utils/upstream'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+// The route reads its API key at import time; retries run without backoff in tests
+vi.hoisted(() => {
+  process.env.LYZR_API_KEY = 'test-api-key'
+  process.env.LYZR_RETRY_BASE_DELAY_MS = '0'
+})
 
 // Mock fetch globally
 global.fetch = vi.fn()
@@ -8,6 +18,8 @@ describe('POST /api/agent', () => {
   beforeEach(() => {
     // Reset mocks before each test
     vi.clearAllMocks()
+    ;(global.fetch as any).mockReset()
+    resetCircuitBreakers()
   })
 
   it('returns 400 when message is missing', async () => {
@@ -17,11 +29,11 @@ describe('POST /api/agent', () => {
       headers: { 'Content-Type': 'application/json' },
     })
 
-    const response = await POST(request)
+    const response = await POST(request as any)
     const data = await response.json()
 
     expect(response.status).toBe(400)
-    expect(data.error).toBe('Message and agent_id are required')
+    expect(data.error).toBe('Missing required fields: message and agent_id are required')
   })
 
   it('returns 400 when agent_id is missing', async () => {
@@ -31,11 +43,11 @@ describe('POST /api/agent', () => {
       headers: { 'Content-Type': 'application/json' },
     })
 
-    const response = await POST(request)
+    const response = await POST(request as any)
     const data = await response.json()
 
     expect(response.status).toBe(400)
-    expect(data.error).toBe('Message and agent_id are required')
+    expect(data.error).toBe('Missing required fields: message and agent_id are required')
   })
 
   it('successfully calls AI agent and returns parsed response', async () => {
@@ -64,24 +76,21 @@ describe('POST /api/agent', () => {
       headers: { 'Content-Type': 'application/json' },
     })
 
-    const response = await POST(request)
+    const response = await POST(request as any)
     const data = await response.json()
 
     expect(response.status).toBe(200)
     expect(data.success).toBe(true)
     expect(data.response).toEqual({ success: true, result: 'Test response' })
+    // user_id and session_id echo the request, not the upstream answer
     expect(data.agent_id).toBe('test-agent')
-    expect(data.user_id).toBe('user-123')
-    expect(data.session_id).toBe('session-456')
+    expect(data.user_id).toBeUndefined()
+    expect(data.session_id).toBeUndefined()
   })
 
   it('handles AI agent API errors gracefully', async () => {
-    // Mock API error
-    ;(global.fetch as any).mockResolvedValueOnce({
-      ok: false,
-      status: 500,
-      statusText: 'Internal Server Error',
-    })
+    // Mock API error (on every retry)
+    ;(global.fetch as any).mockResolvedValue(new Response('Internal Server Error', { status: 500 }))
 
     const request = new Request('http://localhost/api/agent', {
       method: 'POST',
@@ -92,11 +101,31 @@ describe('POST /api/agent', () => {
       headers: { 'Content-Type': 'application/json' },
     })
 
-    const response = await POST(request)
+    const response = await POST(request as any)
     const data = await response.json()
 
     expect(response.status).toBe(500)
-    expect(data.error).toContain('AI Agent API error')
+    expect(data.error).toBe('API returned status 500')
+    expect(data.details).toBe('Internal Server Error')
+  })
+
+  it('returns 502 when the AI agent API cannot be reached', async () => {
+    ;(global.fetch as any).mockRejectedValue(new TypeError('fetch failed'))
+
+    const request = new Request('http://localhost/api/agent', {
+      method: 'POST',
+      body: JSON.stringify({
+        message: 'Hello AI',
+        agent_id: 'test-agent',
+      }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+
+    const response = await POST(request as any)
+    const data = await response.json()
+
+    expect(response.status).toBe(502)
+    expect(data.code).toBe('UPSTREAM_UNREACHABLE')
   })
 
   it('handles malformed JSON from AI agent', async () => {
@@ -122,7 +151,7 @@ describe('POST /api/agent', () => {
       headers: { 'Content-Type': 'application/json' },
     })
 
-    const response = await POST(request)
+    const response = await POST(request as any)
     const data = await response.json()
 
     expect(response.status).toBe(200)
@@ -154,7 +183,7 @@ describe('POST /api/agent', () => {
       headers: { 'Content-Type': 'application/json' },
     })
 
-    await POST(request)
+    await POST(request as any)
 
     // Verify fetch was called with correct parameters
     expect(global.fetch).toHaveBeenCalledWith(
@@ -166,3 +195,396 @@ describe('POST /api/agent', () => {
     )
   })
 })
+
+describe('POST /api/agent context_data', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ response: JSON.stringify({ result: 'ok' }) }),
+    })
+  })
+
+  function agentRequest(body: Record<string, unknown>) {
+    return new Request('http://localhost/api/agent', {
+      method: 'POST',
+      body: JSON.stringify({ message: 'Generate onboarding tasks', agent_id: 'test-agent', ...body }),
+      headers: { 'Content-Type': 'application/json' },
+    }) as any
+  }
+
+  function upstreamMessage(): string {
+    const [, init] = (global.fetch as any).mock.calls[0]
+    return JSON.parse(init.body).message
+  }
+
+  it('appends context_data to the upstream message as a JSON block', async () => {
+    const context_data = {
+      candidate_name: 'Sarah Johnson',
+      start_date: '2024-02-20',
+      slack_channels: { it: '#it-requests' },
+    }
+
+    const response = await POST(agentRequest({ context_data }))
+
+    expect(response.status).toBe(200)
+    const message = upstreamMessage()
+    expect(message.startsWith('Generate onboarding tasks\n\nCONTEXT DATA (JSON):\n```json\n')).toBe(true)
+
+    const block = message.match(/```json\n([\s\S]*)\n```$/)
+    expect(JSON.parse(block![1])).toEqual(context_data)
+  })
+
+  it('sends the message unchanged when no context_data is given', async () => {
+    await POST(agentRequest({}))
+
+    expect(upstreamMessage()).toBe('Generate onboarding tasks')
+  })
+
+  it('rejects context_data that is not an object', async () => {
+    const response = await POST(agentRequest({ context_data: ['not', 'an', 'object'] }))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Invalid context_data: context_data must be a JSON object')
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('rejects oversized context_data', async () => {
+    const response = await POST(agentRequest({ context_data: { notes: 'x'.repeat(70 * 1024) } }))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toContain('context_data is too large')
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('POST /api/agent streaming', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  function sseResponse(lines: string[]) {
+    const encoder = new TextEncoder()
+    const body = new ReadableStream({
+      start(controller) {
+        for (const line of lines) controller.enqueue(encoder.encode(line))
+        controller.close()
+      },
+    })
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+  }
+
+  async function readEvents(response: Response) {
+    const text = await response.text()
+    return text.trim().split('\n').map(line => JSON.parse(line))
+  }
+
+  it('streams deltas as NDJSON and finishes with the parsed response', async () => {
+    ;(global.fetch as any).mockResolvedValueOnce(
+      sseResponse(['data: {"result": {"tasks_by_department": ', 'null}}\n', 'data: [DONE]\n'])
+    )
+
+    const request = new Request('http://localhost/api/agent', {
+      method: 'POST',
+      body: JSON.stringify({ message: 'Generate tasks', agent_id: 'test-agent', stream: true }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+
+    const response = await POST(request as any)
+    const events = await readEvents(response)
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson')
+    expect((global.fetch as any).mock.calls[0][0]).toContain('/v3/inference/stream/')
+    expect(events[0]).toEqual({ type: 'delta', text: '{"result": {"tasks_by_department": null}}' })
+    expect(events.at(-1)).toMatchObject({
+      type: 'done',
+      response: { result: { tasks_by_department: null } },
+      agent_id: 'test-agent',
+    })
+  })
+
+  it('emits an error event when the upstream stream reports a failure', async () => {
+    ;(global.fetch as any).mockResolvedValueOnce(sseResponse(['data: [ERROR] model overloaded\n']))
+
+    const request = new Request('http://localhost/api/agent', {
+      method: 'POST',
+      body: JSON.stringify({ message: 'Generate tasks', agent_id: 'test-agent', stream: true }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+
+    const events = await readEvents(await POST(request as any))
+
+    expect(events.at(-1)).toEqual({
+      type: 'error',
+      error: 'Agent stream interrupted',
+      details: 'model overloaded',
+    })
+  })
+})
+
+describe('POST /api/agent response schemas', () => {
+  const TASK_AGENT_ID = '693068f4d4e9ae41a5a27a55'
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  function taskAgentRequest() {
+    return new Request('http://localhost/api/agent', {
+      method: 'POST',
+      body: JSON.stringify({ message: 'Generate onboarding tasks', agent_id: TASK_AGENT_ID }),
+      headers: { 'Content-Type': 'application/json' },
+    }) as any
+  }
+
+  it('returns the validated response with schema defaults applied', async () => {
+    ;(global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        response: JSON.stringify({
+          result: { tasks_by_department: { IT: [{ task_title: 'Setup laptop', priority: 'urgent' }] } },
+        }),
+      }),
+    })
+
+    const response = await POST(taskAgentRequest())
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.response.result.tasks_by_department.IT[0]).toEqual({
+      task_title: 'Setup laptop',
+      assignee: '',
+      due_date: '',
+      priority: 'medium',
+      status: 'pending',
+    })
+  })
+
+  it('returns a structured validation error when the response breaks its contract', async () => {
+    ;(global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ response: JSON.stringify({ result: { tasks: [] } }) }),
+    })
+
+    const response = await POST(taskAgentRequest())
+    const data = await response.json()
+
+    expect(response.status).toBe(422)
+    expect(data.success).toBe(false)
+    expect(data.code).toBe('AGENT_RESPONSE_INVALID')
+    expect(data.issues).toEqual([
+      expect.objectContaining({ path: 'result.tasks_by_department' }),
+    ])
+    expect(data.raw_response).toBe(JSON.stringify({ result: { tasks: [] } }))
+  })
+})
+
+describe('POST /api/agent upstream resilience', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(global.fetch as any).mockReset()
+    resetCircuitBreakers()
+  })
+
+  afterEach(() => {
+    delete process.env.LYZR_AGENT_TIMEOUTS_MS
+    delete process.env.LYZR_MAX_RETRIES
+    delete process.env.LYZR_BREAKER_FAILURE_THRESHOLD
+  })
+
+  function agentRequest() {
+    return new Request('http://localhost/api/agent', {
+      method: 'POST',
+      body: JSON.stringify({ message: 'Hello AI', agent_id: 'test-agent' }),
+      headers: { 'Content-Type': 'application/json' },
+    }) as any
+  }
+
+  function upstreamStatus(status: number, headers: Record<string, string> = {}) {
+    return new Response('upstream error', { status, headers })
+  }
+
+  function upstreamOk() {
+    return new Response(JSON.stringify({ response: JSON.stringify({ result: 'ok' }) }), { status: 200 })
+  }
+
+  it('retries 429 and 5xx responses before succeeding', async () => {
+    ;(global.fetch as any)
+      .mockResolvedValueOnce(upstreamStatus(429, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(upstreamStatus(503))
+      .mockResolvedValueOnce(upstreamOk())
+
+    const response = await POST(agentRequest())
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.response).toEqual({ result: 'ok' })
+    expect(global.fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not retry client errors', async () => {
+    ;(global.fetch as any).mockResolvedValueOnce(upstreamStatus(401))
+
+    const response = await POST(agentRequest())
+
+    expect(response.status).toBe(401)
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('returns UPSTREAM_TIMEOUT when every attempt times out', async () => {
+    process.env.LYZR_AGENT_TIMEOUTS_MS = 'test-agent=10'
+    process.env.LYZR_MAX_RETRIES = '1'
+    ;(global.fetch as any).mockImplementation((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const error = new Error('The operation was aborted')
+          error.name = 'AbortError'
+          reject(error)
+        })
+      })
+    )
+
+    const response = await POST(agentRequest())
+    const data = await response.json()
+
+    expect(response.status).toBe(504)
+    expect(data.code).toBe('UPSTREAM_TIMEOUT')
+    expect(data.attempts).toBe(2)
+    expect(global.fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('opens the circuit after repeated failures and fails fast', async () => {
+    process.env.LYZR_MAX_RETRIES = '0'
+    process.env.LYZR_BREAKER_FAILURE_THRESHOLD = '2'
+    ;(global.fetch as any).mockRejectedValue(new TypeError('fetch failed'))
+
+    const first = await POST(agentRequest())
+    const second = await POST(agentRequest())
+    const third = await POST(agentRequest())
+    const data = await third.json()
+
+    expect(first.status).toBe(502)
+    expect(second.status).toBe(502)
+    expect(third.status).toBe(503)
+    expect(data.code).toBe('CIRCUIT_OPEN')
+    expect(data.retry_after_ms).toBeGreaterThan(0)
+    expect(global.fetch).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('POST /api/agent mock mode', () => {
+  const taskAgentId = '693068f4d4e9ae41a5a27a55'
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetCircuitBreakers()
+    process.env.LYZR_MOCK_MODE = 'true'
+  })
+
+  afterEach(() => {
+    delete process.env.LYZR_MOCK_MODE
+    delete process.env.LYZR_MOCK_SCENARIO
+  })
+
+  function taskRequest(stream = false) {
+    return new Request('http://localhost/api/agent', {
+      method: 'POST',
+      body: JSON.stringify({
+        message: 'Generate onboarding tasks',
+        agent_id: taskAgentId,
+        context_data: { candidate_name: 'Sarah Johnson', department: 'Engineering', start_date: '2025-01-20' },
+        stream,
+      }),
+      headers: { 'Content-Type': 'application/json' },
+    }) as any
+  }
+
+  it('answers from fixtures without calling the Lyzr API', async () => {
+    const response = await POST(taskRequest())
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.success).toBe(true)
+    expect(data.response.result.tasks_by_department.IT[0]).toMatchObject({
+      task_title: 'Create email account',
+      due_date: '2025-01-15',
+    })
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('recovers malformed fixtures through the parsing strategies', async () => {
+    process.env.LYZR_MOCK_SCENARIO = 'malformed'
+
+    const response = await POST(taskRequest())
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.response.result.tasks_by_department.Engineering).toHaveLength(2)
+  })
+
+  it('reports truncated fixtures as schema violations', async () => {
+    process.env.LYZR_MOCK_SCENARIO = 'truncated'
+
+    const response = await POST(taskRequest())
+    const data = await response.json()
+
+    expect(response.status).toBe(422)
+    expect(data.code).toBe('AGENT_RESPONSE_INVALID')
+  })
+
+  it('streams fixture responses', async () => {
+    const response = await POST(taskRequest(true))
+    const events = (await response.text()).trim().split('\n').map(line => JSON.parse(line))
+
+    expect(events.filter(event => event.type === 'delta').length).toBeGreaterThan(1)
+    expect(events[events.length - 1].type).toBe('done')
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('POST /api/agent PII redaction', () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    dataDir = mkdtempSync(path.join(tmpdir(), 'agent-redaction-'))
+    process.env.ONBOARDING_DATA_DIR = dataDir
+    ;(global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ response: JSON.stringify({ result: { notes: 'SSN [REDACTED_SSN_1] is on the W-4' } }) }),
+    })
+  })
+
+  afterEach(() => {
+    delete process.env.ONBOARDING_DATA_DIR
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('masks PII before the upstream call, restores it in the answer and records the fields', async () => {
+    const request = new Request('http://localhost/api/agent', {
+      method: 'POST',
+      body: JSON.stringify({
+        message: 'Validate these documents',
+        agent_id: 'test-agent',
+        context_data: { documents: [{ document_type: 'Tax Forms', content: 'Social security number: 123-45-6789' }] },
+      }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+
+    const response = await POST(request as any)
+    const data = await response.json()
+
+    const [, init] = (global.fetch as any).mock.calls[0]
+    expect(init.body).not.toContain('123-45-6789')
+    expect(JSON.parse(init.body).message).toContain('Social security number: [REDACTED_SSN_1]')
+
+    expect(data.response).toEqual({ result: { notes: 'SSN 123-45-6789 is on the W-4' } })
+    expect(data.redaction.fields).toEqual([{ path: 'context.documents[0].content', kinds: ['ssn'], count: 1 }])
+
+    const log = JSON.parse(readFileSync(path.join(dataDir, 'redaction_log.json'), 'utf8'))
+    expect(log).toEqual([expect.objectContaining({ id: data.redaction.request_id, agentId: 'test-agent' })])
+    expect(JSON.stringify(log)).not.toContain('123-45-6789')
+  })
+})
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import parseLLMJson from '@/utils/jsonParser'
+import { parseAgentResponse } from '@/utils/agentResponse'
+import { validateContextData } from '@/utils/agentContext'
+import { createAgentEventStream, NDJSON_CONTENT_TYPE } from '@/utils/agentStream'
+import { AGENT_RESPONSE_INVALID, validateAgentResponse } from '@/utils/agentSchemas'
+import { prepareAgentMessage, requestLyzrAgent } from '@/utils/lyzrClient'
+import { isMockMode } from '@/utils/mockAgents'
+import { UpstreamError } from '@/utils/upstream'
 
 /**
  * POST /api/agent
@@ -9,7 +15,39 @@ import parseLLMJson from '@/utils/jsonParser'
  * - API keys stored server-side only (never exposed to client)
  * - Environment variable based configuration
  *
- * PARSING STRATEGIES (Applied in order):
+ * UPSTREAM:
+ * - LYZR_API_URL / LYZR_STREAM_URL select the Lyzr endpoints (e.g. a local stand-in)
+ * - LYZR_MOCK_MODE=true answers from fixture agents in-process (utils/mockAgents.ts)
+ *
+ * CONTEXT DATA:
+ * - Optional `context_data` object (candidate details, documents, channels...)
+ * - Validated (plain JSON object, size-limited) and appended to the message
+ *   as a "CONTEXT DATA (JSON):" block - see utils/agentContext.ts
+ *
+ * PII REDACTION (see utils/redaction.ts):
+ * - SSNs, bank/routing/card numbers, IBANs and passport numbers in the message and
+ *   context_data are replaced by tokens before the upstream call
+ * - The token map stays server-side; tokens quoted in the answer are restored
+ * - The masked fields are recorded per request (redaction_log) and returned as
+ *   `redaction: {request_id, fields: [{path, kinds, count}]}`
+ * - AGENT_PII_REDACTION=off disables it
+ *
+ * STREAMING:
+ * - Send `stream: true` to receive NDJSON instead of a single JSON body
+ * - Events: {type:'delta', text} while the agent writes, then
+ *   {type:'done', response, raw_response, ...} or {type:'error', error}
+ * - Clients parse deltas incrementally with utils/jsonStreamParser.ts
+ *
+ * RESILIENCE (see utils/upstream.ts, configured in utils/agents.ts):
+ * - Per-agent timeouts, exponential retry with jitter on 429/5xx/network errors
+ * - Circuit breaker: after repeated failures requests fail fast with code CIRCUIT_OPEN (503)
+ * - Exhausted timeouts return UPSTREAM_TIMEOUT (504), connection failures UPSTREAM_UNREACHABLE (502)
+ *
+ * RESPONSE CONTRACTS:
+ * - Parsed responses of known agents are validated against utils/agentSchemas.ts
+ * - Mismatches return 422 {success: false, code: 'AGENT_RESPONSE_INVALID', issues, raw_response}
+ *
+ * PARSING STRATEGIES (Applied in order, see utils/agentResponse.ts):
  * 1. Preprocessing: Removes \n, \r, \t escapes and code block markers
  * 2. Direct parse: Fast JSON.parse for well-formed JSON
  * 3. Advanced parse: parseLLMJson with automatic fixes for:
@@ -38,18 +76,18 @@ import parseLLMJson from '@/utils/jsonParser'
  * ✅ {response: "stringified json"}
  * ✅ Plain text without JSON
  *
- * @returns {success, response, raw_response, agent_id, user_id, session_id, timestamp}
+ * @returns {success, response, raw_response, agent_id, user_id, session_id, timestamp, redaction}
  */
 
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-
 // API key from environment variable only - NO hardcoded fallback!
 const LYZR_API_KEY = process.env.LYZR_API_KEY
 
 export async function POST(request: NextRequest) {
   try {
-    // Check API key is configured
-    if (!LYZR_API_KEY) {
+    const mockMode = isMockMode()
+
+    // Check API key is configured (the mock agents don't need one)
+    if (!LYZR_API_KEY && !mockMode) {
       return NextResponse.json(
         {
           success: false,
@@ -60,7 +98,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { message, agent_id, user_id, session_id } = body
+    const { message, agent_id, user_id, session_id, context_data, stream } = body
 
     // Validate required fields
     if (!message || !agent_id) {
@@ -73,107 +111,69 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Call Lyzr API with server-side API key (secure!)
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify({
-        user_id: user_id || `user-${Date.now()}`,
-        agent_id,
-        session_id: session_id || `session-${Date.now()}`,
-        message,
-      }),
+    const contextResult = validateContextData(context_data)
+    if (!contextResult.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid context_data: ${contextResult.error}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const prepared = await prepareAgentMessage(agent_id, message, contextResult.context)
+    const redaction = { request_id: prepared.requestId, fields: prepared.findings }
+
+    // Call Lyzr API with server-side API key (secure!) - see utils/lyzrClient.ts
+    const response = await requestLyzrAgent({
+      agentId: agent_id,
+      message: prepared.message,
+      userId: user_id,
+      sessionId: session_id,
+      stream: Boolean(stream),
     })
 
+    if (response.ok && stream) {
+      return new Response(createAgentEventStream(response, { agent_id, user_id, session_id, redaction }, prepared.restore), {
+        status: 200,
+        headers: {
+          'Content-Type': NDJSON_CONTENT_TYPE,
+          'Cache-Control': 'no-cache, no-transform',
+        },
+      })
+    }
+
     if (response.ok) {
       const data = await response.json()
-
-      // BULLETPROOF JSON PARSING with multiple strategies
-      let parsedResponse = data.response
-
-      if (typeof data.response === 'string') {
-        try {
-          // STRATEGY 1: Clean up common LLM response issues
-          let cleaned = data.response
-
-          // Remove literal \n, \r, \t escape sequences (not actual newlines!)
-          cleaned = cleaned.replace(/\\n/g, '\n')
-          cleaned = cleaned.replace(/\\r/g, '\r')
-          cleaned = cleaned.replace(/\\t/g, '\t')
-
-          // Remove markdown code blocks (```json, ```, etc.)
-          cleaned = cleaned.replace(/^```(?:json|JSON)?\s*\n?/gm, '')
-          cleaned = cleaned.replace(/\n?```\s*$/gm, '')
-
-          // Trim whitespace
-          cleaned = cleaned.trim()
-
-          // STRATEGY 2: Try direct JSON.parse first (fastest)
-          try {
-            const directParse = JSON.parse(cleaned)
-            if (directParse && typeof directParse === 'object') {
-              parsedResponse = directParse
-              console.log('✅ Direct JSON.parse succeeded')
-            }
-          } catch (directError) {
-            // STRATEGY 3: Use advanced parseLLMJson for complex cases
-            console.log('⚙️ Trying advanced parseLLMJson...')
-            const parsed = parseLLMJson(cleaned, {
-              attemptFix: true,
-              maxBlocks: 5,
-              preferFirst: true,
-              allowPartial: false
-            })
-
-            if (parsed && typeof parsed === 'object') {
-              parsedResponse = parsed
-              console.log('✅ parseLLMJson succeeded')
-            } else {
-              // STRATEGY 4: Try extracting JSON from anywhere in the string
-              const jsonMatch = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/)
-              if (jsonMatch) {
-                try {
-                  const extracted = JSON.parse(jsonMatch[0])
-                  if (extracted && typeof extracted === 'object') {
-                    parsedResponse = extracted
-                    console.log('✅ JSON extraction succeeded')
-                  }
-                } catch (extractError) {
-                  // STRATEGY 5: Last resort - use parseLLMJson on extracted portion
-                  const lastResort = parseLLMJson(jsonMatch[0], { attemptFix: true })
-                  if (lastResort && typeof lastResort === 'object') {
-                    parsedResponse = lastResort
-                    console.log('✅ Last resort parsing succeeded')
-                  } else {
-                    console.log('ℹ️ All parsing strategies failed, keeping original response')
-                  }
-                }
-              } else {
-                console.log('ℹ️ No JSON found in response, keeping as-is')
-              }
-            }
-          }
-        } catch (e) {
-          console.error('Error during JSON parsing:', e)
-          // Keep original response on any error
-        }
-      } else if (typeof data.response === 'object' && data.response !== null) {
-        // Already an object, use as-is
-        parsedResponse = data.response
-        console.log('✅ Response already an object')
+      const rawResponse = prepared.restore(data.response)
+
+      const parsedResponse = parseAgentResponse(rawResponse)
+
+      const validation = validateAgentResponse(agent_id, parsedResponse)
+      if (!validation.valid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Agent response did not match the expected schema',
+            code: AGENT_RESPONSE_INVALID,
+            issues: validation.issues,
+            raw_response: rawResponse,
+            agent_id,
+          },
+          { status: 422 }
+        )
       }
 
       return NextResponse.json({
         success: true,
-        response: parsedResponse, // ✅ Bulletproof parsed response!
-        raw_response: data.response, // Keep original for debugging
+        response: validation.data, // ✅ Bulletproof parsed, schema-checked response!
+        raw_response: rawResponse, // Keep original for debugging
         agent_id,
         user_id,
         session_id,
         timestamp: new Date().toISOString(),
+        redaction,
       })
     } else {
       const errorText = await response.text()
@@ -187,6 +187,20 @@ export async function POST(request: NextRequest) {
       )
     }
   } catch (error) {
+    if (error instanceof UpstreamError) {
+      console.error(`AI Agent upstream failure (${error.code}):`, error.message)
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+          attempts: error.attempts,
+          retry_after_ms: error.retryAfterMs,
+        },
+        { status: error.status }
+      )
+    }
+
     console.error('AI Agent API error:', error)
     return NextResponse.json(
       {
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { candidateRepository, emailLogRepository, emailTemplateRepository } from '@/utils/repositories'
+import { renderEmailTemplate } from '@/utils/emailTemplates'
+import { candidateEmailValues, sendCandidateEmail } from '@/utils/outbox'
+
+/**
+ * /api/candidates/:id/emails
+ * Emails sent to the candidate (see utils/outbox.ts)
+ *
+ * GET  - The candidate's email log, newest first
+ * POST - Send an email template: {templateId, sentBy}
+ *        - The template is rendered with the candidate's current values on the server
+ *        - Templates using a variable the candidate has no value for (e.g. no manager yet)
+ *          are not sent: 400 with code MISSING_VARIABLES
+ *        - A transport failure returns 502; it is logged too, so HR can retry
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const sendEmailSchema = z.object({
+  templateId: z.string().trim().min(1, 'templateId is required'),
+  sentBy: z.string().trim().min(1, 'sentBy is required'),
+})
+
+function notFound(message: string) {
+  return NextResponse.json({ success: false, error: message }, { status: 404 })
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Candidate emails API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const candidate = await candidateRepository.get(id)
+    if (!candidate) return notFound(`Candidate ${id} not found`)
+
+    const emails = await emailLogRepository.list({ candidateId: id })
+    emails.sort((a, b) => b.at.localeCompare(a.at))
+    return NextResponse.json({ success: true, data: emails })
+  } catch (error) {
+    return serverError('Failed to load emails', error)
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const parsed = sendEmailSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid email',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'email'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const candidate = await candidateRepository.get(id)
+    if (!candidate) return notFound(`Candidate ${id} not found`)
+
+    const { templateId, sentBy } = parsed.data
+    const template = await emailTemplateRepository.get(templateId)
+    if (!template) return notFound(`Email template ${templateId} not found`)
+
+    const rendered = renderEmailTemplate(template, await candidateEmailValues(candidate))
+    if (rendered.missing.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Email template ${template.name} has no value for some variables for ${candidate.name}`,
+          code: 'MISSING_VARIABLES',
+          details: rendered.missing.map(name => `{{${name}}}`).join(', '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const delivery = await sendCandidateEmail(candidate, {
+      subject: rendered.subject,
+      body: rendered.body,
+      sentBy,
+      purpose: template.purpose,
+      templateId,
+    })
+    if (delivery.status === 'failed') {
+      console.error('Email delivery failed:', delivery.error)
+      return NextResponse.json(
+        { success: false, error: `Failed to send ${template.name} email`, details: delivery.error },
+        { status: 502 }
+      )
+    }
+    return NextResponse.json({ success: true, data: delivery }, { status: 201 })
+  } catch (error) {
+    return serverError('Failed to send email', error)
+  }
+}
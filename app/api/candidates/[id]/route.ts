@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  candidateRepository,
+  chatNotificationRepository,
+  documentRepository,
+  documentRequirementRepository,
+  emailLogRepository,
+  personRepository,
+  reminderJobRepository,
+  taskActivityRepository,
+  taskAttachmentRepository,
+  taskCommentRepository,
+  taskRepository,
+} from '@/utils/repositories'
+import { computeProgress } from '@/utils/progress'
+import { resolveRequiredDocuments } from '@/utils/documentRequirements'
+import { getFileStorage } from '@/utils/fileStorage'
+import type { Candidate } from '@/types'
+
+/**
+ * /api/candidates/:id
+ *
+ * GET    - Fetch one candidate with their progress breakdown and required documents
+ * PATCH  - Update editable fields (name, email, role, department, startDate, employmentType, country,
+ *          managerId - a person from the directory); email must be a valid address
+ *          Stage changes go through POST /api/candidates/:id/transition
+ * DELETE - Remove the candidate together with their tasks (with activity, comments and attachments),
+ *          documents and stored files
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const EDITABLE_FIELDS = ['name', 'email', 'role', 'department', 'startDate', 'employmentType', 'country', 'managerId'] as const
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Candidate ${id} not found` },
+    { status: 404 }
+  )
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Candidates API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const candidate = await candidateRepository.get(id)
+    if (!candidate) return notFound(id)
+
+    const [tasks, documents, rules] = await Promise.all([
+      taskRepository.list({ candidateId: id }),
+      documentRepository.list({ candidateId: id }),
+      documentRequirementRepository.list(),
+    ])
+    const requiredDocuments = resolveRequiredDocuments(candidate, rules)
+    const breakdown = computeProgress(candidate, tasks, documents, requiredDocuments)
+    return NextResponse.json({
+      success: true,
+      data: { ...candidate, progress: breakdown.progress },
+      progress: breakdown,
+      required_documents: requiredDocuments,
+    })
+  } catch (error) {
+    return serverError('Failed to load candidate', error)
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    if (body?.status !== undefined || body?.progress !== undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'status and progress are managed by the workflow',
+          details: `Use POST /api/candidates/${id}/transition to change stage`,
+        },
+        { status: 400 }
+      )
+    }
+
+    if (body?.managerId && !(await personRepository.get(body.managerId))) {
+      return NextResponse.json(
+        { success: false, error: `Manager ${body.managerId} not found` },
+        { status: 400 }
+      )
+    }
+
+    const patch: Partial<Candidate> = {}
+    for (const field of EDITABLE_FIELDS) {
+      if (body?.[field] !== undefined) {
+        (patch as any)[field] = body[field]
+      }
+    }
+
+    if (patch.email !== undefined) {
+      const email = z.email().safeParse(String(patch.email).trim())
+      if (!email.success) {
+        return NextResponse.json(
+          { success: false, error: 'email must be an email address' },
+          { status: 400 }
+        )
+      }
+      patch.email = email.data
+    }
+
+    const candidate = await candidateRepository.update(id, patch)
+    return candidate ? NextResponse.json({ success: true, data: candidate }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to update candidate', error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const removed = await candidateRepository.remove(id)
+    if (!removed) return notFound(id)
+
+    const documents = await documentRepository.list({ candidateId: id })
+    const attachments = await taskAttachmentRepository.list({ candidateId: id })
+    await taskRepository.removeWhere({ candidateId: id })
+    await taskActivityRepository.removeWhere({ candidateId: id })
+    await taskCommentRepository.removeWhere({ candidateId: id })
+    await taskAttachmentRepository.removeWhere({ candidateId: id })
+    await documentRepository.removeWhere({ candidateId: id })
+    await emailLogRepository.removeWhere({ candidateId: id })
+    await reminderJobRepository.removeWhere({ candidateId: id })
+    await chatNotificationRepository.removeWhere({ candidateId: id })
+
+    const storage = getFileStorage()
+    for (const document of documents) {
+      if (document.storageKey) await storage.remove(document.storageKey)
+    }
+    for (const attachment of attachments) {
+      await storage.remove(attachment.storageKey)
+    }
+
+    return NextResponse.json({ success: true, data: { id } })
+  } catch (error) {
+    return serverError('Failed to delete candidate', error)
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { candidateRepository, taskActivityRepository, taskRepository } from '@/utils/repositories'
+import { scheduleTasks } from '@/utils/taskDependencies'
+import { describeTaskChanges } from '@/utils/taskActivity'
+import type { OnboardingTask } from '@/types'
+
+/**
+ * POST /api/candidates/:id/schedule
+ * Back-schedule the due dates of a candidate's tasks from their start date (see utils/taskDependencies.ts)
+ *
+ * - Prerequisites are moved to finish in time for the tasks that depend on them
+ * - Completed tasks keep their due dates
+ * - Body (optional): { actor } - recorded in the activity history of every task that moved
+ *
+ * @returns {success, data: {tasks, criticalPath}} or {success: false, error, details}
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json().catch(() => null)
+    const actor = typeof body?.actor === 'string' && body.actor.trim() ? body.actor.trim() : 'Unknown'
+
+    const candidate = await candidateRepository.get(id)
+    if (!candidate) {
+      return NextResponse.json(
+        { success: false, error: `Candidate ${id} not found` },
+        { status: 404 }
+      )
+    }
+    if (!candidate.startDate) {
+      return NextResponse.json(
+        { success: false, error: `Candidate ${id} has no start date to schedule from` },
+        { status: 400 }
+      )
+    }
+
+    const tasks = await taskRepository.list({ candidateId: id })
+    const { dueDates, criticalPath } = scheduleTasks(tasks, candidate.startDate)
+
+    const scheduled: OnboardingTask[] = []
+    for (const task of tasks) {
+      const dueDate = dueDates[task.id]
+      if (task.status === 'completed' || dueDate === task.dueDate) {
+        scheduled.push(task)
+        continue
+      }
+
+      const moved = (await taskRepository.update(task.id, { dueDate, escalatedAt: undefined, escalatedTo: undefined }))!
+      for (const change of describeTaskChanges(task, moved, actor)) {
+        await taskActivityRepository.create(change)
+      }
+      scheduled.push(moved)
+    }
+
+    return NextResponse.json({ success: true, data: { tasks: scheduled, criticalPath } })
+  } catch (error) {
+    console.error('Task scheduling error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to schedule tasks',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
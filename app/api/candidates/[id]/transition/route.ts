@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { candidateRepository, documentRepository, documentRequirementRepository, taskRepository } from '@/utils/repositories'
+import { computeProgress } from '@/utils/progress'
+import { resolveRequiredDocuments } from '@/utils/documentRequirements'
+import { getCandidateWorkflow, planTransition, WorkflowError } from '@/utils/workflow'
+
+/**
+ * POST /api/candidates/:id/transition
+ * Move a candidate to another stage of their workflow (see utils/workflow.ts)
+ *
+ * Body: { to: string }
+ * - Only transitions the workflow allows are accepted; anything else returns
+ *   409 {success: false, code: 'INVALID_TRANSITION', allowed: [...]}
+ * - Progress is recomputed from the new stage, tasks and documents (utils/progress.ts)
+ * - Entry/exit actions are run by the caller before committing the stage; a stage that sends
+ *   the welcome email needs it sent first (POST /api/candidates/:id/welcome-email), else
+ *   409 {code: 'WELCOME_EMAIL_NOT_SENT'}
+ *
+ * @returns {success, data: Candidate, actions} or {success: false, error, details}
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    if (!body?.to || typeof body.to !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Target stage "to" is required' },
+        { status: 400 }
+      )
+    }
+
+    const candidate = await candidateRepository.get(id)
+    if (!candidate) {
+      return NextResponse.json(
+        { success: false, error: `Candidate ${id} not found` },
+        { status: 404 }
+      )
+    }
+
+    const workflow = getCandidateWorkflow(candidate)
+    const plan = planTransition(workflow, candidate.status, body.to)
+
+    const sendsWelcomeEmail = plan.actions.some(action => action.agent === 'welcomeEmail')
+    if (sendsWelcomeEmail && candidate.welcomeEmail?.status !== 'sent') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Send ${candidate.name} their welcome email before moving them to ${plan.to}`,
+          code: 'WELCOME_EMAIL_NOT_SENT',
+        },
+        { status: 409 }
+      )
+    }
+
+    const [tasks, documents, rules] = await Promise.all([
+      taskRepository.list({ candidateId: id }),
+      documentRepository.list({ candidateId: id }),
+      documentRequirementRepository.list(),
+    ])
+    const next = { ...candidate, status: plan.to, workflowId: workflow.id }
+
+    const updated = await candidateRepository.update(id, {
+      status: plan.to,
+      progress: computeProgress(next, tasks, documents, resolveRequiredDocuments(next, rules)).progress,
+      workflowId: workflow.id,
+    })
+
+    return NextResponse.json({ success: true, data: updated, actions: plan.actions })
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+          allowed: error.allowed,
+        },
+        { status: 409 }
+      )
+    }
+
+    console.error('Candidate transition error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to change candidate stage',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
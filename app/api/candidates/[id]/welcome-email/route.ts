@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { candidateRepository } from '@/utils/repositories'
+import { sendCandidateEmail } from '@/utils/outbox'
+
+/**
+ * POST /api/candidates/:id/welcome-email
+ * Send the welcome email HR reviewed to the candidate (see utils/mailTransport.ts)
+ *
+ * Body: { subject, body, sentBy } - usually the welcome email agent's draft, edited by HR
+ * - The delivery (message id, or the error) is recorded on the candidate as welcomeEmail;
+ *   the candidate can only enter the welcome stage once it was sent
+ * - A transport failure returns 502 and is recorded too, so HR can retry
+ * - Every attempt is also kept in the candidate's email log (GET /api/candidates/:id/emails)
+ *
+ * @returns {success, data: {candidate, delivery}} or {success: false, error, details}
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const welcomeEmailSchema = z.object({
+  subject: z.string().trim().min(1, 'subject is required').max(300),
+  body: z.string().trim().min(1, 'body is required'),
+  sentBy: z.string().trim().min(1, 'sentBy is required'),
+})
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const parsed = welcomeEmailSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid welcome email',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'email'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const candidate = await candidateRepository.get(id)
+    if (!candidate) {
+      return NextResponse.json(
+        { success: false, error: `Candidate ${id} not found` },
+        { status: 404 }
+      )
+    }
+
+    const { subject, body, sentBy } = parsed.data
+    const delivery = await sendCandidateEmail(candidate, { subject, body, sentBy, purpose: 'welcome' })
+    const updated = (await candidateRepository.update(id, { welcomeEmail: delivery }))!
+    if (delivery.status === 'failed') {
+      console.error('Welcome email delivery failed:', delivery.error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to send welcome email', details: delivery.error },
+        { status: 502 }
+      )
+    }
+    return NextResponse.json({ success: true, data: { candidate: updated, delivery } })
+  } catch (error) {
+    console.error('Welcome email error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to send welcome email',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,156 @@
+import { randomUUID } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  candidateRepository,
+  documentRepository,
+  documentRequirementRepository,
+  personRepository,
+  taskRepository,
+  taskTemplateRepository,
+  teamRepository,
+} from '@/utils/repositories'
+import { withProgress } from '@/utils/progress'
+import { EMPLOYMENT_TYPES } from '@/utils/documentRequirements'
+import { linkAssignees } from '@/utils/directory'
+import { resolveDependencyReferences } from '@/utils/taskDependencies'
+import { instantiateTaskTemplate, selectTaskTemplate } from '@/utils/taskTemplates'
+import { resolveWorkflow } from '@/utils/workflow'
+
+/**
+ * /api/candidates
+ * Onboarding candidates persisted in the server-side store
+ *
+ * GET  - List all candidates (progress computed from their tasks and documents)
+ * POST - Create a candidate on their department's workflow (starts in its initial stage with 0% progress)
+ *        email must be a valid address (it is used as the recipient of their emails)
+ *        Optional employmentType (full_time, part_time, contractor, intern) and country select
+ *        their required documents
+ *        Their tasks are created from the best-matching task template, or from taskTemplateId
+ *        (see utils/taskTemplates.ts), and assigned to people in the directory (utils/directory.ts)
+ *        managerId defaults to the lead of the team of their department
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+const REQUIRED_FIELDS = ['name', 'email', 'role', 'department', 'startDate'] as const
+
+export async function GET() {
+  try {
+    const [candidates, tasks, documents, rules] = await Promise.all([
+      candidateRepository.list(),
+      taskRepository.list(),
+      documentRepository.list(),
+      documentRequirementRepository.list(),
+    ])
+    return NextResponse.json({ success: true, data: withProgress(candidates, tasks, documents, rules) })
+  } catch (error) {
+    console.error('Candidates API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load candidates',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const missing = REQUIRED_FIELDS.filter(field => !body?.[field])
+    if (missing.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Missing required fields: ${missing.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const email = z.email().safeParse(String(body.email).trim())
+    if (!email.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'email must be an email address',
+        },
+        { status: 400 }
+      )
+    }
+
+    if (body.employmentType && !EMPLOYMENT_TYPES.includes(body.employmentType)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `employmentType must be one of: ${EMPLOYMENT_TYPES.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const templates = await taskTemplateRepository.list()
+    const template = body.taskTemplateId
+      ? templates.find(t => t.id === body.taskTemplateId)
+      : selectTaskTemplate(templates, body)
+    if (body.taskTemplateId && !template) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Task template ${body.taskTemplateId} not found`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const [people, teams] = await Promise.all([personRepository.list(), teamRepository.list()])
+    if (body.managerId && !people.some(person => person.id === body.managerId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Manager ${body.managerId} not found`,
+        },
+        { status: 400 }
+      )
+    }
+    const managerId = body.managerId || teams.find(team => team.department.toLowerCase() === String(body.department).toLowerCase())?.leadId
+
+    const workflow = resolveWorkflow(body.department)
+    const candidate = await candidateRepository.create({
+      name: body.name,
+      email: email.data,
+      role: body.role,
+      department: body.department,
+      startDate: body.startDate,
+      status: workflow.initialStage,
+      progress: 0,
+      workflowId: workflow.id,
+      employmentType: body.employmentType || 'full_time',
+      country: body.country ? String(body.country).toUpperCase() : undefined,
+      taskTemplateId: template?.id,
+      managerId,
+    })
+
+    if (template) {
+      const drafts = instantiateTaskTemplate(template, candidate).map(task => ({ id: randomUUID(), ...task }))
+      const linked = linkAssignees(resolveDependencyReferences(drafts, drafts), { people, teams }, managerId)
+      await taskRepository.createMany(linked)
+    }
+
+    return NextResponse.json({ success: true, data: candidate }, { status: 201 })
+  } catch (error) {
+    console.error('Candidates API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create candidate',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { channelMappingRepository } from '@/utils/repositories'
+import { channelMappingSchema, findChannelMapping, toChannelMappingView } from '@/utils/taskChannels'
+
+/**
+ * /api/channel-mappings/:id
+ *
+ * PATCH  - Update a mapping (the merged mapping is validated like a new one); leave out
+ *          webhookUrl to keep the current one, '' to use the default webhook again
+ * DELETE - Remove a mapping (the department's tasks are no longer posted)
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Channel mapping ${id} not found` },
+    { status: 404 }
+  )
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Channel mappings API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    const existing = await channelMappingRepository.get(id)
+    if (!existing) return notFound(id)
+
+    const { id: _ignored, ...current } = existing
+    const parsed = channelMappingSchema.safeParse({ ...current, ...body })
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid channel mapping',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'mapping'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const others = (await channelMappingRepository.list()).filter(mapping => mapping.id !== id)
+    const duplicate = findChannelMapping(parsed.data.department, others)
+    if (duplicate) {
+      return NextResponse.json(
+        { success: false, error: `${parsed.data.department} already posts to ${duplicate.channel}` },
+        { status: 409 }
+      )
+    }
+
+    // webhookUrl cleared with '' parses to undefined, which drops it from the stored mapping
+    const mapping = await channelMappingRepository.update(id, parsed.data)
+    return mapping ? NextResponse.json({ success: true, data: toChannelMappingView(mapping) }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to update channel mapping', error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const removed = await channelMappingRepository.remove(id)
+    return removed ? NextResponse.json({ success: true, data: { id } }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to delete channel mapping', error)
+  }
+}
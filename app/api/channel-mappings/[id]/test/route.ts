@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { channelMappingRepository } from '@/utils/repositories'
+import { postChatMessage } from '@/utils/chatWebhook'
+import { escapeChatText } from '@/utils/taskChannels'
+
+/**
+ * POST /api/channel-mappings/:id/test
+ * Post a test message to the mapping's channel, to check its webhook
+ *
+ * Body: { actor?: string } - named in the message
+ * - No webhook (neither on the mapping nor CHAT_WEBHOOK_URL) returns 400
+ * - A rejected or unreachable webhook returns 502
+ *
+ * @returns {success, data: {channel}} or {success: false, error, details}
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json().catch(() => ({}))
+    const actor = typeof body?.actor === 'string' && body.actor.trim() ? body.actor.trim() : 'HR'
+
+    const mapping = await channelMappingRepository.get(id)
+    if (!mapping) {
+      return NextResponse.json(
+        { success: false, error: `Channel mapping ${id} not found` },
+        { status: 404 }
+      )
+    }
+
+    const webhookUrl = mapping.webhookUrl || process.env.CHAT_WEBHOOK_URL
+    if (!webhookUrl) {
+      return NextResponse.json(
+        { success: false, error: `No webhook for ${mapping.channel}: set one on the mapping or CHAT_WEBHOOK_URL` },
+        { status: 400 }
+      )
+    }
+
+    const text = escapeChatText(`Test message from the onboarding app, sent by ${actor}: ${mapping.department} tasks will be posted here.`)
+    try {
+      await postChatMessage(webhookUrl, { channel: mapping.channel, text, blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }] })
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: `Test message to ${mapping.channel} failed`, details: error instanceof Error ? error.message : String(error) },
+        { status: 502 }
+      )
+    }
+    return NextResponse.json({ success: true, data: { channel: mapping.channel } })
+  } catch (error) {
+    console.error('Channel test error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to send test message',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
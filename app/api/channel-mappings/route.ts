@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { channelMappingRepository } from '@/utils/repositories'
+import { channelMappingSchema, findChannelMapping, toChannelMappingView } from '@/utils/taskChannels'
+
+/**
+ * /api/channel-mappings
+ * Chat channel per department that new tasks are posted to (see utils/taskChannels.ts)
+ *
+ * GET  - List all mappings (webhook URLs are not returned, only webhookConfigured)
+ * POST - Add a mapping: {department, channel, webhookUrl?}; one mapping per department (409)
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+export async function GET() {
+  try {
+    const mappings = await channelMappingRepository.list()
+    return NextResponse.json({ success: true, data: mappings.map(toChannelMappingView) })
+  } catch (error) {
+    console.error('Channel mappings API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load channel mappings',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const parsed = channelMappingSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid channel mapping',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'mapping'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const existing = findChannelMapping(parsed.data.department, await channelMappingRepository.list())
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: `${parsed.data.department} already posts to ${existing.channel}` },
+        { status: 409 }
+      )
+    }
+
+    const mapping = await channelMappingRepository.create(parsed.data)
+    return NextResponse.json({ success: true, data: toChannelMappingView(mapping) }, { status: 201 })
+  } catch (error) {
+    console.error('Channel mappings API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create channel mapping',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { candidateRepository, chatNotificationRepository, taskRepository } from '@/utils/repositories'
+import { notifyTaskChannels } from '@/utils/chatWebhook'
+import type { ChannelNotificationResult } from '@/utils/taskChannels'
+
+/**
+ * /api/chat-notifications
+ * Posts of new tasks to their departments' chat channels (see utils/chatWebhook.ts)
+ *
+ * GET  - Posts made, newest first (?candidateId= to filter)
+ * POST - Post tasks to their channels: {taskIds: string[]}, e.g. right after generating them
+ *        - One message per candidate and channel; departments without a mapping or webhook
+ *          are reported as skipped
+ *        - A failed post (after retries) is reported per channel; the request still succeeds
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+function serverError(message: string, error: unknown) {
+  console.error('Chat notifications API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const candidateId = request.nextUrl.searchParams.get('candidateId')
+    const notifications = await chatNotificationRepository.list(candidateId ? { candidateId } : undefined)
+    notifications.sort((a, b) => b.at.localeCompare(a.at))
+    return NextResponse.json({ success: true, data: notifications })
+  } catch (error) {
+    return serverError('Failed to load chat notifications', error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const taskIds: unknown[] = Array.isArray(body?.taskIds) ? body.taskIds : []
+    if (taskIds.length === 0 || taskIds.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'taskIds (a non-empty list of task ids) is required' },
+        { status: 400 }
+      )
+    }
+
+    const wanted = new Set(taskIds as string[])
+    const tasks = await taskRepository.list(task => wanted.has(task.id))
+    const missing = Array.from(wanted).filter(id => !tasks.some(task => task.id === id))
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Some tasks were not found', details: missing.join(', ') },
+        { status: 404 }
+      )
+    }
+
+    const results: ChannelNotificationResult[] = []
+    for (const candidateId of Array.from(new Set(tasks.map(task => task.candidateId)))) {
+      const candidate = await candidateRepository.get(candidateId)
+      if (!candidate) continue
+      results.push(...(await notifyTaskChannels(candidate, tasks.filter(task => task.candidateId === candidateId))))
+    }
+    return NextResponse.json({ success: true, data: results })
+  } catch (error) {
+    return serverError('Failed to post tasks to chat', error)
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { documentRequirementRepository } from '@/utils/repositories'
+import { documentRequirementRuleSchema } from '@/utils/documentRequirements'
+
+/**
+ * /api/document-requirements/:id
+ *
+ * PATCH  - Update a rule (the merged rule is validated like a new one)
+ * DELETE - Remove a rule
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Requirement rule ${id} not found` },
+    { status: 404 }
+  )
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Document requirements API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    const existing = await documentRequirementRepository.get(id)
+    if (!existing) return notFound(id)
+
+    const { id: _ignored, ...current } = existing
+    const parsed = documentRequirementRuleSchema.safeParse({ ...current, ...body })
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid requirement rule',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'rule'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    // Criteria cleared with '' parse to undefined, which drops them from the stored rule
+    const rule = await documentRequirementRepository.update(id, parsed.data)
+    return rule ? NextResponse.json({ success: true, data: rule }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to update requirement rule', error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const removed = await documentRequirementRepository.remove(id)
+    return removed ? NextResponse.json({ success: true, data: { id } }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to delete requirement rule', error)
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { documentRequirementRepository } from '@/utils/repositories'
+import { documentRequirementRuleSchema } from '@/utils/documentRequirements'
+
+/**
+ * /api/document-requirements
+ * The required-documents matrix (see utils/documentRequirements.ts)
+ *
+ * GET  - List all rules
+ * POST - Add a rule: {name, role?, department?, employmentType?, country?, require: [], waive: []}
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+export async function GET() {
+  try {
+    const rules = await documentRequirementRepository.list()
+    return NextResponse.json({ success: true, data: rules })
+  } catch (error) {
+    console.error('Document requirements API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load document requirements',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const parsed = documentRequirementRuleSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid requirement rule',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'rule'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const rule = await documentRequirementRepository.create(parsed.data)
+    return NextResponse.json({ success: true, data: rule }, { status: 201 })
+  } catch (error) {
+    console.error('Document requirements API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create requirement rule',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
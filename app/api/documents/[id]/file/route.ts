@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { documentRepository } from '@/utils/repositories'
+import { getFileStorage } from '@/utils/fileStorage'
+
+/**
+ * GET /api/documents/:id/file
+ * Download the stored bytes of an uploaded document
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const document = await documentRepository.get(id)
+    const bytes = document?.storageKey ? await getFileStorage().get(document.storageKey) : null
+
+    if (!document || !bytes) {
+      return NextResponse.json(
+        { success: false, error: `No stored file for document ${id}` },
+        { status: 404 }
+      )
+    }
+
+    return new Response(new Uint8Array(bytes), {
+      headers: {
+        'Content-Type': document.mimeType || 'application/octet-stream',
+        'Content-Length': String(bytes.length),
+        'Content-Disposition': `attachment; filename="${document.filename.replace(/["\\\r\n]/g, '_')}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Document download error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to read document file',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { documentRepository } from '@/utils/repositories'
+import { documentReviewSchema, groupDocumentSlots } from '@/utils/documentVersions'
+import type { Document } from '@/types'
+
+/**
+ * POST /api/documents/:id/review
+ * Record a review of the current version of a document slot (see utils/documentVersions.ts)
+ *
+ * Body: {decision: 'valid' | 'invalid', reviewer, reason?, comments?, validation?, requestResubmission?}
+ * - reason is required when rejecting
+ * - validation holds the validation agent's output when an agent reviewed the document
+ * - a rejection asks the candidate to resubmit the slot unless requestResubmission is false
+ *
+ * @returns {success, data: Document} - 409 when the document has been superseded by a newer version
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    const parsed = documentReviewSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid review',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'review'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const document = await documentRepository.get(id)
+    if (!document) {
+      return NextResponse.json({ success: false, error: `Document ${id} not found` }, { status: 404 })
+    }
+
+    const slot = groupDocumentSlots(await documentRepository.list({ candidateId: document.candidateId, type: document.type }))[0]
+    if (slot.current.id !== id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Document ${id} has been superseded by version ${slot.current.version ?? slot.versions.length}`,
+          details: slot.current.id,
+        },
+        { status: 409 }
+      )
+    }
+
+    const { decision, reviewer, reason, comments, validation, requestResubmission } = parsed.data
+    const now = new Date().toISOString()
+    const patch: Partial<Document> = {
+      status: decision,
+      review: { reviewer, reviewedAt: now, decision, reason, comments, validation },
+      resubmissionRequestedAt: decision === 'invalid' && requestResubmission !== false ? now : undefined,
+    }
+
+    const updated = await documentRepository.update(id, patch)
+    return NextResponse.json({ success: true, data: updated })
+  } catch (error) {
+    console.error('Document review error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to record document review',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { documentRepository, documentRequirementRepository } from '@/utils/repositories'
+import { knownDocumentTypes } from '@/utils/documentRequirements'
+import { OTHER_DOCUMENT_TYPE } from '@/utils/documentClassifier'
+import { getFileStorage } from '@/utils/fileStorage'
+import { nextVersion } from '@/utils/documentVersions'
+import type { Document } from '@/types'
+
+/**
+ * /api/documents/:id
+ *
+ * PATCH  - Update editable fields (type, expiryDate); a type or expiry date set here is
+ *          recorded as a manual override, expiryDate null clears it. The type must be one the
+ *          requirement rules know, or 'Other'. A new type moves the document to the end of that
+ *          type's version history. Status changes are reviews and go through /review (400 here).
+ * DELETE - Remove the document and its stored file
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const EDITABLE_FIELDS = ['type'] as const
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Document ${id} not found` },
+    { status: 404 }
+  )
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Documents API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    if (body?.status !== undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'status is set by reviews',
+          details: `Use POST /api/documents/${id}/review to validate or reject the document`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const patch: Partial<Document> = {}
+    for (const field of EDITABLE_FIELDS) {
+      if (body?.[field] !== undefined) {
+        (patch as any)[field] = body[field]
+      }
+    }
+
+    if (patch.type !== undefined) {
+      const types = [...knownDocumentTypes(await documentRequirementRepository.list()), OTHER_DOCUMENT_TYPE]
+      const type = typeof patch.type === 'string' ? types.find(known => known.toLowerCase() === patch.type!.trim().toLowerCase()) : undefined
+      if (!type) {
+        return NextResponse.json(
+          { success: false, error: `Unknown document type ${JSON.stringify(patch.type)}`, details: `Known types: ${types.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      patch.type = type
+      patch.typeSource = 'manual'
+      patch.typeConfidence = 1
+
+      const existing = await documentRepository.get(id)
+      if (!existing) return notFound(id)
+      if (existing.type !== patch.type) {
+        const siblings = await documentRepository.list({ candidateId: existing.candidateId })
+        patch.version = nextVersion(siblings, existing.candidateId, patch.type)
+      }
+    }
+
+    if (body?.expiryDate !== undefined) {
+      if (body.expiryDate !== null && !isIsoDate(body.expiryDate)) {
+        return NextResponse.json(
+          { success: false, error: 'expiryDate must be a YYYY-MM-DD date or null' },
+          { status: 400 }
+        )
+      }
+      // A new date starts the renewal windows over
+      patch.expiryDate = body.expiryDate ?? undefined
+      patch.expirySource = body.expiryDate ? 'manual' : undefined
+      patch.expiryFlag = undefined
+    }
+
+    const document = await documentRepository.update(id, patch)
+    return document ? NextResponse.json({ success: true, data: document }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to update document', error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const document = await documentRepository.get(id)
+    if (!document || !(await documentRepository.remove(id))) return notFound(id)
+
+    if (document.storageKey) {
+      await getFileStorage().remove(document.storageKey)
+    }
+    return NextResponse.json({ success: true, data: { id } })
+  } catch (error) {
+    return serverError('Failed to delete document', error)
+  }
+}
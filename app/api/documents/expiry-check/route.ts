@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listExpiringDocuments, runExpiryCheck } from '@/utils/expiryChecker'
+
+/**
+ * /api/documents/expiry-check
+ * Renewal tracking for documents with an expiry date (see utils/documentExpiry.ts)
+ *
+ * GET  - Expired and expiring documents (current versions only), soonest first (read-only)
+ * POST - Run the checker (utils/expiryChecker.ts): record the renewal window each document has
+ *        reached, email its candidate for a renewed copy and return the ones flagged by this
+ *        run. Repeated runs flag each window only once. Call it daily from a cron job, or set
+ *        REMINDER_SCHEDULE to run it in-process with the reminders.
+ *
+ * When CRON_SECRET is set, POST requires `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @returns {success, data: {windows, documents: [{document_id, candidate_id, candidate_name, type, expiry_date, state, days_left, window}]}}
+ *          (POST also returns `expiring`, the number of expired and expiring documents, and
+ *          lists only the newly flagged ones, each with the `email_status` of its renewal request)
+ */
+
+function serverError(message: string, error: unknown) {
+  console.error('Document expiry check error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, data: await listExpiringDocuments() })
+  } catch (error) {
+    return serverError('Failed to list expiring documents', error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({ success: true, data: await runExpiryCheck() })
+  } catch (error) {
+    return serverError('Failed to run the document expiry check', error)
+  }
+}
@@ -0,0 +1,49 @@
+import { POST } from './route'
+import { documentRepository } from '@/utils/repositories'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+function record(body: object) {
+  const request = new NextRequest('http://localhost/api/documents', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+  return POST(request)
+}
+
+// Runs against the seed data: candidate 1 is Sarah Johnson
+describe('POST /api/documents', () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), 'onboarding-documents-'))
+    process.env.ONBOARDING_DATA_DIR = dataDir
+  })
+
+  afterEach(() => {
+    delete process.env.ONBOARDING_DATA_DIR
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('records the document as pending for an existing candidate', async () => {
+    const response = await record({ candidateId: '1', type: 'Tax Forms', filename: 'w4.pdf' })
+    const { data } = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(data).toMatchObject({ candidateId: '1', type: 'Tax Forms', status: 'pending' })
+  })
+
+  it('returns 404 for unknown candidates and records nothing', async () => {
+    const before = await documentRepository.list()
+
+    const response = await record({ candidateId: 'missing', type: 'Tax Forms', filename: 'w4.pdf' })
+
+    expect(response.status).toBe(404)
+    expect((await response.json()).error).toBe('Candidate missing not found')
+    expect(await documentRepository.list()).toEqual(before)
+  })
+})
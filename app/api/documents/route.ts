@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { candidateRepository, documentRepository } from '@/utils/repositories'
+import { nextVersion } from '@/utils/documentVersions'
+
+/**
+ * /api/documents
+ * Candidate documents persisted in the server-side store
+ *
+ * GET  - List documents (every version), optionally filtered with ?candidate_id=
+ * POST - Record an uploaded document for a candidate, as the next version of its slot
+ *        (404 when the candidate does not exist)
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+const REQUIRED_FIELDS = ['candidateId', 'type', 'filename'] as const
+
+export async function GET(request: NextRequest) {
+  try {
+    const candidateId = request.nextUrl.searchParams.get('candidate_id') || undefined
+    const documents = await documentRepository.list({ candidateId })
+    return NextResponse.json({ success: true, data: documents })
+  } catch (error) {
+    console.error('Documents API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load documents',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const missing = REQUIRED_FIELDS.filter(field => !body?.[field])
+    if (missing.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Missing required fields: ${missing.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!(await candidateRepository.get(body.candidateId))) {
+      return NextResponse.json(
+        { success: false, error: `Candidate ${body.candidateId} not found` },
+        { status: 404 }
+      )
+    }
+
+    const existing = await documentRepository.list({ candidateId: body.candidateId })
+    const document = await documentRepository.create({
+      candidateId: body.candidateId,
+      type: body.type,
+      filename: body.filename,
+      uploadDate: body.uploadDate || new Date().toISOString().split('T')[0],
+      status: 'pending',
+      version: nextVersion(existing, body.candidateId, body.type),
+    })
+
+    return NextResponse.json({ success: true, data: document }, { status: 201 })
+  } catch (error) {
+    console.error('Documents API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create document',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
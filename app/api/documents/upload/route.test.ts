@@ -0,0 +1,49 @@
+import { POST } from './route'
+import { documentRepository } from '@/utils/repositories'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+async function upload(text: string) {
+  const form = new FormData()
+  form.append('candidateId', '1')
+  form.append('type', 'Tax Forms')
+  form.append('file', new File([text], 'w4.txt', { type: 'text/plain' }))
+  const response = await POST(new NextRequest('http://localhost/api/documents/upload', { method: 'POST', body: form }))
+  return { status: response.status, documents: (await response.json()).data }
+}
+
+// Runs against the seed data: candidate 1 is Sarah Johnson
+describe('POST /api/documents/upload', () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), 'onboarding-upload-'))
+    process.env.ONBOARDING_DATA_DIR = dataDir
+  })
+
+  afterEach(() => {
+    delete process.env.ONBOARDING_DATA_DIR
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('returns the existing document when the same bytes are uploaded again', async () => {
+    const first = await upload('Form W-4 for Sarah Johnson')
+    const again = await upload('Form W-4 for Sarah Johnson')
+
+    expect(first.status).toBe(201)
+    expect(again.documents).toEqual(first.documents)
+  })
+
+  it('stores a rejected file uploaded again as a new version for review', async () => {
+    const [rejected] = (await upload('Form W-4 for Sarah Johnson')).documents
+    await documentRepository.update(rejected.id, { status: 'invalid' })
+
+    const [resubmitted] = (await upload('Form W-4 for Sarah Johnson')).documents
+
+    expect(resubmitted.id).not.toBe(rejected.id)
+    expect(resubmitted).toMatchObject({ status: 'pending', version: rejected.version + 1 })
+  })
+})
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { candidateRepository, documentRepository, documentRequirementRepository } from '@/utils/repositories'
+import { ALLOWED_UPLOAD_MIME_TYPES, buildStorageKey, getFileStorage, maxUploadBytes, sha256Hex } from '@/utils/fileStorage'
+import { detectMimeType, extractText } from '@/utils/textExtraction'
+import { classifyDocument, type ClassifierAgent, type DocumentClassification } from '@/utils/documentClassifier'
+import { askLyzrAgent } from '@/utils/lyzrClient'
+import { resolveRequiredDocuments } from '@/utils/documentRequirements'
+import { extractExpiryDate } from '@/utils/documentExpiry'
+import { currentVersions, nextVersion } from '@/utils/documentVersions'
+import type { Document } from '@/types'
+
+/**
+ * POST /api/documents/upload
+ * Store uploaded document files and record them for a candidate
+ *
+ * Body (multipart/form-data):
+ * - candidateId - owner of the documents
+ * - type        - document type for every file (optional - classified per file when omitted)
+ * - file        - one or more files
+ *
+ * PROCESSING:
+ * - Size limit per file: ONBOARDING_MAX_UPLOAD_BYTES (default 10 MB) - 413 when exceeded
+ * - MIME type sniffed from the bytes (PDF, DOCX, text, JSON, PNG, JPEG) - 415 otherwise
+ * - SHA-256 recorded; re-uploading identical bytes for a candidate returns the existing document,
+ *   unless that version was rejected or replaced (then it is stored as a new version for review)
+ * - Bytes kept in the configured storage (utils/fileStorage.ts), text extracted for the
+ *   validation agent (utils/textExtraction.ts)
+ * - Type guessed from the text and filename among the candidate's required documents
+ *   (utils/documentClassifier.ts, utils/documentRequirements.ts); set
+ *   DOCUMENT_CLASSIFIER_AGENT_ID to let an agent decide the uncertain ones
+ * - Expiry date read from the text when one is printed (utils/documentExpiry.ts)
+ * - Stored as the next version of the candidate's slot for that type (utils/documentVersions.ts)
+ *
+ * @returns {success, data: Document[]} or {success: false, error, details}
+ */
+
+function classifierAgent(): ClassifierAgent | undefined {
+  const agentId = process.env.DOCUMENT_CLASSIFIER_AGENT_ID
+  return agentId ? (message, context) => askLyzrAgent(agentId, message, context) : undefined
+}
+
+function badRequest(status: number, error: string, details?: string) {
+  return NextResponse.json({ success: false, error, details }, { status })
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData().catch(() => null)
+    if (!form) {
+      return badRequest(400, 'Expected a multipart/form-data body')
+    }
+
+    const candidateId = String(form.get('candidateId') || '')
+    const type = form.get('type') ? String(form.get('type')) : null
+    const files = form.getAll('file').filter((entry): entry is File => typeof entry !== 'string')
+
+    if (!candidateId || files.length === 0) {
+      return badRequest(400, 'candidateId and at least one file are required')
+    }
+    const candidate = await candidateRepository.get(candidateId)
+    if (!candidate) {
+      return badRequest(404, `Candidate ${candidateId} not found`)
+    }
+
+    // Check every file before storing any of them
+    const limit = maxUploadBytes()
+    const uploads: { file: File; bytes: Buffer; mimeType: string; sha256: string }[] = []
+    for (const file of files) {
+      if (file.size > limit) {
+        return badRequest(413, `${file.name} is larger than the ${limit} byte upload limit`)
+      }
+
+      const bytes = Buffer.from(await file.arrayBuffer())
+      const mimeType = detectMimeType(bytes, file.name, file.type)
+      if (!ALLOWED_UPLOAD_MIME_TYPES.includes(mimeType)) {
+        return badRequest(415, `${file.name} has an unsupported file type`, mimeType)
+      }
+
+      uploads.push({ file, bytes, mimeType, sha256: sha256Hex(bytes) })
+    }
+
+    const storage = getFileStorage()
+    const existing = await documentRepository.list({ candidateId })
+    const documentTypes = resolveRequiredDocuments(candidate, await documentRequirementRepository.list())
+    const documents: Document[] = []
+
+    for (const { file, bytes, mimeType, sha256 } of uploads) {
+      const duplicate = currentVersions(existing).find(doc => doc.sha256 === sha256 && doc.status !== 'invalid')
+      if (duplicate) {
+        documents.push(duplicate)
+        continue
+      }
+
+      const storageKey = buildStorageKey(candidateId, file.name, sha256)
+      await storage.put(storageKey, bytes, mimeType)
+
+      const extractedText = extractText(bytes, mimeType).text
+      const classification: DocumentClassification = type
+        ? { type, confidence: 1, source: 'manual' }
+        : await classifyDocument({ filename: file.name, text: extractedText }, { askAgent: classifierAgent(), types: documentTypes })
+      const expiryDate = extractExpiryDate(extractedText)
+
+      const document = await documentRepository.create({
+        candidateId,
+        type: classification.type,
+        typeSource: classification.source,
+        typeConfidence: classification.confidence,
+        filename: file.name,
+        uploadDate: new Date().toISOString().split('T')[0],
+        status: 'pending',
+        version: nextVersion(existing, candidateId, classification.type),
+        size: bytes.length,
+        mimeType,
+        sha256,
+        storageKey,
+        extractedText,
+        ...(expiryDate && { expiryDate, expirySource: 'extracted' as const }),
+      })
+      existing.push(document)
+      documents.push(document)
+    }
+
+    return NextResponse.json({ success: true, data: documents }, { status: 201 })
+  } catch (error) {
+    console.error('Document upload error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to upload documents',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emailTemplateRepository } from '@/utils/repositories'
+import { emailTemplateSchema } from '@/utils/emailTemplates'
+
+/**
+ * /api/email-templates/:id
+ *
+ * PATCH  - Update a template (the merged template is validated like a new one)
+ * DELETE - Remove a template (emails already sent from it stay in the email log)
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Email template ${id} not found` },
+    { status: 404 }
+  )
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Email templates API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    const existing = await emailTemplateRepository.get(id)
+    if (!existing) return notFound(id)
+
+    const { id: _ignored, ...current } = existing
+    const parsed = emailTemplateSchema.safeParse({ ...current, ...body })
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid email template',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'template'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const template = await emailTemplateRepository.update(id, parsed.data)
+    return template ? NextResponse.json({ success: true, data: template }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to update email template', error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const removed = await emailTemplateRepository.remove(id)
+    return removed ? NextResponse.json({ success: true, data: { id } }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to delete email template', error)
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emailTemplateRepository } from '@/utils/repositories'
+import { emailTemplateSchema } from '@/utils/emailTemplates'
+
+/**
+ * /api/email-templates
+ * Emails sent to candidates, with {{variable}} placeholders (see utils/emailTemplates.ts)
+ *
+ * GET  - List all templates
+ * POST - Add a template: {name, purpose?, subject, body}; unknown variables are rejected
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+export async function GET() {
+  try {
+    const templates = await emailTemplateRepository.list()
+    return NextResponse.json({ success: true, data: templates })
+  } catch (error) {
+    console.error('Email templates API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load email templates',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const parsed = emailTemplateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid email template',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'template'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const template = await emailTemplateRepository.create(parsed.data)
+    return NextResponse.json({ success: true, data: template }, { status: 201 })
+  } catch (error) {
+    console.error('Email templates API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create email template',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
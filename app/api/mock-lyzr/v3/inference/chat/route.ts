@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleMockLyzrRequest, isMockMode } from '@/utils/mockAgents'
+
+/**
+ * POST /api/mock-lyzr/v3/inference/chat/
+ * Local stand-in for the Lyzr chat endpoint, answered by the fixture agents
+ *
+ * Point LYZR_API_URL here for offline development. Pick a response shape with
+ * ?scenario=valid|markdown|prose|malformed|truncated|plain_text (see utils/mockAgents.ts).
+ * Disabled in production builds unless LYZR_MOCK_MODE is enabled.
+ */
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production' && !isMockMode()) {
+    return NextResponse.json({ detail: 'Not found' }, { status: 404 })
+  }
+
+  const body = await request.json().catch(() => null)
+  return handleMockLyzrRequest(body, {
+    stream: false,
+    scenario: request.nextUrl.searchParams.get('scenario'),
+  })
+}
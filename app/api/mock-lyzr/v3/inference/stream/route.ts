@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleMockLyzrRequest, isMockMode } from '@/utils/mockAgents'
+
+/**
+ * POST /api/mock-lyzr/v3/inference/stream/
+ * Local stand-in for the Lyzr streaming endpoint (Server-Sent Events), answered by the fixture agents
+ *
+ * Used automatically when LYZR_API_URL points at the chat stand-in. Accepts the same ?scenario= values.
+ * Disabled in production builds unless LYZR_MOCK_MODE is enabled.
+ */
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production' && !isMockMode()) {
+    return NextResponse.json({ detail: 'Not found' }, { status: 404 })
+  }
+
+  const body = await request.json().catch(() => null)
+  return handleMockLyzrRequest(body, {
+    stream: true,
+    scenario: request.nextUrl.searchParams.get('scenario'),
+  })
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { candidateRepository, personRepository, taskRepository, teamRepository } from '@/utils/repositories'
+import { personSchema } from '@/utils/directory'
+
+/**
+ * /api/people/:id
+ *
+ * PATCH  - Update a person (the merged record is validated like a new one);
+ *          their name is updated on the tasks assigned to them
+ * DELETE - Remove a person; their tasks keep the name but are no longer linked, and
+ *          candidates, reports and teams they managed or led are unlinked
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Person ${id} not found` },
+    { status: 404 }
+  )
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('People API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    const existing = await personRepository.get(id)
+    if (!existing) return notFound(id)
+
+    const { id: _ignored, ...current } = existing
+    const parsed = personSchema.safeParse({ ...current, ...body })
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid person',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'person'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { teamId, managerId } = parsed.data
+    if (teamId && !(await teamRepository.get(teamId))) {
+      return NextResponse.json({ success: false, error: `Team ${teamId} not found` }, { status: 400 })
+    }
+    if (managerId === id) {
+      return NextResponse.json({ success: false, error: 'A person cannot be their own manager' }, { status: 400 })
+    }
+    if (managerId && !(await personRepository.get(managerId))) {
+      return NextResponse.json({ success: false, error: `Manager ${managerId} not found` }, { status: 400 })
+    }
+
+    const person = await personRepository.update(id, parsed.data)
+    if (!person) return notFound(id)
+
+    if (person.name !== existing.name) {
+      for (const task of await taskRepository.list({ assigneeId: id })) {
+        await taskRepository.update(task.id, { assignee: person.name })
+      }
+    }
+    return NextResponse.json({ success: true, data: person })
+  } catch (error) {
+    return serverError('Failed to update person', error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const removed = await personRepository.remove(id)
+    if (!removed) return notFound(id)
+
+    for (const task of await taskRepository.list({ assigneeId: id })) {
+      await taskRepository.update(task.id, { assigneeId: undefined })
+    }
+    for (const candidate of await candidateRepository.list({ managerId: id })) {
+      await candidateRepository.update(candidate.id, { managerId: undefined })
+    }
+    for (const report of await personRepository.list({ managerId: id })) {
+      await personRepository.update(report.id, { managerId: undefined })
+    }
+    for (const team of await teamRepository.list({ leadId: id })) {
+      await teamRepository.update(team.id, { leadId: undefined })
+    }
+    return NextResponse.json({ success: true, data: { id } })
+  } catch (error) {
+    return serverError('Failed to delete person', error)
+  }
+}
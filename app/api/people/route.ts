@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { personRepository, teamRepository } from '@/utils/repositories'
+import { personSchema } from '@/utils/directory'
+
+/**
+ * /api/people
+ * The people directory: employees, their team and manager (see utils/directory.ts)
+ *
+ * GET  - List everyone
+ * POST - Add a person: {name, email, title?, teamId?, managerId?}
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+export async function GET() {
+  try {
+    const people = await personRepository.list()
+    return NextResponse.json({ success: true, data: people })
+  } catch (error) {
+    console.error('People API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load people',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const parsed = personSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid person',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'person'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { teamId, managerId } = parsed.data
+    if (teamId && !(await teamRepository.get(teamId))) {
+      return NextResponse.json({ success: false, error: `Team ${teamId} not found` }, { status: 400 })
+    }
+    if (managerId && !(await personRepository.get(managerId))) {
+      return NextResponse.json({ success: false, error: `Manager ${managerId} not found` }, { status: 400 })
+    }
+
+    const person = await personRepository.create(parsed.data)
+    return NextResponse.json({ success: true, data: person }, { status: 201 })
+  } catch (error) {
+    console.error('People API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create person',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reminderJobRepository } from '@/utils/repositories'
+import { runReminders } from '@/utils/reminderRunner'
+
+/**
+ * /api/reminders
+ * Scheduled candidate and assignee reminders (see utils/reminders.ts)
+ *
+ * GET  - The job table: reminders sent or attempted, newest first (?candidateId= to filter)
+ * POST - Run the reminders: {dryRun?: boolean, date?: 'YYYY-MM-DD'}
+ *        - Sends what is due and was not sent yet; safe to call repeatedly
+ *        - dryRun reports what would be sent without sending or recording anything;
+ *          `date` (dry runs only) previews another day
+ *        Meant to be called on a schedule (e.g. daily by a cron job) unless REMINDER_SCHEDULE
+ *        runs it in-process.
+ *
+ * When CRON_SECRET is set, runs that send require `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+function serverError(message: string, error: unknown) {
+  console.error('Reminders API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const candidateId = request.nextUrl.searchParams.get('candidateId')
+    const jobs = await reminderJobRepository.list(candidateId ? { candidateId } : undefined)
+    jobs.sort((a, b) => b.lastAttemptAt.localeCompare(a.lastAttemptAt))
+    return NextResponse.json({ success: true, data: jobs })
+  } catch (error) {
+    return serverError('Failed to load reminders', error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // Cron jobs usually post without a body
+  const body = await request.json().catch(() => ({}))
+  const dryRun = body?.dryRun === true
+  const date = typeof body?.date === 'string' ? body.date : undefined
+
+  const secret = process.env.CRON_SECRET
+  if (!dryRun && secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+  if (date !== undefined && (!dryRun || !ISO_DATE.test(date))) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid run', details: 'date must be YYYY-MM-DD and is only allowed on dry runs' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await runReminders({ date, dryRun })
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    return serverError('Failed to run reminders', error)
+  }
+}
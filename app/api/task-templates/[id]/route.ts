@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { taskTemplateRepository } from '@/utils/repositories'
+import { taskTemplateSchema } from '@/utils/taskTemplates'
+
+/**
+ * /api/task-templates/:id
+ *
+ * PATCH  - Update a template (the merged template is validated like a new one)
+ * DELETE - Remove a template (tasks already created from it stay)
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Task template ${id} not found` },
+    { status: 404 }
+  )
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Task templates API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    const existing = await taskTemplateRepository.get(id)
+    if (!existing) return notFound(id)
+
+    const { id: _ignored, ...current } = existing
+    const parsed = taskTemplateSchema.safeParse({ ...current, ...body })
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task template',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'template'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    // Criteria cleared with '' parse to undefined, which drops them from the stored template
+    const template = await taskTemplateRepository.update(id, parsed.data)
+    return template ? NextResponse.json({ success: true, data: template }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to update task template', error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const removed = await taskTemplateRepository.remove(id)
+    return removed ? NextResponse.json({ success: true, data: { id } }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to delete task template', error)
+  }
+}
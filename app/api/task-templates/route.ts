@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { taskTemplateRepository } from '@/utils/repositories'
+import { taskTemplateSchema } from '@/utils/taskTemplates'
+
+/**
+ * /api/task-templates
+ * Reusable onboarding task lists by role and department (see utils/taskTemplates.ts)
+ *
+ * GET  - List all templates
+ * POST - Add a template: {name, role?, department?, tasks: [{title, department, assignee?,
+ *        dueOffsetDays?, priority?, dependsOn?: [titles], durationDays?}]}
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+export async function GET() {
+  try {
+    const templates = await taskTemplateRepository.list()
+    return NextResponse.json({ success: true, data: templates })
+  } catch (error) {
+    console.error('Task templates API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load task templates',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const parsed = taskTemplateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task template',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'template'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const template = await taskTemplateRepository.create(parsed.data)
+    return NextResponse.json({ success: true, data: template }, { status: 201 })
+  } catch (error) {
+    console.error('Task templates API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create task template',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { taskActivityRepository, taskRepository } from '@/utils/repositories'
+
+/**
+ * GET /api/tasks/:id/activity
+ * The task's activity history, oldest first (see utils/taskActivity.ts)
+ *
+ * The history is append-only: board moves, edits and escalations add to it and nothing
+ * changes or removes entries short of deleting the task.
+ *
+ * @returns {success, data: TaskActivity[]} or {success: false, error, details}
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    if (!(await taskRepository.get(id))) {
+      return NextResponse.json(
+        { success: false, error: `Task ${id} not found` },
+        { status: 404 }
+      )
+    }
+
+    const activity = await taskActivityRepository.list({ taskId: id })
+    activity.sort((a, b) => a.at.localeCompare(b.at))
+    return NextResponse.json({ success: true, data: activity })
+  } catch (error) {
+    console.error('Task activity error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch task activity',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
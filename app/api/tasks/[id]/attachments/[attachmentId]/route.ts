@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { taskAttachmentRepository } from '@/utils/repositories'
+import { getFileStorage } from '@/utils/fileStorage'
+
+/**
+ * GET /api/tasks/:id/attachments/:attachmentId
+ * Download the stored bytes of a task attachment
+ */
+
+type RouteContext = { params: Promise<{ id: string; attachmentId: string }> }
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id, attachmentId } = await params
+  try {
+    const attachment = await taskAttachmentRepository.get(attachmentId)
+    const bytes = attachment?.taskId === id ? await getFileStorage().get(attachment.storageKey) : null
+
+    if (!attachment || !bytes) {
+      return NextResponse.json(
+        { success: false, error: `No stored file for attachment ${attachmentId} of task ${id}` },
+        { status: 404 }
+      )
+    }
+
+    return new Response(new Uint8Array(bytes), {
+      headers: {
+        'Content-Type': attachment.mimeType || 'application/octet-stream',
+        'Content-Length': String(bytes.length),
+        'Content-Disposition': `attachment; filename="${attachment.filename.replace(/["\\\r\n]/g, '_')}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Task attachment download error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to read attachment',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { taskAttachmentRepository, taskRepository } from '@/utils/repositories'
+import { ALLOWED_UPLOAD_MIME_TYPES, buildStorageKey, getFileStorage, maxUploadBytes, sha256Hex } from '@/utils/fileStorage'
+import { detectMimeType } from '@/utils/textExtraction'
+import type { TaskAttachment } from '@/types'
+
+/**
+ * /api/tasks/:id/attachments
+ *
+ * GET  - The task's attachments, oldest first
+ * POST - Attach files (multipart/form-data: uploadedBy, one or more `file` fields)
+ *        Same size limit and file types as document uploads (413 / 415); attaching identical
+ *        bytes to the task again returns the existing attachment
+ *
+ * Download with GET /api/tasks/:id/attachments/:attachmentId
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function badRequest(status: number, error: string, details?: string) {
+  return NextResponse.json({ success: false, error, details }, { status })
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Task attachments API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    if (!(await taskRepository.get(id))) return badRequest(404, `Task ${id} not found`)
+
+    const attachments = await taskAttachmentRepository.list({ taskId: id })
+    attachments.sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt))
+    return NextResponse.json({ success: true, data: attachments })
+  } catch (error) {
+    return serverError('Failed to fetch attachments', error)
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const form = await request.formData().catch(() => null)
+    if (!form) {
+      return badRequest(400, 'Expected a multipart/form-data body')
+    }
+
+    const uploadedBy = String(form.get('uploadedBy') || '').trim()
+    const files = form.getAll('file').filter((entry): entry is File => typeof entry !== 'string')
+    if (!uploadedBy || files.length === 0) {
+      return badRequest(400, 'uploadedBy and at least one file are required')
+    }
+
+    const task = await taskRepository.get(id)
+    if (!task) return badRequest(404, `Task ${id} not found`)
+
+    // Check every file before storing any of them
+    const limit = maxUploadBytes()
+    const uploads: { file: File; bytes: Buffer; mimeType: string; sha256: string }[] = []
+    for (const file of files) {
+      if (file.size > limit) {
+        return badRequest(413, `${file.name} is larger than the ${limit} byte upload limit`)
+      }
+
+      const bytes = Buffer.from(await file.arrayBuffer())
+      const mimeType = detectMimeType(bytes, file.name, file.type)
+      if (!ALLOWED_UPLOAD_MIME_TYPES.includes(mimeType)) {
+        return badRequest(415, `${file.name} has an unsupported file type`, mimeType)
+      }
+
+      uploads.push({ file, bytes, mimeType, sha256: sha256Hex(bytes) })
+    }
+
+    const storage = getFileStorage()
+    const existing = await taskAttachmentRepository.list({ taskId: id })
+    const attachments: TaskAttachment[] = []
+
+    for (const { file, bytes, mimeType, sha256 } of uploads) {
+      const duplicate = existing.find(attachment => attachment.sha256 === sha256)
+      if (duplicate) {
+        attachments.push(duplicate)
+        continue
+      }
+
+      // Kept apart from the candidate's documents so removing one never removes the other
+      const storageKey = `tasks/${buildStorageKey(id, file.name, sha256)}`
+      await storage.put(storageKey, bytes, mimeType)
+
+      const attachment = await taskAttachmentRepository.create({
+        taskId: id,
+        candidateId: task.candidateId,
+        filename: file.name,
+        mimeType,
+        size: bytes.length,
+        sha256,
+        storageKey,
+        uploadedBy,
+        uploadedAt: new Date().toISOString(),
+      })
+      existing.push(attachment)
+      attachments.push(attachment)
+    }
+
+    return NextResponse.json({ success: true, data: attachments }, { status: 201 })
+  } catch (error) {
+    return serverError('Failed to attach files', error)
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { taskCommentRepository, taskRepository } from '@/utils/repositories'
+import { taskCommentSchema } from '@/utils/taskActivity'
+
+/**
+ * /api/tasks/:id/comments
+ *
+ * GET  - The task's comments, oldest first (the client nests replies, see buildCommentThreads)
+ * POST - Add a comment: { author, body, parentId? }; parentId must be a comment of the same task
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Task ${id} not found` },
+    { status: 404 }
+  )
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Task comments API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    if (!(await taskRepository.get(id))) return notFound(id)
+
+    const comments = await taskCommentRepository.list({ taskId: id })
+    comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    return NextResponse.json({ success: true, data: comments })
+  } catch (error) {
+    return serverError('Failed to fetch comments', error)
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const parsed = taskCommentSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid comment',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'comment'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const task = await taskRepository.get(id)
+    if (!task) return notFound(id)
+
+    const { author, body, parentId } = parsed.data
+    if (parentId) {
+      const parent = await taskCommentRepository.get(parentId)
+      if (!parent || parent.taskId !== id) {
+        return NextResponse.json(
+          { success: false, error: `Comment ${parentId} is not a comment on task ${id}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const comment = await taskCommentRepository.create({
+      taskId: id,
+      candidateId: task.candidateId,
+      author,
+      body,
+      createdAt: new Date().toISOString(),
+      ...(parentId && { parentId }),
+    })
+    return NextResponse.json({ success: true, data: comment }, { status: 201 })
+  } catch (error) {
+    return serverError('Failed to add comment', error)
+  }
+}
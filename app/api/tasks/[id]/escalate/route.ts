@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { candidateRepository, personRepository, taskActivityRepository, taskRepository } from '@/utils/repositories'
+import { escalationContact, escalationEmail, taskSlaStatus } from '@/utils/taskSla'
+import { deliverEmail } from '@/utils/outbox'
+
+/**
+ * POST /api/tasks/:id/escalate
+ * Escalate an overdue task to the assignee's manager (see utils/taskSla.ts)
+ *
+ * Body: { actor: string }
+ * - Records the escalation on the task and in the task_activity collection
+ * - Emails the manager it went to through the mail transport; a failed email is reported in
+ *   `notification` (status 'failed') but the escalation stands
+ * - Tasks that are not overdue return 409; tasks nobody can be escalated to return 400
+ * - Escalating again (e.g. as a reminder) is allowed and recorded again
+ *
+ * @returns {success, data: {task, activity, escalatedTo, notification}} or {success: false, error, details}
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+    const actor = typeof body?.actor === 'string' ? body.actor.trim() : ''
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: 'actor (who escalated the task) is required' },
+        { status: 400 }
+      )
+    }
+
+    const task = await taskRepository.get(id)
+    if (!task) {
+      return NextResponse.json(
+        { success: false, error: `Task ${id} not found` },
+        { status: 404 }
+      )
+    }
+
+    const sla = taskSlaStatus(task)
+    if (sla.state !== 'overdue') {
+      return NextResponse.json(
+        { success: false, error: `Task ${id} is not overdue`, details: sla.state },
+        { status: 409 }
+      )
+    }
+
+    const [people, candidate] = await Promise.all([personRepository.list(), candidateRepository.get(task.candidateId)])
+    const manager = escalationContact(task, people, candidate?.managerId)
+    if (!manager) {
+      return NextResponse.json(
+        { success: false, error: `Nobody to escalate task ${id} to: neither its assignee nor the candidate has a manager on file` },
+        { status: 400 }
+      )
+    }
+
+    const at = new Date().toISOString()
+    const escalated = (await taskRepository.update(id, { escalatedAt: at, escalatedTo: manager.id }))!
+    const activity = await taskActivityRepository.create({
+      taskId: id,
+      candidateId: task.candidateId,
+      type: 'escalated',
+      actor,
+      at,
+      escalatedTo: manager.id,
+    })
+
+    const notification = await deliverEmail({
+      to: manager.email,
+      ...escalationEmail(task, manager, { candidate, actor }),
+      sentBy: actor,
+    })
+    if (notification.status === 'failed') {
+      console.error(`Escalation email to ${manager.id} for task ${id} failed:`, notification.error)
+    }
+
+    return NextResponse.json({ success: true, data: { task: escalated, activity, escalatedTo: manager, notification } })
+  } catch (error) {
+    console.error('Task escalation error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to escalate task',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { POST } from './route'
+import { candidateRepository, taskActivityRepository, taskRepository } from '@/utils/repositories'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+function move(id: string, body: object) {
+  const request = new NextRequest(`http://localhost/api/tasks/${id}/move`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+  return POST(request, { params: Promise.resolve({ id }) })
+}
+
+// Runs against the seed data: task 2 of candidate 1 is pending
+describe('POST /api/tasks/:id/move', () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), 'onboarding-move-'))
+    process.env.ONBOARDING_DATA_DIR = dataDir
+  })
+
+  afterEach(() => {
+    delete process.env.ONBOARDING_DATA_DIR
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('moves the task, records who moved it and recomputes progress', async () => {
+    const response = await move('2', { status: 'completed', actor: 'John Smith' })
+    const { data } = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.task.status).toBe('completed')
+    expect(await taskActivityRepository.list({ taskId: '2' })).toEqual([
+      expect.objectContaining({ type: 'status_changed', actor: 'John Smith', from: 'pending', to: 'completed' }),
+    ])
+    expect(data.progress).toEqual(expect.any(Number))
+    expect((await candidateRepository.get('1'))?.progress).toBe(data.progress)
+  })
+
+  it('rejects moves without an actor or with an unknown status', async () => {
+    const noActor = await move('2', { status: 'completed' })
+    expect(noActor.status).toBe(400)
+    expect((await noActor.json()).error).toBe('actor (who moved the task) is required')
+
+    const badStatus = await move('2', { status: 'done', actor: 'John Smith' })
+    expect(badStatus.status).toBe(400)
+    expect((await badStatus.json()).error).toBe('status must be one of pending, in_progress, completed')
+
+    expect((await taskRepository.get('2'))?.status).toBe('pending')
+  })
+
+  it('returns 404 for unknown tasks and changes nothing when the status is the same', async () => {
+    expect((await move('missing', { status: 'completed', actor: 'John Smith' })).status).toBe(404)
+
+    const response = await move('2', { status: 'pending', actor: 'John Smith' })
+    expect(response.status).toBe(200)
+    expect((await response.json()).data.activity).toBeNull()
+    expect(await taskActivityRepository.list({ taskId: '2' })).toEqual([])
+  })
+})
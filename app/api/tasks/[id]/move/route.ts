@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { taskRepository } from '@/utils/repositories'
+import { TASK_STATUSES, applyTaskStatus } from '@/utils/taskStatus'
+
+/**
+ * POST /api/tasks/:id/move
+ * Move a task to another column of the task board
+ *
+ * Body: { status: 'pending' | 'in_progress' | 'completed', actor: string }
+ * - Records who moved the task in the task_activity collection
+ * - Recomputes and stores the candidate's progress (utils/taskStatus.ts)
+ * - Moving a task to the column it is already in changes nothing
+ *
+ * @returns {success, data: {task, activity, progress}} or {success: false, error, details}
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    if (!TASK_STATUSES.includes(body?.status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${TASK_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    const actor = typeof body.actor === 'string' ? body.actor.trim() : ''
+    if (!actor) {
+      return NextResponse.json(
+        { success: false, error: 'actor (who moved the task) is required' },
+        { status: 400 }
+      )
+    }
+
+    const task = await taskRepository.get(id)
+    if (!task) {
+      return NextResponse.json(
+        { success: false, error: `Task ${id} not found` },
+        { status: 404 }
+      )
+    }
+
+    const change = await applyTaskStatus(task, body.status, actor)
+    return NextResponse.json({ success: true, data: change })
+  } catch (error) {
+    console.error('Task move error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to move task',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
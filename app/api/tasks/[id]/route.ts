@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  personRepository,
+  taskActivityRepository,
+  taskAttachmentRepository,
+  taskCommentRepository,
+  taskRepository,
+} from '@/utils/repositories'
+import { TaskDependencyError, validateDependencies } from '@/utils/taskDependencies'
+import { describeTaskChanges } from '@/utils/taskActivity'
+import { TASK_STATUSES, recomputeCandidateProgress } from '@/utils/taskStatus'
+import { getFileStorage } from '@/utils/fileStorage'
+import type { OnboardingTask, TaskPriority } from '@/types'
+
+/**
+ * /api/tasks/:id
+ *
+ * PATCH  - Update editable fields (title, department, assignee, dueDate, priority, status,
+ *          dependsOn, durationDays, externalRef); board moves go through /move, which also
+ *          records who moved the task. Dependencies on unknown tasks or forming a cycle return 400 with a code
+ *          assigneeId assigns a person from the directory (their name becomes the assignee),
+ *          '' or null unassigns them. Changing the due date clears an escalation
+ *          Status, assignee and due-date changes are recorded in the task's activity history
+ *          as made by `actor` (body field, 'Unknown' when missing); unknown status or priority
+ *          values return 400 and a status change recomputes the candidate's progress
+ *          externalRef links the task to a ticket in another system (see utils/taskWebhooks.ts);
+ *          '' removes it
+ * DELETE - Remove the task with its activity, comments and attachments, and drop it from other
+ *          tasks' dependencies
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low']
+
+const EDITABLE_FIELDS = ['title', 'department', 'assignee', 'dueDate', 'priority', 'status', 'dependsOn', 'durationDays', 'externalRef'] as const
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Task ${id} not found` },
+    { status: 404 }
+  )
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Tasks API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    const patch: Partial<OnboardingTask> = {}
+    for (const field of EDITABLE_FIELDS) {
+      if (body?.[field] !== undefined) {
+        (patch as any)[field] = body[field]
+      }
+    }
+
+    if (patch.status !== undefined && !TASK_STATUSES.includes(patch.status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${TASK_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (patch.priority !== undefined && !TASK_PRIORITIES.includes(patch.priority)) {
+      return NextResponse.json(
+        { success: false, error: `priority must be one of ${TASK_PRIORITIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (body?.assigneeId !== undefined) {
+      const person = body.assigneeId ? await personRepository.get(body.assigneeId) : null
+      if (body.assigneeId && !person) {
+        return NextResponse.json(
+          { success: false, error: `Assignee ${body.assigneeId} not found` },
+          { status: 400 }
+        )
+      }
+      patch.assigneeId = person?.id
+      if (person) patch.assignee = person.name
+    }
+
+    if (patch.externalRef !== undefined) {
+      if (typeof patch.externalRef !== 'string') {
+        return NextResponse.json(
+          { success: false, error: 'externalRef must be a string' },
+          { status: 400 }
+        )
+      }
+      patch.externalRef = patch.externalRef.trim() || undefined
+    }
+
+    if (patch.dependsOn !== undefined) {
+      if (!Array.isArray(patch.dependsOn) || patch.dependsOn.some(dependency => typeof dependency !== 'string')) {
+        return NextResponse.json(
+          { success: false, error: 'dependsOn must be a list of task ids' },
+          { status: 400 }
+        )
+      }
+
+      const current = await taskRepository.get(id)
+      if (!current) return notFound(id)
+
+      const tasks = await taskRepository.list({ candidateId: current.candidateId })
+      validateDependencies(tasks.map(task => (task.id === id ? { ...task, dependsOn: patch.dependsOn } : task)))
+    }
+
+    const before = await taskRepository.get(id)
+    if (!before) return notFound(id)
+
+    // A new due date is a new commitment; it can be escalated again once missed
+    if (patch.dueDate !== undefined && patch.dueDate !== before.dueDate) {
+      patch.escalatedAt = undefined
+      patch.escalatedTo = undefined
+    }
+
+    const task = await taskRepository.update(id, patch)
+    if (!task) return notFound(id)
+
+    const actor = typeof body?.actor === 'string' && body.actor.trim() ? body.actor.trim() : 'Unknown'
+    for (const change of describeTaskChanges(before, task, actor)) {
+      await taskActivityRepository.create(change)
+    }
+    // Like a board move, a status change moves the candidate's progress
+    if (task.status !== before.status) {
+      await recomputeCandidateProgress(task.candidateId)
+    }
+    return NextResponse.json({ success: true, data: task })
+  } catch (error) {
+    if (error instanceof TaskDependencyError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code, details: error.taskIds.join(', ') },
+        { status: 400 }
+      )
+    }
+    return serverError('Failed to update task', error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const removed = await taskRepository.remove(id)
+    if (!removed) return notFound(id)
+
+    const attachments = await taskAttachmentRepository.list({ taskId: id })
+    await taskActivityRepository.removeWhere({ taskId: id })
+    await taskCommentRepository.removeWhere({ taskId: id })
+    await taskAttachmentRepository.removeWhere({ taskId: id })
+
+    const storage = getFileStorage()
+    for (const attachment of attachments) {
+      await storage.remove(attachment.storageKey)
+    }
+
+    const dependents = await taskRepository.list(task => Boolean(task.dependsOn?.includes(id)))
+    for (const task of dependents) {
+      await taskRepository.update(task.id, { dependsOn: task.dependsOn!.filter(dependency => dependency !== id) })
+    }
+    return NextResponse.json({ success: true, data: { id } })
+  } catch (error) {
+    return serverError('Failed to delete task', error)
+  }
+}
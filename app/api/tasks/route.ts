@@ -0,0 +1,148 @@
+import { randomUUID } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { candidateRepository, personRepository, taskRepository, teamRepository } from '@/utils/repositories'
+import { linkAssignees } from '@/utils/directory'
+import {
+  resolveDependencyReferences,
+  scheduleTasks,
+  TaskDependencyError,
+  validateDependencies,
+} from '@/utils/taskDependencies'
+import type { OnboardingTask } from '@/types'
+
+/**
+ * /api/tasks
+ * Onboarding tasks persisted in the server-side store
+ *
+ * GET  - List tasks, optionally filtered with ?candidate_id=
+ * POST - Create one task, or many at once with {tasks: [...]}; tasks for a candidate that
+ *        does not exist return 404
+ *
+ * DEPENDENCIES (see utils/taskDependencies.ts):
+ * - `dependsOn` lists task ids, or titles of the candidate's tasks (including ones in the same batch)
+ * - Unknown references and cycles return 400 {success: false, code, details: task ids}
+ * - Tasks created without a dueDate are back-scheduled from the candidate's startDate
+ *
+ * ASSIGNEES (see utils/directory.ts):
+ * - assigneeId links a person; otherwise the assignee text is matched against the directory
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+const REQUIRED_FIELDS = ['candidateId', 'title', 'department'] as const
+
+function toTask(input: any): Omit<OnboardingTask, 'id'> {
+  return {
+    candidateId: input.candidateId,
+    title: input.title,
+    department: input.department,
+    assignee: input.assignee || '',
+    ...(typeof input.assigneeId === 'string' && input.assigneeId ? { assigneeId: input.assigneeId } : {}),
+    dueDate: input.dueDate || '',
+    priority: ['high', 'medium', 'low'].includes(input.priority) ? input.priority : 'medium',
+    status: ['pending', 'in_progress', 'completed'].includes(input.status) ? input.status : 'pending',
+    dependsOn: Array.isArray(input.dependsOn) ? input.dependsOn.filter((ref: unknown) => typeof ref === 'string') : [],
+    ...(Number(input.durationDays) > 0 ? { durationDays: Number(input.durationDays) } : {}),
+    ...(typeof input.externalRef === 'string' && input.externalRef.trim() ? { externalRef: input.externalRef.trim() } : {}),
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const candidateId = request.nextUrl.searchParams.get('candidate_id') || undefined
+    const tasks = await taskRepository.list({ candidateId })
+    return NextResponse.json({ success: true, data: tasks })
+  } catch (error) {
+    console.error('Tasks API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load tasks',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const inputs: any[] = Array.isArray(body?.tasks) ? body.tasks : [body]
+
+    const invalid = inputs.findIndex(input => REQUIRED_FIELDS.some(field => !input?.[field]))
+    if (inputs.length === 0 || invalid !== -1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Missing required fields: ${REQUIRED_FIELDS.join(', ')} are required`,
+          details: invalid !== -1 ? `Task at index ${invalid} is incomplete` : 'No tasks provided',
+        },
+        { status: 400 }
+      )
+    }
+
+    const [people, teams] = await Promise.all([personRepository.list(), teamRepository.list()])
+    const drafts: OnboardingTask[] = inputs.map(input => ({ id: randomUUID(), ...toTask(input) }))
+    const unknownAssignee = drafts.find(task => task.assigneeId && !people.some(person => person.id === task.assigneeId))
+    if (unknownAssignee) {
+      return NextResponse.json(
+        { success: false, error: `Assignee ${unknownAssignee.assigneeId} not found` },
+        { status: 400 }
+      )
+    }
+
+    const candidateIds = Array.from(new Set(inputs.map(input => String(input.candidateId))))
+    const candidates = new Map(
+      await Promise.all(candidateIds.map(async id => [id, await candidateRepository.get(id)] as const))
+    )
+    const unknownCandidate = candidateIds.find(id => !candidates.get(id))
+    if (unknownCandidate) {
+      return NextResponse.json(
+        { success: false, error: `Candidate ${unknownCandidate} not found` },
+        { status: 404 }
+      )
+    }
+
+    const existing = await taskRepository.list(task => candidates.has(task.candidateId))
+    const resolved = resolveDependencyReferences(drafts, [...existing, ...drafts]).map(
+      task => linkAssignees([task], { people, teams }, candidates.get(task.candidateId)?.managerId)[0]
+    )
+    validateDependencies([...existing, ...resolved])
+
+    for (const [candidateId, candidate] of candidates) {
+      if (!candidate?.startDate) continue
+      const { dueDates } = scheduleTasks(
+        [...existing, ...resolved].filter(task => task.candidateId === candidateId),
+        candidate.startDate
+      )
+      for (const task of resolved) {
+        if (task.candidateId === candidateId && !task.dueDate) task.dueDate = dueDates[task.id]
+      }
+    }
+
+    const tasks = await taskRepository.createMany(resolved)
+
+    return NextResponse.json(
+      { success: true, data: Array.isArray(body?.tasks) ? tasks : tasks[0] },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof TaskDependencyError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code, details: error.taskIds.join(', ') },
+        { status: 400 }
+      )
+    }
+
+    console.error('Tasks API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create tasks',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
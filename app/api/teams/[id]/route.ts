@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { personRepository, teamRepository } from '@/utils/repositories'
+import { teamSchema } from '@/utils/directory'
+
+/**
+ * /api/teams/:id
+ *
+ * PATCH  - Update a team (the merged team is validated like a new one)
+ * DELETE - Remove a team; its members stay in the directory without a team
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Team ${id} not found` },
+    { status: 404 }
+  )
+}
+
+function serverError(message: string, error: unknown) {
+  console.error('Teams API error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const body = await request.json()
+
+    const existing = await teamRepository.get(id)
+    if (!existing) return notFound(id)
+
+    const { id: _ignored, ...current } = existing
+    const parsed = teamSchema.safeParse({ ...current, ...body })
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid team',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'team'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { leadId } = parsed.data
+    if (leadId && !(await personRepository.get(leadId))) {
+      return NextResponse.json({ success: false, error: `Team lead ${leadId} not found` }, { status: 400 })
+    }
+
+    const team = await teamRepository.update(id, parsed.data)
+    return team ? NextResponse.json({ success: true, data: team }) : notFound(id)
+  } catch (error) {
+    return serverError('Failed to update team', error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const removed = await teamRepository.remove(id)
+    if (!removed) return notFound(id)
+
+    for (const member of await personRepository.list({ teamId: id })) {
+      await personRepository.update(member.id, { teamId: undefined })
+    }
+    return NextResponse.json({ success: true, data: { id } })
+  } catch (error) {
+    return serverError('Failed to delete team', error)
+  }
+}
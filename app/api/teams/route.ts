@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { personRepository, teamRepository } from '@/utils/repositories'
+import { teamSchema } from '@/utils/directory'
+
+/**
+ * /api/teams
+ * Teams of the people directory (see utils/directory.ts)
+ *
+ * GET  - List all teams
+ * POST - Add a team: {name, department, leadId?} - tasks assigned to the team go to its lead
+ *
+ * @returns {success, data} or {success: false, error, details}
+ */
+
+export async function GET() {
+  try {
+    const teams = await teamRepository.list()
+    return NextResponse.json({ success: true, data: teams })
+  } catch (error) {
+    console.error('Teams API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load teams',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const parsed = teamSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid team',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'team'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { leadId } = parsed.data
+    if (leadId && !(await personRepository.get(leadId))) {
+      return NextResponse.json({ success: false, error: `Team lead ${leadId} not found` }, { status: 400 })
+    }
+
+    const team = await teamRepository.create(parsed.data)
+    return NextResponse.json({ success: true, data: team }, { status: 201 })
+  } catch (error) {
+    console.error('Teams API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create team',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { POST } from './route'
+import { taskRepository } from '@/utils/repositories'
+import { signWebhookPayload } from '@/utils/taskWebhooks'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+function deliver(update: object) {
+  const body = JSON.stringify(update)
+  const request = new NextRequest('http://localhost/api/webhooks/task-status', {
+    method: 'POST',
+    body,
+    headers: { 'Content-Type': 'application/json', 'X-Onboarding-Signature': signWebhookPayload(body, 'test-secret') },
+  })
+  return POST(request)
+}
+
+// Runs against the seed data: task 2 of candidate 1 is pending
+describe('POST /api/webhooks/task-status', () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), 'onboarding-webhook-'))
+    process.env.ONBOARDING_DATA_DIR = dataDir
+    process.env.TASK_WEBHOOK_SECRET = 'test-secret'
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    delete process.env.ONBOARDING_DATA_DIR
+    delete process.env.TASK_WEBHOOK_SECRET
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('applies a signed update once and acknowledges replays as duplicates', async () => {
+    const update = { id: 'evt_1', task_id: '2', status: 'completed', source: 'Helpdesk' }
+
+    const first = await deliver(update)
+    expect(first.status).toBe(200)
+    expect((await first.json()).data).toMatchObject({ task: { status: 'completed' }, activity: { actor: 'Helpdesk' }, duplicate: false })
+
+    const replay = await deliver(update)
+    expect((await replay.json()).data).toMatchObject({ activity: null, duplicate: true })
+  })
+
+  it('applies a retried delivery whose first attempt failed', async () => {
+    const update = { id: 'evt_2', task_id: '2', status: 'completed' }
+    vi.spyOn(taskRepository, 'update').mockRejectedValueOnce(new Error('disk full'))
+
+    expect((await deliver(update)).status).toBe(500)
+    expect((await taskRepository.get('2'))?.status).toBe('pending')
+
+    const retry = await deliver(update)
+    expect(retry.status).toBe(200)
+    expect((await retry.json()).data).toMatchObject({ task: { status: 'completed' }, duplicate: false })
+  })
+})
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { taskRepository, webhookDeliveryRepository } from '@/utils/repositories'
+import { applyTaskStatus } from '@/utils/taskStatus'
+import {
+  SIGNATURE_HEADER,
+  WebhookSignatureError,
+  getWebhookSecrets,
+  getWebhookTolerance,
+  matchUpdateTasks,
+  taskStatusUpdateSchema,
+  verifyWebhookSignature,
+  type TaskStatusUpdate,
+} from '@/utils/taskWebhooks'
+
+/**
+ * POST /api/webhooks/task-status
+ * Status updates for onboarding tasks from external systems (see utils/taskWebhooks.ts)
+ *
+ * Headers: X-Onboarding-Signature: t=<unix seconds>,v1=<HMAC-SHA256 of "<t>.<body>">
+ * Body: { id: string (delivery id), task_id?: string, external_ref?: string,
+ *         status: 'pending' | 'in_progress' | 'completed', source?: string }
+ * - Exactly one of task_id and external_ref names the task
+ * - Applies the status like a board move: records it in the task's activity (actor = source,
+ *   'External system' when missing) and recomputes the candidate's progress
+ * - A delivery id seen before returns 200 with duplicate: true and changes nothing; deliveries
+ *   that failed (500) are not recorded, so the sender's retry applies them
+ * - Missing, wrong or stale signatures return 401 with a code; unknown tasks 404; an
+ *   external_ref shared by several tasks 409; 503 while TASK_WEBHOOK_SECRET is not set
+ *
+ * @returns {success, data: {task, activity, progress, duplicate}} or {success: false, error, details}
+ */
+
+const EXTERNAL_ACTOR = 'External system'
+
+let queue: Promise<unknown> = Promise.resolve()
+
+// Updates are applied one at a time, so a delivery retried concurrently is applied once
+function serialized<T>(apply: () => Promise<T>): Promise<T> {
+  const run = queue.then(apply)
+  queue = run.catch(() => undefined)
+  return run
+}
+
+async function applyUpdate(update: TaskStatusUpdate) {
+  const receivedAt = new Date()
+  const horizon = new Date(receivedAt.getTime() - 2 * getWebhookTolerance() * 1000).toISOString()
+  await webhookDeliveryRepository.removeWhere(delivery => delivery.receivedAt < horizon)
+
+  const [seen] = await webhookDeliveryRepository.list({ deliveryId: update.id })
+  if (seen) {
+    const task = await taskRepository.get(seen.taskId)
+    return NextResponse.json({ success: true, data: { task, activity: null, progress: null, duplicate: true } })
+  }
+
+  const matches = matchUpdateTasks(update, await taskRepository.list())
+  if (matches.length === 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: update.task_id ? `Task ${update.task_id} not found` : `No task has external reference ${update.external_ref}`,
+      },
+      { status: 404 }
+    )
+  }
+  if (matches.length > 1) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `External reference ${update.external_ref} matches ${matches.length} tasks`,
+        code: 'AMBIGUOUS_EXTERNAL_REF',
+        details: matches.map(task => task.id).join(', '),
+      },
+      { status: 409 }
+    )
+  }
+
+  const [task] = matches
+  const change = await applyTaskStatus(task, update.status, update.source || EXTERNAL_ACTOR, receivedAt.toISOString())
+
+  // Only once applied: a delivery that failed must be applied when the sender retries it
+  await webhookDeliveryRepository.create({
+    deliveryId: update.id,
+    taskId: task.id,
+    status: update.status,
+    ...(update.source ? { source: update.source } : {}),
+    receivedAt: receivedAt.toISOString(),
+  })
+  return NextResponse.json({ success: true, data: { ...change, duplicate: false } })
+}
+
+export async function POST(request: NextRequest) {
+  const secrets = getWebhookSecrets()
+  if (secrets.length === 0) {
+    return NextResponse.json(
+      { success: false, error: 'Inbound task webhooks are not configured', details: 'Set TASK_WEBHOOK_SECRET' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    // The signature covers the exact bytes sent, so verify before parsing
+    const raw = await request.text()
+    verifyWebhookSignature(raw, request.headers.get(SIGNATURE_HEADER), secrets, {
+      toleranceSeconds: getWebhookTolerance(),
+    })
+
+    let body: unknown
+    try {
+      body = JSON.parse(raw)
+    } catch {
+      return NextResponse.json({ success: false, error: 'Body must be JSON' }, { status: 400 })
+    }
+
+    const parsed = taskStatusUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid status update',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'update'}: ${issue.message}`).join('; '),
+        },
+        { status: 400 }
+      )
+    }
+
+    return await serialized(() => applyUpdate(parsed.data))
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return NextResponse.json({ success: false, error: error.message, code: error.code }, { status: 401 })
+    }
+    console.error('Task webhook error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to apply status update',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
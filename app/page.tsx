@@ -1,93 +1,216 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
 import { Badge } from '@/components/ui/badge'
 import { Textarea } from '@/components/ui/textarea'
-import { CheckCircle, AlertCircle, Clock, Users, FileText, Zap, Menu, X, Upload, Calendar } from 'lucide-react'
-
-// Types
-interface Candidate {
-  id: string
-  name: string
-  email: string
-  role: string
-  department: string
-  startDate: string
-  status: 'pending' | 'welcome_sent' | 'documents_received' | 'tasks_assigned' | 'completed'
-  progress: number
-}
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { CheckCircle, AlertCircle, Clock, Users, FileText, Zap, Menu, X, Upload, Calendar, ClipboardList, ListChecks, Trash2, UserCog, Mail, Bell, Hash } from 'lucide-react'
+import type {
+  Candidate,
+  ChatNotification,
+  Document,
+  DocumentRequirementRule,
+  DocumentReview,
+  EmailTemplate,
+  EmailTemplatePurpose,
+  OnboardingTask,
+  Person,
+  ReminderJob,
+  ReminderKind,
+  TaskActivity,
+  TaskAttachment,
+  TaskComment,
+  TaskStatus,
+  TaskTemplate,
+  Team
+} from '@/types'
+import {
+  fetchCandidates,
+  createCandidate,
+  transitionCandidate,
+  fetchTasks,
+  createTasks,
+  updateTask,
+  moveTask,
+  scheduleCandidateTasks,
+  fetchDocuments,
+  uploadDocument,
+  documentFileUrl,
+  updateDocument,
+  setDocumentExpiry,
+  reviewDocument,
+  fetchDocumentRequirements,
+  createDocumentRequirement,
+  updateDocumentRequirement,
+  deleteDocumentRequirement,
+  fetchTaskTemplates,
+  createTaskTemplate,
+  updateTaskTemplate,
+  deleteTaskTemplate,
+  escalateTask,
+  fetchTaskActivity,
+  fetchTaskComments,
+  addTaskComment,
+  fetchTaskAttachments,
+  uploadTaskAttachment,
+  taskAttachmentUrl,
+  fetchPeople,
+  createPerson,
+  updatePerson,
+  deletePerson,
+  fetchTeams,
+  createTeam,
+  deleteTeam,
+  sendWelcomeEmail,
+  fetchEmailTemplates,
+  createEmailTemplate,
+  updateEmailTemplate,
+  deleteEmailTemplate,
+  sendTemplatedEmail,
+  fetchReminderJobs,
+  previewReminders,
+  fetchChannelMappings,
+  createChannelMapping,
+  updateChannelMapping,
+  deleteChannelMapping,
+  testChannelMapping,
+  fetchChatNotifications,
+  notifyTaskChannels
+} from '@/utils/onboardingApi'
+import { callAIAgent } from '@/utils/aiAgent'
+import { AGENT_IDS, type AgentId } from '@/utils/agents'
+import type { AgentResponseFor, GeneratedTask } from '@/utils/agentSchemas'
+import {
+  canTransition,
+  getCandidateWorkflow,
+  getNextStages,
+  getStage,
+  isFinalStage,
+  planTransition,
+  type WorkflowAction
+} from '@/utils/workflow'
+import { OTHER_DOCUMENT_TYPE } from '@/utils/documentClassifier'
+import { buildProgressReportContext, isTaskAtRisk, missingDocuments, withProgress } from '@/utils/progress'
+import { findOverdueTasks, taskSlaStatus } from '@/utils/taskSla'
+import { localDate } from '@/utils/dates'
+import { buildCommentThreads, type CommentThread } from '@/utils/taskActivity'
+import { EMPLOYMENT_TYPES, INTERNATIONAL, resolveRequiredDocuments } from '@/utils/documentRequirements'
+import { findExpiringDocuments, getExpiryStatus } from '@/utils/documentExpiry'
+import { currentVersions, groupDocumentSlots, type DocumentReviewInput } from '@/utils/documentVersions'
+import { blockingTasks, findDependencyCycle, scheduleTasks } from '@/utils/taskDependencies'
+import { selectTaskTemplate, suggestedAdditions } from '@/utils/taskTemplates'
+import { getManager, openTasksFor, workloadByPerson } from '@/utils/directory'
+import {
+  EMAIL_TEMPLATE_PURPOSES,
+  EMAIL_TEMPLATE_VARIABLES,
+  candidateTemplateValues,
+  emailTemplateSchema,
+  renderEmailTemplate
+} from '@/utils/emailTemplates'
+import type { ReminderOutcome, ReminderRunResult } from '@/utils/reminders'
+import type { ChannelMappingView, ChannelNotificationResult } from '@/utils/taskChannels'
 
-interface Document {
-  id: string
-  candidateId: string
-  type: string
-  filename: string
-  uploadDate: string
-  status: 'pending' | 'valid' | 'invalid'
-}
+// Utility function to call agents (pass onPartial to stream the answer)
+async function callAgent<Id extends AgentId>(
+  agentId: Id,
+  message: string,
+  inputData?: any,
+  onPartial?: (partial: any) => void
+): Promise<AgentResponseFor<Id> | null> {
+  const result = await callAIAgent(message, agentId, {
+    context_data: inputData,
+    stream: Boolean(onPartial),
+    onPartial
+  })
 
-interface OnboardingTask {
-  id: string
-  candidateId: string
-  title: string
-  department: string
-  assignee: string
-  dueDate: string
-  priority: 'high' | 'medium' | 'low'
-  status: 'pending' | 'in_progress' | 'completed'
+  if (!result.success) {
+    console.error('Agent call failed:', result.error, result.issues || result.details)
+    return null
+  }
+  return result.response ?? null
 }
 
-// Utility function to call agents
-async function callAgent(agentId: string, message: string, inputData?: any) {
-  try {
-    const response = await fetch('/api/agent', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        message,
-        agent_id: agentId,
-        context_data: inputData
-      })
-    })
+function workflowAgentContext(candidate: Candidate, manager: Person | null) {
+  return {
+    candidate_name: candidate.name,
+    candidate_email: candidate.email,
+    role: candidate.role,
+    department: candidate.department,
+    start_date: candidate.startDate,
+    manager_name: manager?.name || 'Hiring Manager'
+  }
+}
 
-    const data = await response.json()
-    return data.response ?? data.raw_response
-  } catch (error) {
-    console.error('Agent call failed:', error)
-    return null
+// Run one workflow entry/exit action for a candidate; false stops the transition
+async function runWorkflowAction(action: WorkflowAction, candidate: Candidate, manager: Person | null): Promise<boolean> {
+  switch (action.type) {
+    case 'call_agent': {
+      const result = await callAgent(AGENT_IDS[action.agent], action.message, workflowAgentContext(candidate, manager))
+      return result !== null
+    }
   }
 }
 
+// The welcome agent only drafts the email; HR reviews it and the server sends it
+async function draftWelcomeEmail(action: WorkflowAction, candidate: Candidate, manager: Person | null) {
+  const result = await callAgent(AGENT_IDS.welcomeEmail, action.message, workflowAgentContext(candidate, manager))
+  return result ? { subject: result.result.email_subject, body: result.result.email_body } : null
+}
+
 // Dashboard Component
-function Dashboard({ candidates, onNewOnboarding, onInitiate }: any) {
+function Dashboard({ candidates, tasks, documents, requirementRules, taskTemplates, people, onNewOnboarding, onAdvance, onEscalateTask }: any) {
   const [showForm, setShowForm] = useState(false)
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     role: '',
     department: '',
-    startDate: ''
+    startDate: '',
+    employmentType: 'full_time',
+    country: '',
+    taskTemplateId: '',
+    managerId: ''
   })
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (formData.name && formData.email && formData.role && formData.department && formData.startDate) {
-      onNewOnboarding(formData)
-      setFormData({ name: '', email: '', role: '', department: '', startDate: '' })
+      onNewOnboarding({ ...formData, taskTemplateId: formData.taskTemplateId || undefined, managerId: formData.managerId || undefined })
+      setFormData({ name: '', email: '', role: '', department: '', startDate: '', employmentType: 'full_time', country: '', taskTemplateId: '', managerId: '' })
       setShowForm(false)
     }
   }
 
-  const activeCount = candidates.filter((c: Candidate) => c.status !== 'completed').length
-  const pendingDocs = candidates.filter((c: Candidate) => c.status === 'welcome_sent').length
-  const overdueTasks = candidates.filter((c: Candidate) => c.progress < 50 && c.status !== 'pending').length
-  const completedThisMonth = candidates.filter((c: Candidate) => c.status === 'completed').length
+  const isDone = (c: Candidate) => isFinalStage(getCandidateWorkflow(c), c.status)
+  const activeCount = candidates.filter((c: Candidate) => !isDone(c)).length
+  // Active candidates still missing a required document, whatever their workflow stage
+  const pendingDocs = candidates.filter(
+    (c: Candidate) => !isDone(c) && missingDocuments(c, documents, resolveRequiredDocuments(c, requirementRules)).length > 0
+  ).length
+  const overdueTasks = findOverdueTasks(
+    tasks,
+    people,
+    Object.fromEntries(candidates.map((c: Candidate) => [c.id, c.managerId]))
+  )
+  const dueSoonCount = tasks.filter((t: OnboardingTask) => taskSlaStatus(t).state === 'due_soon').length
+  const escalationCount = overdueTasks.filter(o => o.needsEscalation).length
+  const personName = (id?: string) => people.find((p: Person) => p.id === id)?.name || 'Unknown'
+  const completedThisMonth = candidates.filter(isDone).length
+
+  // Expired and expiring documents, grouped per candidate (soonest first)
+  const renewals = findExpiringDocuments(currentVersions(documents)).reduce((groups, entry) => {
+    const group = groups.get(entry.document.candidateId) || []
+    groups.set(entry.document.candidateId, [...group, entry])
+    return groups
+  }, new Map<string, ReturnType<typeof findExpiringDocuments>>())
 
   return (
     <div className="space-y-6">
@@ -114,11 +237,13 @@ function Dashboard({ candidates, onNewOnboarding, onInitiate }: any) {
 
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium text-gray-700">At Risk Tasks</CardTitle>
+            <CardTitle className="text-sm font-medium text-gray-700">Overdue Tasks</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-red-600">{overdueTasks}</div>
-            <p className="text-xs text-gray-600 mt-1">Behind schedule</p>
+            <div className="text-3xl font-bold text-red-600">{overdueTasks.length}</div>
+            <p className="text-xs text-gray-600 mt-1">
+              {escalationCount} to escalate • {dueSoonCount} due soon
+            </p>
           </CardContent>
         </Card>
 
@@ -150,32 +275,115 @@ function Dashboard({ candidates, onNewOnboarding, onInitiate }: any) {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {candidates.map((candidate: Candidate) => (
-                    <div key={candidate.id} className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition">
-                      <div className="flex-1">
-                        <h4 className="font-semibold text-gray-900">{candidate.name}</h4>
-                        <p className="text-sm text-gray-600">{candidate.role} • {candidate.department}</p>
-                        <p className="text-xs text-gray-500 mt-1">Start date: {candidate.startDate}</p>
-                        <div className="mt-2 w-full bg-gray-200 rounded-full h-2">
-                          <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${candidate.progress}%` }}></div>
+                  {candidates.map((candidate: Candidate) => {
+                    const workflow = getCandidateWorkflow(candidate)
+                    return (
+                      <div key={candidate.id} className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition">
+                        <div className="flex-1">
+                          <h4 className="font-semibold text-gray-900">{candidate.name}</h4>
+                          <p className="text-sm text-gray-600">{candidate.role} • {candidate.department}</p>
+                          <p className="text-xs text-gray-500 mt-1">Start date: {candidate.startDate}</p>
+                          {candidate.welcomeEmail && (
+                            <p className={`text-xs mt-1 ${candidate.welcomeEmail.status === 'sent' ? 'text-green-700' : 'text-red-600'}`}>
+                              {candidate.welcomeEmail.status === 'sent'
+                                ? `Welcome email sent ${candidate.welcomeEmail.at.split('T')[0]} by ${candidate.welcomeEmail.sentBy}`
+                                : `Welcome email failed: ${candidate.welcomeEmail.error}`}
+                            </p>
+                          )}
+                          <div className="mt-2 w-full bg-gray-200 rounded-full h-2">
+                            <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${candidate.progress}%` }}></div>
+                          </div>
+                        </div>
+                        <div className="ml-4 flex flex-col items-end gap-2">
+                          <Badge variant={isFinalStage(workflow, candidate.status) ? 'default' : 'secondary'}>
+                            {getStage(workflow, candidate.status)?.label || candidate.status.replace(/_/g, ' ')}
+                          </Badge>
+                          {getNextStages(workflow, candidate.status)
+                            .filter(stage => stage.manual)
+                            .map(stage => (
+                              <Button key={stage.id} size="sm" onClick={() => onAdvance(candidate.id, stage.id)}>
+                                {stage.actionLabel || stage.label}
+                              </Button>
+                            ))}
                         </div>
                       </div>
-                      <div className="ml-4 flex flex-col items-end gap-2">
-                        <Badge variant={candidate.status === 'completed' ? 'default' : 'secondary'}>
-                          {candidate.status.replace(/_/g, ' ')}
-                        </Badge>
-                        {candidate.status === 'pending' && (
-                          <Button size="sm" onClick={() => onInitiate(candidate.id)}>
-                            Initiate
+                    )
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {overdueTasks.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Overdue Tasks</CardTitle>
+                <CardDescription>Past their due date; escalate to the assignee&apos;s manager once past the priority&apos;s SLA</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {overdueTasks.map(({ task, daysOverdue, needsEscalation, escalateTo }) => (
+                    <div key={task.id} className="flex items-center justify-between gap-4 text-sm">
+                      <div>
+                        <p className="font-medium text-gray-900">{task.title}</p>
+                        <p className="text-xs text-gray-600">
+                          {candidates.find((c: Candidate) => c.id === task.candidateId)?.name || 'Unknown candidate'} • {task.assignee || 'Unassigned'} • Due {task.dueDate}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Badge variant={task.priority === 'high' ? 'destructive' : 'secondary'}>{task.priority}</Badge>
+                        <Badge variant="destructive">{daysOverdue} {daysOverdue === 1 ? 'day' : 'days'} late</Badge>
+                        {task.escalatedTo ? (
+                          <span className="text-xs text-gray-600">Escalated to {personName(task.escalatedTo)}</span>
+                        ) : escalateTo ? (
+                          <Button size="sm" variant={needsEscalation ? 'default' : 'outline'} onClick={() => onEscalateTask(task.id)}>
+                            Escalate to {escalateTo.name}
                           </Button>
+                        ) : (
+                          <span className="text-xs text-gray-500">No manager on file</span>
                         )}
                       </div>
                     </div>
                   ))}
                 </div>
-              )}
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
+
+          {renewals.size > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Upcoming Renewals</CardTitle>
+                <CardDescription>Documents that have expired or expire soon</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {Array.from(renewals.entries()).map(([candidateId, entries]) => (
+                    <div key={candidateId}>
+                      <h4 className="font-semibold text-gray-900 text-sm">
+                        {candidates.find((c: Candidate) => c.id === candidateId)?.name || 'Unknown candidate'}
+                      </h4>
+                      <div className="mt-2 space-y-1">
+                        {entries.map(({ document, status }) => (
+                          <div key={document.id} className="flex items-center justify-between text-sm">
+                            <span className="text-gray-700">{document.type} • {document.filename}</span>
+                            <div className="flex items-center gap-2">
+                              {document.expiryFlag !== undefined && (
+                                <span className="text-xs text-gray-500" title="The expiry checker emailed the candidate for a renewed copy">Renewal requested</span>
+                              )}
+                              <Badge variant={status.state === 'expired' ? 'destructive' : 'secondary'}>
+                                {status.state === 'expired' ? `Expired ${document.expiryDate}` : `${status.daysLeft} days left`}
+                              </Badge>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         <div className="space-y-6">
@@ -269,6 +477,67 @@ function Dashboard({ candidates, onNewOnboarding, onInitiate }: any) {
                         className="mt-1"
                       />
                     </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-700">Employment Type</label>
+                        <Select value={formData.employmentType} onValueChange={(value) => setFormData({ ...formData, employmentType: value })}>
+                          <SelectTrigger className="mt-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {EMPLOYMENT_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>{type.replace(/_/g, ' ')}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-700">Country</label>
+                        <Input
+                          value={formData.country}
+                          onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+                          placeholder="US"
+                          maxLength={2}
+                          className="mt-1"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Manager</label>
+                      <Select
+                        value={formData.managerId || 'auto'}
+                        onValueChange={(value) => setFormData({ ...formData, managerId: value === 'auto' ? '' : value })}
+                      >
+                        <SelectTrigger className="mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Lead of their department&apos;s team</SelectItem>
+                          {people.map((person: Person) => (
+                            <SelectItem key={person.id} value={person.id}>{person.name} - {person.title}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Task Template</label>
+                      <Select
+                        value={formData.taskTemplateId || 'auto'}
+                        onValueChange={(value) => setFormData({ ...formData, taskTemplateId: value === 'auto' ? '' : value })}
+                      >
+                        <SelectTrigger className="mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">
+                            Best match{formData.role || formData.department ? ` (${selectTaskTemplate(taskTemplates, formData)?.name || 'none'})` : ''}
+                          </SelectItem>
+                          {taskTemplates.map((template: TaskTemplate) => (
+                            <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <Button type="submit" className="w-full">Add Candidate</Button>
                   </form>
                 </DialogContent>
@@ -282,28 +551,58 @@ function Dashboard({ candidates, onNewOnboarding, onInitiate }: any) {
 }
 
 // Document Hub Component
-function DocumentHub({ candidates, onProcessDocuments }: any) {
+// One review (agent or HR) of a document version
+function ReviewNote({ review }: { review: DocumentReview }) {
+  return (
+    <div className="mt-1 text-xs text-gray-600">
+      <span className="font-medium">{review.decision === 'valid' ? 'Approved' : 'Rejected'}</span> by {review.reviewer} on {review.reviewedAt.split('T')[0]}
+      {review.reason && <span> • {review.reason}</span>}
+      {review.comments && <p className="italic text-gray-500">{review.comments}</p>}
+    </div>
+  )
+}
+
+function DocumentHub({ candidates, documents: allDocuments, requirementRules, actor, onUploadDocuments, onDocumentTypeChange, onDocumentExpiryChange, onDocumentsReviewed }: any) {
   const [selectedCandidate, setSelectedCandidate] = useState<string>('')
-  const [documents, setDocuments] = useState<Document[]>([])
   const [validationResult, setValidationResult] = useState<any>(null)
   const [loading, setLoading] = useState(false)
+  const [expandedSlot, setExpandedSlot] = useState<string | null>(null)
+  const [reviewing, setReviewing] = useState<{ document: Document; decision: DocumentReview['decision'] } | null>(null)
+  const [reviewer, setReviewer] = useState(actor)
+  const [reviewForm, setReviewForm] = useState({ reason: '', comments: '' })
+  const [reviewError, setReviewError] = useState<string | null>(null)
+
+  const selected = candidates.find((c: Candidate) => c.id === selectedCandidate)
+  const requiredDocs: string[] = selected ? resolveRequiredDocuments(selected, requirementRules) : []
+  const slots = groupDocumentSlots(allDocuments.filter((d: Document) => d.candidateId === selectedCandidate))
+  const documents = slots.map(slot => slot.current)
 
-  const requiredDocs = ['Government ID', 'Tax Forms', 'Direct Deposit Info', 'Emergency Contact']
+  const openReview = (document: Document, decision: DocumentReview['decision']) => {
+    setReviewing({ document, decision })
+    setReviewForm({ reason: '', comments: '' })
+    setReviewError(null)
+  }
+
+  const handleSubmitReview = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!reviewing) return
+    const [result] = await onDocumentsReviewed([{
+      id: reviewing.document.id,
+      review: { decision: reviewing.decision, reviewer, ...reviewForm }
+    }])
+    if (result.success) {
+      setReviewing(null)
+    } else {
+      setReviewError(result.details || result.error)
+    }
+  }
 
   const handleUpload = (e: React.DragEvent | React.ChangeEvent) => {
     e.preventDefault()
     const files = 'dataTransfer' in e ? e.dataTransfer.files : (e.target as HTMLInputElement).files
     if (files && selectedCandidate) {
-      Array.from(files).forEach((file) => {
-        setDocuments([...documents, {
-          id: Math.random().toString(),
-          candidateId: selectedCandidate,
-          type: file.name.includes('id') ? 'Government ID' : 'Other',
-          filename: file.name,
-          uploadDate: new Date().toISOString().split('T')[0],
-          status: 'pending'
-        }])
-      })
+      // Types are classified on the server from the file's text and name
+      onUploadDocuments(Array.from(files).map((file) => ({ candidateId: selectedCandidate, file })))
     }
   }
 
@@ -319,19 +618,29 @@ function DocumentHub({ candidates, onProcessDocuments }: any) {
       documents: documents.map(d => ({
         document_type: d.type,
         filename: d.filename,
-        content: `Document: ${d.filename}`
+        mime_type: d.mimeType,
+        content: d.extractedText || `No readable text could be extracted from ${d.filename}`
       })),
       required_documents: requiredDocs
     }
 
-    const result = await callAgent('693068ced4e9ae41a5a27a51', 'Process and validate these onboarding documents', docData)
+    const result = await callAgent(AGENT_IDS.documentValidation, 'Process and validate these onboarding documents', docData)
 
     if (result?.result) {
       setValidationResult(result.result)
-      setDocuments(documents.map(d => ({
-        ...d,
-        status: result.result.documents_validated?.some((v: any) => v.document_type === d.type) ? 'valid' : 'invalid'
-      })))
+      await onDocumentsReviewed(documents.map(d => {
+        const validation = result.result.documents_validated.find(v => v.document_type === d.type)
+        return {
+          id: d.id,
+          review: {
+            decision: validation ? 'valid' : 'invalid',
+            reviewer: 'Document Validation Agent',
+            reason: validation ? undefined : 'Not validated by the document validation agent',
+            comments: validation?.notes,
+            validation
+          }
+        }
+      }))
     }
     setLoading(false)
   }
@@ -360,40 +669,175 @@ function DocumentHub({ candidates, onProcessDocuments }: any) {
                 </Select>
               </div>
 
-              <div
+              <label
                 onDrop={handleUpload}
                 onDragOver={(e) => e.preventDefault()}
-                className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center bg-gray-50 hover:bg-gray-100 transition cursor-pointer"
+                className="block border-2 border-dashed border-gray-300 rounded-lg p-8 text-center bg-gray-50 hover:bg-gray-100 transition cursor-pointer"
               >
                 <Upload className="w-12 h-12 text-gray-400 mx-auto mb-3" />
                 <p className="text-gray-600 font-medium">Drop documents here or click to browse</p>
-                <p className="text-sm text-gray-500 mt-1">Supported: PDF, DOC, DOCX, Images</p>
-                <input type="file" multiple onChange={handleUpload} className="hidden" accept=".pdf,.doc,.docx,.jpg,.png" />
-              </div>
+                <p className="text-sm text-gray-500 mt-1">Supported: PDF, DOCX, text files, images (max 10 MB)</p>
+                <input type="file" multiple onChange={handleUpload} className="hidden" accept=".pdf,.docx,.txt,.md,.csv,.json,.jpg,.jpeg,.png" />
+              </label>
 
-              {documents.length > 0 && (
+              {slots.length > 0 && (
                 <div className="mt-4">
-                  <h4 className="font-semibold text-gray-900 mb-3">Uploaded Documents ({documents.length})</h4>
+                  <h4 className="font-semibold text-gray-900 mb-3">Uploaded Documents ({slots.length})</h4>
                   <div className="space-y-2">
-                    {documents.map((doc) => (
-                      <div key={doc.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                        <div className="flex items-center gap-3">
-                          <FileText className="w-5 h-5 text-blue-600" />
-                          <div>
-                            <p className="text-sm font-medium text-gray-900">{doc.filename}</p>
-                            <p className="text-xs text-gray-500">{doc.uploadDate}</p>
+                    {slots.map((slot) => {
+                      const doc = slot.current
+                      const history = slot.versions.slice(0, -1).reverse()
+                      const expanded = expandedSlot === doc.id
+                      return (
+                        <div key={doc.id} className="p-3 bg-gray-50 rounded-lg">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                              <FileText className="w-5 h-5 text-blue-600" />
+                              <div>
+                                {doc.storageKey ? (
+                                  <a href={documentFileUrl(doc.id)} className="text-sm font-medium text-gray-900 hover:text-blue-600 hover:underline">
+                                    {doc.filename}
+                                  </a>
+                                ) : (
+                                  <p className="text-sm font-medium text-gray-900">{doc.filename}</p>
+                                )}
+                                <p className="text-xs text-gray-500">
+                                  v{doc.version ?? slot.versions.length} • {doc.uploadDate}
+                                  {doc.size !== undefined && ` • ${(doc.size / 1024).toFixed(1)} KB`}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                type="date"
+                                value={doc.expiryDate || ''}
+                                onChange={(e) => onDocumentExpiryChange(doc.id, e.target.value || null)}
+                                title={doc.expirySource === 'extracted' ? 'Expiry date read from the document' : 'Expiry date'}
+                                aria-label={`Expiry date of ${doc.filename}`}
+                                className={`w-36 h-8 text-xs ${
+                                  getExpiryStatus(doc.expiryDate)?.state === 'expired'
+                                    ? 'border-red-400 text-red-600'
+                                    : getExpiryStatus(doc.expiryDate)?.state === 'expiring'
+                                      ? 'border-orange-400 text-orange-600'
+                                      : ''
+                                }`}
+                              />
+                              {doc.typeSource && doc.typeSource !== 'manual' && (
+                                <span className="text-xs text-gray-400" title={`Classified by ${doc.typeSource}`}>
+                                  auto {Math.round((doc.typeConfidence || 0) * 100)}%
+                                </span>
+                              )}
+                              <Select value={doc.type} onValueChange={(type) => onDocumentTypeChange(doc.id, type)}>
+                                <SelectTrigger className="w-44 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Array.from(new Set([...requiredDocs, OTHER_DOCUMENT_TYPE, doc.type])).map((type) => (
+                                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Badge variant={doc.status === 'valid' ? 'default' : doc.status === 'invalid' ? 'destructive' : 'secondary'}>
+                                {doc.status}
+                              </Badge>
+                              <Button size="sm" variant="outline" onClick={() => openReview(doc, 'valid')} disabled={doc.status === 'valid'}>
+                                Approve
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => openReview(doc, 'invalid')}>
+                                Reject
+                              </Button>
+                            </div>
                           </div>
+
+                          {slot.resubmissionRequested && (
+                            <p className="mt-2 text-xs text-red-600">
+                              Resubmission requested from the candidate on {doc.resubmissionRequestedAt!.split('T')[0]}
+                            </p>
+                          )}
+                          {doc.review && <ReviewNote review={doc.review} />}
+
+                          {history.length > 0 && (
+                            <div className="mt-2">
+                              <button
+                                type="button"
+                                onClick={() => setExpandedSlot(expanded ? null : doc.id)}
+                                className="text-xs text-blue-600 hover:underline"
+                              >
+                                {expanded ? 'Hide' : 'Show'} earlier versions ({history.length})
+                              </button>
+                              {expanded && (
+                                <div className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3">
+                                  {history.map((version, index) => (
+                                    <div key={version.id} className="text-xs text-gray-600">
+                                      <div className="flex items-center gap-2">
+                                        <span className="font-medium">v{version.version ?? slot.versions.length - index - 1}</span>
+                                        {version.storageKey ? (
+                                          <a href={documentFileUrl(version.id)} className="hover:text-blue-600 hover:underline">{version.filename}</a>
+                                        ) : (
+                                          <span>{version.filename}</span>
+                                        )}
+                                        <span>• {version.uploadDate}</span>
+                                        <Badge variant={version.status === 'valid' ? 'default' : version.status === 'invalid' ? 'destructive' : 'secondary'}>
+                                          {version.status}
+                                        </Badge>
+                                      </div>
+                                      {version.review && <ReviewNote review={version.review} />}
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          )}
                         </div>
-                        <Badge variant={doc.status === 'valid' ? 'default' : doc.status === 'invalid' ? 'destructive' : 'secondary'}>
-                          {doc.status}
-                        </Badge>
-                      </div>
-                    ))}
+                      )
+                    })}
                   </div>
                 </div>
               )}
 
-              <Button onClick={handleProcessDocuments} disabled={!selectedCandidate || documents.length === 0 || loading} className="w-full mt-4">
+              <Dialog open={reviewing !== null} onOpenChange={(open) => !open && setReviewing(null)}>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>{reviewing?.decision === 'invalid' ? 'Reject' : 'Approve'} {reviewing?.document.type}</DialogTitle>
+                    <DialogDescription>
+                      {reviewing?.document.filename}
+                      {reviewing?.decision === 'invalid' && ' - the candidate will be asked to resubmit this document'}
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmitReview} className="space-y-4">
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Reviewer</label>
+                      <Input value={reviewer} onChange={(e) => setReviewer(e.target.value)} className="mt-1" required />
+                    </div>
+                    {reviewing?.decision === 'invalid' && (
+                      <div>
+                        <label className="text-sm font-medium text-gray-700">Rejection Reason</label>
+                        <Input
+                          value={reviewForm.reason}
+                          onChange={(e) => setReviewForm({ ...reviewForm, reason: e.target.value })}
+                          placeholder="ID photo is unreadable"
+                          className="mt-1"
+                          required
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Comments</label>
+                      <Textarea
+                        value={reviewForm.comments}
+                        onChange={(e) => setReviewForm({ ...reviewForm, comments: e.target.value })}
+                        className="mt-1"
+                      />
+                    </div>
+                    {reviewError && <p className="text-sm text-red-600">{reviewError}</p>}
+                    <Button type="submit" className="w-full">
+                      {reviewing?.decision === 'invalid' ? 'Reject and Request Resubmission' : 'Approve'}
+                    </Button>
+                  </form>
+                </DialogContent>
+              </Dialog>
+
+              <Button onClick={handleProcessDocuments} disabled={!selectedCandidate || slots.length === 0 || loading} className="w-full mt-4">
                 {loading ? 'Processing...' : 'Process Documents'}
               </Button>
             </div>
@@ -402,16 +846,37 @@ function DocumentHub({ candidates, onProcessDocuments }: any) {
               <Card className="bg-blue-50 border-blue-200">
                 <CardHeader>
                   <CardTitle className="text-base">Required Documents</CardTitle>
+                  {selected && (
+                    <CardDescription>
+                      {selected.role} • {selected.department} • {(selected.employmentType || 'full_time').replace(/_/g, ' ')}
+                      {selected.country ? ` • ${selected.country}` : ''}
+                    </CardDescription>
+                  )}
                 </CardHeader>
                 <CardContent>
-                  <ul className="space-y-2">
-                    {requiredDocs.map((doc) => (
-                      <li key={doc} className="flex items-center gap-2 text-sm text-gray-700">
-                        <CheckCircle className="w-4 h-4 text-green-600" />
-                        {doc}
-                      </li>
-                    ))}
-                  </ul>
+                  {!selected ? (
+                    <p className="text-sm text-gray-500">Select a candidate to see their checklist</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {requiredDocs.map((type) => {
+                        const submitted = documents.find(d => d.type === type)
+                        return (
+                          <li key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                            {submitted?.status === 'valid' ? (
+                              <CheckCircle className="w-4 h-4 text-green-600" />
+                            ) : submitted?.status === 'invalid' ? (
+                              <X className="w-4 h-4 text-red-600" />
+                            ) : submitted ? (
+                              <Clock className="w-4 h-4 text-orange-500" />
+                            ) : (
+                              <AlertCircle className="w-4 h-4 text-gray-400" />
+                            )}
+                            {type}
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -477,9 +942,50 @@ function DocumentHub({ candidates, onProcessDocuments }: any) {
 }
 
 // Task Management Component
-function TaskManagement({ candidates, tasks, onAddTask, onGenerateTasks }: any) {
+function TaskManagement({ candidates, tasks, taskTemplates, people, channelMappings, actor, onAddTask, onGenerateTasks, onMoveTask, onUpdateTask, onScheduleTasks }: any) {
   const [selectedCandidate, setSelectedCandidate] = useState<string>('')
   const [loading, setLoading] = useState(false)
+  const [streamedTasks, setStreamedTasks] = useState<Record<string, any[]> | null>(null)
+  // Agent suggestions on top of the template tasks, waiting for HR to pick
+  const [suggestions, setSuggestions] = useState<ReturnType<typeof suggestedAdditions>>([])
+  const [pickedSuggestions, setPickedSuggestions] = useState<string[]>([])
+  const [editing, setEditing] = useState<OnboardingTask | null>(null)
+  const [taskForm, setTaskForm] = useState({ assigneeId: '', dependsOn: [] as string[], durationDays: '', externalRef: '' })
+  const [taskFormError, setTaskFormError] = useState('')
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null)
+  const [chatResults, setChatResults] = useState<ChannelNotificationResult[]>([])
+
+  const handleAddSuggestions = async () => {
+    setChatResults(await onGenerateTasks(selectedCandidate, suggestions.filter(addition => pickedSuggestions.includes(addition.task.task_title))))
+    setSuggestions([])
+  }
+
+  const handleEditTask = (task: OnboardingTask) => {
+    setEditing(task)
+    setTaskForm({
+      assigneeId: task.assigneeId || '',
+      dependsOn: task.dependsOn || [],
+      durationDays: task.durationDays ? String(task.durationDays) : '',
+      externalRef: task.externalRef || ''
+    })
+    setTaskFormError('')
+  }
+
+  const handleSaveTask = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+    const result = await onUpdateTask(editing.id, {
+      assigneeId: taskForm.assigneeId,
+      dependsOn: taskForm.dependsOn,
+      durationDays: Number(taskForm.durationDays) > 0 ? Number(taskForm.durationDays) : undefined,
+      externalRef: taskForm.externalRef
+    })
+    if (result.success) {
+      setEditing(null)
+    } else {
+      setTaskFormError(result.error)
+    }
+  }
 
   const handleGenerateTasks = async () => {
     if (!selectedCandidate) return
@@ -491,29 +997,39 @@ function TaskManagement({ candidates, tasks, onAddTask, onGenerateTasks }: any)
       role: candidate?.role,
       department: candidate?.department,
       start_date: candidate?.startDate,
-      manager: 'Jane Doe',
-      slack_channels: {
-        it: '#it-requests',
-        facilities: '#facilities',
-        hr: '#hr-onboarding',
-        engineering: '#engineering-team'
-      }
+      manager: (candidate && getManager(candidate, people)?.name) || 'Hiring Manager',
+      slack_channels: Object.fromEntries(channelMappings.map((m: ChannelMappingView) => [m.department.toLowerCase(), m.channel])),
+      existing_tasks: candidateTasks.map((t: OnboardingTask) => t.title)
     }
 
-    const result = await callAgent('693068f4d4e9ae41a5a27a55', 'Generate onboarding tasks for this new hire', taskData)
+    setStreamedTasks(null)
+    setSuggestions([])
+    const result = await callAgent(AGENT_IDS.taskGeneration, 'Generate onboarding tasks for this new hire', taskData, (partial) => {
+      if (partial?.result?.tasks_by_department) {
+        setStreamedTasks(partial.result.tasks_by_department)
+      }
+    })
 
     if (result?.result?.tasks_by_department) {
-      onGenerateTasks(selectedCandidate, result.result)
+      const additions = suggestedAdditions(result.result, candidateTasks)
+      if (candidateTasks.length === 0) {
+        setChatResults(await onGenerateTasks(selectedCandidate, additions))
+      } else {
+        setSuggestions(additions)
+        setPickedSuggestions(additions.map(addition => addition.task.task_title))
+      }
     }
+    setStreamedTasks(null)
     setLoading(false)
   }
 
   const candidateTasks = tasks.filter((t: OnboardingTask) => t.candidateId === selectedCandidate)
-  const byStatus = {
-    pending: candidateTasks.filter((t: OnboardingTask) => t.status === 'pending'),
-    in_progress: candidateTasks.filter((t: OnboardingTask) => t.status === 'in_progress'),
-    completed: candidateTasks.filter((t: OnboardingTask) => t.status === 'completed')
-  }
+  const candidate = candidates.find((c: Candidate) => c.id === selectedCandidate)
+  const schedule = candidate?.startDate && !findDependencyCycle(candidateTasks)
+    ? scheduleTasks(candidateTasks, candidate.startDate)
+    : null
+  // A single task on its own is not worth highlighting
+  const criticalPath = schedule && schedule.criticalPath.length > 1 ? schedule.criticalPath : []
 
   return (
     <div className="space-y-6">
@@ -537,44 +1053,364 @@ function TaskManagement({ candidates, tasks, onAddTask, onGenerateTasks }: any)
                 </SelectContent>
               </Select>
             </div>
-            <div className="flex items-end">
+            <div className="flex items-end gap-2">
               <Button onClick={handleGenerateTasks} disabled={!selectedCandidate || loading}>
-                {loading ? 'Generating...' : 'Generate Tasks'}
+                {loading ? 'Generating...' : candidateTasks.length > 0 ? 'Suggest More Tasks' : 'Generate Tasks'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => onScheduleTasks(selectedCandidate)}
+                disabled={!candidate?.startDate || candidateTasks.length === 0}
+              >
+                Back-schedule from Start Date
               </Button>
             </div>
           </div>
+
+          {candidate?.taskTemplateId && (
+            <p className="text-xs text-gray-500 mb-4">
+              Tasks created from the template &quot;{taskTemplates.find((t: TaskTemplate) => t.id === candidate.taskTemplateId)?.name || candidate.taskTemplateId}&quot;
+            </p>
+          )}
+
+          {chatResults.length > 0 && (
+            <div className="text-xs text-gray-600 mb-4 space-y-0.5">
+              {chatResults.map((result) => (
+                <p key={`${result.department}-${result.channel}`} className={result.status === 'failed' ? 'text-red-600' : undefined}>
+                  {result.status === 'sent'
+                    ? `Posted ${result.taskIds.length} ${result.department} task${result.taskIds.length === 1 ? '' : 's'} to ${result.channel}`
+                    : `${result.department}: not posted (${result.error})`}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {suggestions.length > 0 && (
+            <div className="space-y-3 mb-4">
+              <p className="text-sm font-medium text-gray-700">Suggested additions</p>
+              {suggestions.map(({ department, task }) => (
+                <label key={task.task_title} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={pickedSuggestions.includes(task.task_title)}
+                    onChange={(e) => setPickedSuggestions(e.target.checked
+                      ? [...pickedSuggestions, task.task_title]
+                      : pickedSuggestions.filter(title => title !== task.task_title))}
+                  />
+                  {task.task_title}
+                  <span className="text-xs text-gray-500">({department}{task.assignee ? `, ${task.assignee}` : ''})</span>
+                </label>
+              ))}
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleAddSuggestions} disabled={pickedSuggestions.length === 0}>Add Selected Tasks</Button>
+                <Button size="sm" variant="outline" onClick={() => setSuggestions([])}>Dismiss</Button>
+              </div>
+            </div>
+          )}
+
+          {loading && streamedTasks && (
+            <div className="space-y-3">
+              <p className="text-sm font-medium text-gray-700">Receiving tasks...</p>
+              {Object.entries(streamedTasks).map(([dept, deptTasks]) => (
+                <div key={dept}>
+                  <p className="text-xs font-semibold uppercase text-gray-500 mb-2">{dept}</p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    {(Array.isArray(deptTasks) ? deptTasks : [])
+                      .filter((task: any) => task?.task_title)
+                      .map((task: any, idx: number) => (
+                        <div key={idx} className="p-3 bg-blue-50 border border-blue-100 rounded-lg animate-pulse">
+                          <p className="text-sm font-medium text-gray-900">{task.task_title}</p>
+                          {task.assignee && <p className="text-xs text-gray-600 mt-1">{task.assignee}</p>}
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {selectedCandidate && (
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {(['pending', 'in_progress', 'completed'] as const).map((status) => (
-            <Card key={status}>
-              <CardHeader className="pb-3">
-                <CardTitle className="text-sm">
-                  {status === 'pending' ? 'Pending' : status === 'in_progress' ? 'In Progress' : 'Completed'} ({byStatus[status].length})
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                {byStatus[status].length === 0 ? (
-                  <div className="text-center py-8">
-                    <Clock className="w-8 h-8 text-gray-300 mx-auto mb-2" />
-                    <p className="text-sm text-gray-500">No tasks</p>
-                  </div>
-                ) : (
-                  byStatus[status].map((task: OnboardingTask) => (
-                    <div key={task.id} className="p-3 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 transition">
+        <TaskBoard
+          tasks={candidateTasks}
+          criticalPath={criticalPath}
+          onMoveTask={onMoveTask}
+          onEditTask={handleEditTask}
+          onOpenTask={(task) => setOpenTaskId(task.id)}
+        />
+      )}
+
+      <TaskDrawer
+        task={tasks.find((t: OnboardingTask) => t.id === openTaskId) || null}
+        people={people}
+        actor={actor}
+        onClose={() => setOpenTaskId(null)}
+      />
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing?.title}</DialogTitle>
+            <DialogDescription>Who does it, and which tasks must be completed before it can start</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveTask} className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Assignee</label>
+              <Select value={taskForm.assigneeId || 'none'} onValueChange={(value) => setTaskForm({ ...taskForm, assigneeId: value === 'none' ? '' : value })}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{editing?.assigneeId ? 'Unassigned' : editing?.assignee || 'Unassigned'}</SelectItem>
+                  {people.map((person: Person) => (
+                    <SelectItem key={person.id} value={person.id}>{person.name} - {person.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="text-sm font-medium text-gray-700 block">Depends on</label>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {candidateTasks
+                .filter((t: OnboardingTask) => t.id !== editing?.id)
+                .map((t: OnboardingTask) => (
+                  <label key={t.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={taskForm.dependsOn.includes(t.id)}
+                      onChange={(e) => setTaskForm({
+                        ...taskForm,
+                        dependsOn: e.target.checked
+                          ? [...taskForm.dependsOn, t.id]
+                          : taskForm.dependsOn.filter(id => id !== t.id)
+                      })}
+                    />
+                    {t.title}
+                    <span className="text-xs text-gray-500">({t.department})</span>
+                  </label>
+                ))}
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Duration (days)</label>
+              <Input
+                type="number"
+                min={1}
+                value={taskForm.durationDays}
+                onChange={(e) => setTaskForm({ ...taskForm, durationDays: e.target.value })}
+                placeholder="1"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">External reference</label>
+              <Input
+                value={taskForm.externalRef}
+                onChange={(e) => setTaskForm({ ...taskForm, externalRef: e.target.value })}
+                placeholder="e.g. IT-4821"
+                className="mt-1"
+              />
+              <p className="text-xs text-gray-500 mt-1">Ticket id in another team's system; its status updates complete this task automatically</p>
+            </div>
+            {taskFormError && <p className="text-sm text-red-600">{taskFormError}</p>}
+            <Button type="submit" className="w-full">Save Task</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+// Task Board Component
+const TASK_COLUMNS: { status: TaskStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'in_progress', label: 'In Progress' },
+  { status: 'completed', label: 'Completed' }
+]
+
+// Drag cards between columns, or focus a card, press Space, move with the arrow keys and press Space again
+function TaskBoard({ tasks, criticalPath, onMoveTask, onEditTask, onOpenTask }: {
+  tasks: OnboardingTask[]
+  criticalPath: string[]
+  onMoveTask: (taskId: string, status: TaskStatus) => void
+  onEditTask: (task: OnboardingTask) => void
+  onOpenTask: (task: OnboardingTask) => void
+}) {
+  const [dragOver, setDragOver] = useState<TaskStatus | null>(null)
+  const [grabbed, setGrabbed] = useState<{ taskId: string; status: TaskStatus } | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  const focusAfterMove = useRef<string | null>(null)
+
+  const columnLabel = (status: TaskStatus) => TASK_COLUMNS.find(column => column.status === status)!.label
+
+  const move = (task: OnboardingTask, status: TaskStatus) => {
+    if (task.status !== status) {
+      focusAfterMove.current = task.id
+      onMoveTask(task.id, status)
+    }
+    setAnnouncement(`${task.title} moved to ${columnLabel(status)}`)
+  }
+
+  const handleDrop = (e: React.DragEvent, status: TaskStatus) => {
+    e.preventDefault()
+    setDragOver(null)
+    const task = tasks.find(t => t.id === e.dataTransfer.getData('text/plain'))
+    if (task) move(task, status)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent, task: OnboardingTask) => {
+    // Keys pressed on the card's own buttons are theirs
+    if (e.target !== e.currentTarget) return
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault()
+      if (grabbed?.taskId === task.id) {
+        move(task, grabbed.status)
+        setGrabbed(null)
+      } else {
+        setGrabbed({ taskId: task.id, status: task.status })
+        setAnnouncement(`Picked up ${task.title}. Use the left and right arrow keys to choose a column, Space to drop, Escape to cancel.`)
+      }
+    } else if (grabbed?.taskId === task.id && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+      e.preventDefault()
+      const index = TASK_COLUMNS.findIndex(column => column.status === grabbed.status)
+      const next = TASK_COLUMNS[Math.min(TASK_COLUMNS.length - 1, Math.max(0, index + (e.key === 'ArrowRight' ? 1 : -1)))]
+      setGrabbed({ taskId: task.id, status: next.status })
+      setAnnouncement(`${task.title} over ${next.label}`)
+    } else if (grabbed?.taskId === task.id && e.key === 'Escape') {
+      setGrabbed(null)
+      setAnnouncement(`Move of ${task.title} cancelled`)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <p className="sr-only" aria-live="assertive">{announcement}</p>
+      {TASK_COLUMNS.map(({ status, label }) => {
+        const columnTasks = tasks.filter(t => t.status === status)
+        const highlighted = dragOver === status || grabbed?.status === status
+        return (
+          <Card
+            key={status}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setDragOver(status)
+            }}
+            onDragLeave={() => setDragOver(prev => (prev === status ? null : prev))}
+            onDrop={(e) => handleDrop(e, status)}
+            className={highlighted ? 'ring-2 ring-blue-400' : ''}
+          >
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm">{label} ({columnTasks.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 min-h-24" role="list" aria-label={label}>
+              {columnTasks.length === 0 ? (
+                <div className="text-center py-8">
+                  <Clock className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+                  <p className="text-sm text-gray-500">No tasks</p>
+                </div>
+              ) : (
+                columnTasks.map((task) => {
+                  const blockers = blockingTasks(task, tasks)
+                  const critical = criticalPath.includes(task.id) && task.status !== 'completed'
+                  const sla = taskSlaStatus(task)
+                  return (
+                    <div
+                      key={task.id}
+                      ref={(el) => {
+                        if (el && focusAfterMove.current === task.id) {
+                          focusAfterMove.current = null
+                          el.focus()
+                        }
+                      }}
+                      role="listitem"
+                      tabIndex={0}
+                      draggable
+                      aria-roledescription="Draggable task"
+                      aria-grabbed={grabbed?.taskId === task.id}
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData('text/plain', task.id)
+                        e.dataTransfer.effectAllowed = 'move'
+                      }}
+                      onDragEnd={() => setDragOver(null)}
+                      onKeyDown={(e) => handleKeyDown(e, task)}
+                      onBlur={() => setGrabbed(prev => (prev?.taskId === task.id ? null : prev))}
+                      className={`p-3 bg-gray-50 border rounded-lg hover:bg-gray-100 transition cursor-grab focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        grabbed?.taskId === task.id ? 'border-blue-500 shadow-md' : critical ? 'border-orange-400' : 'border-gray-200'
+                      }`}
+                    >
                       <p className="text-sm font-medium text-gray-900">{task.title}</p>
-                      <p className="text-xs text-gray-600 mt-1">{task.department}</p>
+                      <p className="text-xs text-gray-600 mt-1">{task.department}{task.assignee ? ` • ${task.assignee}` : ''}</p>
                       <p className="text-xs text-gray-500 mt-1">Due: {task.dueDate}</p>
-                      <Badge className="mt-2" variant={task.priority === 'high' ? 'destructive' : 'secondary'}>
-                        {task.priority}
-                      </Badge>
+                      {blockers.length > 0 && (
+                        <p className="text-xs text-amber-700 mt-1">Blocked by: {blockers.map(t => t.title).join(', ')}</p>
+                      )}
+                      <div className="flex items-center gap-2 mt-2">
+                        <Badge variant={task.priority === 'high' ? 'destructive' : 'secondary'}>
+                          {task.priority}
+                        </Badge>
+                        {sla.state === 'overdue' && <Badge variant="destructive">Overdue</Badge>}
+                        {sla.state === 'due_soon' && <Badge variant="outline" className="text-red-700 border-red-300">Due soon</Badge>}
+                        {blockers.length > 0 && <Badge variant="outline" className="text-amber-700 border-amber-300">Blocked</Badge>}
+                        {critical && <Badge variant="outline" className="text-orange-700 border-orange-300">Critical path</Badge>}
+                        <button
+                          type="button"
+                          onClick={() => onEditTask(task)}
+                          aria-label={`Edit ${task.title}`}
+                          className="ml-auto text-xs text-blue-600 hover:underline"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => onOpenTask(task)}
+                          aria-label={`Open details of ${task.title}`}
+                          className="text-xs text-blue-600 hover:underline"
+                        >
+                          Details
+                        </button>
+                      </div>
                     </div>
-                  ))
-                )}
-              </CardContent>
-            </Card>
+                  )
+                })
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
+
+// Task Drawer Component
+function describeActivity(activity: TaskActivity, people: Person[]): string {
+  switch (activity.type) {
+    case 'status_changed':
+      return `moved it from ${activity.from?.replace('_', ' ')} to ${activity.to?.replace('_', ' ')}`
+    case 'assignee_changed':
+      return `reassigned it from ${activity.from || 'nobody'} to ${activity.to || 'nobody'}`
+    case 'due_date_changed':
+      return `changed the due date from ${activity.from || 'none'} to ${activity.to || 'none'}`
+    case 'escalated':
+      return `escalated it to ${people.find(p => p.id === activity.escalatedTo)?.name || 'a manager'}`
+  }
+}
+
+function CommentThreadView({ thread, onReply }: { thread: CommentThread; onReply: (comment: TaskComment) => void }) {
+  const { comment, replies } = thread
+  return (
+    <div>
+      <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+        <p className="text-xs text-gray-500">
+          <span className="font-medium text-gray-700">{comment.author}</span> • {new Date(comment.createdAt).toLocaleString()}
+        </p>
+        <p className="text-sm text-gray-900 mt-1 whitespace-pre-wrap">{comment.body}</p>
+        <button type="button" onClick={() => onReply(comment)} className="text-xs text-blue-600 hover:underline mt-1">
+          Reply
+        </button>
+      </div>
+      {replies.length > 0 && (
+        <div className="ml-4 mt-2 pl-3 border-l-2 border-gray-200 space-y-2">
+          {replies.map(reply => (
+            <CommentThreadView key={reply.comment.id} thread={reply} onReply={onReply} />
           ))}
         </div>
       )}
@@ -582,8 +1418,155 @@ function TaskManagement({ candidates, tasks, onAddTask, onGenerateTasks }: any)
   )
 }
 
+// Comments, attachments and activity history of one task, loaded when the drawer opens
+function TaskDrawer({ task, people, actor, onClose }: {
+  task: OnboardingTask | null
+  people: Person[]
+  actor: string
+  onClose: () => void
+}) {
+  const [comments, setComments] = useState<TaskComment[]>([])
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([])
+  const [activity, setActivity] = useState<TaskActivity[]>([])
+  const [commentBody, setCommentBody] = useState('')
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null)
+  const [error, setError] = useState('')
+
+  const taskId = task?.id
+  useEffect(() => {
+    if (!taskId) return
+    setReplyTo(null)
+    setError('')
+    Promise.all([fetchTaskComments(taskId), fetchTaskAttachments(taskId)]).then(([commentResult, attachmentResult]) => {
+      setComments(commentResult.data || [])
+      setAttachments(attachmentResult.data || [])
+    })
+  }, [taskId])
+
+  // The history grows whenever the task is moved, edited or escalated
+  const revision = task ? [task.status, task.assignee, task.dueDate, task.escalatedAt].join('|') : ''
+  useEffect(() => {
+    if (!taskId) return
+    fetchTaskActivity(taskId).then(result => setActivity(result.data || []))
+  }, [taskId, revision])
+
+  const handleAddComment = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!taskId || !commentBody.trim()) return
+    const result = await addTaskComment(taskId, { author: actor, body: commentBody, parentId: replyTo?.id })
+    if (result.success && result.data) {
+      setComments(prev => [...prev, result.data!])
+      setCommentBody('')
+      setReplyTo(null)
+      setError('')
+    } else {
+      setError(result.details || result.error || 'Could not add the comment')
+    }
+  }
+
+  const handleAttach = async (files: FileList | null) => {
+    if (!taskId || !files) return
+    for (const file of Array.from(files)) {
+      const result = await uploadTaskAttachment(taskId, file, actor)
+      if (result.success && result.data) {
+        const added = result.data
+        setAttachments(prev => [...prev.filter(a => !added.some(b => b.id === a.id)), ...added])
+        setError('')
+      } else {
+        setError(`${file.name}: ${result.error}`)
+      }
+    }
+  }
+
+  const sla = task ? taskSlaStatus(task) : null
+
+  return (
+    <Sheet open={task !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {task && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{task.title}</SheetTitle>
+              <SheetDescription>
+                {task.department} • {task.assignee || 'Unassigned'} • Due {task.dueDate || '-'}
+              </SheetDescription>
+            </SheetHeader>
+            <div className="flex items-center gap-2 mt-3">
+              <Badge variant="secondary">{task.status.replace('_', ' ')}</Badge>
+              <Badge variant={task.priority === 'high' ? 'destructive' : 'secondary'}>{task.priority}</Badge>
+              {sla?.state === 'overdue' && <Badge variant="destructive">Overdue</Badge>}
+              {sla?.state === 'due_soon' && <Badge variant="outline" className="text-red-700 border-red-300">Due soon</Badge>}
+              {task.externalRef && <Badge variant="outline">{task.externalRef}</Badge>}
+            </div>
+
+            <section className="mt-6 space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900">Comments</h3>
+              {comments.length === 0 && <p className="text-sm text-gray-500">No comments yet</p>}
+              {buildCommentThreads(comments).map(thread => (
+                <CommentThreadView key={thread.comment.id} thread={thread} onReply={setReplyTo} />
+              ))}
+              <form onSubmit={handleAddComment} className="space-y-2">
+                {replyTo && (
+                  <p className="text-xs text-gray-600">
+                    Replying to {replyTo.author}{' '}
+                    <button type="button" onClick={() => setReplyTo(null)} className="text-blue-600 hover:underline">Cancel</button>
+                  </p>
+                )}
+                <Textarea
+                  value={commentBody}
+                  onChange={(e) => setCommentBody(e.target.value)}
+                  placeholder="e.g. Laptop shipped, tracking #..."
+                  aria-label="Comment"
+                  rows={3}
+                />
+                <Button type="submit" size="sm" disabled={!commentBody.trim()}>
+                  {replyTo ? 'Reply' : 'Comment'} as {actor}
+                </Button>
+              </form>
+            </section>
+
+            <section className="mt-6 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900">Attachments</h3>
+              {attachments.map(attachment => (
+                <a
+                  key={attachment.id}
+                  href={taskAttachmentUrl(task.id, attachment.id)}
+                  className="flex items-center justify-between text-sm text-blue-600 hover:underline"
+                >
+                  <span>{attachment.filename}</span>
+                  <span className="text-xs text-gray-500">{attachment.uploadedBy} • {Math.ceil(attachment.size / 1024)} KB</span>
+                </a>
+              ))}
+              <label className="inline-flex items-center gap-2 text-sm text-blue-600 cursor-pointer hover:underline">
+                <Upload className="w-4 h-4" />
+                Attach files
+                <input type="file" multiple className="sr-only" onChange={(e) => { handleAttach(e.target.files); e.target.value = '' }} />
+              </label>
+            </section>
+
+            {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+
+            <section className="mt-6 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900">Activity</h3>
+              {activity.length === 0 && <p className="text-sm text-gray-500">No changes recorded yet</p>}
+              <ol className="space-y-2">
+                {activity.map(entry => (
+                  <li key={entry.id} className="text-xs text-gray-600">
+                    <span className="font-medium text-gray-800">{entry.actor}</span> {describeActivity(entry, people)}
+                    <span className="block text-gray-400">{new Date(entry.at).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
 // Progress Tracker Component
-function ProgressTracker({ candidates }: any) {
+function ProgressTracker({ candidates, tasks, documents, requirementRules }: any) {
   const [selectedCandidate, setSelectedCandidate] = useState<string>('')
   const [report, setReport] = useState<any>(null)
   const [loading, setLoading] = useState(false)
@@ -593,25 +1576,17 @@ function ProgressTracker({ candidates }: any) {
     setLoading(true)
 
     const candidate = candidates.find((c: Candidate) => c.id === selectedCandidate)
-    const progressData = {
-      candidate_id: selectedCandidate,
-      candidate_name: candidate?.name,
-      role: candidate?.role,
-      department: candidate?.department,
-      start_date: candidate?.startDate,
-      current_date: new Date().toISOString().split('T')[0],
-      tasks: [
-        { task_id: 'IT-001', title: 'Setup laptop', department: 'IT', status: 'completed', due_date: candidate?.startDate, completed_date: new Date().toISOString().split('T')[0] },
-        { task_id: 'FAC-001', title: 'Assign desk', department: 'Facilities', status: 'in_progress', due_date: candidate?.startDate, completed_date: null },
-        { task_id: 'MGR-001', title: 'Team introduction', department: 'Manager', status: 'pending', due_date: candidate?.startDate, completed_date: null }
-      ],
-      documents: [
-        { type: 'government_id', status: 'validated', submitted_date: new Date().toISOString().split('T')[0] },
-        { type: 'tax_form', status: 'pending', submitted_date: null }
-      ]
+    if (!candidate) {
+      setLoading(false)
+      return
     }
+    const progressData = buildProgressReportContext(candidate, tasks, documents, {
+      requiredDocuments: resolveRequiredDocuments(candidate, requirementRules)
+    })
 
-    const result = await callAgent('6930690bde309976217c961d', 'Generate progress report for this onboarding', progressData)
+    const result = await callAgent(AGENT_IDS.progressReport, 'Generate progress report for this onboarding', progressData, (partial) => {
+      if (partial?.result) setReport(partial.result)
+    })
 
     if (result?.result) {
       setReport(result.result)
@@ -735,133 +1710,1450 @@ function ProgressTracker({ candidates }: any) {
   )
 }
 
-// Main App Component
-export default function OnboardingHub() {
-  const [currentTab, setCurrentTab] = useState('dashboard')
-  const [sidebarOpen, setSidebarOpen] = useState(true)
-  const [candidates, setCandidates] = useState<Candidate[]>([
-    {
-      id: '1',
-      name: 'Sarah Johnson',
-      email: 'sarah.johnson@email.com',
-      role: 'Product Manager',
-      department: 'Product',
-      startDate: '2024-02-20',
-      status: 'documents_received',
-      progress: 65
-    },
-    {
-      id: '2',
-      name: 'Michael Chen',
-      email: 'michael.chen@email.com',
-      role: 'Software Engineer',
-      department: 'Engineering',
-      startDate: '2024-02-15',
-      status: 'welcome_sent',
-      progress: 40
-    }
-  ])
-  const [tasks, setTasks] = useState<OnboardingTask[]>([
-    {
-      id: '1',
-      candidateId: '1',
-      title: 'Setup laptop and development environment',
-      department: 'IT',
-      assignee: 'IT Support Team',
-      dueDate: '2024-02-19',
-      priority: 'high',
-      status: 'completed'
-    },
-    {
-      id: '2',
-      candidateId: '1',
-      title: 'Prepare team introduction meeting',
-      department: 'Product',
-      assignee: 'John Smith',
-      dueDate: '2024-02-20',
-      priority: 'medium',
-      status: 'pending'
-    }
-  ])
+// Requirements Admin Component
+const EMPTY_RULE_FORM = { name: '', role: '', department: '', employmentType: '', country: '', require: '', waive: '' }
 
-  const handleNewOnboarding = async (data: any) => {
-    const newCandidate: Candidate = {
-      id: Math.random().toString(),
-      ...data,
-      status: 'pending',
-      progress: 0
-    }
-    setCandidates([...candidates, newCandidate])
-  }
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean)
+}
 
-  const handleInitiate = async (candidateId: string) => {
-    const candidate = candidates.find(c => c.id === candidateId)
-    if (!candidate) return
-
-    const welcomeData = {
-      candidate_name: candidate.name,
-      candidate_email: candidate.email,
-      role: candidate.role,
-      department: candidate.department,
-      start_date: candidate.startDate,
-      manager_name: 'Jane Doe'
-    }
-
-    const result = await callAgent('693068b9d4e9ae41a5a27a4a', 'Send personalized welcome email to this new hire', welcomeData)
-
-    if (result?.result?.email_sent) {
-      setCandidates(candidates.map(c =>
-        c.id === candidateId
-          ? { ...c, status: 'welcome_sent', progress: 25 }
-          : c
-      ))
-    }
-  }
-
-  const handleGenerateTasks = (candidateId: string, taskResult: any) => {
-    const newTasks: OnboardingTask[] = []
-    Object.entries(taskResult.tasks_by_department || {}).forEach(([dept, deptTasks]: any) => {
-      deptTasks.forEach((task: any) => {
-        newTasks.push({
-          id: Math.random().toString(),
-          candidateId,
-          title: task.task_title,
-          department: dept,
-          assignee: task.assignee,
-          dueDate: task.due_date,
-          priority: task.priority,
-          status: task.status
-        })
-      })
+function describeCriteria(rule: DocumentRequirementRule): string {
+  const criteria = [rule.role, rule.department, rule.employmentType?.replace(/_/g, ' '), rule.country]
+  return criteria.filter(Boolean).join(' • ') || 'Everyone'
+}
+
+function RequirementsAdmin({ rules, onSaveRule, onDeleteRule }: any) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_RULE_FORM)
+  const [error, setError] = useState<string | null>(null)
+
+  const startEdit = (rule: DocumentRequirementRule) => {
+    setEditingId(rule.id)
+    setError(null)
+    setForm({
+      name: rule.name,
+      role: rule.role || '',
+      department: rule.department || '',
+      employmentType: rule.employmentType || '',
+      country: rule.country || '',
+      require: rule.require.join(', '),
+      waive: rule.waive.join(', ')
     })
+  }
 
-    setCandidates(candidates.map(c =>
-      c.id === candidateId
-        ? { ...c, status: 'tasks_assigned', progress: 60 }
-        : c
-    ))
-    setTasks([...tasks, ...newTasks])
+  const resetForm = () => {
+    setEditingId(null)
+    setError(null)
+    setForm(EMPTY_RULE_FORM)
   }
 
-  return (
-    <div className="min-h-screen bg-gray-50 flex">
-      {/* Sidebar */}
-      <div className={`${sidebarOpen ? 'w-64' : 'w-20'} bg-white border-r border-gray-200 transition-all duration-300 flex flex-col`}>
-        <div className="h-16 flex items-center justify-between px-4 border-b border-gray-200">
-          {sidebarOpen && <h1 className="text-lg font-bold text-blue-600">OnBoard Hub</h1>}
-          <button onClick={() => setSidebarOpen(!sidebarOpen)} className="p-1 hover:bg-gray-100 rounded">
-            {sidebarOpen ? <X className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
-          </button>
-        </div>
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await onSaveRule(editingId, {
+      ...form,
+      require: splitList(form.require),
+      waive: splitList(form.waive)
+    })
+    if (result.success) {
+      resetForm()
+    } else {
+      setError(result.details || result.error)
+    }
+  }
 
-        <nav className="flex-1 px-3 py-6 space-y-2">
-          {[
-            { id: 'dashboard', label: 'Dashboard', icon: Users },
-            { id: 'documents', label: 'Document Hub', icon: FileText },
-            { id: 'tasks', label: 'Task Management', icon: Zap },
-            { id: 'progress', label: 'Progress Tracker', icon: CheckCircle }
-          ].map((item) => {
-            const Icon = item.icon
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit Rule' : 'Add Rule'}</CardTitle>
+          <CardDescription>
+            Every rule matching a candidate applies: its documents are required unless another matching rule waives them.
+            Leave a criterion empty to match everyone; use "{INTERNATIONAL}" as the country for hires outside the home country.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Name</label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Contractors" required />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Role</label>
+                <Input value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value })} placeholder="Any" />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Department</label>
+                <Input value={form.department} onChange={(e) => setForm({ ...form, department: e.target.value })} placeholder="Any" />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Employment Type</label>
+                <Select value={form.employmentType || 'any'} onValueChange={(value) => setForm({ ...form, employmentType: value === 'any' ? '' : value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    {EMPLOYMENT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{type.replace(/_/g, ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Country</label>
+                <Input value={form.country} onChange={(e) => setForm({ ...form, country: e.target.value })} placeholder={`Any (e.g. DE or ${INTERNATIONAL})`} />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Require (comma-separated)</label>
+                <Input value={form.require} onChange={(e) => setForm({ ...form, require: e.target.value })} placeholder="Contractor Agreement" />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Waive (comma-separated)</label>
+                <Input value={form.waive} onChange={(e) => setForm({ ...form, waive: e.target.value })} placeholder="Direct Deposit Info" />
+              </div>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <Button type="submit">{editingId ? 'Save Rule' : 'Add Rule'}</Button>
+              {editingId && <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Requirement Rules</CardTitle>
+          <CardDescription>{rules.length} rules</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {rules.map((rule: DocumentRequirementRule) => (
+              <div key={rule.id} className="flex items-start justify-between p-3 border border-gray-200 rounded-lg">
+                <div className="space-y-1">
+                  <p className="font-medium text-gray-900">{rule.name}</p>
+                  <p className="text-xs text-gray-500">{describeCriteria(rule)}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {rule.require.map((type) => (
+                      <Badge key={`require-${type}`} variant="secondary">+ {type}</Badge>
+                    ))}
+                    {rule.waive.map((type) => (
+                      <Badge key={`waive-${type}`} variant="outline">− {type}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => startEdit(rule)}>Edit</Button>
+                  <Button size="sm" variant="outline" onClick={() => onDeleteRule(rule.id)} aria-label={`Delete ${rule.name}`}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+const EMPTY_TEMPLATE_TASK = { title: '', department: '', assignee: '', dueOffsetDays: '0', priority: 'medium', dependsOn: '' }
+
+function describeOffset(days: number): string {
+  if (days === 0) return 'on the start date'
+  return `${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'} ${days < 0 ? 'before' : 'after'} start`
+}
+
+function TemplatesAdmin({ templates, onSaveTemplate, onDeleteTemplate }: any) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState({ name: '', role: '', department: '' })
+  const [items, setItems] = useState([EMPTY_TEMPLATE_TASK])
+  const [error, setError] = useState<string | null>(null)
+
+  const startEdit = (template: TaskTemplate) => {
+    setEditingId(template.id)
+    setError(null)
+    setForm({ name: template.name, role: template.role || '', department: template.department || '' })
+    setItems(template.tasks.map((item) => ({
+      title: item.title,
+      department: item.department,
+      assignee: item.assignee,
+      dueOffsetDays: String(item.dueOffsetDays),
+      priority: item.priority,
+      dependsOn: (item.dependsOn || []).join(', ')
+    })))
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setError(null)
+    setForm({ name: '', role: '', department: '' })
+    setItems([EMPTY_TEMPLATE_TASK])
+  }
+
+  const updateItem = (index: number, patch: Partial<typeof EMPTY_TEMPLATE_TASK>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...patch } : item)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await onSaveTemplate(editingId, {
+      ...form,
+      tasks: items.map((item) => ({
+        ...item,
+        dueOffsetDays: Number(item.dueOffsetDays) || 0,
+        dependsOn: splitList(item.dependsOn)
+      }))
+    })
+    if (result.success) {
+      resetForm()
+    } else {
+      setError(result.details || result.error)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit Template' : 'Add Template'}</CardTitle>
+          <CardDescription>
+            New candidates get the tasks of the most specific matching template: role and department, then role, then department,
+            then a template without either. Due offsets count days from the start date (negative = before).
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Name</label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Software Engineer / Engineering" required />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Role</label>
+                <Input value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value })} placeholder="Any" />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Department</label>
+                <Input value={form.department} onChange={(e) => setForm({ ...form, department: e.target.value })} placeholder="Any" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="hidden md:grid grid-cols-12 gap-2 text-xs font-medium text-gray-500">
+                <span className="col-span-3">Task</span>
+                <span className="col-span-2">Department</span>
+                <span className="col-span-2">Assignee</span>
+                <span>Due offset</span>
+                <span className="col-span-1">Priority</span>
+                <span className="col-span-2">After (titles)</span>
+              </div>
+              {items.map((item, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2">
+                  <Input className="col-span-3" value={item.title} onChange={(e) => updateItem(index, { title: e.target.value })} placeholder="Create email account" required />
+                  <Input className="col-span-2" value={item.department} onChange={(e) => updateItem(index, { department: e.target.value })} placeholder="IT" required />
+                  <Input className="col-span-2" value={item.assignee} onChange={(e) => updateItem(index, { assignee: e.target.value })} placeholder="IT Support Team" />
+                  <Input type="number" value={item.dueOffsetDays} onChange={(e) => updateItem(index, { dueOffsetDays: e.target.value })} aria-label="Due offset in days" />
+                  <Select value={item.priority} onValueChange={(value) => updateItem(index, { priority: value })}>
+                    <SelectTrigger className="col-span-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="high">high</SelectItem>
+                      <SelectItem value="medium">medium</SelectItem>
+                      <SelectItem value="low">low</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input className="col-span-2" value={item.dependsOn} onChange={(e) => updateItem(index, { dependsOn: e.target.value })} placeholder="None" />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setItems(items.filter((_, i) => i !== index))}
+                    disabled={items.length === 1}
+                    aria-label={`Remove task ${index + 1}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => setItems([...items, EMPTY_TEMPLATE_TASK])}>
+                Add Task
+              </Button>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <Button type="submit">{editingId ? 'Save Template' : 'Add Template'}</Button>
+              {editingId && <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Task Templates</CardTitle>
+          <CardDescription>{templates.length} templates</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {templates.map((template: TaskTemplate) => (
+              <div key={template.id} className="flex items-start justify-between p-3 border border-gray-200 rounded-lg">
+                <div className="space-y-1">
+                  <p className="font-medium text-gray-900">{template.name}</p>
+                  <p className="text-xs text-gray-500">{[template.role, template.department].filter(Boolean).join(' • ') || 'Everyone'}</p>
+                  <ul className="text-xs text-gray-600 space-y-0.5">
+                    {template.tasks.map((item) => (
+                      <li key={item.title}>
+                        {item.title} <span className="text-gray-400">({item.department}, {describeOffset(item.dueOffsetDays)})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => startEdit(template)}>Edit</Button>
+                  <Button size="sm" variant="outline" onClick={() => onDeleteTemplate(template.id)} aria-label={`Delete ${template.name}`}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// Email Templates Admin Component
+const EMPTY_EMAIL_TEMPLATE = { name: '', purpose: 'custom', subject: '', body: '' }
+
+function EmailTemplatesAdmin({ templates, candidates, documents, requirementRules, people, onSaveTemplate, onDeleteTemplate, onSendEmail }: any) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_EMAIL_TEMPLATE)
+  const [error, setError] = useState<string | null>(null)
+  const [previewCandidateId, setPreviewCandidateId] = useState('')
+  const [suggestion, setSuggestion] = useState<{ subject: string; body: string } | null>(null)
+  const [polishing, setPolishing] = useState(false)
+  const [sendStatus, setSendStatus] = useState<string | null>(null)
+
+  const editing: EmailTemplate | undefined = templates.find((t: EmailTemplate) => t.id === editingId)
+  const unsaved = !editing || (['name', 'purpose', 'subject', 'body'] as const).some((field) => editing[field] !== form[field])
+  const validation = emailTemplateSchema.safeParse(form)
+  const unknownVariables = validation.success
+    ? []
+    : validation.error.issues.filter((issue) => issue.message.startsWith('unknown variable')).map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+
+  // Live preview against the selected candidate's current values
+  const previewCandidate: Candidate | undefined = candidates.find((c: Candidate) => c.id === previewCandidateId)
+  const preview = previewCandidate
+    ? renderEmailTemplate(form, candidateTemplateValues(previewCandidate, {
+        manager: getManager(previewCandidate, people),
+        missingDocuments: missingDocuments(previewCandidate, documents, resolveRequiredDocuments(previewCandidate, requirementRules))
+      }))
+    : null
+
+  const startEdit = (template: EmailTemplate) => {
+    setEditingId(template.id)
+    setError(null)
+    setSuggestion(null)
+    setSendStatus(null)
+    setForm({ name: template.name, purpose: template.purpose, subject: template.subject, body: template.body })
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setError(null)
+    setSuggestion(null)
+    setSendStatus(null)
+    setForm(EMPTY_EMAIL_TEMPLATE)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await onSaveTemplate(editingId, form)
+    if (result.success) {
+      setError(null)
+      if (!editingId) startEdit(result.data)
+    } else {
+      setError(result.details || result.error)
+    }
+  }
+
+  // The agent rewrites the wording only; a suggestion with variables we don't know is discarded
+  const handlePolish = async () => {
+    setPolishing(true)
+    setSuggestion(null)
+    setError(null)
+    const result = await callAgent(
+      AGENT_IDS.welcomeEmail,
+      'Polish this email template for new hires: improve tone and clarity, keep it concise and keep every {{variable}} placeholder unchanged',
+      {
+        template_subject: form.subject,
+        template_body: form.body,
+        purpose: EMAIL_TEMPLATE_PURPOSES[form.purpose as EmailTemplatePurpose],
+        variables: Object.keys(EMAIL_TEMPLATE_VARIABLES)
+      }
+    )
+    setPolishing(false)
+
+    if (!result) {
+      setError('The agent could not polish this template')
+      return
+    }
+    const polished = { subject: result.result.email_subject, body: result.result.email_body }
+    const check = emailTemplateSchema.safeParse({ ...form, ...polished })
+    if (!check.success) {
+      setError(`The agent's suggestion was discarded: ${check.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`)
+      return
+    }
+    setSuggestion(polished)
+  }
+
+  const handleSend = async () => {
+    if (!editingId || !previewCandidate) return
+    setSendStatus('Sending...')
+    const result = await onSendEmail(previewCandidate.id, editingId)
+    setSendStatus(result.success ? `Sent to ${previewCandidate.email}` : `Not sent: ${result.details || result.error}`)
+  }
+
+  const insertVariable = (name: string) => setForm({ ...form, body: `${form.body}{{${name}}}` })
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Email Template' : 'Add Email Template'}</CardTitle>
+            <CardDescription>
+              Use {'{{variable}}'} placeholders; they are filled from the candidate&apos;s record when the email is sent.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Name</label>
+                  <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Document reminder" required />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Purpose</label>
+                  <Select value={form.purpose} onValueChange={(value) => setForm({ ...form, purpose: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(EMAIL_TEMPLATE_PURPOSES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Subject</label>
+                <Input value={form.subject} onChange={(e) => setForm({ ...form, subject: e.target.value })} placeholder="Welcome, {{first_name}}!" required />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Body</label>
+                <Textarea value={form.body} onChange={(e) => setForm({ ...form, body: e.target.value })} rows={10} required />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(EMAIL_TEMPLATE_VARIABLES).map(([name, label]) => (
+                  <button key={name} type="button" onClick={() => insertVariable(name)} title={label}>
+                    <Badge variant="outline">{`{{${name}}}`}</Badge>
+                  </button>
+                ))}
+              </div>
+              {unknownVariables.map((message) => (
+                <p key={message} className="text-sm text-red-600">{message}</p>
+              ))}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              {suggestion && (
+                <div className="p-3 border border-blue-200 bg-blue-50 rounded-lg space-y-2">
+                  <p className="text-sm font-medium text-blue-900">Suggested by the agent</p>
+                  <p className="text-sm text-gray-900">{suggestion.subject}</p>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{suggestion.body}</p>
+                  <div className="flex gap-2">
+                    <Button type="button" size="sm" onClick={() => { setForm({ ...form, ...suggestion }); setSuggestion(null) }}>Accept</Button>
+                    <Button type="button" size="sm" variant="outline" onClick={() => setSuggestion(null)}>Dismiss</Button>
+                  </div>
+                </div>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit" disabled={!validation.success}>{editingId ? 'Save Template' : 'Add Template'}</Button>
+                <Button type="button" variant="outline" onClick={handlePolish} disabled={polishing || !form.subject.trim() || !form.body.trim()}>
+                  {polishing ? 'Polishing...' : 'Polish with Agent'}
+                </Button>
+                {editingId && <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+            <CardDescription>The email as the selected candidate would receive it</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Select value={previewCandidateId} onValueChange={(value) => { setPreviewCandidateId(value); setSendStatus(null) }}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a candidate" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((c: Candidate) => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {preview && previewCandidate && (
+              <div className="space-y-3">
+                <div className="p-3 border border-gray-200 rounded-lg space-y-2">
+                  <p className="text-xs text-gray-500">To: {previewCandidate.email}</p>
+                  <p className="font-medium text-gray-900">{preview.subject}</p>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{preview.body}</p>
+                </div>
+                {preview.missing.length > 0 && (
+                  <p className="text-sm text-orange-600">
+                    No value for {preview.missing.map((name) => `{{${name}}}`).join(', ')} - fill them in for {previewCandidate.name} before sending
+                  </p>
+                )}
+                <Button
+                  onClick={handleSend}
+                  disabled={!editingId || unsaved || preview.missing.length > 0 || sendStatus === 'Sending...'}
+                >
+                  Send to {previewCandidate.name}
+                </Button>
+                {editingId && unsaved && <p className="text-xs text-gray-500">Save the template before sending it</p>}
+                {sendStatus && <p className="text-sm text-gray-600">{sendStatus}</p>}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Email Templates</CardTitle>
+          <CardDescription>{templates.length} templates</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {templates.map((template: EmailTemplate) => (
+              <div key={template.id} className="flex items-start justify-between p-3 border border-gray-200 rounded-lg">
+                <div className="space-y-1">
+                  <p className="font-medium text-gray-900">{template.name}</p>
+                  <p className="text-xs text-gray-500">{EMAIL_TEMPLATE_PURPOSES[template.purpose]}</p>
+                  <p className="text-xs text-gray-600">{template.subject}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => startEdit(template)}>Edit</Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => { onDeleteTemplate(template.id); if (template.id === editingId) resetForm() }}
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// Reminders Panel Component
+const REMINDER_KIND_LABELS: Record<ReminderKind, string> = {
+  document_reminder: 'Document reminder',
+  task_due: 'Task due tomorrow',
+  first_day_email: 'First-day email'
+}
+
+const REMINDER_OUTCOME_LABELS: Record<ReminderOutcome, string> = {
+  sent: 'Sent',
+  failed: 'Failed',
+  skipped: 'Skipped',
+  already_sent: 'Already sent',
+  would_send: 'Would send'
+}
+
+function RemindersPanel({ candidates }: { candidates: Candidate[] }) {
+  const [jobs, setJobs] = useState<ReminderJob[]>([])
+  const [date, setDate] = useState(localDate())
+  const [preview, setPreview] = useState<ReminderRunResult | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchReminderJobs().then((result) => {
+      if (result.success) setJobs(result.data || [])
+    })
+  }, [])
+
+  const candidateName = (id: string) => candidates.find((c) => c.id === id)?.name || id
+
+  const handlePreview = async () => {
+    setPreviewing(true)
+    const result = await previewReminders(date)
+    setPreviewing(false)
+    if (result.success && result.data) {
+      setPreview(result.data)
+      setError(null)
+    } else {
+      setError(result.details || result.error || 'Preview failed')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Scheduled Reminders</CardTitle>
+          <CardDescription>
+            The scheduler nudges candidates about missing documents before their start date, reminds assignees of tasks due
+            tomorrow and sends the first-day email. Each reminder goes out once. Preview what a day&apos;s run would send:
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2 items-end">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Run date</label>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-44" />
+            </div>
+            <Button onClick={handlePreview} disabled={previewing || !date}>{previewing ? 'Previewing...' : 'Preview (dry run)'}</Button>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {preview && (
+            preview.reminders.length === 0 ? (
+              <p className="text-sm text-gray-600">Nothing is due on {preview.date}.</p>
+            ) : (
+              <div className="space-y-2">
+                {preview.reminders.map((entry) => (
+                  <div key={entry.key} className="flex items-start justify-between p-3 border border-gray-200 rounded-lg">
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium text-gray-900">{entry.subject || REMINDER_KIND_LABELS[entry.kind]}</p>
+                      <p className="text-xs text-gray-500">
+                        {REMINDER_KIND_LABELS[entry.kind]} • {candidateName(entry.candidateId)} • {entry.to || 'no recipient'}
+                      </p>
+                      {entry.reason && <p className="text-xs text-orange-600">{entry.reason}</p>}
+                    </div>
+                    <Badge variant={entry.outcome === 'would_send' ? 'default' : 'secondary'}>{REMINDER_OUTCOME_LABELS[entry.outcome]}</Badge>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sent Reminders</CardTitle>
+          <CardDescription>{jobs.length} reminders sent or attempted</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {jobs.map((job) => (
+              <div key={job.id} className="flex items-start justify-between p-3 border border-gray-200 rounded-lg">
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-gray-900">{job.subject}</p>
+                  <p className="text-xs text-gray-500">
+                    {REMINDER_KIND_LABELS[job.kind]} • {candidateName(job.candidateId)} • {job.to} • {new Date(job.lastAttemptAt).toLocaleString()}
+                  </p>
+                  {job.error && <p className="text-xs text-red-600">{job.error}</p>}
+                </div>
+                <Badge variant={job.status === 'sent' ? 'default' : 'destructive'}>
+                  {job.status === 'sent' ? 'Sent' : `Failed (${job.attempts}×)`}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// Channels Admin Component
+function ChannelsAdmin({ mappings, actor, onSaveMapping, onDeleteMapping }: any) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState({ department: '', channel: '', webhookUrl: '' })
+  const [error, setError] = useState<string | null>(null)
+  const [testStatus, setTestStatus] = useState<Record<string, string>>({})
+  const [notifications, setNotifications] = useState<ChatNotification[]>([])
+
+  useEffect(() => {
+    fetchChatNotifications().then((result) => {
+      if (result.success) setNotifications(result.data || [])
+    })
+  }, [])
+
+  const editing: ChannelMappingView | undefined = mappings.find((m: ChannelMappingView) => m.id === editingId)
+
+  const startEdit = (mapping: ChannelMappingView) => {
+    setEditingId(mapping.id)
+    setError(null)
+    setForm({ department: mapping.department, channel: mapping.channel, webhookUrl: '' })
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setError(null)
+    setForm({ department: '', channel: '', webhookUrl: '' })
+  }
+
+  const save = async (patch: Record<string, string>) => {
+    const result = await onSaveMapping(editingId, patch)
+    if (result.success) {
+      resetForm()
+    } else {
+      setError(result.details || result.error)
+    }
+  }
+
+  // A blank webhook field keeps the mapping's current webhook
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const { webhookUrl, ...rest } = form
+    save(webhookUrl.trim() ? form : rest)
+  }
+
+  const handleTest = async (mapping: ChannelMappingView) => {
+    setTestStatus({ ...testStatus, [mapping.id]: 'Sending...' })
+    const result = await testChannelMapping(mapping.id, actor)
+    setTestStatus((prev) => ({
+      ...prev,
+      [mapping.id]: result.success ? `Test message posted to ${mapping.channel}` : `${result.error}${result.details ? `: ${result.details}` : ''}`
+    }))
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit Channel' : 'Add Channel'}</CardTitle>
+          <CardDescription>
+            New tasks are posted to their department&apos;s channel through an incoming webhook (Slack, Mattermost or Rocket.Chat).
+            Mappings without their own webhook use the default one (CHAT_WEBHOOK_URL).
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Department</label>
+                <Input value={form.department} onChange={(e) => setForm({ ...form, department: e.target.value })} placeholder="IT" required />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Channel</label>
+                <Input value={form.channel} onChange={(e) => setForm({ ...form, channel: e.target.value })} placeholder="#it-requests" required />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Webhook URL</label>
+                <Input
+                  type="url"
+                  value={form.webhookUrl}
+                  onChange={(e) => setForm({ ...form, webhookUrl: e.target.value })}
+                  placeholder={editing?.webhookConfigured ? 'Keep the current webhook' : 'Default webhook'}
+                />
+              </div>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <Button type="submit">{editingId ? 'Save Channel' : 'Add Channel'}</Button>
+              {editing?.webhookConfigured && (
+                <Button type="button" variant="outline" onClick={() => save({ department: form.department, channel: form.channel, webhookUrl: '' })}>
+                  Use Default Webhook
+                </Button>
+              )}
+              {editingId && <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Channels</CardTitle>
+          <CardDescription>{mappings.length} departments mapped</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {mappings.map((mapping: ChannelMappingView) => (
+              <div key={mapping.id} className="flex items-start justify-between p-3 border border-gray-200 rounded-lg">
+                <div className="space-y-1">
+                  <p className="font-medium text-gray-900">{mapping.department} → {mapping.channel}</p>
+                  <p className="text-xs text-gray-500">{mapping.webhookConfigured ? 'Own webhook' : 'Default webhook'}</p>
+                  {testStatus[mapping.id] && <p className="text-xs text-gray-600">{testStatus[mapping.id]}</p>}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleTest(mapping)}>Test</Button>
+                  <Button size="sm" variant="outline" onClick={() => startEdit(mapping)}>Edit</Button>
+                  <Button size="sm" variant="outline" onClick={() => onDeleteMapping(mapping.id)} aria-label={`Delete ${mapping.department}`}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Posts</CardTitle>
+          <CardDescription>Tasks posted to chat channels</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {notifications.slice(0, 20).map((notification) => (
+              <div key={notification.id} className="flex items-start justify-between text-sm">
+                <div>
+                  <p className="text-gray-900">
+                    {notification.channel} • {notification.taskIds.length} task{notification.taskIds.length === 1 ? '' : 's'}
+                  </p>
+                  <p className="text-xs text-gray-500">{new Date(notification.at).toLocaleString()}</p>
+                  {notification.error && <p className="text-xs text-red-600">{notification.error}</p>}
+                </div>
+                <Badge variant={notification.status === 'sent' ? 'default' : 'destructive'}>{notification.status === 'sent' ? 'Posted' : 'Failed'}</Badge>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// People Directory Component
+const WORKLOAD_CHART_CONFIG: ChartConfig = {
+  onTrack: { label: 'On track', color: '#3b82f6' },
+  atRisk: { label: 'Due soon or overdue', color: '#f97316' }
+}
+
+const EMPTY_PERSON_FORM = { name: '', email: '', title: '', teamId: '', managerId: '' }
+const EMPTY_TEAM_FORM = { name: '', department: '', leadId: '' }
+
+function PeopleDirectory({ people, teams, tasks, candidates, actor, onSavePerson, onDeletePerson, onSaveTeam, onDeleteTeam }: any) {
+  const [viewing, setViewing] = useState<string>('')
+  const [personForm, setPersonForm] = useState(EMPTY_PERSON_FORM)
+  const [editingPersonId, setEditingPersonId] = useState<string | null>(null)
+  const [teamForm, setTeamForm] = useState(EMPTY_TEAM_FORM)
+  const [error, setError] = useState<string | null>(null)
+
+  // "My tasks" defaults to the person the header says we are acting as
+  const me = viewing || people.find((p: Person) => p.name.toLowerCase() === actor.trim().toLowerCase())?.id || ''
+  const myTasks = me ? openTasksFor(me, tasks) : []
+  const workload = workloadByPerson(tasks, people).map((w) => ({ ...w, onTrack: w.open - w.atRisk }))
+  const nameOf = (id?: string) => people.find((p: Person) => p.id === id)?.name || '-'
+
+  const startEditPerson = (person: Person) => {
+    setEditingPersonId(person.id)
+    setError(null)
+    setPersonForm({ name: person.name, email: person.email, title: person.title, teamId: person.teamId || '', managerId: person.managerId || '' })
+  }
+
+  const handleSubmitPerson = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await onSavePerson(editingPersonId, personForm)
+    if (result.success) {
+      setEditingPersonId(null)
+      setPersonForm(EMPTY_PERSON_FORM)
+      setError(null)
+    } else {
+      setError(result.details || result.error)
+    }
+  }
+
+  const handleSubmitTeam = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await onSaveTeam(null, teamForm)
+    if (result.success) {
+      setTeamForm(EMPTY_TEAM_FORM)
+      setError(null)
+    } else {
+      setError(result.details || result.error)
+    }
+  }
+
+  const personSelect = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <Select value={value || 'none'} onValueChange={(v) => onChange(v === 'none' ? '' : v)}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">{placeholder}</SelectItem>
+        {people.map((p: Person) => (
+          <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Workload</CardTitle>
+            <CardDescription>Open onboarding tasks per person</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {workload.length === 0 ? (
+              <p className="text-sm text-gray-500">No open tasks are assigned to anyone in the directory</p>
+            ) : (
+              <ChartContainer config={WORKLOAD_CHART_CONFIG} className="h-64 w-full">
+                <BarChart data={workload} layout="vertical" margin={{ left: 16 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} />
+                  <YAxis type="category" dataKey="name" width={110} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="onTrack" stackId="open" fill="var(--color-onTrack)" />
+                  <Bar dataKey="atRisk" stackId="open" fill="var(--color-atRisk)" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>My Tasks</CardTitle>
+            <CardDescription>Open tasks assigned to one person, soonest first</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {personSelect(me, setViewing, 'Choose a person')}
+            {me && myTasks.length === 0 && <p className="text-sm text-gray-500">Nothing open</p>}
+            {myTasks.map((task: OnboardingTask) => (
+              <div key={task.id} className="p-3 border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-900">{task.title}</p>
+                  <Badge variant={isTaskAtRisk(task) ? 'destructive' : 'secondary'}>{task.status.replace('_', ' ')}</Badge>
+                </div>
+                <p className="text-xs text-gray-600 mt-1">
+                  {candidates.find((c: Candidate) => c.id === task.candidateId)?.name || 'Unknown candidate'} • Due {task.dueDate || '-'}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>People</CardTitle>
+          <CardDescription>Assignees and managers link to these records; tasks assigned to a team go to its lead</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSubmitPerson} className="grid grid-cols-1 md:grid-cols-6 gap-2">
+            <Input value={personForm.name} onChange={(e) => setPersonForm({ ...personForm, name: e.target.value })} placeholder="Name" required />
+            <Input type="email" value={personForm.email} onChange={(e) => setPersonForm({ ...personForm, email: e.target.value })} placeholder="Email" required />
+            <Input value={personForm.title} onChange={(e) => setPersonForm({ ...personForm, title: e.target.value })} placeholder="Title" />
+            <Select value={personForm.teamId || 'none'} onValueChange={(v) => setPersonForm({ ...personForm, teamId: v === 'none' ? '' : v })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No team</SelectItem>
+                {teams.map((t: Team) => (
+                  <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {personSelect(personForm.managerId, (managerId) => setPersonForm({ ...personForm, managerId }), 'No manager')}
+            <div className="flex gap-2">
+              <Button type="submit">{editingPersonId ? 'Save' : 'Add'}</Button>
+              {editingPersonId && (
+                <Button type="button" variant="outline" onClick={() => { setEditingPersonId(null); setPersonForm(EMPTY_PERSON_FORM) }}>Cancel</Button>
+              )}
+            </div>
+          </form>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="divide-y divide-gray-100">
+            {people.map((person: Person) => (
+              <div key={person.id} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{person.name} <span className="text-gray-500 font-normal">{person.title}</span></p>
+                  <p className="text-xs text-gray-500">
+                    {person.email} • {teams.find((t: Team) => t.id === person.teamId)?.name || 'No team'} • Manager: {nameOf(person.managerId)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => startEditPerson(person)}>Edit</Button>
+                  <Button size="sm" variant="outline" onClick={() => onDeletePerson(person.id)} aria-label={`Delete ${person.name}`}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Teams</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSubmitTeam} className="grid grid-cols-1 md:grid-cols-4 gap-2">
+            <Input value={teamForm.name} onChange={(e) => setTeamForm({ ...teamForm, name: e.target.value })} placeholder="Team name" required />
+            <Input value={teamForm.department} onChange={(e) => setTeamForm({ ...teamForm, department: e.target.value })} placeholder="Department" required />
+            {personSelect(teamForm.leadId, (leadId) => setTeamForm({ ...teamForm, leadId }), 'No lead')}
+            <Button type="submit">Add Team</Button>
+          </form>
+          <div className="divide-y divide-gray-100">
+            {teams.map((team: Team) => (
+              <div key={team.id} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{team.name}</p>
+                  <p className="text-xs text-gray-500">{team.department} • Lead: {nameOf(team.leadId)}</p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => onDeleteTeam(team.id)} aria-label={`Delete ${team.name}`}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// Welcome Email Dialog Component
+// HR reviews and edits the agent's draft before the app sends it
+function WelcomeEmailDialog({ draft, error, sending, onSend, onCancel }: {
+  draft: { candidate: Candidate; subject: string; body: string } | null
+  error: string
+  sending: boolean
+  onSend: (subject: string, body: string) => void
+  onCancel: () => void
+}) {
+  const [subject, setSubject] = useState('')
+  const [body, setBody] = useState('')
+
+  useEffect(() => {
+    setSubject(draft?.subject || '')
+    setBody(draft?.body || '')
+  }, [draft])
+
+  return (
+    <Dialog open={draft !== null} onOpenChange={(open) => !open && !sending && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Welcome Email</DialogTitle>
+          <DialogDescription>
+            Drafted by the welcome agent for {draft?.candidate.name}. Edit it, then send it to {draft?.candidate.email}.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            onSend(subject, body)
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <label className="text-sm font-medium text-gray-700">Subject</label>
+            <Input value={subject} onChange={(e) => setSubject(e.target.value)} required className="mt-1" />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700">Message</label>
+            <Textarea value={body} onChange={(e) => setBody(e.target.value)} required rows={12} className="mt-1" />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onCancel} disabled={sending}>Cancel</Button>
+            <Button type="submit" disabled={sending || !subject.trim() || !body.trim()}>
+              {sending ? 'Sending...' : 'Send Email'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Main App Component
+export default function OnboardingHub() {
+  const [currentTab, setCurrentTab] = useState('dashboard')
+  const [sidebarOpen, setSidebarOpen] = useState(true)
+  const [candidates, setCandidates] = useState<Candidate[]>([])
+  const [tasks, setTasks] = useState<OnboardingTask[]>([])
+  const [documents, setDocuments] = useState<Document[]>([])
+  const [requirementRules, setRequirementRules] = useState<DocumentRequirementRule[]>([])
+  const [taskTemplates, setTaskTemplates] = useState<TaskTemplate[]>([])
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([])
+  const [channelMappings, setChannelMappings] = useState<ChannelMappingView[]>([])
+  const [people, setPeople] = useState<Person[]>([])
+  const [teams, setTeams] = useState<Team[]>([])
+  // Name recorded on reviews and task moves
+  const [actor, setActor] = useState('HR Coordinator')
+  // Welcome email waiting for HR; the stage change resumes once it is sent
+  const [emailDraft, setEmailDraft] = useState<{
+    candidate: Candidate
+    to: string
+    subject: string
+    body: string
+    remaining: WorkflowAction[]
+  } | null>(null)
+  const [emailError, setEmailError] = useState('')
+  const [sendingEmail, setSendingEmail] = useState(false)
+
+  // Progress always reflects the current tasks, documents and checklists
+  const trackedCandidates = withProgress(candidates, tasks, documents, requirementRules)
+
+  // Load the shared pipeline from the server store (and refresh when the window regains focus)
+  useEffect(() => {
+    const loadPipeline = async () => {
+      const [candidateResult, taskResult, documentResult, requirementResult, templateResult, emailTemplateResult, peopleResult, teamResult, channelResult] = await Promise.all([
+        fetchCandidates(),
+        fetchTasks(),
+        fetchDocuments(),
+        fetchDocumentRequirements(),
+        fetchTaskTemplates(),
+        fetchEmailTemplates(),
+        fetchPeople(),
+        fetchTeams(),
+        fetchChannelMappings()
+      ])
+      if (candidateResult.success) setCandidates(candidateResult.data || [])
+      if (taskResult.success) setTasks(taskResult.data || [])
+      if (documentResult.success) setDocuments(documentResult.data || [])
+      if (requirementResult.success) setRequirementRules(requirementResult.data || [])
+      if (templateResult.success) setTaskTemplates(templateResult.data || [])
+      if (emailTemplateResult.success) setEmailTemplates(emailTemplateResult.data || [])
+      if (peopleResult.success) setPeople(peopleResult.data || [])
+      if (teamResult.success) setTeams(teamResult.data || [])
+      if (channelResult.success) setChannelMappings(channelResult.data || [])
+    }
+
+    loadPipeline()
+    window.addEventListener('focus', loadPipeline)
+    return () => window.removeEventListener('focus', loadPipeline)
+  }, [])
+
+  // Run the workflow actions for a stage change, then commit it on the server
+  const advanceCandidate = async (candidate: Candidate, to: string) => {
+    let plan
+    try {
+      plan = planTransition(getCandidateWorkflow(candidate), candidate.status, to)
+    } catch (error) {
+      console.error('Stage change rejected:', error)
+      return
+    }
+
+    await runTransition(candidate, to, plan.actions)
+  }
+
+  // Run the actions of a stage change, then commit it; pauses at the welcome email until HR sends it
+  const runTransition = async (candidate: Candidate, to: string, actions: WorkflowAction[]) => {
+    const manager = getManager(candidate, people)
+    for (const [index, action] of actions.entries()) {
+      if (action.agent === 'welcomeEmail') {
+        const draft = await draftWelcomeEmail(action, candidate, manager)
+        if (!draft) {
+          console.error(`Welcome email draft failed; ${candidate.name} stays in ${candidate.status}`)
+          return
+        }
+        setEmailError('')
+        setEmailDraft({ candidate, to, ...draft, remaining: actions.slice(index + 1) })
+        return
+      }
+      if (!(await runWorkflowAction(action, candidate, manager))) {
+        console.error(`Workflow action ${action.type} failed; ${candidate.name} stays in ${candidate.status}`)
+        return
+      }
+    }
+
+    const result = await transitionCandidate(candidate.id, to)
+    if (result.success && result.data) {
+      setCandidates(prev => prev.map(c => (c.id === candidate.id ? result.data! : c)))
+    } else {
+      console.error('Stage change failed:', result.error)
+    }
+  }
+
+  const handleSendWelcomeEmail = async (subject: string, body: string) => {
+    if (!emailDraft) return
+    setSendingEmail(true)
+    const result = await sendWelcomeEmail(emailDraft.candidate.id, { subject, body, sentBy: actor })
+    setSendingEmail(false)
+
+    if (!result.success || !result.data) {
+      setEmailError(`${result.error}${result.details ? `: ${result.details}` : ''}`)
+      return
+    }
+    const sent = result.data.candidate
+    setCandidates(prev => prev.map(c => (c.id === sent.id ? sent : c)))
+    setEmailDraft(null)
+    await runTransition(sent, emailDraft.to, emailDraft.remaining)
+  }
+
+  // Advance only when the candidate's workflow allows it from their current stage
+  const advanceIfAllowed = async (candidateId: string, to: string) => {
+    const candidate = candidates.find(c => c.id === candidateId)
+    if (candidate && canTransition(getCandidateWorkflow(candidate), candidate.status, to)) {
+      await advanceCandidate(candidate, to)
+    }
+  }
+
+  const handleNewOnboarding = async (data: any) => {
+    const result = await createCandidate(data)
+    if (result.success && result.data) {
+      setCandidates(prev => [...prev, result.data!])
+      // The server created their tasks from the matching template
+      const taskResult = await fetchTasks(result.data.id)
+      if (taskResult.success) setTasks(prev => [...prev, ...(taskResult.data || [])])
+    }
+  }
+
+  const handleAdvance = async (candidateId: string, stageId: string) => {
+    const candidate = candidates.find(c => c.id === candidateId)
+    if (candidate) await advanceCandidate(candidate, stageId)
+  }
+
+  // Creates the tasks and posts them to their departments' chat channels
+  const handleGenerateTasks = async (candidateId: string, additions: { department: string; task: GeneratedTask }[]) => {
+    if (additions.length === 0) return []
+    const newTasks: Omit<OnboardingTask, 'id'>[] = additions.map(({ department, task }) => ({
+      candidateId,
+      title: task.task_title,
+      department,
+      assignee: task.assignee,
+      dueDate: task.due_date,
+      priority: task.priority,
+      status: task.status,
+      dependsOn: task.depends_on,
+      durationDays: task.duration_days
+    }))
+
+    const result = await createTasks(newTasks)
+    let chatResults: ChannelNotificationResult[] = []
+    if (result.success && result.data) {
+      setTasks(prev => [...prev, ...result.data!])
+      const notified = await notifyTaskChannels(result.data.map(task => task.id))
+      if (notified.success) {
+        chatResults = notified.data || []
+      } else {
+        console.error('Posting tasks to chat failed:', notified.error)
+      }
+    }
+    await advanceIfAllowed(candidateId, 'tasks_assigned')
+    return chatResults
+  }
+
+  const handleUpdateTask = async (taskId: string, patch: Partial<Omit<OnboardingTask, 'id'>>) => {
+    const result = await updateTask(taskId, patch, actor)
+    if (result.success && result.data) {
+      setTasks(prev => prev.map(t => (t.id === taskId ? result.data! : t)))
+    }
+    return result
+  }
+
+  const handleScheduleTasks = async (candidateId: string) => {
+    const result = await scheduleCandidateTasks(candidateId, actor)
+    if (result.success && result.data) {
+      const scheduled = new Map(result.data.tasks.map(t => [t.id, t]))
+      setTasks(prev => prev.map(t => scheduled.get(t.id) || t))
+    } else {
+      console.error('Task scheduling failed:', result.error, result.details)
+    }
+  }
+
+  const handleMoveTask = async (taskId: string, status: TaskStatus) => {
+    const previous = tasks.find(t => t.id === taskId)
+    if (!previous) return
+
+    // Move the card right away; put it back if the server refuses
+    setTasks(prev => prev.map(t => (t.id === taskId ? { ...t, status } : t)))
+    const result = await moveTask(taskId, status, actor)
+    if (result.success && result.data) {
+      setTasks(prev => prev.map(t => (t.id === taskId ? result.data!.task : t)))
+    } else {
+      console.error('Task move failed:', result.error, result.details)
+      setTasks(prev => prev.map(t => (t.id === taskId ? previous : t)))
+    }
+  }
+
+  const handleEscalateTask = async (taskId: string) => {
+    const result = await escalateTask(taskId, actor)
+    if (result.success && result.data) {
+      setTasks(prev => prev.map(t => (t.id === taskId ? result.data!.task : t)))
+      if (result.data.notification.status === 'failed') {
+        console.error(`Could not email ${result.data.escalatedTo.name}:`, result.data.notification.error)
+      }
+    } else {
+      console.error('Task escalation failed:', result.error, result.details)
+    }
+  }
+
+  const handleUploadDocuments = async (uploads: { candidateId: string; type?: string; file: File }[]) => {
+    const results = await Promise.all(uploads.map(({ candidateId, type, file }) => uploadDocument(candidateId, file, type)))
+    results.filter(r => !r.success).forEach(r => console.error('Upload failed:', r.error, r.details))
+
+    // Re-uploading identical bytes returns the existing document
+    const created = results.flatMap(r => r.data || [])
+    setDocuments(prev => [...prev.filter(d => !created.some(c => c.id === d.id)), ...created])
+
+    for (const candidateId of new Set(created.map(d => d.candidateId))) {
+      await advanceIfAllowed(candidateId, 'documents_received')
+    }
+  }
+
+  const handleDocumentTypeChange = async (documentId: string, type: string) => {
+    const result = await updateDocument(documentId, { type })
+    if (result.success && result.data) {
+      setDocuments(prev => prev.map(d => (d.id === documentId ? result.data! : d)))
+    }
+  }
+
+  const handleDocumentExpiryChange = async (documentId: string, expiryDate: string | null) => {
+    const result = await setDocumentExpiry(documentId, expiryDate)
+    if (result.success && result.data) {
+      setDocuments(prev => prev.map(d => (d.id === documentId ? result.data! : d)))
+    }
+  }
+
+  const handleDocumentsReviewed = async (reviews: { id: string; review: DocumentReviewInput }[]) => {
+    const results = await Promise.all(reviews.map(({ id, review }) => reviewDocument(id, review)))
+    results.filter(r => !r.success).forEach(r => console.error('Review failed:', r.error, r.details))
+    const updated = new Map(results.filter(r => r.success && r.data).map(r => [r.data!.id, r.data!]))
+    setDocuments(prev => prev.map(d => updated.get(d.id) || d))
+    return results
+  }
+
+  const handleSaveRequirementRule = async (id: string | null, rule: any) => {
+    const result = id ? await updateDocumentRequirement(id, rule) : await createDocumentRequirement(rule)
+    if (result.success && result.data) {
+      setRequirementRules(prev => (id ? prev.map(r => (r.id === id ? result.data! : r)) : [...prev, result.data!]))
+    }
+    return result
+  }
+
+  const handleDeleteRequirementRule = async (id: string) => {
+    const result = await deleteDocumentRequirement(id)
+    if (result.success) {
+      setRequirementRules(prev => prev.filter(r => r.id !== id))
+    }
+  }
+
+  const handleSavePerson = async (id: string | null, person: any) => {
+    const result = id ? await updatePerson(id, person) : await createPerson(person)
+    if (result.success && result.data) {
+      const saved = result.data
+      setPeople(prev => (id ? prev.map(p => (p.id === id ? saved : p)) : [...prev, saved]))
+      if (id) setTasks(prev => prev.map(t => (t.assigneeId === id ? { ...t, assignee: saved.name } : t)))
+    }
+    return result
+  }
+
+  // The server unlinks the person everywhere; mirror that locally
+  const handleDeletePerson = async (id: string) => {
+    const result = await deletePerson(id)
+    if (result.success) {
+      setPeople(prev => prev.filter(p => p.id !== id).map(p => (p.managerId === id ? { ...p, managerId: undefined } : p)))
+      setTeams(prev => prev.map(t => (t.leadId === id ? { ...t, leadId: undefined } : t)))
+      setTasks(prev => prev.map(t => (t.assigneeId === id ? { ...t, assigneeId: undefined } : t)))
+      setCandidates(prev => prev.map(c => (c.managerId === id ? { ...c, managerId: undefined } : c)))
+    }
+  }
+
+  const handleSaveTeam = async (_id: string | null, team: any) => {
+    const result = await createTeam(team)
+    if (result.success && result.data) {
+      setTeams(prev => [...prev, result.data!])
+    }
+    return result
+  }
+
+  const handleDeleteTeam = async (id: string) => {
+    const result = await deleteTeam(id)
+    if (result.success) {
+      setTeams(prev => prev.filter(t => t.id !== id))
+      setPeople(prev => prev.map(p => (p.teamId === id ? { ...p, teamId: undefined } : p)))
+    }
+  }
+
+  const handleSaveTaskTemplate = async (id: string | null, template: any) => {
+    const result = id ? await updateTaskTemplate(id, template) : await createTaskTemplate(template)
+    if (result.success && result.data) {
+      setTaskTemplates(prev => (id ? prev.map(t => (t.id === id ? result.data! : t)) : [...prev, result.data!]))
+    }
+    return result
+  }
+
+  const handleDeleteTaskTemplate = async (id: string) => {
+    const result = await deleteTaskTemplate(id)
+    if (result.success) {
+      setTaskTemplates(prev => prev.filter(t => t.id !== id))
+    }
+  }
+
+  const handleSaveEmailTemplate = async (id: string | null, template: any) => {
+    const result = id ? await updateEmailTemplate(id, template) : await createEmailTemplate(template)
+    if (result.success && result.data) {
+      setEmailTemplates(prev => (id ? prev.map(t => (t.id === id ? result.data! : t)) : [...prev, result.data!]))
+    }
+    return result
+  }
+
+  const handleDeleteEmailTemplate = async (id: string) => {
+    const result = await deleteEmailTemplate(id)
+    if (result.success) {
+      setEmailTemplates(prev => prev.filter(t => t.id !== id))
+    }
+  }
+
+  const handleSaveChannelMapping = async (id: string | null, mapping: any) => {
+    const result = id ? await updateChannelMapping(id, mapping) : await createChannelMapping(mapping)
+    if (result.success && result.data) {
+      setChannelMappings(prev => (id ? prev.map(m => (m.id === id ? result.data! : m)) : [...prev, result.data!]))
+    }
+    return result
+  }
+
+  const handleDeleteChannelMapping = async (id: string) => {
+    const result = await deleteChannelMapping(id)
+    if (result.success) {
+      setChannelMappings(prev => prev.filter(m => m.id !== id))
+    }
+  }
+
+  const handleSendTemplatedEmail = (candidateId: string, templateId: string) =>
+    sendTemplatedEmail(candidateId, { templateId, sentBy: actor })
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      {/* Sidebar */}
+      <div className={`${sidebarOpen ? 'w-64' : 'w-20'} bg-white border-r border-gray-200 transition-all duration-300 flex flex-col`}>
+        <div className="h-16 flex items-center justify-between px-4 border-b border-gray-200">
+          {sidebarOpen && <h1 className="text-lg font-bold text-blue-600">OnBoard Hub</h1>}
+          <button onClick={() => setSidebarOpen(!sidebarOpen)} className="p-1 hover:bg-gray-100 rounded">
+            {sidebarOpen ? <X className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
+          </button>
+        </div>
+
+        <nav className="flex-1 px-3 py-6 space-y-2">
+          {[
+            { id: 'dashboard', label: 'Dashboard', icon: Users },
+            { id: 'documents', label: 'Document Hub', icon: FileText },
+            { id: 'tasks', label: 'Task Management', icon: Zap },
+            { id: 'progress', label: 'Progress Tracker', icon: CheckCircle },
+            { id: 'requirements', label: 'Requirements', icon: ClipboardList },
+            { id: 'templates', label: 'Task Templates', icon: ListChecks },
+            { id: 'emails', label: 'Email Templates', icon: Mail },
+            { id: 'reminders', label: 'Reminders', icon: Bell },
+            { id: 'channels', label: 'Chat Channels', icon: Hash },
+            { id: 'people', label: 'People', icon: UserCog }
+          ].map((item) => {
+            const Icon = item.icon
             return (
               <button
                 key={item.id}
@@ -883,8 +3175,12 @@ export default function OnboardingHub() {
       {/* Main Content */}
       <div className="flex-1 flex flex-col">
         {/* Header */}
-        <div className="h-16 bg-white border-b border-gray-200 px-8 flex items-center">
+        <div className="h-16 bg-white border-b border-gray-200 px-8 flex items-center justify-between">
           <h2 className="text-xl font-semibold text-gray-900">Candidate Onboarding Automation</h2>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Acting as
+            <Input value={actor} onChange={(e) => setActor(e.target.value)} className="w-48 h-8" />
+          </label>
         </div>
 
         {/* Content */}
@@ -893,12 +3189,26 @@ export default function OnboardingHub() {
             <TabsList className="hidden" />
           </Tabs>
 
-          {currentTab === 'dashboard' && <Dashboard candidates={candidates} onNewOnboarding={handleNewOnboarding} onInitiate={handleInitiate} />}
-          {currentTab === 'documents' && <DocumentHub candidates={candidates} onProcessDocuments={() => {}} />}
-          {currentTab === 'tasks' && <TaskManagement candidates={candidates} tasks={tasks} onAddTask={() => {}} onGenerateTasks={handleGenerateTasks} />}
-          {currentTab === 'progress' && <ProgressTracker candidates={candidates} />}
+          {currentTab === 'dashboard' && <Dashboard candidates={trackedCandidates} tasks={tasks} documents={documents} requirementRules={requirementRules} taskTemplates={taskTemplates} people={people} onNewOnboarding={handleNewOnboarding} onAdvance={handleAdvance} onEscalateTask={handleEscalateTask} />}
+          {currentTab === 'documents' && <DocumentHub candidates={trackedCandidates} documents={documents} requirementRules={requirementRules} actor={actor} onUploadDocuments={handleUploadDocuments} onDocumentTypeChange={handleDocumentTypeChange} onDocumentExpiryChange={handleDocumentExpiryChange} onDocumentsReviewed={handleDocumentsReviewed} />}
+          {currentTab === 'tasks' && <TaskManagement candidates={trackedCandidates} tasks={tasks} taskTemplates={taskTemplates} people={people} channelMappings={channelMappings} actor={actor} onAddTask={() => {}} onGenerateTasks={handleGenerateTasks} onMoveTask={handleMoveTask} onUpdateTask={handleUpdateTask} onScheduleTasks={handleScheduleTasks} />}
+          {currentTab === 'progress' && <ProgressTracker candidates={trackedCandidates} tasks={tasks} documents={documents} requirementRules={requirementRules} />}
+          {currentTab === 'requirements' && <RequirementsAdmin rules={requirementRules} onSaveRule={handleSaveRequirementRule} onDeleteRule={handleDeleteRequirementRule} />}
+          {currentTab === 'templates' && <TemplatesAdmin templates={taskTemplates} onSaveTemplate={handleSaveTaskTemplate} onDeleteTemplate={handleDeleteTaskTemplate} />}
+          {currentTab === 'emails' && <EmailTemplatesAdmin templates={emailTemplates} candidates={trackedCandidates} documents={documents} requirementRules={requirementRules} people={people} onSaveTemplate={handleSaveEmailTemplate} onDeleteTemplate={handleDeleteEmailTemplate} onSendEmail={handleSendTemplatedEmail} />}
+          {currentTab === 'reminders' && <RemindersPanel candidates={trackedCandidates} />}
+          {currentTab === 'channels' && <ChannelsAdmin mappings={channelMappings} actor={actor} onSaveMapping={handleSaveChannelMapping} onDeleteMapping={handleDeleteChannelMapping} />}
+          {currentTab === 'people' && <PeopleDirectory people={people} teams={teams} tasks={tasks} candidates={trackedCandidates} actor={actor} onSavePerson={handleSavePerson} onDeletePerson={handleDeletePerson} onSaveTeam={handleSaveTeam} onDeleteTeam={handleDeleteTeam} />}
         </div>
       </div>
+
+      <WelcomeEmailDialog
+        draft={emailDraft}
+        error={emailError}
+        sending={sendingEmail}
+        onSend={handleSendWelcomeEmail}
+        onCancel={() => setEmailDraft(null)}
+      />
     </div>
   )
 }
@@ -0,0 +1,18 @@
+/**
+ * Runs once when the server starts (Next.js instrumentation hook)
+ *
+ * Starts the in-process reminder scheduler when REMINDER_SCHEDULE is set
+ * (see src/utils/reminderRunner.ts); an invalid expression is logged and the server
+ * starts without it.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.REMINDER_SCHEDULE) {
+    const { startReminderScheduler } = await import('./src/utils/reminderRunner')
+    try {
+      startReminderScheduler(process.env.REMINDER_SCHEDULE)
+    } catch (error) {
+      // A typo in the schedule must not keep the app from starting
+      console.error('Reminder scheduler not started: invalid REMINDER_SCHEDULE:', error instanceof Error ? error.message : error)
+    }
+  }
+}
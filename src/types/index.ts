@@ -17,4 +17,293 @@ export type Theme = 'light' | 'dark'
 export interface AppConfig {
   apiUrl: string
   theme: Theme
-}
\ No newline at end of file
+}
+
+// Onboarding domain types (shared by the API routes and the OnBoard Hub UI)
+
+export type EmploymentType = 'full_time' | 'part_time' | 'contractor' | 'intern'
+
+// Stage id within the candidate's workflow (see utils/workflow.ts), e.g. 'pending' or 'welcome_sent'
+export type CandidateStatus = string
+
+export interface Candidate {
+  id: string
+  name: string
+  email: string
+  role: string
+  department: string
+  startDate: string
+  status: CandidateStatus
+  progress: number
+  workflowId?: string
+  employmentType?: EmploymentType
+  // ISO country code of the work location (default: the company's home country)
+  country?: string
+  // Task template instantiated when the candidate was created (see utils/taskTemplates.ts)
+  taskTemplateId?: string
+  // Hiring manager from the people directory (see utils/directory.ts)
+  managerId?: string
+  // Last attempt to send the welcome email
+  welcomeEmail?: EmailDelivery
+}
+
+export type EmailTemplatePurpose = 'welcome' | 'document_reminder' | 'first_day' | 'week_one' | 'custom'
+
+// Subject and body with {{variable}} placeholders (see utils/emailTemplates.ts)
+export interface EmailTemplate {
+  id: string
+  name: string
+  purpose: EmailTemplatePurpose
+  subject: string
+  body: string
+}
+
+// One attempt to email a candidate, kept in the email log
+export interface SentEmail extends EmailDelivery {
+  id: string
+  candidateId: string
+  purpose: EmailTemplatePurpose
+  templateId?: string
+}
+
+// Chat channel a department's tasks are posted to (see utils/taskChannels.ts)
+export interface ChannelMapping {
+  id: string
+  department: string
+  channel: string
+  // Incoming-webhook URL; without one the default webhook (CHAT_WEBHOOK_URL) is used
+  webhookUrl?: string
+}
+
+// One post of new tasks to a department's channel
+export interface ChatNotification {
+  id: string
+  candidateId: string
+  department: string
+  channel: string
+  taskIds: string[]
+  status: 'sent' | 'failed'
+  error?: string
+  at: string
+}
+
+export type ReminderKind = 'document_reminder' | 'task_due' | 'first_day_email'
+
+// A reminder the scheduler sent or tried to send (see utils/reminders.ts)
+export interface ReminderJob {
+  id: string
+  // One job per reminder, e.g. task_due:<taskId>:<dueDate>; runs skip keys already sent
+  key: string
+  kind: ReminderKind
+  candidateId: string
+  taskId?: string
+  to: string
+  subject: string
+  status: 'sent' | 'failed'
+  attempts: number
+  // Date of the run that last attempted it (YYYY-MM-DD)
+  runDate: string
+  lastAttemptAt: string
+  messageId?: string
+  error?: string
+}
+
+// A signed status update received from an external system (see utils/taskWebhooks.ts)
+export interface WebhookDelivery {
+  id: string
+  // The sender's id for the update; a delivery seen before is not applied again
+  deliveryId: string
+  taskId: string
+  status: TaskStatus
+  source?: string
+  receivedAt: string
+}
+
+// An email sent through the mail transport (see utils/mailTransport.ts)
+export interface EmailDelivery {
+  status: 'sent' | 'failed'
+  to: string
+  subject: string
+  // Message-ID header of the sent message
+  messageId?: string
+  transport: 'maildir' | 'smtp'
+  // Transport response, e.g. the SMTP server's queue id
+  response?: string
+  error?: string
+  sentBy: string
+  at: string
+}
+
+// Employee in the people directory (see utils/directory.ts)
+export interface Person {
+  id: string
+  name: string
+  email: string
+  title: string
+  teamId?: string
+  managerId?: string
+}
+
+export interface Team {
+  id: string
+  name: string
+  department: string
+  // Receives the tasks assigned to the team as a whole
+  leadId?: string
+}
+
+export type DocumentStatus = 'pending' | 'valid' | 'invalid'
+
+// How a document's type was decided (see utils/documentClassifier.ts)
+export type DocumentTypeSource = 'heuristic' | 'agent' | 'manual'
+
+// Review of one document version (see utils/documentVersions.ts)
+export interface DocumentReview {
+  reviewer: string
+  reviewedAt: string
+  decision: 'valid' | 'invalid'
+  reason?: string
+  comments?: string
+  // The validation agent's output for this document, when an agent reviewed it
+  validation?: Record<string, any>
+}
+
+// How a document's expiry date was captured
+export type DocumentExpirySource = 'extracted' | 'manual'
+
+export interface Document {
+  id: string
+  candidateId: string
+  type: string
+  filename: string
+  uploadDate: string
+  status: DocumentStatus
+  // Version within the candidate's slot for this type (1 = first upload)
+  version?: number
+  review?: DocumentReview
+  // Set when the candidate was asked to resubmit this slot after a rejection
+  resubmissionRequestedAt?: string
+  typeSource?: DocumentTypeSource
+  typeConfidence?: number
+  // Stored upload (absent for documents recorded without a file)
+  size?: number
+  mimeType?: string
+  sha256?: string
+  storageKey?: string
+  extractedText?: string
+  // Expiry tracking (see utils/documentExpiry.ts)
+  expiryDate?: string
+  expirySource?: DocumentExpirySource
+  // Narrowest renewal window flagged by the expiry checker, 0 once expired
+  expiryFlag?: number
+}
+
+// One row of the required-documents matrix (see utils/documentRequirements.ts)
+export interface DocumentRequirementRule {
+  id: string
+  name: string
+  role?: string
+  department?: string
+  employmentType?: EmploymentType
+  country?: string
+  require: string[]
+  waive: string[]
+}
+
+// Which parts of one agent request were masked before the upstream call (see utils/redaction.ts)
+export interface RedactionRecord {
+  // Request ID, also returned to the client as redaction.request_id
+  id: string
+  agentId: string
+  createdAt: string
+  fields: { path: string; kinds: string[]; count: number }[]
+}
+
+export type TaskPriority = 'high' | 'medium' | 'low'
+
+export type TaskStatus = 'pending' | 'in_progress' | 'completed'
+
+export interface OnboardingTask {
+  id: string
+  candidateId: string
+  title: string
+  department: string
+  assignee: string
+  dueDate: string
+  priority: TaskPriority
+  status: TaskStatus
+  // Person the task is assigned to; assignee keeps their name for display
+  assigneeId?: string
+  // Ids of tasks that must be completed first (see utils/taskDependencies.ts)
+  dependsOn?: string[]
+  // Days the task takes, used to back-schedule its prerequisites (default 1)
+  durationDays?: number
+  // Set when the overdue task was escalated (see utils/taskSla.ts); cleared by a new due date
+  escalatedAt?: string
+  // Person the task was escalated to
+  escalatedTo?: string
+  // Id of the matching ticket in another team's system (e.g. IT's helpdesk), for inbound webhooks
+  externalRef?: string
+}
+
+// One task of a template; the due date is dueOffsetDays from the candidate's start date
+export interface TaskTemplateItem {
+  title: string
+  department: string
+  assignee: string
+  dueOffsetDays: number
+  priority: TaskPriority
+  // Titles of other tasks of the same template that must be completed first
+  dependsOn?: string[]
+  durationDays?: number
+}
+
+// Reusable task list for a role and/or department (see utils/taskTemplates.ts)
+export interface TaskTemplate {
+  id: string
+  name: string
+  role?: string
+  department?: string
+  tasks: TaskTemplateItem[]
+}
+
+// One entry of a task's history (see /api/tasks/:id/move)
+export interface TaskActivity {
+  id: string
+  taskId: string
+  candidateId: string
+  type: 'status_changed' | 'assignee_changed' | 'due_date_changed' | 'escalated'
+  // Who made the change
+  actor: string
+  at: string
+  // Old and new status, assignee name or due date
+  from?: string
+  to?: string
+  // Person an escalated task went to
+  escalatedTo?: string
+}
+
+export interface TaskComment {
+  id: string
+  taskId: string
+  candidateId: string
+  // Comment this one replies to
+  parentId?: string
+  author: string
+  body: string
+  createdAt: string
+}
+
+// A file attached to a task, e.g. a shipping label; the bytes live in file storage
+export interface TaskAttachment {
+  id: string
+  taskId: string
+  candidateId: string
+  filename: string
+  mimeType: string
+  size: number
+  sha256: string
+  storageKey: string
+  uploadedBy: string
+  uploadedAt: string
+}
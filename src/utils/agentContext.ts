@@ -0,0 +1,68 @@
+/**
+ * Agent Context Serialization
+ *
+ * The onboarding screens send structured `context_data` (candidate details, documents,
+ * Slack channels) alongside the prompt. The Lyzr chat API only accepts a text message,
+ * so the context is validated here and appended to the message in a fixed format:
+ *
+ *   <message>
+ *   (blank line)
+ *   CONTEXT DATA (JSON):
+ *   a ```json fenced block holding context_data, pretty-printed with 2 spaces
+ *
+ * Agents can rely on that block being the last thing in the message.
+ */
+
+// Generous for candidate records, small enough to keep prompts affordable
+export const MAX_CONTEXT_BYTES = 64 * 1024
+
+export const CONTEXT_HEADER = 'CONTEXT DATA (JSON):'
+
+export type ContextData = Record<string, unknown>
+
+export type ContextValidationResult =
+  | { valid: true; context: ContextData | null }
+  | { valid: false; error: string }
+
+function isPlainObject(value: unknown): value is ContextData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Validate client-supplied context_data
+ *
+ * Accepts a missing value (no context) or a plain JSON object no larger than MAX_CONTEXT_BYTES.
+ * Arrays and primitives are rejected so agents always receive named fields.
+ */
+export function validateContextData(value: unknown): ContextValidationResult {
+  if (value === undefined || value === null) {
+    return { valid: true, context: null }
+  }
+
+  if (!isPlainObject(value)) {
+    return { valid: false, error: 'context_data must be a JSON object' }
+  }
+
+  const serialized = JSON.stringify(value)
+  const size = new TextEncoder().encode(serialized).length
+  if (size > MAX_CONTEXT_BYTES) {
+    return {
+      valid: false,
+      error: `context_data is too large (${size} bytes, limit ${MAX_CONTEXT_BYTES})`,
+    }
+  }
+
+  // Round-trip drops undefined values and functions so the agent sees exactly what was validated
+  return { valid: true, context: JSON.parse(serialized) }
+}
+
+/**
+ * Build the upstream message: the prompt followed by the serialized context block
+ */
+export function buildAgentMessage(message: string, context: ContextData | null): string {
+  if (!context || Object.keys(context).length === 0) {
+    return message
+  }
+
+  return `${message}\n\n${CONTEXT_HEADER}\n\`\`\`json\n${JSON.stringify(context, null, 2)}\n\`\`\``
+}
@@ -0,0 +1,143 @@
+/**
+ * Agent Response Parsing
+ *
+ * BULLETPROOF multi-strategy parsing of the `response` field returned by Lyzr agents.
+ * Shared by the JSON and streaming modes of /api/agent.
+ *
+ * PARSING STRATEGIES (Applied in order):
+ * 1. Preprocessing: Removes \n, \r, \t escapes and code block markers
+ * 2. Direct parse: Fast JSON.parse for well-formed JSON
+ * 3. Advanced parse: parseLLMJson with automatic fixes
+ * 4. Extraction: Finds and parses JSON from mixed text
+ * 5. Last resort: Aggressive parsing with all fixes enabled
+ *
+ * Anything that cannot be parsed is returned unchanged.
+ */
+
+import parseLLMJson from './jsonParser'
+
+const ESCAPED_WHITESPACE: Record<string, string> = { n: '\n', r: '\r', t: '\t' }
+
+/**
+ * Turn literal \n, \r and \t into real whitespace, except inside quoted strings
+ * (where they are legitimate escapes, e.g. paragraph breaks in an email body).
+ * Single quotes only count as string delimiters where a JSON value can start,
+ * so apostrophes in surrounding prose ("Here's the result") are ignored.
+ */
+function unescapeOutsideStrings(text: string): string {
+  let result = ''
+  let quote: string | null = null
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (char === '\\' && i + 1 < text.length) {
+      const next = text[i + 1]
+      if (!quote && ESCAPED_WHITESPACE[next]) {
+        result += ESCAPED_WHITESPACE[next]
+      } else {
+        result += char + next
+      }
+      i++
+      continue
+    }
+
+    if (quote && char === quote) {
+      quote = null
+    } else if (!quote && (char === '"' || (char === "'" && /[{[,:]\s*$/.test(result)))) {
+      quote = char
+    }
+    result += char
+  }
+
+  return result
+}
+
+// parseLLMJson reports failure as { success: false, data: null, error } rather than throwing
+function parsedJson(value: any): value is object {
+  return Boolean(value) && typeof value === 'object' && !(value.success === false && value.data === null && 'error' in value)
+}
+
+/**
+ * Parse a raw agent response into an object when possible
+ *
+ * @param raw - The agent's `response` value (string, object or anything else)
+ * @returns The parsed object, or the original value when no JSON could be recovered
+ */
+export function parseAgentResponse(raw: any): any {
+  // BULLETPROOF JSON PARSING with multiple strategies
+  let parsedResponse = raw
+
+  if (typeof raw === 'string') {
+    try {
+      // STRATEGY 1: Clean up common LLM response issues
+      let cleaned = raw
+
+      // Remove literal \n, \r, \t escape sequences (not actual newlines!)
+      // Escapes inside quoted strings are valid JSON and are left alone
+      cleaned = unescapeOutsideStrings(cleaned)
+
+      // Remove markdown code blocks (```json, ```, etc.)
+      cleaned = cleaned.replace(/^```(?:json|JSON)?\s*\n?/gm, '')
+      cleaned = cleaned.replace(/\n?```\s*$/gm, '')
+
+      // Trim whitespace
+      cleaned = cleaned.trim()
+
+      // STRATEGY 2: Try direct JSON.parse first (fastest)
+      try {
+        const directParse = JSON.parse(cleaned)
+        if (directParse && typeof directParse === 'object') {
+          parsedResponse = directParse
+          console.log('✅ Direct JSON.parse succeeded')
+        }
+      } catch (directError) {
+        // STRATEGY 3: Use advanced parseLLMJson for complex cases
+        console.log('⚙️ Trying advanced parseLLMJson...')
+        const parsed = parseLLMJson(cleaned, {
+          attemptFix: true,
+          maxBlocks: 5,
+          preferFirst: true,
+          allowPartial: false
+        })
+
+        if (parsedJson(parsed)) {
+          parsedResponse = parsed
+          console.log('✅ parseLLMJson succeeded')
+        } else {
+          // STRATEGY 4: Try extracting JSON from anywhere in the string
+          const jsonMatch = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/)
+          if (jsonMatch) {
+            try {
+              const extracted = JSON.parse(jsonMatch[0])
+              if (extracted && typeof extracted === 'object') {
+                parsedResponse = extracted
+                console.log('✅ JSON extraction succeeded')
+              }
+            } catch (extractError) {
+              // STRATEGY 5: Last resort - use parseLLMJson on extracted portion
+              const lastResort = parseLLMJson(jsonMatch[0], { attemptFix: true })
+              if (parsedJson(lastResort)) {
+                parsedResponse = lastResort
+                console.log('✅ Last resort parsing succeeded')
+              } else {
+                console.log('ℹ️ All parsing strategies failed, keeping original response')
+              }
+            }
+          } else {
+            console.log('ℹ️ No JSON found in response, keeping as-is')
+          }
+        }
+      }
+    } catch (e) {
+      console.error('Error during JSON parsing:', e)
+      // Keep original response on any error
+    }
+  } else if (typeof raw === 'object' && raw !== null) {
+    // Already an object, use as-is
+    parsedResponse = raw
+    console.log('✅ Response already an object')
+  }
+
+  return parsedResponse
+}
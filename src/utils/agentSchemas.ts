@@ -0,0 +1,156 @@
+/**
+ * Agent Response Schemas
+ *
+ * Typed result contracts for every onboarding agent, keyed by agent ID.
+ * /api/agent validates the parsed response against the matching schema and returns
+ * either typed data or a structured validation error. Agents without a schema pass through.
+ *
+ * Schemas are deliberately lenient where LLMs are sloppy: unknown keys are kept,
+ * numbers may arrive as strings, and enum-like fields fall back to sensible defaults.
+ */
+
+import { z } from 'zod'
+import { AGENT_IDS } from './agents'
+
+const count = z.coerce.number().optional()
+
+// Welcome email agent - drafts the email HR reviews; the app sends it (utils/mailTransport.ts)
+export const welcomeEmailResponseSchema = z.looseObject({
+  result: z.looseObject({
+    recipient: z.string().optional(),
+    email_subject: z.string().default(''),
+    email_body: z.string().default(''),
+  }),
+})
+
+// Document validation agent - drives document statuses and the validation report
+export const documentValidationResponseSchema = z.looseObject({
+  result: z.looseObject({
+    candidate_name: z.string().optional(),
+    documents_validated: z.array(
+      z.looseObject({
+        document_type: z.string(),
+        status: z.string().optional(),
+        notes: z.string().optional(),
+      })
+    ),
+    missing_documents: z.array(z.string()).optional(),
+    validation_summary: z
+      .looseObject({
+        total_submitted: count,
+        total_validated: count,
+        total_missing: count,
+        completion_percentage: count,
+      })
+      .optional(),
+    action_items: z.array(z.string()).optional(),
+  }),
+})
+
+export const generatedTaskSchema = z.looseObject({
+  task_title: z.string(),
+  assignee: z.string().optional().default(''),
+  due_date: z.string().optional().default(''),
+  priority: z.enum(['high', 'medium', 'low']).catch('medium'),
+  status: z.enum(['pending', 'in_progress', 'completed']).catch('pending'),
+  // Titles of the tasks that must be completed first
+  depends_on: z.array(z.string()).optional().catch(undefined),
+  duration_days: z.number().positive().optional().catch(undefined),
+})
+
+// Task generation agent - tasks grouped by the department that owns them
+export const taskGenerationResponseSchema = z.looseObject({
+  result: z.looseObject({
+    tasks_by_department: z.record(z.string(), z.array(generatedTaskSchema)),
+  }),
+})
+
+// Progress report agent - every section is optional, the tracker renders what it gets
+export const progressReportResponseSchema = z.looseObject({
+  result: z.looseObject({
+    candidate_summary: z.looseObject({ days_until_start: count }).optional(),
+    progress_metrics: z
+      .looseObject({
+        overall_completion_percentage: count,
+        tasks_completed: count,
+        tasks_total: count,
+        documents_validated: count,
+        documents_required: count,
+      })
+      .optional(),
+    timeline: z
+      .looseObject({
+        current_phase: z.string().optional(),
+        milestones_completed: z.array(z.string()).optional(),
+        next_milestone: z.string().optional(),
+      })
+      .optional(),
+    recommendations: z
+      .array(
+        z.looseObject({
+          action: z.string(),
+          responsible: z.string().optional(),
+          priority: z.string().optional(),
+        })
+      )
+      .optional(),
+  }),
+})
+
+export const AGENT_RESPONSE_SCHEMAS = {
+  [AGENT_IDS.welcomeEmail]: welcomeEmailResponseSchema,
+  [AGENT_IDS.documentValidation]: documentValidationResponseSchema,
+  [AGENT_IDS.taskGeneration]: taskGenerationResponseSchema,
+  [AGENT_IDS.progressReport]: progressReportResponseSchema,
+} as const
+
+export type WelcomeEmailResponse = z.infer<typeof welcomeEmailResponseSchema>
+export type DocumentValidationResponse = z.infer<typeof documentValidationResponseSchema>
+export type GeneratedTask = z.infer<typeof generatedTaskSchema>
+export type TaskGenerationResponse = z.infer<typeof taskGenerationResponseSchema>
+export type ProgressReportResponse = z.infer<typeof progressReportResponseSchema>
+
+export type AgentResponseMap = {
+  [Id in keyof typeof AGENT_RESPONSE_SCHEMAS]: z.infer<(typeof AGENT_RESPONSE_SCHEMAS)[Id]>
+}
+
+/**
+ * Typed response for an agent ID (`any` for agents without a registered schema)
+ */
+export type AgentResponseFor<Id extends string> = Id extends keyof AgentResponseMap ? AgentResponseMap[Id] : any
+
+export interface AgentSchemaIssue {
+  path: string
+  message: string
+}
+
+export type AgentValidationResult =
+  | { valid: true; data: any }
+  | { valid: false; issues: AgentSchemaIssue[] }
+
+export const AGENT_RESPONSE_INVALID = 'AGENT_RESPONSE_INVALID'
+
+/**
+ * Validate a parsed agent response against the schema registered for its agent
+ *
+ * @returns The schema's output (defaults applied) or the list of issues
+ */
+export function validateAgentResponse(agentId: string, parsedResponse: unknown): AgentValidationResult {
+  const schema = (AGENT_RESPONSE_SCHEMAS as Record<string, z.ZodType>)[agentId]
+  if (!schema) {
+    return { valid: true, data: parsedResponse }
+  }
+
+  const result = schema.safeParse(parsedResponse)
+  if (result.success) {
+    return { valid: true, data: result.data }
+  }
+
+  return {
+    valid: false,
+    issues: result.error.issues.map(issue => ({
+      path: issue.path.map(String).join('.') || '(root)',
+      message: issue.message,
+    })),
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Agent Streaming (server side)
+ *
+ * Converts the Lyzr streaming endpoint's Server-Sent Events into the NDJSON stream
+ * returned by /api/agent when the client asks for `stream: true`.
+ *
+ * NDJSON EVENTS (one JSON object per line):
+ * - {"type":"delta","text":"..."}                      - next piece of the agent's answer
+ * - {"type":"done","response":{...},"raw_response":"...", ...meta} - parsed, schema-checked final answer
+ *   (masked PII restored - deltas are forwarded as the agent wrote them)
+ * - {"type":"error","error":"...","details":"..."}     - upstream failed mid-stream
+ * - {"type":"error","code":"AGENT_RESPONSE_INVALID","issues":[...]} - final answer broke its contract
+ */
+
+import { parseAgentResponse } from './agentResponse'
+import { AGENT_RESPONSE_INVALID, validateAgentResponse, type AgentSchemaIssue } from './agentSchemas'
+import type { RedactionFinding } from './redaction'
+
+export type AgentStreamEvent =
+  | { type: 'delta'; text: string }
+  | {
+      type: 'done'
+      response: any
+      raw_response: string
+      agent_id?: string
+      user_id?: string
+      session_id?: string
+      timestamp: string
+      redaction?: AgentStreamMeta['redaction']
+    }
+  | { type: 'error'; error: string; details?: string; code?: string; issues?: AgentSchemaIssue[] }
+
+export interface AgentStreamMeta {
+  agent_id?: string
+  user_id?: string
+  session_id?: string
+  redaction?: { request_id: string; fields: RedactionFinding[] }
+}
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson'
+
+/**
+ * Extract text tokens from complete SSE lines (`data: <token>`)
+ *
+ * @returns The tokens plus whether the upstream signalled [DONE]
+ */
+function readSseLines(lines: string[]): { tokens: string[]; finished: boolean } {
+  const tokens: string[] = []
+  let finished = false
+
+  for (const line of lines) {
+    if (!line.startsWith('data:')) continue
+
+    const payload = line.slice(5).replace(/^ /, '')
+    if (payload === '[DONE]') {
+      finished = true
+      break
+    }
+    if (payload.startsWith('[ERROR]')) {
+      throw new Error(payload.slice(7).trim() || 'Upstream stream error')
+    }
+    tokens.push(payload)
+  }
+
+  return { tokens, finished }
+}
+
+/**
+ * Turn an upstream SSE response into an NDJSON ReadableStream of AgentStreamEvents
+ */
+export function createAgentEventStream(
+  upstream: Response,
+  meta: AgentStreamMeta,
+  restore: (text: string) => string = text => text
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const decoder = new TextDecoder()
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: AgentStreamEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'))
+
+      let full = ''
+      let pending = ''
+
+      try {
+        if (!upstream.body) {
+          throw new Error('Upstream response has no body')
+        }
+
+        const reader = upstream.body.getReader()
+        let finished = false
+
+        while (!finished) {
+          const { value, done } = await reader.read()
+          if (done) break
+
+          pending += decoder.decode(value, { stream: true })
+          const lines = pending.split(/\r?\n/)
+          pending = lines.pop() || ''
+
+          const result = readSseLines(lines)
+          finished = result.finished
+          for (const token of result.tokens) {
+            full += token
+            emit({ type: 'delta', text: token })
+          }
+        }
+
+        // Flush a final line that arrived without a trailing newline
+        if (!finished && pending) {
+          for (const token of readSseLines([pending]).tokens) {
+            full += token
+            emit({ type: 'delta', text: token })
+          }
+        }
+
+        full = restore(full)
+        const validation = validateAgentResponse(meta.agent_id || '', parseAgentResponse(full))
+        if (!validation.valid) {
+          emit({
+            type: 'error',
+            error: 'Agent response did not match the expected schema',
+            code: AGENT_RESPONSE_INVALID,
+            issues: validation.issues,
+          })
+          return
+        }
+
+        emit({
+          type: 'done',
+          response: validation.data,
+          raw_response: full,
+          ...meta,
+          timestamp: new Date().toISOString(),
+        })
+      } catch (error) {
+        console.error('AI Agent stream error:', error)
+        emit({
+          type: 'error',
+          error: 'Agent stream interrupted',
+          details: error instanceof Error ? error.message : String(error),
+        })
+      } finally {
+        controller.close()
+      }
+    },
+  })
+}
@@ -0,0 +1,94 @@
+/**
+ * Onboarding Agents
+ *
+ * Lyzr agent IDs used by the OnBoard Hub, keyed by what each agent does.
+ * Declared `as const` so the IDs keep their literal types for the typed response contracts.
+ */
+
+export const AGENT_IDS = {
+  welcomeEmail: '693068b9d4e9ae41a5a27a4a',
+  documentValidation: '693068ced4e9ae41a5a27a51',
+  taskGeneration: '693068f4d4e9ae41a5a27a55',
+  progressReport: '6930690bde309976217c961d',
+} as const
+
+export type AgentName = keyof typeof AGENT_IDS
+
+export type AgentId = (typeof AGENT_IDS)[AgentName]
+
+export const DEFAULT_LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+
+/**
+ * Lyzr chat and stream endpoints (server-side)
+ *
+ * ENVIRONMENT:
+ * - LYZR_API_URL: chat endpoint, e.g. a local stand-in (default: production Lyzr)
+ * - LYZR_STREAM_URL: streaming endpoint (default: LYZR_API_URL with /chat/ replaced by /stream/)
+ */
+export function getLyzrEndpoints(): { chatUrl: string; streamUrl: string } {
+  const chatUrl = process.env.LYZR_API_URL || DEFAULT_LYZR_API_URL
+  const streamUrl = process.env.LYZR_STREAM_URL || chatUrl.replace(/\/chat\/?$/, '/stream/')
+  return { chatUrl, streamUrl }
+}
+
+// Default time to wait for the upstream to start answering, per agent.
+// Task generation and progress reports produce long answers and need more headroom.
+export const AGENT_TIMEOUTS_MS: Record<AgentId, number> = {
+  [AGENT_IDS.welcomeEmail]: 30_000,
+  [AGENT_IDS.documentValidation]: 45_000,
+  [AGENT_IDS.taskGeneration]: 60_000,
+  [AGENT_IDS.progressReport]: 60_000,
+}
+
+export interface AgentUpstreamConfig {
+  timeoutMs: number
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  breakerFailureThreshold: number
+  breakerResetMs: number
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] !== undefined && process.env[name] !== '' && Number.isFinite(value) ? value : fallback
+}
+
+/**
+ * Parse LYZR_AGENT_TIMEOUTS_MS ("agentId=ms,agentId=ms") into per-agent overrides
+ */
+function agentTimeoutOverrides(): Record<string, number> {
+  const overrides: Record<string, number> = {}
+  for (const entry of (process.env.LYZR_AGENT_TIMEOUTS_MS || '').split(',')) {
+    const [agentId, ms] = entry.split('=').map(part => part?.trim())
+    if (agentId && Number.isFinite(Number(ms)) && ms !== '') {
+      overrides[agentId] = Number(ms)
+    }
+  }
+  return overrides
+}
+
+/**
+ * Timeout, retry and circuit breaker settings for one agent (server-side, read on every call)
+ *
+ * ENVIRONMENT:
+ * - LYZR_AGENT_TIMEOUTS_MS: per-agent timeouts, e.g. "693068f4d4e9ae41a5a27a55=90000"
+ * - LYZR_TIMEOUT_MS: timeout for every other agent (default 30000)
+ * - LYZR_MAX_RETRIES: retries after the first attempt (default 2)
+ * - LYZR_RETRY_BASE_DELAY_MS / LYZR_RETRY_MAX_DELAY_MS: backoff bounds (default 500 / 8000)
+ * - LYZR_BREAKER_FAILURE_THRESHOLD: failed requests before the breaker opens (default 5)
+ * - LYZR_BREAKER_RESET_MS: how long the breaker stays open (default 30000)
+ */
+export function getAgentUpstreamConfig(agentId: string): AgentUpstreamConfig {
+  return {
+    timeoutMs:
+      agentTimeoutOverrides()[agentId] ??
+      AGENT_TIMEOUTS_MS[agentId as AgentId] ??
+      envNumber('LYZR_TIMEOUT_MS', 30_000),
+    maxRetries: envNumber('LYZR_MAX_RETRIES', 2),
+    baseDelayMs: envNumber('LYZR_RETRY_BASE_DELAY_MS', 500),
+    maxDelayMs: envNumber('LYZR_RETRY_MAX_DELAY_MS', 8_000),
+    breakerFailureThreshold: envNumber('LYZR_BREAKER_FAILURE_THRESHOLD', 5),
+    breakerResetMs: envNumber('LYZR_BREAKER_RESET_MS', 30_000),
+  }
+}
@@ -13,6 +13,11 @@
  * ```
  */
 
+import { createLLMJsonStreamParser } from './jsonStreamParser'
+import type { AgentStreamEvent } from './agentStream'
+import type { AgentResponseFor, AgentSchemaIssue } from './agentSchemas'
+import type { RedactionFinding } from './redaction'
+
 // Secure: Call through Next.js API route (API key is on server!)
 const API_ROUTE = '/api/agent'
 
@@ -21,17 +26,37 @@ export interface AIAgentRequest {
   agent_id: string
   user_id?: string
   session_id?: string
+  context_data?: Record<string, unknown>
+}
+
+export interface AIAgentOptions {
+  user_id?: string
+  session_id?: string
+  context_data?: Record<string, unknown>
+  /** Stream the answer as NDJSON and report partial objects while it arrives */
+  stream?: boolean
+  /** Called with each new partial object parsed from the streamed text */
+  onPartial?: (partial: any) => void
+  /** Called with each raw text delta from the agent */
+  onDelta?: (text: string) => void
 }
 
-export interface AIAgentResponse {
+export interface AIAgentResponse<T = any> {
   success: boolean
-  response?: any
+  response?: T
+  raw_response?: any
   agent_id?: string
   user_id?: string
   session_id?: string
   timestamp?: string
+  /** Fields masked before the upstream call (see utils/redaction.ts) */
+  redaction?: { request_id: string; fields: RedactionFinding[] }
   error?: string
   details?: string
+  /** Machine-readable error code, e.g. AGENT_RESPONSE_INVALID */
+  code?: string
+  /** Schema issues when the agent's answer broke its response contract */
+  issues?: AgentSchemaIssue[]
 }
 
 /**
@@ -51,7 +76,8 @@ function generateUUID(): string {
  * @param message - Your query or prompt for the AI agent
  * @param agent_id - Agent ID (required, e.g., '68eba8c8bc2960ccbdf1b1a0')
  * @param options - Optional user_id and session_id (auto-generated if not provided)
- * @returns Promise with AI agent response
+ *                  and context_data (structured input appended to the prompt server-side)
+ * @returns Promise with AI agent response (typed per agent when its ID has a registered schema)
  *
  * @example
  * ```tsx
@@ -64,14 +90,25 @@ function generateUUID(): string {
  *   '68eba8c8bc2960ccbdf1b1a0',
  *   { user_id: 'shreyas@lyzr.ai', session_id: 'custom-session' }
  * )
+ *
+ * // With structured context for the agent
+ * const result = await callAIAgent(
+ *   'Draft a personalized welcome email for this new hire',
+ *   '693068b9d4e9ae41a5a27a4a',
+ *   { context_data: { candidate_name: 'Sarah Johnson', start_date: '2024-02-20' } }
+ * )
  * ```
  */
-export async function callAIAgent(
+export async function callAIAgent<Id extends string>(
   message: string,
-  agent_id: string,
-  options?: { user_id?: string; session_id?: string }
-): Promise<AIAgentResponse> {
+  agent_id: Id,
+  options?: AIAgentOptions
+): Promise<AIAgentResponse<AgentResponseFor<Id>>> {
   try {
+    if (options?.stream) {
+      return await streamAIAgent(message, agent_id, options)
+    }
+
     // Auto-generate IDs if not provided
     const user_id = options?.user_id || `user-${generateUUID()}`
     const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
@@ -87,6 +124,7 @@ export async function callAIAgent(
         agent_id,
         user_id,
         session_id,
+        context_data: options?.context_data,
       }),
     })
 
@@ -99,6 +137,8 @@ export async function callAIAgent(
         success: false,
         error: errorData.error || `API returned status ${response.status}`,
         details: errorData.details,
+        code: errorData.code,
+        issues: errorData.issues,
       }
     }
   } catch (error) {
@@ -111,13 +151,111 @@ export async function callAIAgent(
   }
 }
 
+/**
+ * Call the AI Agent in streaming mode (SECURE - via Next.js API route)
+ *
+ * The route streams NDJSON events; text deltas are fed through the incremental
+ * JSON parser so `onPartial` receives progressively more complete objects.
+ * Resolves with the same shape as callAIAgent once the agent has finished.
+ *
+ * @example
+ * ```tsx
+ * const result = await streamAIAgent('Generate onboarding tasks', '693068f4d4e9ae41a5a27a55', {
+ *   context_data: { candidate_name: 'Sarah Johnson' },
+ *   onPartial: (partial) => setPreview(partial?.result?.tasks_by_department),
+ * })
+ * ```
+ */
+export async function streamAIAgent<Id extends string>(
+  message: string,
+  agent_id: Id,
+  options: AIAgentOptions = {}
+): Promise<AIAgentResponse<AgentResponseFor<Id>>> {
+  const user_id = options.user_id || `user-${generateUUID()}`
+  const session_id = options.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+
+  try {
+    const response = await fetch(API_ROUTE, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        message,
+        agent_id,
+        user_id,
+        session_id,
+        context_data: options.context_data,
+        stream: true,
+      }),
+    })
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      return {
+        success: false,
+        error: errorData.error || `API returned status ${response.status}`,
+        details: errorData.details,
+      }
+    }
+
+    const parser = createLLMJsonStreamParser()
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let pending = ''
+
+    const handleEvent = (event: AgentStreamEvent): AIAgentResponse | null => {
+      if (event.type === 'delta') {
+        options.onDelta?.(event.text)
+        const partial = parser.push(event.text)
+        if (partial !== undefined) options.onPartial?.(partial)
+        return null
+      }
+      if (event.type === 'done') {
+        const { response: parsed, raw_response, agent_id, user_id, session_id, timestamp, redaction } = event
+        return { success: true, response: parsed ?? parser.finish(), raw_response, agent_id, user_id, session_id, timestamp, redaction }
+      }
+      return { success: false, error: event.error, details: event.details, code: event.code, issues: event.issues }
+    }
+
+    while (true) {
+      const { value, done } = await reader.read()
+      if (value) pending += decoder.decode(value, { stream: true })
+
+      const lines = done ? [pending] : pending.split('\n')
+      pending = done ? '' : lines.pop() || ''
+
+      for (const line of lines) {
+        if (!line.trim()) continue
+        const result = handleEvent(JSON.parse(line))
+        if (result) return result
+      }
+
+      if (done) break
+    }
+
+    return {
+      success: false,
+      error: 'Agent stream ended unexpectedly',
+      details: parser.text() ? 'No completion event received' : 'No data received',
+    }
+  } catch (error) {
+    console.error('AI Agent stream failed:', error)
+    return {
+      success: false,
+      error: 'Failed to stream AI agent response',
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
 /**
  * Hook for using AI Agent in React components
  *
  * @example
  * ```tsx
  * function MyComponent() {
- *   const { callAgent, loading, error, response } = useAIAgent()
+ *   const { callAgent, loading, error, response, partial } = useAIAgent()
  *
  *   async function handleClick() {
  *     await callAgent('Explain useState hook', '68cbe7e5db8dcfa96f0df85b')
@@ -130,6 +268,7 @@ export async function callAIAgent(
  *       </button>
  *       {loading && <p>Loading...</p>}
  *       {error && <p>Error: {error}</p>}
+ *       {loading && partial && <pre>{JSON.stringify(partial)}</pre>}
  *       {response && <p>{response}</p>}
  *     </div>
  *   )
@@ -140,17 +279,25 @@ export function useAIAgent() {
   const [loading, setLoading] = React.useState(false)
   const [error, setError] = React.useState<string | null>(null)
   const [response, setResponse] = React.useState<any>(null)
+  const [partial, setPartial] = React.useState<any>(null)
 
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string }
+    options?: AIAgentOptions
   ) => {
     setLoading(true)
     setError(null)
     setResponse(null)
+    setPartial(null)
 
-    const result = await callAIAgent(message, agent_id, options)
+    const result = await callAIAgent(message, agent_id, {
+      ...options,
+      onPartial: (value) => {
+        setPartial(value)
+        options?.onPartial?.(value)
+      },
+    })
 
     if (result.success) {
       setResponse(result.response)
@@ -167,6 +314,7 @@ export function useAIAgent() {
     loading,
     error,
     response,
+    partial,
   }
 }
 
@@ -0,0 +1,54 @@
+import { ChatWebhookError, postChatMessage } from './chatWebhook'
+import { describe, it, expect, afterEach } from 'vitest'
+import http from 'http'
+import type { AddressInfo } from 'net'
+
+const message = { channel: '#it-requests', text: 'New onboarding tasks', blocks: [] }
+const options = { timeoutMs: 2000, maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 }
+
+// Local incoming-webhook receiver answering with the given statuses in turn
+function receiver(statuses: number[]) {
+  const received: any[] = []
+  const server = http.createServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => (body += chunk))
+    request.on('end', () => {
+      received.push({ contentType: request.headers['content-type'], body: JSON.parse(body) })
+      const status = statuses[Math.min(received.length - 1, statuses.length - 1)]
+      response.writeHead(status).end(status === 200 ? 'ok' : 'invalid_payload')
+    })
+  })
+  return new Promise<{ server: http.Server; url: string; received: any[] }>(resolve =>
+    server.listen(0, '127.0.0.1', () => resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/T000/B000`, received }))
+  )
+}
+
+describe('postChatMessage', () => {
+  let server: http.Server | undefined
+
+  afterEach(() => {
+    server?.close()
+  })
+
+  it('posts the message as JSON and retries server errors', async () => {
+    const local = await receiver([503, 500, 200])
+    server = local.server
+
+    await postChatMessage(local.url, message, options)
+
+    expect(local.received).toHaveLength(3)
+    expect(local.received[2]).toEqual({ contentType: 'application/json', body: message })
+  })
+
+  it('fails at once on a rejected message, without the webhook URL in the error', async () => {
+    const local = await receiver([400])
+    server = local.server
+
+    const error = await postChatMessage(local.url, message, options).catch(failure => failure)
+
+    expect(error).toBeInstanceOf(ChatWebhookError)
+    expect(error.status).toBe(400)
+    expect(error.message).toBe('Webhook for #it-requests answered 400: invalid_payload')
+    expect(local.received).toHaveLength(1)
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Chat Webhooks
+ *
+ * Posts messages to Slack-compatible incoming webhooks (Slack, Mattermost, Rocket.Chat) and
+ * routes new tasks to their department's channel (see utils/taskChannels.ts).
+ * Server-only - it uses the file store and holds the webhook URLs.
+ *
+ * Posts use the upstream helpers (utils/upstream.ts): a timeout per attempt and retries with
+ * backoff on network errors, 429 (honoring Retry-After) and 5xx. Other answers fail at once.
+ * Webhook URLs are secrets and never appear in errors or logs.
+ *
+ * CONFIGURATION:
+ * - CHAT_WEBHOOK_URL: default webhook for mappings without their own
+ * - CHAT_WEBHOOK_TIMEOUT_MS (default 10000), CHAT_WEBHOOK_MAX_RETRIES (default 3)
+ */
+
+import { fetchWithResilience, type ResilienceOptions } from './upstream'
+import { formatTaskMessage, routeTasks, type ChannelNotificationResult, type ChatMessage } from './taskChannels'
+import { channelMappingRepository, chatNotificationRepository } from './repositories'
+import type { Candidate, OnboardingTask } from '@/types'
+
+export class ChatWebhookError extends Error {
+  /** HTTP status the webhook answered with, when it answered */
+  readonly status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'ChatWebhookError'
+    this.status = status
+  }
+}
+
+export function getChatWebhookOptions(): ResilienceOptions {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value)
+    return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+  }
+  return {
+    timeoutMs: number(process.env.CHAT_WEBHOOK_TIMEOUT_MS, 10_000),
+    maxRetries: number(process.env.CHAT_WEBHOOK_MAX_RETRIES, 3),
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+  }
+}
+
+/**
+ * @throws ChatWebhookError when the webhook rejects the message or cannot be reached
+ */
+export async function postChatMessage(
+  webhookUrl: string,
+  message: ChatMessage,
+  options: ResilienceOptions = getChatWebhookOptions()
+): Promise<void> {
+  let response: Response
+  try {
+    response = await fetchWithResilience(
+      webhookUrl,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(message) },
+      options
+    )
+  } catch (error) {
+    throw new ChatWebhookError(`Webhook for ${message.channel} failed: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  if (!response.ok) {
+    const body = (await response.text().catch(() => '')).slice(0, 200)
+    throw new ChatWebhookError(`Webhook for ${message.channel} answered ${response.status}${body ? `: ${body}` : ''}`, response.status)
+  }
+}
+
+/**
+ * Post the candidate's new tasks to their departments' channels and log each post
+ */
+export async function notifyTaskChannels(candidate: Candidate, tasks: OnboardingTask[]): Promise<ChannelNotificationResult[]> {
+  const { routes, unmapped } = routeTasks(tasks, await channelMappingRepository.list())
+  const results: ChannelNotificationResult[] = []
+
+  for (const { mapping, tasks: routed } of routes) {
+    const result = { department: mapping.department, channel: mapping.channel, taskIds: routed.map(task => task.id) }
+    const webhookUrl = mapping.webhookUrl || process.env.CHAT_WEBHOOK_URL
+    if (!webhookUrl) {
+      results.push({ ...result, status: 'skipped', error: 'No webhook configured (set one on the mapping or CHAT_WEBHOOK_URL)' })
+      continue
+    }
+
+    let error: string | undefined
+    try {
+      await postChatMessage(webhookUrl, formatTaskMessage(candidate, routed, mapping.channel))
+    } catch (failure) {
+      error = failure instanceof Error ? failure.message : String(failure)
+      console.error('Chat notification failed:', error)
+    }
+
+    const status = error ? 'failed' : 'sent'
+    await chatNotificationRepository.create({ ...result, candidateId: candidate.id, status, error, at: new Date().toISOString() })
+    results.push({ ...result, status, ...(error && { error }) })
+  }
+
+  for (const department of Array.from(new Set(unmapped.map(task => task.department)))) {
+    results.push({
+      department,
+      channel: '',
+      taskIds: unmapped.filter(task => task.department === department).map(task => task.id),
+      status: 'skipped',
+      error: `No channel is mapped to ${department}`,
+    })
+  }
+  return results
+}
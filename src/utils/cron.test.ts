@@ -0,0 +1,20 @@
+import { cronMatches, parseCron } from './cron'
+import { describe, it, expect } from 'vitest'
+
+describe('cron', () => {
+  it('matches minutes, hours, ranges, steps and days of the week', () => {
+    const weekdayMornings = parseCron('*/15 8-9 * * 1-5')
+
+    expect(cronMatches(weekdayMornings, new Date(2025, 2, 10, 8, 30))).toBe(true) // Monday
+    expect(cronMatches(weekdayMornings, new Date(2025, 2, 10, 8, 31))).toBe(false)
+    expect(cronMatches(weekdayMornings, new Date(2025, 2, 10, 10, 0))).toBe(false)
+    expect(cronMatches(weekdayMornings, new Date(2025, 2, 9, 8, 0))).toBe(false) // Sunday
+    expect(cronMatches(parseCron('0 8 1,15 * 7'), new Date(2025, 2, 9, 8, 0))).toBe(true) // Sunday, or the 1st/15th
+  })
+
+  it('rejects invalid expressions', () => {
+    expect(() => parseCron('0 8 * *')).toThrow('must have 5 fields')
+    expect(() => parseCron('0 25 * * *')).toThrow('Invalid hour "25"')
+    expect(() => parseCron('0 8 * * MON')).toThrow('Invalid day of week "MON"')
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Cron Expressions
+ *
+ * Standard five-field expressions ("minute hour day-of-month month day-of-week") for
+ * in-process schedules such as REMINDER_SCHEDULE. Each field takes `*`, numbers, ranges
+ * (`1-5`), steps (`*\/15`, `0-30/10`) and comma-separated lists; day-of-week 0 and 7 are
+ * Sunday. Names (MON, JAN) and the @daily shortcuts are not supported.
+ *
+ * Like cron, a day matches when either day field matches if both are restricted.
+ * Times are the server's local time.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Whether the day fields were given (not `*`)
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+]
+
+function parseField(text: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>()
+  for (const part of text.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+    if (!match) throw new Error(`Invalid ${field.name} "${part}"`)
+
+    const start = match[1] === '*' ? field.min : Number(match[2])
+    const end = match[1] === '*' ? field.max : match[3] !== undefined ? Number(match[3]) : match[4] ? field.max : start
+    const step = match[4] ? Number(match[4]) : 1
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new Error(`Invalid ${field.name} "${part}" (allowed ${field.min}-${field.max})`)
+    }
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+  return values
+}
+
+/**
+ * @throws Error naming the invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day-of-month month day-of-week)`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]))
+  if (daysOfWeek.has(7)) daysOfWeek.add(0)
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*',
+  }
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate())
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay())
+  const day =
+    schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted
+      ? dayOfMonth || dayOfWeek
+      : dayOfMonth && dayOfWeek
+
+  return (
+    day &&
+    schedule.minutes.has(date.getMinutes()) &&
+    schedule.hours.has(date.getHours()) &&
+    schedule.months.has(date.getMonth() + 1)
+  )
+}
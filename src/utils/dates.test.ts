@@ -0,0 +1,9 @@
+import { localDate } from './dates'
+import { describe, it, expect } from 'vitest'
+
+describe('localDate', () => {
+  it('uses the local calendar day, not the UTC one', () => {
+    expect(localDate(new Date(2025, 2, 9, 0, 5))).toBe('2025-03-09')
+    expect(localDate(new Date(2025, 11, 31, 23, 55))).toBe('2025-12-31')
+  })
+})
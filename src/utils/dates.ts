@@ -0,0 +1,16 @@
+/**
+ * Calendar Dates
+ *
+ * Start dates, due dates and expiry dates are plain calendar days (YYYY-MM-DD) with no time zone.
+ * "Today" is the server's local date, the same clock the in-process schedules (utils/cron.ts)
+ * run on; the UTC date would be a day off around local midnight.
+ */
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * The local calendar day of a moment as YYYY-MM-DD
+ */
+export function localDate(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
@@ -0,0 +1,53 @@
+import { DEFAULT_PEOPLE, DEFAULT_TEAMS, linkAssignees, resolveAssignee, workloadByPerson } from './directory'
+import { describe, it, expect } from 'vitest'
+import type { OnboardingTask } from '@/types'
+
+const directory = { people: DEFAULT_PEOPLE, teams: DEFAULT_TEAMS }
+
+describe('resolveAssignee', () => {
+  it('matches names, team leads, unique titles and the candidate manager', () => {
+    expect(resolveAssignee('jane.doe@company.com', directory)?.id).toBe('jane-doe')
+    expect(resolveAssignee('IT Support Team', directory)?.id).toBe('priya-patel')
+    expect(resolveAssignee('engineering manager', directory)?.id).toBe('jane-doe')
+    expect(resolveAssignee('Hiring Manager', directory, 'john-smith')?.id).toBe('john-smith')
+    expect(resolveAssignee('Sales Manager', directory)).toBeNull()
+  })
+})
+
+describe('linkAssignees', () => {
+  it('links resolvable assignees and keeps the rest as text', () => {
+    const tasks = linkAssignees(
+      [
+        { assignee: 'Facilities Team' },
+        { assignee: 'Sales Manager' },
+        { assignee: 'Old name', assigneeId: 'elena-garcia' },
+      ],
+      directory
+    )
+
+    expect(tasks).toEqual([
+      { assignee: 'Marcus Lee', assigneeId: 'marcus-lee' },
+      { assignee: 'Sales Manager' },
+      { assignee: 'Elena Garcia', assigneeId: 'elena-garcia' },
+    ])
+  })
+})
+
+describe('workloadByPerson', () => {
+  it('counts open and at-risk tasks per person, busiest first', () => {
+    const task = (id: string, assigneeId: string, status: OnboardingTask['status'], dueDate: string): OnboardingTask => ({
+      id, candidateId: 'c1', title: id, department: 'IT', assignee: '', assigneeId, dueDate, priority: 'medium', status,
+    })
+    const tasks = [
+      task('t1', 'priya-patel', 'pending', '2025-04-02'),
+      task('t2', 'priya-patel', 'in_progress', '2025-04-20'),
+      task('t3', 'marcus-lee', 'pending', '2025-04-20'),
+      task('t4', 'marcus-lee', 'completed', '2025-04-01'),
+    ]
+
+    expect(workloadByPerson(tasks, DEFAULT_PEOPLE, '2025-04-01')).toEqual([
+      { personId: 'priya-patel', name: 'Priya Patel', open: 2, atRisk: 1 },
+      { personId: 'marcus-lee', name: 'Marcus Lee', open: 1, atRisk: 0 },
+    ])
+  })
+})
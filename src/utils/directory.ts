@@ -0,0 +1,152 @@
+/**
+ * People Directory
+ *
+ * Employees, their teams and managers. Tasks link to the person doing them (`assigneeId`)
+ * and candidates to their hiring manager (`managerId`).
+ *
+ * ASSIGNEE RESOLUTION (free-text assignees from templates and the task generation agent):
+ * 1. a person's name or email
+ * 2. a team name - the team's lead
+ * 3. a job title exactly one person holds (e.g. "Engineering Manager")
+ * 4. "Manager" / "Hiring Manager" - the candidate's manager
+ * Anything else stays unlinked and keeps its text as the assignee.
+ *
+ * People live in the `people` collection and teams in `teams` (see /api/people, /api/teams).
+ */
+
+import { z } from 'zod'
+import { isTaskAtRisk } from './progress'
+import type { Candidate, OnboardingTask, Person, Team } from '@/types'
+
+export interface Directory {
+  people: Person[]
+  teams: Team[]
+}
+
+export interface Workload {
+  personId: string
+  name: string
+  open: number
+  atRisk: number
+}
+
+const optionalText = z
+  .string()
+  .trim()
+  .optional()
+  .transform(value => value || undefined)
+
+export const personSchema = z.object({
+  name: z.string().trim().min(1, 'name is required'),
+  email: z.string().trim().pipe(z.email('email must be an email address')),
+  title: z.string().trim().default(''),
+  // '' unlinks the team or manager when a person is edited
+  teamId: optionalText,
+  managerId: optionalText,
+})
+
+export const teamSchema = z.object({
+  name: z.string().trim().min(1, 'name is required'),
+  department: z.string().trim().min(1, 'department is required'),
+  leadId: optionalText,
+})
+
+export type PersonInput = z.input<typeof personSchema>
+export type TeamInput = z.input<typeof teamSchema>
+
+// Seed directory: the teams the task templates assign work to, the demo managers and who
+// overdue work escalates to
+export const DEFAULT_TEAMS: Team[] = [
+  { id: 'it-support', name: 'IT Support Team', department: 'IT', leadId: 'priya-patel' },
+  { id: 'facilities', name: 'Facilities Team', department: 'Facilities', leadId: 'marcus-lee' },
+  { id: 'hr-onboarding', name: 'HR Onboarding', department: 'HR', leadId: 'elena-garcia' },
+  { id: 'engineering', name: 'Engineering', department: 'Engineering', leadId: 'jane-doe' },
+  { id: 'product', name: 'Product', department: 'Product', leadId: 'john-smith' },
+]
+
+export const DEFAULT_PEOPLE: Person[] = [
+  { id: 'jane-doe', name: 'Jane Doe', email: 'jane.doe@company.com', title: 'Engineering Manager', teamId: 'engineering', managerId: 'alex-morgan' },
+  { id: 'john-smith', name: 'John Smith', email: 'john.smith@company.com', title: 'Product Manager', teamId: 'product', managerId: 'alex-morgan' },
+  { id: 'priya-patel', name: 'Priya Patel', email: 'priya.patel@company.com', title: 'IT Support Lead', teamId: 'it-support', managerId: 'alex-morgan' },
+  { id: 'marcus-lee', name: 'Marcus Lee', email: 'marcus.lee@company.com', title: 'Facilities Coordinator', teamId: 'facilities', managerId: 'alex-morgan' },
+  { id: 'elena-garcia', name: 'Elena Garcia', email: 'elena.garcia@company.com', title: 'HR Onboarding Specialist', teamId: 'hr-onboarding', managerId: 'alex-morgan' },
+  { id: 'alex-morgan', name: 'Alex Morgan', email: 'alex.morgan@company.com', title: 'Head of Operations' },
+]
+
+const MANAGER_LABELS = ['manager', 'hiring manager']
+
+function sameText(a: string | undefined, b: string | undefined): boolean {
+  return (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase()
+}
+
+export function getManager(candidate: Pick<Candidate, 'managerId'>, people: Person[]): Person | null {
+  return people.find(person => person.id === candidate.managerId) || null
+}
+
+/**
+ * The person behind a free-text assignee, or null
+ *
+ * @param managerId - The candidate's manager, for "Manager" / "Hiring Manager"
+ */
+export function resolveAssignee(label: string, directory: Directory, managerId?: string): Person | null {
+  const { people, teams } = directory
+  if (!label.trim()) return null
+
+  const byName = people.find(person => sameText(person.name, label) || sameText(person.email, label))
+  if (byName) return byName
+
+  const team = teams.find(t => sameText(t.name, label))
+  const lead = team && people.find(person => person.id === team.leadId)
+  if (lead) return lead
+
+  const byTitle = people.filter(person => sameText(person.title, label))
+  if (byTitle.length === 1) return byTitle[0]
+
+  if (MANAGER_LABELS.some(manager => sameText(manager, label))) {
+    return people.find(person => person.id === managerId) || null
+  }
+  return null
+}
+
+/**
+ * Link tasks to people (tasks with an assigneeId keep it); linked tasks show the person's name
+ */
+export function linkAssignees<T extends Pick<OnboardingTask, 'assignee' | 'assigneeId'>>(
+  tasks: T[],
+  directory: Directory,
+  managerId?: string
+): T[] {
+  return tasks.map(task => {
+    const person = task.assigneeId
+      ? directory.people.find(p => p.id === task.assigneeId)
+      : resolveAssignee(task.assignee, directory, managerId)
+    return person ? { ...task, assigneeId: person.id, assignee: person.name } : task
+  })
+}
+
+/**
+ * Open tasks of one person, soonest due first
+ */
+export function openTasksFor(personId: string, tasks: OnboardingTask[]): OnboardingTask[] {
+  return tasks
+    .filter(task => task.assigneeId === personId && task.status !== 'completed')
+    .sort((a, b) => (a.dueDate || '9999').localeCompare(b.dueDate || '9999'))
+}
+
+/**
+ * Open onboarding tasks per person, busiest first (people without open tasks are left out)
+ */
+export function workloadByPerson(tasks: OnboardingTask[], people: Person[], currentDate?: string): Workload[] {
+  return people
+    .map(person => {
+      const open = openTasksFor(person.id, tasks)
+      return {
+        personId: person.id,
+        name: person.name,
+        open: open.length,
+        atRisk: open.filter(task => isTaskAtRisk(task, currentDate)).length,
+      }
+    })
+    .filter(workload => workload.open > 0)
+    .sort((a, b) => b.open - a.open || a.name.localeCompare(b.name))
+}
@@ -0,0 +1,31 @@
+import { classifyByHeuristics, classifyDocument } from './documentClassifier'
+import { describe, it, expect, vi } from 'vitest'
+
+describe('classifyDocument', () => {
+  it('matches whole filename tokens instead of substrings', () => {
+    expect(classifyByHeuristics('tax_forms_david.pdf', '').type).toBe('Tax Forms')
+    expect(classifyByHeuristics('david_resume.pdf', '').type).toBe('Other')
+    expect(classifyByHeuristics('scan-id.jpg', '').type).toBe('Government ID')
+  })
+
+  it('prefers the extracted text over a misleading filename', () => {
+    const result = classifyByHeuristics(
+      'scan_0042.pdf',
+      'Direct Deposit Authorization. Bank name: First Bank. Routing number: 011000015. Account number: 123456789.'
+    )
+
+    expect(result).toMatchObject({ type: 'Direct Deposit Info', source: 'heuristic' })
+    expect(result.confidence).toBeGreaterThanOrEqual(0.5)
+  })
+
+  it('asks the agent only when the heuristics are unsure', async () => {
+    const askAgent = vi.fn().mockResolvedValue({ result: { document_type: 'emergency contact', confidence: 0.9 } })
+
+    const confident = await classifyDocument({ filename: 'w4.pdf', text: 'Form W-4 Employee Withholding Certificate' }, { askAgent })
+    expect(confident.source).toBe('heuristic')
+    expect(askAgent).not.toHaveBeenCalled()
+
+    const unsure = await classifyDocument({ filename: 'form.pdf', text: 'Name: Bob. Phone: 555-0100' }, { askAgent })
+    expect(unsure).toEqual({ type: 'Emergency Contact', confidence: 0.9, source: 'agent' })
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * Document Classification
+ *
+ * Maps an uploaded file onto one of the candidate's required document types
+ * (Government ID, Tax Forms, Direct Deposit Info, Emergency Contact, ...) or 'Other'.
+ * Types without keyword rules can still be chosen by the agent or by HR.
+ *
+ * PIPELINE:
+ * 1. Heuristics - keyword phrases in the extracted text and whole-word filename tokens
+ *    ("tax_forms_david.pdf" is a tax form; "david" does not contain the token "id")
+ * 2. Agent fallback - when the heuristic confidence is below CLASSIFIER_CONFIDENCE_THRESHOLD
+ *    and DOCUMENT_CLASSIFIER_AGENT_ID is set, that agent is asked to pick a type
+ * 3. Otherwise the best heuristic guess is kept (or 'Other' when nothing matched)
+ *
+ * HR can always override the result; overrides are recorded with source 'manual'.
+ */
+
+import { z } from 'zod'
+import { REQUIRED_DOCUMENTS } from './documentRequirements'
+import type { DocumentTypeSource } from '@/types'
+
+export const OTHER_DOCUMENT_TYPE = 'Other'
+
+export const CLASSIFIER_CONFIDENCE_THRESHOLD = 0.5
+
+export type ClassificationSource = DocumentTypeSource
+
+export interface DocumentClassification {
+  type: string
+  confidence: number
+  source: ClassificationSource
+}
+
+interface TypeRule {
+  /** Phrases searched in the extracted text (case-insensitive), with their weight */
+  phrases: [string, number][]
+  /** Whole filename tokens */
+  filenameTokens: string[]
+}
+
+const FILENAME_TOKEN_WEIGHT = 3
+
+const RULES: Record<string, TypeRule> = {
+  'Government ID': {
+    phrases: [
+      ['passport', 3],
+      ["driver's license", 3],
+      ['driver license', 3],
+      ['driving licence', 3],
+      ['national identity', 3],
+      ['identity card', 3],
+      ['nationality', 2],
+      ['date of birth', 1],
+      ['place of birth', 2],
+      ['date of expiry', 1],
+      ['expiration date', 1],
+    ],
+    filenameTokens: ['id', 'passport', 'license', 'licence', 'dl', 'identity', 'identification'],
+  },
+  'Tax Forms': {
+    phrases: [
+      ['w-4', 3],
+      ['w-9', 3],
+      ['1099', 2],
+      ['withholding', 3],
+      ['internal revenue service', 3],
+      ['filing status', 3],
+      ['taxpayer', 2],
+      ['social security number', 1],
+      ['tax', 1],
+      ['p45', 3],
+    ],
+    filenameTokens: ['tax', 'taxes', 'w4', 'w9', '1099', 'irs', 'withholding', 'p45'],
+  },
+  'Direct Deposit Info': {
+    phrases: [
+      ['direct deposit', 3],
+      ['routing number', 3],
+      ['account number', 2],
+      ['voided check', 3],
+      ['iban', 3],
+      ['sort code', 3],
+      ['checking', 1],
+      ['savings', 1],
+      ['bank', 1],
+    ],
+    filenameTokens: ['deposit', 'bank', 'banking', 'routing', 'payroll', 'voided', 'cheque', 'check', 'dd'],
+  },
+  'Emergency Contact': {
+    phrases: [
+      ['emergency contact', 3],
+      ['next of kin', 3],
+      ['in case of emergency', 3],
+      ['relationship', 2],
+      ['emergency', 1],
+    ],
+    filenameTokens: ['emergency', 'contact', 'contacts', 'kin', 'ice'],
+  },
+  'Contractor Agreement': {
+    phrases: [
+      ['independent contractor', 3],
+      ['contractor agreement', 3],
+      ['statement of work', 3],
+      ['consulting agreement', 3],
+    ],
+    filenameTokens: ['contractor', 'contract', 'sow', 'consulting'],
+  },
+  'Work Authorization': {
+    phrases: [
+      ['work permit', 3],
+      ['right to work', 3],
+      ['employment authorization', 3],
+      ['residence permit', 3],
+      ['visa', 2],
+    ],
+    filenameTokens: ['visa', 'permit', 'ead', 'rtw', 'authorization'],
+  },
+  'Background Check Consent': {
+    phrases: [
+      ['background check', 3],
+      ['consumer report', 3],
+      ['background investigation', 3],
+    ],
+    filenameTokens: ['background', 'consent', 'screening'],
+  },
+}
+
+function filenameTokens(filename: string): string[] {
+  return filename
+    .replace(/\.[^.]+$/, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+function countOccurrences(text: string, phrase: string): number {
+  const pattern = new RegExp(`(^|[^a-z0-9])${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![a-z0-9])`, 'g')
+  return (text.match(pattern) || []).length
+}
+
+/**
+ * Score every document type for a file
+ */
+export function scoreDocumentTypes(filename: string, text: string, types: string[] = REQUIRED_DOCUMENTS): Record<string, number> {
+  const tokens = new Set(filenameTokens(filename))
+  const haystack = text.toLowerCase()
+
+  return Object.fromEntries(
+    types.map(type => {
+      const rule = RULES[type]
+      if (!rule) return [type, 0]
+
+      // Repeats are capped so one frequent word cannot outweigh the rest of the evidence
+      const textScore = rule.phrases.reduce(
+        (sum, [phrase, weight]) => sum + weight * Math.min(3, countOccurrences(haystack, phrase)),
+        0
+      )
+      const nameScore = rule.filenameTokens.some(token => tokens.has(token)) ? FILENAME_TOKEN_WEIGHT : 0
+      return [type, textScore + nameScore]
+    })
+  )
+}
+
+/**
+ * Classify a file with the keyword heuristics only
+ */
+export function classifyByHeuristics(filename: string, text: string, types: string[] = REQUIRED_DOCUMENTS): DocumentClassification {
+  const ranked = Object.entries(scoreDocumentTypes(filename, text, types)).sort((a, b) => b[1] - a[1])
+  const [best, bestScore] = ranked[0] || [OTHER_DOCUMENT_TYPE, 0]
+  const runnerUp = ranked[1]?.[1] || 0
+
+  if (bestScore === 0) {
+    return { type: OTHER_DOCUMENT_TYPE, confidence: 0, source: 'heuristic' }
+  }
+
+  // Confident when the winner is clear of the runner-up and has enough evidence
+  const margin = (bestScore - runnerUp) / bestScore
+  const evidence = Math.min(1, bestScore / 6)
+  return { type: best, confidence: Math.round(margin * evidence * 100) / 100, source: 'heuristic' }
+}
+
+const agentClassificationSchema = z.looseObject({
+  document_type: z.string(),
+  confidence: z.coerce.number().optional(),
+})
+
+export type ClassifierAgent = (message: string, context: Record<string, any>) => Promise<any | null>
+
+/**
+ * Classify a file: heuristics first, then the classifier agent when they are unsure
+ *
+ * @param askAgent - Sends a question to the classifier agent (omit to skip the fallback)
+ */
+export async function classifyDocument(
+  file: { filename: string; text: string },
+  options: { askAgent?: ClassifierAgent; types?: string[] } = {}
+): Promise<DocumentClassification> {
+  const types = options.types || REQUIRED_DOCUMENTS
+  const heuristic = classifyByHeuristics(file.filename, file.text, types)
+  if (heuristic.confidence >= CLASSIFIER_CONFIDENCE_THRESHOLD || !options.askAgent) {
+    return heuristic
+  }
+
+  const answer = await options.askAgent(
+    `Classify this onboarding document. Answer with JSON {"document_type": one of ${JSON.stringify([...types, OTHER_DOCUMENT_TYPE])}, "confidence": 0-1}.`,
+    { filename: file.filename, content: file.text.slice(0, 4000), document_types: types }
+  )
+
+  const parsed = agentClassificationSchema.safeParse(answer?.result ?? answer)
+  const type = parsed.success ? [...types, OTHER_DOCUMENT_TYPE].find(t => t.toLowerCase() === parsed.data.document_type.toLowerCase()) : undefined
+  if (!parsed.success || !type) {
+    return heuristic
+  }
+
+  return {
+    type,
+    confidence: Math.max(0, Math.min(1, parsed.data.confidence ?? CLASSIFIER_CONFIDENCE_THRESHOLD)),
+    source: 'agent',
+  }
+}
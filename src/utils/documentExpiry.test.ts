@@ -0,0 +1,42 @@
+import { extractExpiryDate, findExpiringDocuments, getExpiryStatus } from './documentExpiry'
+import { describe, it, expect } from 'vitest'
+import type { Document } from '@/types'
+
+function doc(id: string, expiryDate?: string, expiryFlag?: number): Document {
+  return { id, candidateId: 'c1', type: 'Government ID', filename: `${id}.pdf`, uploadDate: '2025-01-01', status: 'valid', expiryDate, expiryFlag }
+}
+
+describe('getExpiryStatus', () => {
+  it('places a date in the narrowest window it is within', () => {
+    const windows = [60, 30, 7]
+
+    expect(getExpiryStatus('2025-06-01', '2025-03-01', windows)).toEqual({ state: 'ok', daysLeft: 92 })
+    expect(getExpiryStatus('2025-03-21', '2025-03-01', windows)).toEqual({ state: 'expiring', daysLeft: 20, window: 30 })
+    expect(getExpiryStatus('2025-03-01', '2025-03-01', windows)).toEqual({ state: 'expired', daysLeft: 0, window: 0 })
+    expect(getExpiryStatus(undefined, '2025-03-01', windows)).toBeNull()
+  })
+})
+
+describe('findExpiringDocuments', () => {
+  it('flags each window once and sorts soonest first', () => {
+    const documents = [doc('later', '2025-04-20', 60), doc('flagged', '2025-03-21', 30), doc('sooner', '2025-03-05', 30), doc('none')]
+
+    const found = findExpiringDocuments(documents, { currentDate: '2025-03-01', windows: [60, 30, 7] })
+
+    expect(found.map(entry => [entry.document.id, entry.newlyFlagged])).toEqual([
+      ['sooner', true],
+      ['flagged', false],
+      ['later', false],
+    ])
+  })
+})
+
+describe('extractExpiryDate', () => {
+  it('reads labelled dates in common formats', () => {
+    expect(extractExpiryDate('PASSPORT\nDate of expiry 12 MAR 2030\nAuthority')).toBe('2030-03-12')
+    expect(extractExpiryDate('Work permit valid until: 2027-05-01')).toBe('2027-05-01')
+    expect(extractExpiryDate('Expires May 1, 2027')).toBe('2027-05-01')
+    expect(extractExpiryDate('Expiration date 31.01.2028')).toBe('2028-01-31')
+    expect(extractExpiryDate('Date of birth 01 JAN 1990')).toBeNull()
+  })
+})
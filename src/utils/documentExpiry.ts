@@ -0,0 +1,137 @@
+/**
+ * Document Expiry
+ *
+ * Work permits, IDs and certifications expire. Each document can carry an expiry date,
+ * either read from its extracted text at upload or entered by HR (source 'manual').
+ *
+ * WINDOWS:
+ * A document is 'expiring' once it is within the widest renewal window
+ * (DOCUMENT_EXPIRY_WINDOWS_DAYS / NEXT_PUBLIC_DOCUMENT_EXPIRY_WINDOWS_DAYS, default 60,30,7)
+ * and 'expired' from its expiry date on. The checker (utils/expiryChecker.ts) records
+ * the narrowest window reached on the document (`expiryFlag`, 0 = expired) so every
+ * window is flagged once, however often it runs.
+ */
+
+import { localDate } from './dates'
+import type { Document } from '@/types'
+
+export const DEFAULT_EXPIRY_WINDOWS_DAYS = [60, 30, 7]
+
+// Flag value for documents past their expiry date
+export const EXPIRED_FLAG = 0
+
+const DAY_MS = 86_400_000
+
+export type ExpiryState = 'expired' | 'expiring' | 'ok'
+
+export interface ExpiryStatus {
+  state: ExpiryState
+  daysLeft: number
+  /** Narrowest window the document is within (EXPIRED_FLAG once expired) */
+  window?: number
+}
+
+/**
+ * Renewal windows in days, widest first
+ */
+export function getExpiryWindows(): number[] {
+  const configured = (process.env.DOCUMENT_EXPIRY_WINDOWS_DAYS || process.env.NEXT_PUBLIC_DOCUMENT_EXPIRY_WINDOWS_DAYS || '')
+    .split(',')
+    .map(value => Number(value.trim()))
+    .filter(value => Number.isInteger(value) && value > 0)
+  return (configured.length > 0 ? configured : DEFAULT_EXPIRY_WINDOWS_DAYS).slice().sort((a, b) => b - a)
+}
+
+function toDay(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getTime()
+}
+
+/**
+ * Where a document with this expiry date stands on `currentDate`
+ *
+ * @returns null when the document has no (valid) expiry date
+ */
+export function getExpiryStatus(
+  expiryDate: string | undefined,
+  currentDate: string = localDate(),
+  windows: number[] = getExpiryWindows()
+): ExpiryStatus | null {
+  if (!expiryDate || Number.isNaN(toDay(expiryDate))) return null
+
+  const daysLeft = Math.round((toDay(expiryDate) - toDay(currentDate)) / DAY_MS)
+  if (daysLeft <= 0) {
+    return { state: 'expired', daysLeft, window: EXPIRED_FLAG }
+  }
+
+  const within = windows.filter(window => daysLeft <= window)
+  return within.length > 0 ? { state: 'expiring', daysLeft, window: Math.min(...within) } : { state: 'ok', daysLeft }
+}
+
+export interface ExpiringDocument {
+  document: Document
+  status: ExpiryStatus
+  /** Reached a narrower window (or expired) since the last check */
+  newlyFlagged: boolean
+}
+
+/**
+ * Expired and expiring documents, soonest first
+ */
+export function findExpiringDocuments(
+  documents: Document[],
+  options: { currentDate?: string; windows?: number[] } = {}
+): ExpiringDocument[] {
+  return documents
+    .map(document => ({ document, status: getExpiryStatus(document.expiryDate, options.currentDate, options.windows) }))
+    .filter((entry): entry is { document: Document; status: ExpiryStatus } => entry.status !== null && entry.status.state !== 'ok')
+    .map(({ document, status }) => ({
+      document,
+      status,
+      newlyFlagged: document.expiryFlag === undefined || status.window! < document.expiryFlag,
+    }))
+    .sort((a, b) => a.status.daysLeft - b.status.daysLeft)
+}
+
+// Date extraction
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const EXPIRY_LABEL = /(date of expiry|expiry date|expiration date|expiration|expires(?: on)?|expiry|valid until|valid thru|valid through|exp\.)\s*[:\-]?\s*/gi
+
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?'
+
+const DATE_PATTERNS: [RegExp, (match: RegExpMatchArray) => [number, number, number]][] = [
+  // 2027-05-01
+  [/^(\d{4})-(\d{1,2})-(\d{1,2})/, m => [Number(m[1]), Number(m[2]), Number(m[3])]],
+  // 01 MAY 2027, 1 May, 2027
+  [new RegExp(`^(\\d{1,2})\\s+${MONTH_NAME},?\\s+(\\d{4})`, 'i'), m => [Number(m[3]), MONTHS.indexOf(m[2].toLowerCase()) + 1, Number(m[1])]],
+  // May 1, 2027
+  [new RegExp(`^${MONTH_NAME}\\s+(\\d{1,2}),?\\s+(\\d{4})`, 'i'), m => [Number(m[3]), MONTHS.indexOf(m[1].toLowerCase()) + 1, Number(m[2])]],
+  // 01.05.2027 (day first)
+  [/^(\d{1,2})\.(\d{1,2})\.(\d{4})/, m => [Number(m[3]), Number(m[2]), Number(m[1])]],
+  // 05/01/2027 (month first, unless the first number cannot be a month)
+  [/^(\d{1,2})\/(\d{1,2})\/(\d{4})/, m => (Number(m[1]) > 12 ? [Number(m[3]), Number(m[2]), Number(m[1])] : [Number(m[3]), Number(m[1]), Number(m[2])])],
+]
+
+function formatDate([year, month, day]: [number, number, number]): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Expiry date printed in a document ("Date of expiry: 12 MAR 2030", "Valid until 2027-05-01")
+ *
+ * @returns YYYY-MM-DD, or null when no labelled date is found
+ */
+export function extractExpiryDate(text: string): string | null {
+  for (const label of text.matchAll(EXPIRY_LABEL)) {
+    const rest = text.slice(label.index! + label[0].length, label.index! + label[0].length + 40)
+    for (const [pattern, toParts] of DATE_PATTERNS) {
+      const match = rest.match(pattern)
+      const date = match && formatDate(toParts(match))
+      if (date) return date
+    }
+  }
+  return null
+}
@@ -0,0 +1,66 @@
+import { DEFAULT_REQUIREMENT_RULES, documentRequirementRuleSchema, knownDocumentTypes, resolveRequiredDocuments } from './documentRequirements'
+import { describe, it, expect } from 'vitest'
+import type { Candidate } from '@/types'
+
+function candidate(overrides: Partial<Candidate> = {}): Candidate {
+  return {
+    id: 'c1',
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    role: 'Designer',
+    department: 'Product',
+    startDate: '2025-03-10',
+    status: 'offer_accepted',
+    progress: 0,
+    ...overrides,
+  }
+}
+
+describe('resolveRequiredDocuments', () => {
+  it('gives a home-country full-time hire the baseline checklist', () => {
+    expect(resolveRequiredDocuments(candidate(), DEFAULT_REQUIREMENT_RULES, 'US')).toEqual([
+      'Government ID',
+      'Tax Forms',
+      'Direct Deposit Info',
+      'Emergency Contact',
+    ])
+  })
+
+  it('unions matching rules and drops waived documents', () => {
+    const contractor = candidate({ employmentType: 'contractor', department: 'finance', country: 'de' })
+
+    expect(resolveRequiredDocuments(contractor, DEFAULT_REQUIREMENT_RULES, 'US')).toEqual([
+      'Government ID',
+      'Tax Forms',
+      'Emergency Contact',
+      'Contractor Agreement',
+      'Work Authorization',
+      'Background Check Consent',
+    ])
+    // The same candidate is not international when the company is based in Germany
+    expect(resolveRequiredDocuments(contractor, DEFAULT_REQUIREMENT_RULES, 'DE')).not.toContain('Work Authorization')
+  })
+
+  it('knows every document type the rules mention, once', () => {
+    const rules = [...DEFAULT_REQUIREMENT_RULES, { id: 'x', name: 'X', require: ['government id', 'Home Office Setup'], waive: [] }]
+    expect(knownDocumentTypes(rules)).toEqual([
+      'Government ID',
+      'Tax Forms',
+      'Direct Deposit Info',
+      'Emergency Contact',
+      'Contractor Agreement',
+      'Work Authorization',
+      'Background Check Consent',
+      'Home Office Setup',
+    ])
+  })
+})
+
+describe('documentRequirementRuleSchema', () => {
+  it('normalizes criteria and rejects rules without documents', () => {
+    const parsed = documentRequirementRuleSchema.parse({ name: 'Remote', country: 'International', role: ' ', require: ['Home Office Setup'] })
+    expect(parsed).toMatchObject({ name: 'Remote', country: 'international', role: undefined, waive: [] })
+
+    expect(documentRequirementRuleSchema.safeParse({ name: 'Empty', require: [], waive: [] }).success).toBe(false)
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Required Document Checklists
+ *
+ * An admin-editable matrix of rules deciding which documents a candidate must provide.
+ * Every rule whose criteria match the candidate applies:
+ *   required = union of `require` of matching rules, minus union of their `waive`
+ *
+ * CRITERIA (omitted = any):
+ * - role, department - exact names (case-insensitive)
+ * - employmentType   - full_time | part_time | contractor | intern
+ * - country          - ISO code, or 'international' for any country other than the
+ *                      home country (ONBOARDING_HOME_COUNTRY / NEXT_PUBLIC_ONBOARDING_HOME_COUNTRY, default US)
+ *
+ * Rules live in the `document_requirements` collection (see /api/document-requirements).
+ */
+
+import { z } from 'zod'
+import type { Candidate, DocumentRequirementRule } from '@/types'
+
+// Baseline checklist every hire needed before the matrix existed
+export const REQUIRED_DOCUMENTS = ['Government ID', 'Tax Forms', 'Direct Deposit Info', 'Emergency Contact']
+
+export const EMPLOYMENT_TYPES = ['full_time', 'part_time', 'contractor', 'intern'] as const
+
+export const INTERNATIONAL = 'international'
+
+export function getHomeCountry(): string {
+  return (process.env.ONBOARDING_HOME_COUNTRY || process.env.NEXT_PUBLIC_ONBOARDING_HOME_COUNTRY || 'US').toUpperCase()
+}
+
+const optionalText = z
+  .string()
+  .trim()
+  .optional()
+  .transform(value => value || undefined)
+
+const documentList = z.array(z.string().trim().min(1)).default([])
+
+export const documentRequirementRuleSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name is required'),
+    role: optionalText,
+    department: optionalText,
+    // '' clears the criterion when a rule is edited
+    employmentType: z.union([z.enum(EMPLOYMENT_TYPES), z.literal('')]).optional().transform(value => value || undefined),
+    country: optionalText.transform(value => value && (value.toLowerCase() === INTERNATIONAL ? INTERNATIONAL : value.toUpperCase())),
+    require: documentList,
+    waive: documentList,
+  })
+  .refine(rule => rule.require.length > 0 || rule.waive.length > 0, 'A rule must require or waive at least one document')
+
+export type DocumentRequirementInput = z.input<typeof documentRequirementRuleSchema>
+
+// Seed matrix: the documents everyone needed before, plus common variations
+export const DEFAULT_REQUIREMENT_RULES: DocumentRequirementRule[] = [
+  { id: 'everyone', name: 'All hires', require: REQUIRED_DOCUMENTS, waive: [] },
+  { id: 'contractors', name: 'Contractors', employmentType: 'contractor', require: ['Contractor Agreement'], waive: ['Direct Deposit Info'] },
+  { id: 'international', name: 'International hires', country: INTERNATIONAL, require: ['Work Authorization'], waive: [] },
+  { id: 'finance', name: 'Finance staff', department: 'Finance', require: ['Background Check Consent'], waive: [] },
+]
+
+function sameText(a: string | undefined, b: string | undefined): boolean {
+  return (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase()
+}
+
+export function ruleMatches(rule: DocumentRequirementRule, candidate: Candidate, homeCountry: string = getHomeCountry()): boolean {
+  if (rule.role && !sameText(rule.role, candidate.role)) return false
+  if (rule.department && !sameText(rule.department, candidate.department)) return false
+  if (rule.employmentType && rule.employmentType !== (candidate.employmentType || 'full_time')) return false
+
+  if (rule.country) {
+    const country = (candidate.country || homeCountry).toUpperCase()
+    if (rule.country === INTERNATIONAL ? country === homeCountry : rule.country !== country) return false
+  }
+
+  return true
+}
+
+/**
+ * Documents a candidate must provide, in rule order
+ */
+export function resolveRequiredDocuments(
+  candidate: Candidate,
+  rules: DocumentRequirementRule[],
+  homeCountry: string = getHomeCountry()
+): string[] {
+  const matching = rules.filter(rule => ruleMatches(rule, candidate, homeCountry))
+  const waived = new Set(matching.flatMap(rule => rule.waive.map(type => type.toLowerCase())))
+  const required = matching.flatMap(rule => rule.require).filter(type => !waived.has(type.toLowerCase()))
+
+  return required.filter((type, index) => required.findIndex(other => sameText(other, type)) === index)
+}
+
+/**
+ * Every document type some rule (or the baseline checklist) asks for, in first-mention order
+ */
+export function knownDocumentTypes(rules: DocumentRequirementRule[]): string[] {
+  const types = [...REQUIRED_DOCUMENTS, ...rules.flatMap(rule => [...rule.require, ...rule.waive])]
+  return types.filter((type, index) => types.findIndex(other => sameText(other, type)) === index)
+}
@@ -0,0 +1,36 @@
+import { currentVersions, documentReviewSchema, groupDocumentSlots, nextVersion } from './documentVersions'
+import { describe, it, expect } from 'vitest'
+import type { Document } from '@/types'
+
+function doc(id: string, type: string, extra: Partial<Document> = {}): Document {
+  return { id, candidateId: 'c1', type, filename: `${id}.pdf`, uploadDate: '2025-03-01', status: 'pending', ...extra }
+}
+
+describe('groupDocumentSlots', () => {
+  it('keeps every upload of a type as a version of one slot', () => {
+    const documents = [
+      doc('id-2', 'Government ID', { version: 2 }),
+      doc('tax', 'Tax Forms'),
+      doc('id-1', 'Government ID', { version: 1, status: 'invalid', resubmissionRequestedAt: '2025-03-02T10:00:00.000Z' }),
+    ]
+
+    const [ids, tax] = groupDocumentSlots(documents)
+
+    expect(ids.versions.map(d => d.id)).toEqual(['id-1', 'id-2'])
+    expect(ids.current.id).toBe('id-2')
+    // The new upload answers the resubmission request
+    expect(ids.resubmissionRequested).toBe(false)
+    expect(tax.versions).toHaveLength(1)
+    expect(currentVersions(documents).map(d => d.id)).toEqual(['id-2', 'tax'])
+    expect(nextVersion(documents, 'c1', 'Government ID')).toBe(3)
+    expect(nextVersion(documents, 'c1', 'Emergency Contact')).toBe(1)
+  })
+})
+
+describe('documentReviewSchema', () => {
+  it('requires a reason for rejections', () => {
+    expect(documentReviewSchema.safeParse({ decision: 'valid', reviewer: 'HR' }).success).toBe(true)
+    expect(documentReviewSchema.safeParse({ decision: 'invalid', reviewer: 'HR' }).success).toBe(false)
+    expect(documentReviewSchema.safeParse({ decision: 'invalid', reviewer: 'HR', reason: 'Blurry scan' }).success).toBe(true)
+  })
+})
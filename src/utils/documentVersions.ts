@@ -0,0 +1,91 @@
+/**
+ * Document Versions and Reviews
+ *
+ * A slot is one document type of one candidate (e.g. Sarah's Government ID). Every upload
+ * into a slot is a new version; earlier versions stay as its history. The highest version
+ * is the current one - only it counts towards progress, renewals and validation.
+ *
+ * REVIEWS:
+ * Each version records its own review: who reviewed it, the decision, the rejection reason,
+ * reviewer comments and the validation agent's output. Rejecting a version asks the
+ * candidate to resubmit that slot until a newer version is uploaded.
+ */
+
+import { z } from 'zod'
+import type { Document } from '@/types'
+
+export interface DocumentSlot {
+  candidateId: string
+  type: string
+  /** Latest version */
+  current: Document
+  /** All versions, oldest first */
+  versions: Document[]
+  /** The current version was rejected and the candidate was asked for a new one */
+  resubmissionRequested: boolean
+}
+
+function slotKey(candidateId: string, type: string): string {
+  return `${candidateId}\u0000${type}`
+}
+
+/**
+ * Documents grouped into slots, in order of first upload
+ *
+ * Documents recorded before versioning have no version; they count in list order.
+ */
+export function groupDocumentSlots(documents: Document[]): DocumentSlot[] {
+  const slots = new Map<string, Document[]>()
+  for (const document of documents) {
+    const key = slotKey(document.candidateId, document.type)
+    slots.set(key, [...(slots.get(key) || []), document])
+  }
+
+  return Array.from(slots.values()).map(slotDocuments => {
+    const versions = slotDocuments
+      .map((document, index) => ({ document, version: document.version ?? index + 1 }))
+      .sort((a, b) => a.version - b.version)
+      .map(entry => entry.document)
+    const current = versions[versions.length - 1]
+
+    return {
+      candidateId: current.candidateId,
+      type: current.type,
+      current,
+      versions,
+      resubmissionRequested: current.status === 'invalid' && Boolean(current.resubmissionRequestedAt),
+    }
+  })
+}
+
+/**
+ * The current version of every slot
+ */
+export function currentVersions(documents: Document[]): Document[] {
+  return groupDocumentSlots(documents).map(slot => slot.current)
+}
+
+/**
+ * Version number for the next upload into a slot
+ */
+export function nextVersion(documents: Document[], candidateId: string, type: string): number {
+  const slot = groupDocumentSlots(documents.filter(doc => doc.candidateId === candidateId && doc.type === type))[0]
+  return slot ? Math.max(...slot.versions.map((doc, index) => doc.version ?? index + 1)) + 1 : 1
+}
+
+export const documentReviewSchema = z
+  .object({
+    decision: z.enum(['valid', 'invalid']),
+    reviewer: z.string().trim().min(1, 'reviewer is required'),
+    reason: z.string().trim().optional(),
+    comments: z.string().trim().optional(),
+    validation: z.record(z.string(), z.any()).optional(),
+    /** Ask the candidate for a new version (default: when rejected) */
+    requestResubmission: z.boolean().optional(),
+  })
+  .refine(review => review.decision === 'valid' || Boolean(review.reason), {
+    message: 'A rejection needs a reason',
+    path: ['reason'],
+  })
+
+export type DocumentReviewInput = z.input<typeof documentReviewSchema>
@@ -0,0 +1,43 @@
+import { DEFAULT_EMAIL_TEMPLATES, candidateTemplateValues, emailTemplateSchema, renderEmailTemplate, templateVariables } from './emailTemplates'
+import { describe, it, expect } from 'vitest'
+import type { Candidate, Person } from '@/types'
+
+const candidate: Candidate = {
+  id: 'c1', name: 'Sarah Johnson', email: 'sarah@example.com', role: 'Software Engineer',
+  department: 'Engineering', startDate: '2025-04-01', status: 'offer_accepted', progress: 0,
+}
+const manager: Person = { id: 'john-smith', name: 'John Smith', email: 'john.smith@company.com', title: 'Engineering Manager' }
+
+describe('emailTemplateSchema', () => {
+  it('rejects variables that do not exist', () => {
+    const parsed = emailTemplateSchema.safeParse({ name: 'Reminder', subject: 'Hi {{first_name}}', body: 'Starts {{start_dat}}' })
+
+    expect(parsed.success).toBe(false)
+    expect(parsed.error!.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)).toEqual(['body: unknown variable {{start_dat}}'])
+    expect(emailTemplateSchema.parse({ name: 'Reminder', subject: 'Hi {{ first_name }}', body: 'Starts {{start_date}}' }).purpose).toBe('custom')
+  })
+
+  it('accepts the default templates', () => {
+    for (const template of DEFAULT_EMAIL_TEMPLATES) {
+      expect(emailTemplateSchema.safeParse(template).success).toBe(true)
+    }
+  })
+})
+
+describe('renderEmailTemplate', () => {
+  it('fills the candidate values and reports variables without one', () => {
+    const template = { subject: 'Your first day on {{start_date}}', body: 'Hi {{first_name}}, ask for {{manager_name}} ({{manager_email}}).' }
+
+    expect(renderEmailTemplate(template, candidateTemplateValues(candidate, { manager }))).toEqual({
+      subject: 'Your first day on 2025-04-01',
+      body: 'Hi Sarah, ask for John Smith (john.smith@company.com).',
+      missing: [],
+    })
+    expect(renderEmailTemplate(template, candidateTemplateValues(candidate))).toEqual({
+      subject: 'Your first day on 2025-04-01',
+      body: 'Hi Sarah, ask for {{manager_name}} ({{manager_email}}).',
+      missing: ['manager_name', 'manager_email'],
+    })
+    expect(templateVariables(template.body)).toEqual(['first_name', 'manager_name', 'manager_email'])
+  })
+})
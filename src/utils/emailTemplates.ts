@@ -0,0 +1,163 @@
+/**
+ * Email Templates
+ *
+ * HR-managed subject and body templates for the emails sent to candidates: welcome, document
+ * reminders, first-day logistics and week-one check-ins. Templates use `{{variable}}`
+ * placeholders filled from the candidate's record (EMAIL_TEMPLATE_VARIABLES).
+ *
+ * VALIDATION:
+ * - Saving a template rejects placeholders that are not a known variable (typos like
+ *   `{{start_dat}}` would otherwise reach the candidate verbatim)
+ * - Rendering reports the variables the candidate has no value for (e.g. no manager yet);
+ *   they stay as placeholders in the preview and the email cannot be sent until they are filled
+ *
+ * `purpose` lets the app pick the template for an occasion (e.g. the scheduled document
+ * reminder). Templates live in the `email_templates` collection (see /api/email-templates).
+ */
+
+import { z } from 'zod'
+import type { Candidate, EmailTemplate, EmailTemplatePurpose, Person } from '@/types'
+
+export const EMAIL_TEMPLATE_VARIABLES = {
+  candidate_name: 'Full name',
+  first_name: 'First name',
+  candidate_email: 'Email address',
+  role: 'Role',
+  department: 'Department',
+  start_date: 'Start date (YYYY-MM-DD)',
+  manager_name: 'Hiring manager',
+  manager_email: "Hiring manager's email",
+  missing_documents: 'Required documents not validated yet',
+} as const
+
+export type EmailTemplateVariable = keyof typeof EMAIL_TEMPLATE_VARIABLES
+
+export const EMAIL_TEMPLATE_PURPOSES: Record<EmailTemplatePurpose, string> = {
+  welcome: 'Welcome',
+  document_reminder: 'Document reminder',
+  first_day: 'First-day logistics',
+  week_one: 'Week-one check-in',
+  custom: 'Other',
+}
+
+export interface RenderedEmail {
+  subject: string
+  body: string
+  // Variables the template uses that have no value for this candidate
+  missing: EmailTemplateVariable[]
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g
+
+function isKnownVariable(name: string): name is EmailTemplateVariable {
+  return Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATE_VARIABLES, name)
+}
+
+/**
+ * Names used as `{{name}}` in the text, in order of first use
+ */
+export function templateVariables(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER), match => match[1])))
+}
+
+export const emailTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name is required'),
+    purpose: z.enum(['welcome', 'document_reminder', 'first_day', 'week_one', 'custom']).default('custom'),
+    subject: z.string().trim().min(1, 'subject is required').max(300),
+    body: z.string().trim().min(1, 'body is required'),
+  })
+  .superRefine((template, ctx) => {
+    for (const field of ['subject', 'body'] as const) {
+      const unknown = templateVariables(template[field]).filter(name => !isKnownVariable(name))
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `unknown variable ${unknown.map(name => `{{${name}}}`).join(', ')}`,
+          path: [field],
+        })
+      }
+    }
+  })
+
+export type EmailTemplateInput = z.input<typeof emailTemplateSchema>
+
+/**
+ * The candidate's values for every template variable ('' when unknown)
+ */
+export function candidateTemplateValues(
+  candidate: Candidate,
+  context: { manager?: Person | null; missingDocuments?: string[] } = {}
+): Record<EmailTemplateVariable, string> {
+  return {
+    candidate_name: candidate.name,
+    first_name: candidate.name.trim().split(/\s+/)[0] || '',
+    candidate_email: candidate.email,
+    role: candidate.role,
+    department: candidate.department,
+    start_date: candidate.startDate,
+    manager_name: context.manager?.name || '',
+    manager_email: context.manager?.email || '',
+    missing_documents: (context.missingDocuments || []).join(', '),
+  }
+}
+
+export function renderEmailTemplate(
+  template: Pick<EmailTemplate, 'subject' | 'body'>,
+  values: Partial<Record<EmailTemplateVariable, string>>
+): RenderedEmail {
+  const missing = new Set<EmailTemplateVariable>()
+  const fill = (text: string) =>
+    text.replace(PLACEHOLDER, (placeholder, name: string) => {
+      const value = isKnownVariable(name) ? values[name] : undefined
+      if (value) return value
+      if (isKnownVariable(name)) missing.add(name)
+      return placeholder
+    })
+
+  return { subject: fill(template.subject), body: fill(template.body), missing: Array.from(missing) }
+}
+
+// Seed templates: the four emails every onboarding sends
+export const DEFAULT_EMAIL_TEMPLATES: EmailTemplate[] = [
+  {
+    id: 'welcome',
+    name: 'Welcome',
+    purpose: 'welcome',
+    subject: 'Welcome to the team, {{first_name}}!',
+    body:
+      'Hi {{first_name}},\n\nWe are thrilled to welcome you as our new {{role}} in {{department}}. ' +
+      'Your first day is {{start_date}} and {{manager_name}} will be your manager.\n\n' +
+      'Please upload your onboarding documents before then.\n\nSee you soon!',
+  },
+  {
+    id: 'document-reminder',
+    name: 'Document reminder',
+    purpose: 'document_reminder',
+    subject: 'Reminder: documents needed before {{start_date}}',
+    body:
+      'Hi {{first_name}},\n\nWe are still missing the following documents: {{missing_documents}}.\n\n' +
+      'Please upload them before your start date ({{start_date}}) so everything is ready for your first day.\n\n' +
+      'Thanks!',
+  },
+  {
+    id: 'first-day',
+    name: 'First-day logistics',
+    purpose: 'first_day',
+    subject: 'Your first day on {{start_date}}',
+    body:
+      'Hi {{first_name}},\n\nWe look forward to seeing you on {{start_date}}! Please arrive at 9:00 and ask for ' +
+      '{{manager_name}} at reception. Bring a photo ID; your laptop and badge will be waiting for you.\n\n' +
+      'If anything comes up, reply to this email or reach {{manager_name}} at {{manager_email}}.\n\nWelcome aboard!',
+  },
+  {
+    id: 'week-one',
+    name: 'Week-one check-in',
+    purpose: 'week_one',
+    subject: 'How is your first week going, {{first_name}}?',
+    body:
+      'Hi {{first_name}},\n\nYou have almost made it through your first week as {{role}}. ' +
+      'We would love to hear how it is going - is anything missing or unclear?\n\n' +
+      '{{manager_name}} will set up a short check-in with you; just reply to this email in the meantime.\n\nCheers!',
+  },
+]
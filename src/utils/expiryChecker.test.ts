@@ -0,0 +1,50 @@
+import { runExpiryCheck } from './expiryChecker'
+import { localDate } from './dates'
+import { documentRepository, emailLogRepository } from './repositories'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+// Runs against the seed data: candidate 1 is Sarah Johnson
+describe('runExpiryCheck', () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), 'onboarding-expiry-'))
+    process.env.ONBOARDING_DATA_DIR = dataDir
+  })
+
+  afterEach(() => {
+    delete process.env.ONBOARDING_DATA_DIR
+    delete process.env.MAILDIR
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('leaves documents unflagged when the renewal email fails, so the next run retries', async () => {
+    const document = await documentRepository.create({
+      candidateId: '1',
+      type: 'Government ID',
+      filename: 'passport.pdf',
+      uploadDate: '2025-01-01',
+      status: 'valid',
+      expiryDate: localDate(),
+    })
+
+    // A Maildir below a regular file cannot be created
+    writeFileSync(path.join(dataDir, 'not-a-dir'), '')
+    process.env.MAILDIR = path.join(dataDir, 'not-a-dir', 'maildir')
+
+    const failed = await runExpiryCheck()
+    expect(failed.documents).toEqual([expect.objectContaining({ document_id: document.id, email_status: 'failed' })])
+    expect((await documentRepository.get(document.id))?.expiryFlag).toBeUndefined()
+
+    delete process.env.MAILDIR
+    const retried = await runExpiryCheck()
+    expect(retried.documents).toEqual([expect.objectContaining({ document_id: document.id, email_status: 'sent' })])
+    expect((await documentRepository.get(document.id))?.expiryFlag).toBe(0)
+    expect(await emailLogRepository.list({ candidateId: '1' })).toHaveLength(2)
+
+    expect((await runExpiryCheck()).documents).toEqual([])
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Document Expiry Checker
+ *
+ * Flags the documents that reached a new renewal window (see utils/documentExpiry.ts) and asks
+ * their candidate for a renewed copy by email. The emails go through the outbox, so every
+ * request shows up in the candidate's email log; the dashboard marks flagged documents.
+ * Server-only - it uses the file store and the mail transport.
+ *
+ * runExpiryCheck() runs from POST /api/documents/expiry-check (an external cron job) or from
+ * the in-process schedule (REMINDER_SCHEDULE, see utils/reminderRunner.ts). Each window is
+ * flagged, and emailed about, once however often it runs; a document is only flagged once its
+ * renewal request was sent, so a failed email is retried by the next run.
+ */
+
+import { candidateRepository, documentRepository } from './repositories'
+import { findExpiringDocuments, getExpiryWindows, type ExpiringDocument } from './documentExpiry'
+import { currentVersions } from './documentVersions'
+import { sendCandidateEmail } from './outbox'
+import type { Candidate, EmailDelivery } from '@/types'
+
+// sentBy of renewal requests in the email log
+export const EXPIRY_CHECKER_SENDER = 'Document expiry checker'
+
+export interface ExpiringDocumentSummary {
+  document_id: string
+  candidate_id: string
+  candidate_name: string | null
+  type: string
+  expiry_date: string | undefined
+  state: ExpiringDocument['status']['state']
+  days_left: number
+  window: number | undefined
+}
+
+export interface ExpiryCheckResult {
+  windows: number[]
+  // Expired and expiring documents, flagged before or not
+  expiring: number
+  // The documents that reached a new window, with the renewal request sent to their candidate
+  // (those whose email failed stay unflagged)
+  documents: (ExpiringDocumentSummary & { email_status: EmailDelivery['status'] | null })[]
+}
+
+function summarize(entry: ExpiringDocument, candidate: Candidate | undefined): ExpiringDocumentSummary {
+  return {
+    document_id: entry.document.id,
+    candidate_id: entry.document.candidateId,
+    candidate_name: candidate?.name || null,
+    type: entry.document.type,
+    expiry_date: entry.document.expiryDate,
+    state: entry.status.state,
+    days_left: entry.status.daysLeft,
+    window: entry.status.window,
+  }
+}
+
+function renewalRequest(entry: ExpiringDocument, candidate: Candidate) {
+  const { document, status } = entry
+  const firstName = candidate.name.trim().split(/\s+/)[0] || candidate.name
+  const when =
+    status.state === 'expired'
+      ? `expired on ${document.expiryDate}`
+      : `expires on ${document.expiryDate}, in ${status.daysLeft} day${status.daysLeft === 1 ? '' : 's'}`
+
+  return {
+    subject: status.state === 'expired' ? `Your ${document.type} has expired` : `Please renew your ${document.type}`,
+    body:
+      `Hi ${firstName},\n\nYour ${document.type} (${document.filename}) ${when}. ` +
+      'Please upload a renewed copy in the onboarding portal so your records stay complete.\n\nThanks!',
+  }
+}
+
+/**
+ * Expired and expiring documents (current versions only), soonest first
+ */
+export async function listExpiringDocuments(): Promise<{ windows: number[]; documents: ExpiringDocumentSummary[] }> {
+  const [documents, candidates] = await Promise.all([documentRepository.list(), candidateRepository.list()])
+  const windows = getExpiryWindows()
+  return {
+    windows,
+    documents: findExpiringDocuments(currentVersions(documents), { windows }).map(entry =>
+      summarize(entry, candidates.find(candidate => candidate.id === entry.document.candidateId))
+    ),
+  }
+}
+
+let queue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Flag the documents that reached a new window and email their candidates; runs in this
+ * process are queued, so a scheduled run and a cron call never email twice
+ */
+export function runExpiryCheck(): Promise<ExpiryCheckResult> {
+  const run = queue.then(check)
+  queue = run.catch(() => undefined)
+  return run
+}
+
+async function check(): Promise<ExpiryCheckResult> {
+  const [documents, candidates] = await Promise.all([documentRepository.list(), candidateRepository.list()])
+  const windows = getExpiryWindows()
+  const entries = findExpiringDocuments(currentVersions(documents), { windows })
+
+  const flagged: ExpiryCheckResult['documents'] = []
+  for (const entry of entries.filter(entry => entry.newlyFlagged)) {
+    const candidate = candidates.find(candidate => candidate.id === entry.document.candidateId)
+    const delivery = candidate
+      ? await sendCandidateEmail(candidate, { ...renewalRequest(entry, candidate), sentBy: EXPIRY_CHECKER_SENDER, purpose: 'custom' })
+      : null
+
+    // Documents without a candidate have nobody to email
+    if (!delivery || delivery.status === 'sent') {
+      await documentRepository.update(entry.document.id, { expiryFlag: entry.status.window })
+    }
+    flagged.push({ ...summarize(entry, candidate), email_status: delivery?.status ?? null })
+  }
+
+  return { windows, expiring: entries.length, documents: flagged }
+}
@@ -0,0 +1,235 @@
+/**
+ * Uploaded File Storage
+ *
+ * Keeps the bytes of uploaded onboarding documents. Two backends share one interface:
+ * - local - files under the upload directory (default)
+ * - s3    - any S3-compatible object store (AWS S3, MinIO, LocalStack...) via signed requests
+ * Only import this from API routes - it uses `fs` and `crypto`.
+ *
+ * CONFIGURATION:
+ * - ONBOARDING_STORAGE: 'local' (default) or 's3'
+ * - ONBOARDING_UPLOAD_DIR: local directory (default: <ONBOARDING_DATA_DIR>/uploads)
+ * - S3_ENDPOINT, S3_BUCKET, S3_REGION (default us-east-1), S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY
+ *   Requests use path-style URLs: <S3_ENDPOINT>/<S3_BUCKET>/<key>
+ * - ONBOARDING_MAX_UPLOAD_BYTES: size limit per uploaded file (default 10 MB)
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash, createHmac } from 'crypto'
+import { getDataDir } from './store'
+import { DOCX_MIME_TYPE, PDF_MIME_TYPE } from './textExtraction'
+
+export interface FileStorage {
+  readonly kind: 'local' | 's3'
+  put(key: string, bytes: Buffer, contentType: string): Promise<void>
+  /** Stored bytes, or null when the key does not exist */
+  get(key: string): Promise<Buffer | null>
+  remove(key: string): Promise<void>
+}
+
+const DEFAULT_MAX_UPLOAD_BYTES = 10 * 1024 * 1024
+
+// File types accepted for documents and task attachments (as sniffed by detectMimeType)
+export const ALLOWED_UPLOAD_MIME_TYPES = [
+  PDF_MIME_TYPE,
+  DOCX_MIME_TYPE,
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/json',
+  'image/png',
+  'image/jpeg',
+]
+
+export function maxUploadBytes(): number {
+  const value = Number(process.env.ONBOARDING_MAX_UPLOAD_BYTES)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_UPLOAD_BYTES
+}
+
+export function sha256Hex(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Storage key for an upload: <candidateId>/<sha256 prefix>-<sanitized filename>
+ */
+export function buildStorageKey(candidateId: string, filename: string, sha256: string): string {
+  const safe = (value: string) => value.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^[._]+/, '') || 'file'
+  return `${safe(candidateId)}/${sha256.slice(0, 16)}-${safe(filename)}`
+}
+
+// Local disk
+
+export function getUploadDir(): string {
+  return process.env.ONBOARDING_UPLOAD_DIR || path.join(getDataDir(), 'uploads')
+}
+
+export function createLocalFileStorage(rootDir: string = getUploadDir()): FileStorage {
+  const root = path.resolve(rootDir)
+
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key)
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return file
+  }
+
+  return {
+    kind: 'local',
+
+    async put(key, bytes) {
+      const file = resolve(key)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      const tmpFile = `${file}.${process.pid}.${Date.now()}.tmp`
+      await fs.writeFile(tmpFile, bytes)
+      await fs.rename(tmpFile, file)
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async remove(key) {
+      await fs.rm(resolve(key), { force: true })
+    },
+  }
+}
+
+// S3-compatible object store (AWS Signature Version 4)
+
+export interface S3StorageOptions {
+  endpoint: string
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  fetchImpl?: (url: string, init: RequestInit) => Promise<Response>
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest()
+}
+
+function encodePath(value: string): string {
+  return value
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/')
+}
+
+/**
+ * Headers (including Authorization) for a signed S3 request
+ */
+export function signS3Request(
+  options: Pick<S3StorageOptions, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  request: { method: string; url: URL; headers?: Record<string, string>; payload?: Buffer },
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const date = amzDate.slice(0, 8)
+  const payloadHash = sha256Hex(request.payload || '')
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  }
+
+  const names = Object.keys(headers).map(name => name.toLowerCase()).sort()
+  const lowered = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]))
+  const signedHeaders = names.join(';')
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    '',
+    names.map(name => `${name}:${lowered[name]}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n')
+
+  const scope = `${date}/${options.region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${options.secretAccessKey}`, date), options.region)
+  )
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  }
+}
+
+export function createS3FileStorage(options: S3StorageOptions): FileStorage {
+  const fetchImpl = options.fetchImpl || ((url: string, init: RequestInit) => fetch(url, init))
+
+  const send = async (method: string, key: string, payload?: Buffer, contentType?: string) => {
+    const url = new URL(`${options.endpoint.replace(/\/+$/, '')}/${encodePath(options.bucket)}/${encodePath(key)}`)
+    const headers = signS3Request(options, {
+      method,
+      url,
+      payload,
+      headers: contentType ? { 'content-type': contentType } : {},
+    })
+    delete headers.host
+    return fetchImpl(url.toString(), { method, headers, body: payload ? new Uint8Array(payload) : undefined })
+  }
+
+  return {
+    kind: 's3',
+
+    async put(key, bytes, contentType) {
+      const response = await send('PUT', key, bytes, contentType)
+      if (!response.ok) {
+        throw new Error(`S3 PUT ${key} failed with status ${response.status}`)
+      }
+    },
+
+    async get(key) {
+      const response = await send('GET', key)
+      if (response.status === 404) return null
+      if (!response.ok) {
+        throw new Error(`S3 GET ${key} failed with status ${response.status}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    },
+
+    async remove(key) {
+      const response = await send('DELETE', key)
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 DELETE ${key} failed with status ${response.status}`)
+      }
+    },
+  }
+}
+
+/**
+ * Storage backend selected by ONBOARDING_STORAGE (read on every call so tests can switch it)
+ */
+export function getFileStorage(): FileStorage {
+  if ((process.env.ONBOARDING_STORAGE || 'local').toLowerCase() !== 's3') {
+    return createLocalFileStorage()
+  }
+
+  const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+  if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error('ONBOARDING_STORAGE=s3 requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY')
+  }
+
+  return createS3FileStorage({
+    endpoint: S3_ENDPOINT,
+    bucket: S3_BUCKET,
+    region: process.env.S3_REGION || 'us-east-1',
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+  })
+}
@@ -0,0 +1,52 @@
+import { createLLMJsonStreamParser, parsePartialLLMJson } from './jsonStreamParser'
+import { describe, it, expect } from 'vitest'
+
+describe('parsePartialLLMJson', () => {
+  it('closes unterminated strings, objects and arrays', () => {
+    expect(parsePartialLLMJson('{"tasks": [{"title": "Setup lap')).toEqual({
+      tasks: [{ title: 'Setup lap' }],
+    })
+  })
+
+  it('drops dangling keys and half-written literals', () => {
+    expect(parsePartialLLMJson('{"a": 1, "b')).toEqual({ a: 1 })
+    expect(parsePartialLLMJson('{"a": 1, "done": tr')).toEqual({ a: 1 })
+    expect(parsePartialLLMJson('{"a": 1, "b":')).toEqual({ a: 1, b: null })
+  })
+
+  it('skips prose and code fences before the JSON', () => {
+    expect(parsePartialLLMJson('Here are the tasks:\n```json\n{"result": {"ok": true}}\n```')).toEqual({
+      result: { ok: true },
+    })
+  })
+
+  it('returns undefined until JSON starts', () => {
+    expect(parsePartialLLMJson('Thinking about')).toBeUndefined()
+  })
+})
+
+describe('createLLMJsonStreamParser', () => {
+  it('emits progressively more complete objects as chunks arrive', () => {
+    const parser = createLLMJsonStreamParser()
+    const chunks = [
+      '{"result": {"tasks_by_department": {"IT": [{"task_title": "Laptop"}',
+      '], "Facilities": [{"task_title": "De',
+      'sk"}]}}}',
+    ]
+
+    const partials = chunks.map(chunk => parser.push(chunk))
+
+    expect(partials[0].result.tasks_by_department).toEqual({ IT: [{ task_title: 'Laptop' }] })
+    expect(partials[1].result.tasks_by_department.Facilities).toEqual([{ task_title: 'De' }])
+    expect(partials[2].result.tasks_by_department.Facilities).toEqual([{ task_title: 'Desk' }])
+    expect(parser.finish()).toEqual(partials[2])
+  })
+
+  it('only emits when the partial value changes', () => {
+    const parser = createLLMJsonStreamParser()
+
+    expect(parser.push('{"a": 1')).toEqual({ a: 1 })
+    expect(parser.push(', ')).toBeUndefined()
+    expect(parser.text()).toBe('{"a": 1, ')
+  })
+})
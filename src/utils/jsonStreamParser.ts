@@ -0,0 +1,165 @@
+/**
+ * Incremental LLM JSON Parser
+ *
+ * Streaming companion to parseLLMJson. Agents stream their JSON answer token by token;
+ * this parser accepts the text as it arrives and emits the best partial object it can
+ * build from the prefix received so far, so the UI can render results progressively.
+ *
+ * HOW PARTIAL TEXT IS COMPLETED:
+ * - Leading prose and ```json fences before the first { or [ are skipped
+ * - An unterminated string is closed where it stops ("Setup lap" stays visible)
+ * - Dangling commas, keys without values and half-written literals are dropped
+ * - Open objects and arrays are closed in the right order
+ *
+ * @example
+ * ```ts
+ * const parser = createLLMJsonStreamParser()
+ * parser.push('{"tasks": [{"title": "Setup')   // -> { tasks: [{ title: 'Setup' }] }
+ * parser.push(' laptop"}, {"ti')                // -> { tasks: [{ title: 'Setup laptop' }, {}] }
+ * parser.finish()                               // -> full parseLLMJson result
+ * ```
+ */
+
+import parseLLMJson from './jsonParser'
+
+// How many times a failing prefix is cut back to an earlier boundary before giving up
+const MAX_BACKTRACK = 8
+
+interface ScanState {
+  stack: string[]
+  inString: boolean
+  // Positions of structural boundaries (after an opening bracket, before a comma)
+  boundaries: number[]
+}
+
+function scan(text: string): ScanState {
+  const stack: string[] = []
+  const boundaries: number[] = []
+  let inString = false
+  let escapeNext = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inString) {
+      if (escapeNext) {
+        escapeNext = false
+      } else if (char === '\\') {
+        escapeNext = true
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']')
+      boundaries.push(i + 1)
+    } else if (char === '}' || char === ']') {
+      stack.pop()
+    } else if (char === ',') {
+      boundaries.push(i)
+    }
+  }
+
+  return { stack, inString, boundaries }
+}
+
+function close(prefix: string, state: ScanState): string {
+  let completed = prefix
+
+  if (state.inString) {
+    // Drop a trailing lone backslash so the closing quote is not escaped
+    completed = completed.replace(/\\$/, '') + '"'
+  }
+
+  completed = completed.replace(/\s+$/, '')
+  if (completed.endsWith(',')) {
+    completed = completed.slice(0, -1)
+  } else if (completed.endsWith(':')) {
+    completed += ' null'
+  }
+
+  return completed + [...state.stack].reverse().join('')
+}
+
+function tryParse(text: string): { ok: boolean; value?: any } {
+  try {
+    return { ok: true, value: JSON.parse(text) }
+  } catch {
+    return { ok: false }
+  }
+}
+
+/**
+ * Parse the longest usable prefix of a partial JSON document
+ *
+ * @param text - Text received so far (may include prose or a code fence before the JSON)
+ * @returns The partial object/array, or undefined when nothing usable has arrived yet
+ */
+export function parsePartialLLMJson(text: string): any {
+  if (!text) return undefined
+
+  const start = text.search(/[{[]/)
+  if (start === -1) return undefined
+
+  // Stop at a closing code fence if the model already finished its block
+  let body = text.slice(start)
+  const fenceEnd = body.indexOf('```')
+  if (fenceEnd !== -1) body = body.slice(0, fenceEnd)
+
+  let prefix = body
+  for (let attempt = 0; attempt <= MAX_BACKTRACK; attempt++) {
+    const state = scan(prefix)
+    const result = tryParse(close(prefix, state))
+    if (result.ok) return result.value
+
+    // Cut back to the previous structural boundary and try again
+    const cut = [...state.boundaries].reverse().find(position => position < prefix.length)
+    if (cut === undefined || cut <= 0) break
+    prefix = prefix.slice(0, cut)
+  }
+
+  return undefined
+}
+
+export interface LLMJsonStreamParser {
+  /** Append a chunk; returns the new partial value when it changed, otherwise undefined */
+  push(chunk: string): any
+  /** Parse the complete text with the full parseLLMJson strategies */
+  finish(): any
+  /** Text received so far */
+  text(): string
+}
+
+/**
+ * Create an incremental parser for one streamed agent response
+ */
+export function createLLMJsonStreamParser(): LLMJsonStreamParser {
+  let buffer = ''
+  let lastSnapshot = ''
+
+  return {
+    push(chunk) {
+      buffer += chunk
+      const partial = parsePartialLLMJson(buffer)
+      if (partial === undefined) return undefined
+
+      const snapshot = JSON.stringify(partial)
+      if (snapshot === lastSnapshot) return undefined
+
+      lastSnapshot = snapshot
+      return partial
+    },
+
+    finish() {
+      return parseLLMJson(buffer, { attemptFix: true, preferFirst: true })
+    },
+
+    text() {
+      return buffer
+    },
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Lyzr Client (server-side)
+ *
+ * The one place that talks to the Lyzr inference API. Used by /api/agent and by
+ * server features that consult an agent themselves (e.g. document classification).
+ * Applies the per-agent resilience settings, the shared circuit breaker and mock mode,
+ * and masks PII in outgoing messages (utils/redaction.ts).
+ */
+
+import { randomUUID } from 'crypto'
+
+import { getAgentUpstreamConfig, getLyzrEndpoints } from './agents'
+import { buildAgentMessage, type ContextData } from './agentContext'
+import { parseAgentResponse } from './agentResponse'
+import { isMockMode, mockLyzrFetch } from './mockAgents'
+import { fetchWithResilience, getCircuitBreaker } from './upstream'
+import {
+  getRedactionTokens,
+  isRedactionEnabled,
+  redactPii,
+  restorePii,
+  storeRedactionTokens,
+  type RedactionFinding,
+} from './redaction'
+import { redactionLogRepository } from './repositories'
+
+export interface LyzrAgentRequest {
+  agentId: string
+  /** Full message, including any CONTEXT DATA block */
+  message: string
+  userId?: string
+  sessionId?: string
+  stream?: boolean
+}
+
+export interface PreparedAgentMessage {
+  /** Full upstream message (prompt plus CONTEXT DATA block) with PII masked */
+  message: string
+  requestId: string
+  /** Fields that were masked (empty when redaction is off or nothing matched) */
+  findings: RedactionFinding[]
+  /** Put masked values back into the agent's answer */
+  restore: <T>(value: T) => T
+}
+
+/**
+ * Build the upstream message for an agent, masking PII in the prompt and context
+ *
+ * The token map is kept server-side for the request and the masked fields are recorded
+ * in the redaction_log collection (without the values).
+ */
+export async function prepareAgentMessage(
+  agentId: string,
+  message: string,
+  context: ContextData | null
+): Promise<PreparedAgentMessage> {
+  const requestId = randomUUID()
+  if (!isRedactionEnabled()) {
+    return { message: buildAgentMessage(message, context), requestId, findings: [], restore: value => value }
+  }
+
+  const redacted = redactPii({ message, context })
+  if (redacted.findings.length > 0) {
+    storeRedactionTokens(requestId, redacted.tokens)
+    await redactionLogRepository
+      .create({ id: requestId, agentId, createdAt: new Date().toISOString(), fields: redacted.findings })
+      .catch(error => console.error('Failed to record redaction:', error))
+  }
+
+  return {
+    message: buildAgentMessage(redacted.value.message, redacted.value.context),
+    requestId,
+    findings: redacted.findings,
+    restore: value => restorePii(value, getRedactionTokens(requestId)),
+  }
+}
+
+/**
+ * Whether agent calls can be made (API key present, or mock mode)
+ */
+export function isLyzrConfigured(): boolean {
+  return Boolean(process.env.LYZR_API_KEY) || isMockMode()
+}
+
+/**
+ * Send a request to the Lyzr chat (or stream) endpoint
+ *
+ * @returns The upstream Response, which may be a non-2xx status for the caller to report
+ * @throws UpstreamError on timeouts, connection failures or an open circuit
+ */
+export async function requestLyzrAgent(request: LyzrAgentRequest): Promise<Response> {
+  const mockMode = isMockMode()
+  const { chatUrl, streamUrl } = getLyzrEndpoints()
+  const upstreamConfig = getAgentUpstreamConfig(request.agentId)
+  const breaker = getCircuitBreaker(chatUrl, {
+    failureThreshold: upstreamConfig.breakerFailureThreshold,
+    resetTimeoutMs: upstreamConfig.breakerResetMs,
+  })
+
+  return fetchWithResilience(request.stream ? streamUrl : chatUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': process.env.LYZR_API_KEY || 'mock',
+    },
+    body: JSON.stringify({
+      user_id: request.userId || `user-${Date.now()}`,
+      agent_id: request.agentId,
+      session_id: request.sessionId || `session-${Date.now()}`,
+      message: request.message,
+    }),
+  }, { ...upstreamConfig, breaker, fetchImpl: mockMode ? mockLyzrFetch : undefined })
+}
+
+/**
+ * Ask an agent a question from server code and parse its answer
+ *
+ * @returns The parsed response, or null when the agent could not be reached or answered with an error
+ */
+export async function askLyzrAgent(agentId: string, message: string, context?: Record<string, any>): Promise<any | null> {
+  if (!isLyzrConfigured()) return null
+
+  try {
+    const prepared = await prepareAgentMessage(agentId, message, context || null)
+    const response = await requestLyzrAgent({ agentId, message: prepared.message })
+    if (!response.ok) {
+      console.error(`Agent ${agentId} returned status ${response.status}`)
+      return null
+    }
+
+    const data = await response.json()
+    return prepared.restore(parseAgentResponse(data.response))
+  } catch (error) {
+    console.error(`Agent ${agentId} call failed:`, error)
+    return null
+  }
+}
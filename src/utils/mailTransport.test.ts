@@ -0,0 +1,97 @@
+import { MailDeliveryError, createMaildirTransport, createSmtpTransport, formatMessage, mailAddress } from './mailTransport'
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import net from 'net'
+import path from 'path'
+
+const message = {
+  from: 'Acme Onboarding <onboarding@acme.com>',
+  to: 'sarah.johnson@email.com',
+  subject: 'Welcome, Sarah!\r\nBcc: attacker@example.com',
+  text: 'Hi Sarah,\n.\nSee you Monday.',
+}
+
+describe('formatMessage', () => {
+  it('keeps headers on one line and encodes non-ASCII text', () => {
+    const formatted = formatMessage(message, '<id@acme.com>', new Date('2025-03-01T09:00:00Z'))
+
+    expect(formatted).toContain('Subject: Welcome, Sarah! Bcc: attacker@example.com\r\n')
+    expect(formatted).not.toMatch(/^Bcc:/m)
+    expect(formatted).toContain('Date: Sat, 01 Mar 2025 09:00:00 GMT\r\nMessage-ID: <id@acme.com>')
+    expect(formatted.endsWith('\r\n\r\nHi Sarah,\r\n.\r\nSee you Monday.')).toBe(true)
+
+    const accented = formatMessage({ ...message, subject: 'Bienvenue, Zoë', text: 'À lundi' }, '<id@acme.com>')
+    expect(accented).toContain(`Subject: =?UTF-8?B?${Buffer.from('Bienvenue, Zoë').toString('base64')}?=`)
+    expect(accented).toContain(`Content-Transfer-Encoding: base64\r\n\r\n${Buffer.from('À lundi').toString('base64')}`)
+    expect(mailAddress(message.from)).toBe('onboarding@acme.com')
+  })
+})
+
+describe('mail transports', () => {
+  let dir: string | undefined
+  let server: net.Server | undefined
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true })
+    server?.close()
+  })
+
+  it('delivers into the Maildir new/ folder', async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'onboarding-maildir-'))
+    const delivery = await createMaildirTransport(dir).send(message)
+
+    const [file] = readdirSync(path.join(dir, 'new'))
+    expect(readFileSync(path.join(dir, 'new', file), 'utf8')).toContain(`Message-ID: ${delivery.messageId}`)
+    expect(readdirSync(path.join(dir, 'tmp'))).toEqual([])
+  })
+
+  it('speaks SMTP and reports the server response', async () => {
+    const received: string[] = []
+    server = net.createServer(socket => {
+      let inData = false
+      let buffer = ''
+      socket.write('220 test ESMTP\r\n')
+      socket.on('data', chunk => {
+        const lines = (buffer + chunk.toString()).split('\r\n')
+        buffer = lines.pop()!
+        for (const line of lines) {
+          received.push(line)
+          if (inData) {
+            if (line === '.') {
+              inData = false
+              socket.write('250 2.0.0 Ok: queued as ABC123\r\n')
+            }
+          } else if (line.startsWith('EHLO')) socket.write('250-test\r\n250 AUTH PLAIN\r\n')
+          else if (line.startsWith('AUTH')) socket.write('235 ok\r\n')
+          else if (line === 'DATA') {
+            inData = true
+            socket.write('354 go ahead\r\n')
+          } else if (line === 'QUIT') socket.end('221 bye\r\n')
+          else socket.write('250 ok\r\n')
+        }
+      })
+    })
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as net.AddressInfo
+
+    const transport = createSmtpTransport({ host: '127.0.0.1', port, secure: false, user: 'hr', password: 'secret', timeoutMs: 5000 })
+    const delivery = await transport.send(message)
+
+    expect(delivery.response).toBe('250 2.0.0 Ok: queued as ABC123')
+    expect(received).toContain('MAIL FROM:<onboarding@acme.com>')
+    expect(received).toContain('RCPT TO:<sarah.johnson@email.com>')
+    expect(received).toContain(`AUTH PLAIN ${Buffer.from('\0hr\0secret').toString('base64')}`)
+    // The lone dot of the body is doubled so it does not end the message
+    expect(received).toContain('..')
+  })
+
+  it('rejects envelope addresses that would inject SMTP commands, before connecting', async () => {
+    expect(() => mailAddress('sarah@email.com>\r\nRCPT TO:<attacker@example.com')).toThrow(MailDeliveryError)
+    expect(() => mailAddress('Sarah <sarah@email.com\nDATA>')).toThrow(MailDeliveryError)
+
+    // Nothing listens on the port: a connection attempt would fail with ECONNREFUSED instead
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: 1, secure: false, timeoutMs: 1000 })
+    await expect(transport.send({ ...message, to: 'sarah@email.com\r\nRSET' })).rejects.toThrow(/Invalid email address/)
+  })
+})
@@ -0,0 +1,313 @@
+/**
+ * Mail Transport
+ *
+ * Sends outgoing email (the welcome email HR reviewed). Two transports share one interface:
+ * - maildir - writes each message as a file into a Maildir (default; for development and tests,
+ *             open the files with any mail client or read them as text)
+ * - smtp    - delivers to an SMTP server (STARTTLS when offered, or implicit TLS; AUTH PLAIN)
+ * Only import this from API routes - it uses `net`, `tls` and `fs`.
+ *
+ * CONFIGURATION:
+ * - MAIL_TRANSPORT: 'maildir' (default) or 'smtp'
+ * - MAIL_FROM: sender, e.g. "Acme Onboarding <onboarding@acme.com>" (default: onboarding@localhost)
+ * - MAILDIR: Maildir directory (default: <ONBOARDING_DATA_DIR>/maildir)
+ * - SMTP_HOST, SMTP_PORT (default 587, or 465 with SMTP_SECURE=true), SMTP_SECURE ('true' for
+ *   implicit TLS), SMTP_USER and SMTP_PASSWORD (optional)
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import net from 'net'
+import tls from 'tls'
+import { randomUUID } from 'crypto'
+import { getDataDir } from './store'
+
+export interface MailMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailDelivery {
+  messageId: string
+  // What the transport reported, e.g. the SMTP server's queue id
+  response: string
+}
+
+export interface MailTransport {
+  readonly kind: 'maildir' | 'smtp'
+  /** @throws MailDeliveryError when the message was not accepted */
+  send(message: MailMessage): Promise<MailDelivery>
+}
+
+export class MailDeliveryError extends Error {
+  /** SMTP reply code, when the server rejected the message */
+  readonly replyCode?: number
+
+  constructor(message: string, replyCode?: number) {
+    super(message)
+    this.name = 'MailDeliveryError'
+    this.replyCode = replyCode
+  }
+}
+
+export const DEFAULT_MAIL_FROM = 'Onboarding <onboarding@localhost>'
+
+/**
+ * The bare address of "Name <address>" (or the value itself)
+ *
+ * @throws MailDeliveryError when the address contains line breaks or angle brackets, which
+ *         could end the SMTP command it goes into and smuggle in another one
+ */
+export function mailAddress(value: string): string {
+  const match = value.match(/<([^>]*)>/)
+  const address = (match ? match[1] : value).trim()
+  if (!address || /[\r\n<>]/.test(address)) {
+    throw new MailDeliveryError(`Invalid email address: ${JSON.stringify(address)}`)
+  }
+  return address
+}
+
+export function createMessageId(from: string): string {
+  const domain = mailAddress(from).split('@')[1] || 'localhost'
+  return `<${randomUUID()}@${domain}>`
+}
+
+// Header values never contain line breaks, so a subject cannot inject headers
+function headerValue(value: string): string {
+  const flat = value.replace(/[\r\n]+/g, ' ').trim()
+  // eslint-disable-next-line no-control-regex
+  return /^[\x00-\x7F]*$/.test(flat) ? flat : `=?UTF-8?B?${Buffer.from(flat, 'utf8').toString('base64')}?=`
+}
+
+/**
+ * The message as RFC 5322 text with CRLF line endings; non-ASCII bodies are base64-encoded
+ */
+export function formatMessage(message: MailMessage, messageId: string, date: Date = new Date()): string {
+  const text = message.text.replace(/\r?\n/g, '\r\n')
+  // eslint-disable-next-line no-control-regex
+  const ascii = /^[\x00-\x7F]*$/.test(text)
+  const body = ascii
+    ? text
+    : (Buffer.from(text, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n')
+
+  return [
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${headerValue(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    `Content-Transfer-Encoding: ${ascii ? '7bit' : 'base64'}`,
+    '',
+    body,
+  ].join('\r\n')
+}
+
+// Maildir
+
+export function getMaildir(): string {
+  return process.env.MAILDIR || path.join(getDataDir(), 'maildir')
+}
+
+/**
+ * Delivers into <dir>/new through <dir>/tmp, as Maildir readers expect
+ */
+export function createMaildirTransport(dir: string = getMaildir()): MailTransport {
+  return {
+    kind: 'maildir',
+    async send(message) {
+      const messageId = createMessageId(message.from)
+      const filename = `${Date.now()}.${randomUUID()}.onboarding`
+      await Promise.all(['tmp', 'new', 'cur'].map(sub => fs.mkdir(path.join(dir, sub), { recursive: true })))
+
+      const tmpFile = path.join(dir, 'tmp', filename)
+      await fs.writeFile(tmpFile, formatMessage(message, messageId))
+      await fs.rename(tmpFile, path.join(dir, 'new', filename))
+      return { messageId, response: `Delivered to ${path.join(dir, 'new', filename)}` }
+    },
+  }
+}
+
+// SMTP
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean
+  user?: string
+  password?: string
+  // Name sent with EHLO
+  clientName?: string
+  timeoutMs?: number
+  // Accept self-signed certificates (local test servers only)
+  rejectUnauthorized?: boolean
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+type SmtpSocket = net.Socket | tls.TLSSocket
+
+// Collects multi-line replies ("250-..." ... "250 ...") from the socket
+function replyReader(socket: SmtpSocket) {
+  const replies: SmtpReply[] = []
+  let pending: string[] = []
+  let buffer = ''
+  let failure: Error | null = null
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+
+  const settle = () => {
+    if (!waiting) return
+    if (replies.length > 0) {
+      waiting.resolve(replies.shift()!)
+      waiting = null
+    } else if (failure) {
+      waiting.reject(failure)
+      waiting = null
+    }
+  }
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8')
+    for (let end = buffer.indexOf('\n'); end >= 0; end = buffer.indexOf('\n')) {
+      const line = buffer.slice(0, end).replace(/\r$/, '')
+      buffer = buffer.slice(end + 1)
+      pending.push(line.slice(4))
+      if (line.charAt(3) !== '-') {
+        replies.push({ code: Number(line.slice(0, 3)), lines: pending })
+        pending = []
+      }
+    }
+    settle()
+  })
+  socket.on('error', error => {
+    failure = error
+    settle()
+  })
+  socket.on('close', () => {
+    failure = failure || new MailDeliveryError('SMTP server closed the connection')
+    settle()
+  })
+
+  return {
+    read: () =>
+      new Promise<SmtpReply>((resolve, reject) => {
+        waiting = { resolve, reject }
+        settle()
+      }),
+  }
+}
+
+function connect(options: SmtpOptions): Promise<SmtpSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host, rejectUnauthorized: options.rejectUnauthorized })
+      : net.connect({ host: options.host, port: options.port })
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => resolve(socket))
+    socket.once('error', reject)
+  })
+}
+
+function upgradeToTls(socket: net.Socket, options: SmtpOptions): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners('data')
+    const secure = tls.connect({ socket, servername: options.host, rejectUnauthorized: options.rejectUnauthorized })
+    secure.once('secureConnect', () => resolve(secure))
+    secure.once('error', reject)
+  })
+}
+
+// Lines starting with a dot get a second one, so none of them ends the DATA section early
+function dotStuff(data: string): string {
+  return data.replace(/^\./gm, '..')
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const timeoutMs = options.timeoutMs ?? 30_000
+
+  return {
+    kind: 'smtp',
+    async send(message) {
+      // Checked before connecting, so a bad address never reaches the server
+      const sender = mailAddress(message.from)
+      const recipient = mailAddress(message.to)
+      const messageId = createMessageId(message.from)
+      let socket = await connect(options)
+      socket.setTimeout(timeoutMs, () => socket.destroy(new MailDeliveryError(`SMTP server did not answer within ${timeoutMs} ms`)))
+      let reader = replyReader(socket)
+
+      // The verb alone goes into errors, so credentials never end up in logs
+      const command = async (line: string | null, expected: number[]) => {
+        if (line !== null) socket.write(`${line}\r\n`)
+        const reply = await reader.read()
+        if (!expected.includes(reply.code)) {
+          const verb = line === null ? 'greeting' : line.split(/[ :]/)[0]
+          throw new MailDeliveryError(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code)
+        }
+        return reply
+      }
+
+      try {
+        const clientName = options.clientName || 'localhost'
+        await command(null, [220])
+        let hello = await command(`EHLO ${clientName}`, [250])
+
+        if (!options.secure && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+          await command('STARTTLS', [220])
+          socket = await upgradeToTls(socket as net.Socket, options)
+          socket.setTimeout(timeoutMs, () => socket.destroy(new MailDeliveryError(`SMTP server did not answer within ${timeoutMs} ms`)))
+          reader = replyReader(socket)
+          hello = await command(`EHLO ${clientName}`, [250])
+        }
+
+        if (options.user) {
+          const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`, 'utf8').toString('base64')
+          await command(`AUTH PLAIN ${credentials}`, [235])
+        }
+
+        await command(`MAIL FROM:<${sender}>`, [250])
+        await command(`RCPT TO:<${recipient}>`, [250, 251])
+        await command('DATA', [354])
+        const accepted = await command(`${dotStuff(formatMessage(message, messageId))}\r\n.`, [250])
+        await command('QUIT', [221]).catch(() => undefined)
+
+        return { messageId, response: `${accepted.code} ${accepted.lines.join(' ')}` }
+      } finally {
+        socket.destroy()
+      }
+    },
+  }
+}
+
+/**
+ * Transport selected by MAIL_TRANSPORT (read on every call so tests can switch it)
+ */
+export function getMailTransport(): MailTransport {
+  if ((process.env.MAIL_TRANSPORT || 'maildir').toLowerCase() !== 'smtp') {
+    return createMaildirTransport()
+  }
+
+  const { SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD } = process.env
+  if (!SMTP_HOST) {
+    throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST')
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true'
+  return createSmtpTransport({
+    host: SMTP_HOST,
+    port: Number(SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: SMTP_USER,
+    password: SMTP_PASSWORD,
+  })
+}
+
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || DEFAULT_MAIL_FROM
+}
@@ -0,0 +1,308 @@
+/**
+ * Mock Lyzr Agents
+ *
+ * Fixture-driven stand-ins for the four onboarding agents, so the whole flow can be
+ * demoed and tested offline. Responses are built from the CONTEXT DATA block the route
+ * appends to every message, so names, dates and documents match the candidate.
+ *
+ * ENABLING:
+ * - LYZR_MOCK_MODE=true serves /api/agent from these fixtures in-process (no API key needed)
+ * - Or point LYZR_API_URL at the stand-in route: http://localhost:3333/api/mock-lyzr/v3/inference/chat/
+ *
+ * SCENARIOS (LYZR_MOCK_SCENARIO, or ?scenario= on the stand-in URL):
+ * - valid       - compact JSON string (default)
+ * - markdown    - JSON inside a ```json fence
+ * - prose       - explanation text around the JSON
+ * - malformed   - single quotes, Python literals, trailing commas, comments
+ * - truncated   - JSON cut off part-way through
+ * - plain_text  - no JSON at all
+ *
+ * OTHER SETTINGS:
+ * - LYZR_MOCK_LATENCY_MS: delay before answering / between streamed tokens (default 0)
+ */
+
+import { AGENT_IDS } from './agents'
+import { CONTEXT_HEADER } from './agentContext'
+
+export const MOCK_SCENARIOS = ['valid', 'markdown', 'prose', 'malformed', 'truncated', 'plain_text'] as const
+
+export type MockScenario = (typeof MOCK_SCENARIOS)[number]
+
+export interface MockAgentRequest {
+  agent_id: string
+  user_id?: string
+  session_id?: string
+  message: string
+}
+
+export function isMockMode(): boolean {
+  return ['1', 'true', 'yes'].includes((process.env.LYZR_MOCK_MODE || '').toLowerCase())
+}
+
+export function resolveMockScenario(value?: string | null): MockScenario {
+  const scenario = value || process.env.LYZR_MOCK_SCENARIO
+  return MOCK_SCENARIOS.includes(scenario as MockScenario) ? (scenario as MockScenario) : 'valid'
+}
+
+/**
+ * Recover the context_data object appended by buildAgentMessage
+ */
+export function extractContext(message: string): Record<string, any> {
+  const index = message.lastIndexOf(CONTEXT_HEADER)
+  if (index === -1) return {}
+
+  const block = message.slice(index + CONTEXT_HEADER.length).match(/```json\n([\s\S]*)\n```/)
+  try {
+    return block ? JSON.parse(block[1]) : {}
+  } catch {
+    return {}
+  }
+}
+
+function addDays(date: string | undefined, days: number): string {
+  const base = date ? new Date(`${date}T00:00:00Z`) : new Date()
+  if (Number.isNaN(base.getTime())) return ''
+  base.setUTCDate(base.getUTCDate() + days)
+  return base.toISOString().split('T')[0]
+}
+
+function daysUntil(date: string | undefined, from: string | undefined): number {
+  if (!date) return 0
+  const start = new Date(`${date}T00:00:00Z`).getTime()
+  const today = from ? new Date(`${from}T00:00:00Z`).getTime() : Date.now()
+  return Math.round((start - today) / 86_400_000)
+}
+
+// Fixture builders - one per agent, shaped like the real agents' answers
+
+function welcomeEmailFixture(context: Record<string, any>) {
+  // Polishing an email template: keep its {{variables}}, tidy the wording
+  if (typeof context.template_body === 'string') {
+    const tidy = (text: string) => text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim()
+    const body = tidy(context.template_body)
+    return {
+      result: {
+        email_subject: tidy(context.template_subject || ''),
+        email_body: /^(hi|hello|dear)\b/i.test(body) ? body : `Hi {{first_name}},\n\n${body}`,
+      },
+    }
+  }
+
+  const name = context.candidate_name || 'there'
+  return {
+    result: {
+      recipient: context.candidate_email || 'new.hire@example.com',
+      email_subject: `Welcome to the team, ${name.split(' ')[0]}!`,
+      email_body:
+        `Hi ${name},\n\nWe are thrilled to welcome you as our new ${context.role || 'team member'} ` +
+        `in ${context.department || 'the company'}. Your first day is ${context.start_date || 'coming up soon'}` +
+        `${context.manager_name ? ` and ${context.manager_name} will meet you at reception` : ''}.\n\n` +
+        `Please upload your onboarding documents before then.\n\nSee you soon!`,
+    },
+  }
+}
+
+function documentValidationFixture(context: Record<string, any>) {
+  const submitted: any[] = Array.isArray(context.documents) ? context.documents : []
+  const required: string[] = Array.isArray(context.required_documents) ? context.required_documents : []
+
+  const validated = submitted
+    .filter(doc => required.length === 0 || required.includes(doc.document_type))
+    .map(doc => ({ document_type: doc.document_type, status: 'valid', notes: `${doc.filename} looks complete` }))
+  const validatedTypes = new Set(validated.map(doc => doc.document_type))
+  const missing = required.filter(type => !validatedTypes.has(type))
+
+  return {
+    result: {
+      candidate_name: context.candidate_name || 'Candidate',
+      documents_validated: validated,
+      missing_documents: missing,
+      validation_summary: {
+        total_submitted: submitted.length,
+        total_validated: validated.length,
+        total_missing: missing.length,
+        completion_percentage: required.length ? Math.round((100 * (required.length - missing.length)) / required.length) : 100,
+      },
+      action_items: missing.map(type => `Request ${type} from ${context.candidate_name || 'the candidate'}`),
+    },
+  }
+}
+
+function taskGenerationFixture(context: Record<string, any>) {
+  const start = context.start_date
+  const task = (task_title: string, assignee: string, offset: number, priority: string, depends_on: string[] = []) => ({
+    task_title,
+    assignee,
+    due_date: addDays(start, offset),
+    priority,
+    status: 'pending',
+    depends_on,
+  })
+
+  return {
+    result: {
+      tasks_by_department: {
+        IT: [
+          task('Create email account', 'IT Support Team', -5, 'high'),
+          task('Prepare laptop and accessories', 'IT Support Team', -3, 'high', ['Create email account']),
+          task('Add to Slack channels', 'IT Support Team', -2, 'medium', ['Create email account']),
+        ],
+        Facilities: [
+          task('Assign desk and badge access', 'Facilities Team', -2, 'medium'),
+        ],
+        HR: [
+          task('Schedule benefits enrollment session', 'HR Onboarding', 3, 'medium'),
+        ],
+        [context.department || 'Manager']: [
+          task(`Plan first week for the new ${context.role || 'hire'}`, context.manager || 'Hiring Manager', -1, 'high'),
+          task('Assign onboarding buddy', context.manager || 'Hiring Manager', 0, 'low'),
+        ],
+      },
+    },
+  }
+}
+
+function progressReportFixture(context: Record<string, any>) {
+  const tasks: any[] = Array.isArray(context.tasks) ? context.tasks : []
+  const documents: any[] = Array.isArray(context.documents) ? context.documents : []
+  const completedTasks = tasks.filter(task => task.status === 'completed').length
+  const validatedDocs = documents.filter(doc => ['validated', 'valid'].includes(doc.status)).length
+  const requiredDocs = Array.isArray(context.required_documents) ? context.required_documents.length : documents.length
+  const total = tasks.length + requiredDocs
+
+  return {
+    result: {
+      candidate_summary: {
+        name: context.candidate_name || 'Candidate',
+        days_until_start: daysUntil(context.start_date, context.current_date),
+      },
+      progress_metrics: {
+        overall_completion_percentage: total ? Math.round((100 * (completedTasks + validatedDocs)) / total) : 0,
+        tasks_completed: completedTasks,
+        tasks_total: tasks.length,
+        documents_validated: validatedDocs,
+        documents_required: requiredDocs,
+      },
+      timeline: {
+        current_phase: completedTasks === tasks.length && tasks.length > 0 ? 'Ready for day one' : 'Pre-boarding',
+        milestones_completed: tasks.filter(task => task.status === 'completed').map(task => task.title),
+        next_milestone: tasks.find(task => task.status !== 'completed')?.title || 'First day',
+      },
+      recommendations: tasks
+        .filter(task => task.status !== 'completed')
+        .slice(0, 3)
+        .map(task => ({ action: `Follow up on ${task.title}`, responsible: task.department, priority: 'high' })),
+    },
+  }
+}
+
+const FIXTURES: Record<string, (context: Record<string, any>) => any> = {
+  [AGENT_IDS.welcomeEmail]: welcomeEmailFixture,
+  [AGENT_IDS.documentValidation]: documentValidationFixture,
+  [AGENT_IDS.taskGeneration]: taskGenerationFixture,
+  [AGENT_IDS.progressReport]: progressReportFixture,
+}
+
+/**
+ * Render a fixture the way a sloppy LLM might
+ */
+function renderScenario(payload: any, scenario: MockScenario): string {
+  const json = JSON.stringify(payload)
+
+  switch (scenario) {
+    case 'markdown':
+      return '```json ' + json + ' ```'
+    case 'prose':
+      return `Here is the result you asked for: ${json} Let me know if you need anything else.`
+    case 'malformed':
+      // Single quotes, Python literals, a comment and trailing commas - all fixable by parseLLMJson
+      return json
+        .replace(/"/g, "'")
+        .replace(/\btrue\b/g, 'True')
+        .replace(/\bfalse\b/g, 'False')
+        .replace(/\bnull\b/g, 'None')
+        .replace(/}$/, ', /* generated by mock agent */ }')
+        .replace(/]/g, ',]')
+    case 'truncated':
+      return json.slice(0, Math.max(1, Math.floor(json.length * 0.6)))
+    case 'plain_text':
+      return 'I have completed the request, but I am unable to provide structured output right now.'
+    default:
+      return json
+  }
+}
+
+/**
+ * Build the raw `response` string a mock agent returns for a request
+ */
+export function buildMockAgentResponse(request: MockAgentRequest, scenario: MockScenario = resolveMockScenario()): string {
+  const context = extractContext(request.message)
+  const fixture = FIXTURES[request.agent_id]
+  const payload = fixture
+    ? fixture(context)
+    : { result: { message: `Mock response from agent ${request.agent_id}`, received_context_keys: Object.keys(context) } }
+
+  return renderScenario(payload, scenario)
+}
+
+function latencyMs(): number {
+  const value = Number(process.env.LYZR_MOCK_LATENCY_MS)
+  return Number.isFinite(value) && value > 0 ? value : 0
+}
+
+const wait = (ms: number) => (ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve())
+
+/**
+ * Answer a Lyzr-style request body like the real chat or stream endpoint would
+ */
+export async function handleMockLyzrRequest(
+  body: any,
+  options: { stream: boolean; scenario?: string | null }
+): Promise<Response> {
+  if (!body?.agent_id || typeof body.message !== 'string') {
+    return new Response(JSON.stringify({ detail: 'agent_id and message are required' }), {
+      status: 422,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  const scenario = resolveMockScenario(options.scenario)
+  const text = buildMockAgentResponse(body, scenario)
+  const delay = latencyMs()
+
+  if (!options.stream) {
+    await wait(delay)
+    return new Response(
+      JSON.stringify({
+        response: text,
+        agent_id: body.agent_id,
+        user_id: body.user_id,
+        session_id: body.session_id,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  const tokens = text.match(/[\s\S]{1,24}/g) || []
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const token of tokens) {
+        await wait(delay)
+        controller.enqueue(encoder.encode(`data: ${token}\n\n`))
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+      controller.close()
+    },
+  })
+
+  return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+/**
+ * fetch()-compatible upstream used by /api/agent in mock mode
+ */
+export async function mockLyzrFetch(url: string, init: RequestInit): Promise<Response> {
+  const body = typeof init.body === 'string' ? JSON.parse(init.body) : {}
+  return handleMockLyzrRequest(body, { stream: url.includes('/stream') })
+}
@@ -0,0 +1,353 @@
+/**
+ * Onboarding API Client
+ *
+ * Thin fetch wrappers around the /api/candidates, /api/tasks, /api/task-templates, /api/email-templates,
+ * /api/people, /api/teams, /api/documents, /api/document-requirements, /api/reminders,
+ * /api/channel-mappings and /api/chat-notifications routes.
+ * Every helper resolves to {success, data} or {success: false, error} - they never throw.
+ *
+ * @example
+ * ```tsx
+ * import { fetchCandidates } from '@/utils/onboardingApi'
+ *
+ * const result = await fetchCandidates()
+ * if (result.success) setCandidates(result.data)
+ * ```
+ */
+
+import type {
+  Candidate,
+  ChatNotification,
+  Document,
+  DocumentRequirementRule,
+  EmailDelivery,
+  EmailTemplate,
+  OnboardingTask,
+  ReminderJob,
+  SentEmail,
+  Person,
+  TaskActivity,
+  TaskAttachment,
+  TaskComment,
+  TaskStatus,
+  TaskTemplate,
+  Team,
+} from '@/types'
+import type { DocumentRequirementInput } from './documentRequirements'
+import type { PersonInput, TeamInput } from './directory'
+import type { DocumentReviewInput } from './documentVersions'
+import type { EmailTemplateInput } from './emailTemplates'
+import type { TaskTemplateInput } from './taskTemplates'
+import type { TaskCommentInput } from './taskActivity'
+import type { ReminderRunResult } from './reminders'
+import type { ChannelMappingInput, ChannelMappingView, ChannelNotificationResult } from './taskChannels'
+
+export interface OnboardingApiResult<T> {
+  success: boolean
+  data?: T
+  error?: string
+  details?: string
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<OnboardingApiResult<T>> {
+  try {
+    // FormData bodies set their own multipart Content-Type (with boundary)
+    const response = await fetch(url, {
+      ...init,
+      headers: init?.body instanceof FormData ? init.headers : { 'Content-Type': 'application/json', ...init?.headers },
+    })
+
+    const payload = await response.json().catch(() => ({ error: 'Unknown error' }))
+    if (response.ok) {
+      return { success: true, data: payload.data }
+    }
+    return {
+      success: false,
+      error: payload.error || `API returned status ${response.status}`,
+      details: payload.details,
+    }
+  } catch (error) {
+    console.error('Onboarding API call failed:', error)
+    return {
+      success: false,
+      error: 'Failed to reach onboarding API',
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+function withCandidate(url: string, candidateId?: string): string {
+  return candidateId ? `${url}?candidate_id=${encodeURIComponent(candidateId)}` : url
+}
+
+// Candidates
+
+export function fetchCandidates() {
+  return request<Candidate[]>('/api/candidates')
+}
+
+type CandidateFields = 'name' | 'email' | 'role' | 'department' | 'startDate' | 'employmentType' | 'country' | 'managerId'
+
+// Without taskTemplateId the best-matching task template is used
+export function createCandidate(data: Pick<Candidate, CandidateFields | 'taskTemplateId'>) {
+  return request<Candidate>('/api/candidates', { method: 'POST', body: JSON.stringify(data) })
+}
+
+export function updateCandidate(id: string, patch: Partial<Pick<Candidate, CandidateFields>>) {
+  return request<Candidate>(`/api/candidates/${id}`, { method: 'PATCH', body: JSON.stringify(patch) })
+}
+
+export function transitionCandidate(id: string, to: string) {
+  return request<Candidate>(`/api/candidates/${id}/transition`, { method: 'POST', body: JSON.stringify({ to }) })
+}
+
+// Sends the welcome email HR reviewed and records the delivery on the candidate
+export function sendWelcomeEmail(id: string, email: { subject: string; body: string; sentBy: string }) {
+  return request<{ candidate: Candidate; delivery: EmailDelivery }>(`/api/candidates/${id}/welcome-email`, {
+    method: 'POST',
+    body: JSON.stringify(email),
+  })
+}
+
+export function fetchCandidateEmails(id: string) {
+  return request<SentEmail[]>(`/api/candidates/${id}/emails`)
+}
+
+// Renders the template with the candidate's values on the server and sends it
+export function sendTemplatedEmail(id: string, email: { templateId: string; sentBy: string }) {
+  return request<EmailDelivery>(`/api/candidates/${id}/emails`, { method: 'POST', body: JSON.stringify(email) })
+}
+
+// Tasks
+
+export function fetchTasks(candidateId?: string) {
+  return request<OnboardingTask[]>(withCandidate('/api/tasks', candidateId))
+}
+
+export function createTasks(tasks: Omit<OnboardingTask, 'id'>[]) {
+  return request<OnboardingTask[]>('/api/tasks', { method: 'POST', body: JSON.stringify({ tasks }) })
+}
+
+// actor is recorded in the task's activity history for status, assignee and due-date changes
+export function updateTask(id: string, patch: Partial<Omit<OnboardingTask, 'id'>>, actor?: string) {
+  return request<OnboardingTask>(`/api/tasks/${id}`, { method: 'PATCH', body: JSON.stringify({ ...patch, actor }) })
+}
+
+// Back-schedules the due dates of a candidate's open tasks from their start date
+export function scheduleCandidateTasks(candidateId: string, actor?: string) {
+  return request<{ tasks: OnboardingTask[]; criticalPath: string[] }>(`/api/candidates/${candidateId}/schedule`, {
+    method: 'POST',
+    body: JSON.stringify({ actor }),
+  })
+}
+
+// Board move: records who moved the task and recomputes the candidate's progress
+export function moveTask(id: string, status: TaskStatus, actor: string) {
+  return request<{ task: OnboardingTask; activity: TaskActivity | null; progress: number | null }>(`/api/tasks/${id}/move`, {
+    method: 'POST',
+    body: JSON.stringify({ status, actor }),
+  })
+}
+
+// Escalates an overdue task to the assignee's manager
+export function escalateTask(id: string, actor: string) {
+  return request<{ task: OnboardingTask; activity: TaskActivity; escalatedTo: Person; notification: EmailDelivery }>(`/api/tasks/${id}/escalate`, {
+    method: 'POST',
+    body: JSON.stringify({ actor }),
+  })
+}
+
+// Task detail: activity history, comments and attachments
+
+export function fetchTaskActivity(id: string) {
+  return request<TaskActivity[]>(`/api/tasks/${id}/activity`)
+}
+
+export function fetchTaskComments(id: string) {
+  return request<TaskComment[]>(`/api/tasks/${id}/comments`)
+}
+
+export function addTaskComment(id: string, comment: TaskCommentInput) {
+  return request<TaskComment>(`/api/tasks/${id}/comments`, { method: 'POST', body: JSON.stringify(comment) })
+}
+
+export function fetchTaskAttachments(id: string) {
+  return request<TaskAttachment[]>(`/api/tasks/${id}/attachments`)
+}
+
+export function uploadTaskAttachment(id: string, file: File, uploadedBy: string) {
+  const form = new FormData()
+  form.append('uploadedBy', uploadedBy)
+  form.append('file', file)
+  return request<TaskAttachment[]>(`/api/tasks/${id}/attachments`, { method: 'POST', body: form })
+}
+
+export function taskAttachmentUrl(taskId: string, attachmentId: string) {
+  return `/api/tasks/${taskId}/attachments/${attachmentId}`
+}
+
+// Task templates
+
+export function fetchTaskTemplates() {
+  return request<TaskTemplate[]>('/api/task-templates')
+}
+
+export function createTaskTemplate(template: TaskTemplateInput) {
+  return request<TaskTemplate>('/api/task-templates', { method: 'POST', body: JSON.stringify(template) })
+}
+
+export function updateTaskTemplate(id: string, patch: Partial<TaskTemplateInput>) {
+  return request<TaskTemplate>(`/api/task-templates/${id}`, { method: 'PATCH', body: JSON.stringify(patch) })
+}
+
+export function deleteTaskTemplate(id: string) {
+  return request<{ id: string }>(`/api/task-templates/${id}`, { method: 'DELETE' })
+}
+
+// Email templates
+
+export function fetchEmailTemplates() {
+  return request<EmailTemplate[]>('/api/email-templates')
+}
+
+export function createEmailTemplate(template: EmailTemplateInput) {
+  return request<EmailTemplate>('/api/email-templates', { method: 'POST', body: JSON.stringify(template) })
+}
+
+export function updateEmailTemplate(id: string, patch: Partial<EmailTemplateInput>) {
+  return request<EmailTemplate>(`/api/email-templates/${id}`, { method: 'PATCH', body: JSON.stringify(patch) })
+}
+
+export function deleteEmailTemplate(id: string) {
+  return request<{ id: string }>(`/api/email-templates/${id}`, { method: 'DELETE' })
+}
+
+// People directory
+
+export function fetchPeople() {
+  return request<Person[]>('/api/people')
+}
+
+export function createPerson(person: PersonInput) {
+  return request<Person>('/api/people', { method: 'POST', body: JSON.stringify(person) })
+}
+
+export function updatePerson(id: string, patch: Partial<PersonInput>) {
+  return request<Person>(`/api/people/${id}`, { method: 'PATCH', body: JSON.stringify(patch) })
+}
+
+export function deletePerson(id: string) {
+  return request<{ id: string }>(`/api/people/${id}`, { method: 'DELETE' })
+}
+
+export function fetchTeams() {
+  return request<Team[]>('/api/teams')
+}
+
+export function createTeam(team: TeamInput) {
+  return request<Team>('/api/teams', { method: 'POST', body: JSON.stringify(team) })
+}
+
+export function updateTeam(id: string, patch: Partial<TeamInput>) {
+  return request<Team>(`/api/teams/${id}`, { method: 'PATCH', body: JSON.stringify(patch) })
+}
+
+export function deleteTeam(id: string) {
+  return request<{ id: string }>(`/api/teams/${id}`, { method: 'DELETE' })
+}
+
+// Documents
+
+export function fetchDocuments(candidateId?: string) {
+  return request<Document[]>(withCandidate('/api/documents', candidateId))
+}
+
+export function createDocument(data: Pick<Document, 'candidateId' | 'type' | 'filename'>) {
+  return request<Document>('/api/documents', { method: 'POST', body: JSON.stringify(data) })
+}
+
+// Without a type the server classifies the file
+export function uploadDocument(candidateId: string, file: File, type?: string) {
+  const form = new FormData()
+  form.append('candidateId', candidateId)
+  if (type) form.append('type', type)
+  form.append('file', file)
+  return request<Document[]>('/api/documents/upload', { method: 'POST', body: form })
+}
+
+export function documentFileUrl(id: string) {
+  return `/api/documents/${id}/file`
+}
+
+export function updateDocument(id: string, patch: Partial<Pick<Document, 'type'>>) {
+  return request<Document>(`/api/documents/${id}`, { method: 'PATCH', body: JSON.stringify(patch) })
+}
+
+export function reviewDocument(id: string, review: DocumentReviewInput) {
+  return request<Document>(`/api/documents/${id}/review`, { method: 'POST', body: JSON.stringify(review) })
+}
+
+// null clears the expiry date
+export function setDocumentExpiry(id: string, expiryDate: string | null) {
+  return request<Document>(`/api/documents/${id}`, { method: 'PATCH', body: JSON.stringify({ expiryDate }) })
+}
+
+// Document requirements
+
+export function fetchDocumentRequirements() {
+  return request<DocumentRequirementRule[]>('/api/document-requirements')
+}
+
+export function createDocumentRequirement(rule: DocumentRequirementInput) {
+  return request<DocumentRequirementRule>('/api/document-requirements', { method: 'POST', body: JSON.stringify(rule) })
+}
+
+export function updateDocumentRequirement(id: string, patch: Partial<DocumentRequirementInput>) {
+  return request<DocumentRequirementRule>(`/api/document-requirements/${id}`, { method: 'PATCH', body: JSON.stringify(patch) })
+}
+
+export function deleteDocumentRequirement(id: string) {
+  return request<{ id: string }>(`/api/document-requirements/${id}`, { method: 'DELETE' })
+}
+
+// Scheduled reminders
+
+export function fetchReminderJobs() {
+  return request<ReminderJob[]>('/api/reminders')
+}
+
+// Dry run: what the scheduler would send on the date, without sending anything
+export function previewReminders(date?: string) {
+  return request<ReminderRunResult>('/api/reminders', { method: 'POST', body: JSON.stringify({ dryRun: true, date }) })
+}
+
+// Chat channels
+
+export function fetchChannelMappings() {
+  return request<ChannelMappingView[]>('/api/channel-mappings')
+}
+
+export function createChannelMapping(mapping: ChannelMappingInput) {
+  return request<ChannelMappingView>('/api/channel-mappings', { method: 'POST', body: JSON.stringify(mapping) })
+}
+
+export function updateChannelMapping(id: string, patch: Partial<ChannelMappingInput>) {
+  return request<ChannelMappingView>(`/api/channel-mappings/${id}`, { method: 'PATCH', body: JSON.stringify(patch) })
+}
+
+export function deleteChannelMapping(id: string) {
+  return request<{ id: string }>(`/api/channel-mappings/${id}`, { method: 'DELETE' })
+}
+
+export function testChannelMapping(id: string, actor: string) {
+  return request<{ channel: string }>(`/api/channel-mappings/${id}/test`, { method: 'POST', body: JSON.stringify({ actor }) })
+}
+
+export function fetchChatNotifications() {
+  return request<ChatNotification[]>('/api/chat-notifications')
+}
+
+// Post tasks to their departments' channels
+export function notifyTaskChannels(taskIds: string[]) {
+  return request<ChannelNotificationResult[]>('/api/chat-notifications', { method: 'POST', body: JSON.stringify({ taskIds }) })
+}
@@ -0,0 +1,67 @@
+/**
+ * Candidate Email Outbox
+ *
+ * Sends emails through the configured mail transport (utils/mailTransport.ts)
+ * and logs every attempt to a candidate, sent or failed, in the `email_log` collection.
+ * Server-only - it uses the file store and the mail transport.
+ */
+
+import { getMailFrom, getMailTransport } from './mailTransport'
+import { candidateTemplateValues, type EmailTemplateVariable } from './emailTemplates'
+import { getManager } from './directory'
+import { missingDocuments } from './progress'
+import { resolveRequiredDocuments } from './documentRequirements'
+import { documentRepository, documentRequirementRepository, emailLogRepository, personRepository } from './repositories'
+import type { Candidate, EmailDelivery, EmailTemplatePurpose } from '@/types'
+
+export interface CandidateEmail {
+  subject: string
+  body: string
+  sentBy: string
+  purpose: EmailTemplatePurpose
+  templateId?: string
+}
+
+/**
+ * Send one email; delivery failures are returned (status 'failed'), not thrown
+ */
+export async function deliverEmail(email: { to: string; subject: string; body: string; sentBy: string }): Promise<EmailDelivery> {
+  const transport = getMailTransport()
+  const attempt = { to: email.to, subject: email.subject, transport: transport.kind, sentBy: email.sentBy, at: new Date().toISOString() }
+
+  try {
+    const sent = await transport.send({ from: getMailFrom(), to: email.to, subject: email.subject, text: email.body })
+    return { ...attempt, status: 'sent', messageId: sent.messageId, response: sent.response }
+  } catch (error) {
+    return { ...attempt, status: 'failed', error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * Send one email to the candidate and log it
+ */
+export async function sendCandidateEmail(candidate: Candidate, email: CandidateEmail): Promise<EmailDelivery> {
+  const delivery = await deliverEmail({ to: candidate.email, subject: email.subject, body: email.body, sentBy: email.sentBy })
+  await emailLogRepository.create({
+    ...delivery,
+    candidateId: candidate.id,
+    purpose: email.purpose,
+    ...(email.templateId && { templateId: email.templateId }),
+  })
+  return delivery
+}
+
+/**
+ * Template variable values from the candidate's record, manager and document checklist
+ */
+export async function candidateEmailValues(candidate: Candidate): Promise<Record<EmailTemplateVariable, string>> {
+  const [people, documents, rules] = await Promise.all([
+    personRepository.list(),
+    documentRepository.list({ candidateId: candidate.id }),
+    documentRequirementRepository.list(),
+  ])
+  return candidateTemplateValues(candidate, {
+    manager: getManager(candidate, people),
+    missingDocuments: missingDocuments(candidate, documents, resolveRequiredDocuments(candidate, rules)),
+  })
+}
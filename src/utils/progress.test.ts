@@ -0,0 +1,58 @@
+import { buildProgressReportContext, computeProgress, isTaskAtRisk } from './progress'
+import { describe, it, expect } from 'vitest'
+import type { Candidate, Document, OnboardingTask } from '@/types'
+
+const candidate: Candidate = {
+  id: 'c1',
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  role: 'Designer',
+  department: 'Product',
+  startDate: '2025-03-10',
+  status: 'tasks_assigned',
+  progress: 0,
+}
+
+function task(id: string, status: OnboardingTask['status'], dueDate = '2025-03-10', candidateId = 'c1'): OnboardingTask {
+  return { id, candidateId, title: `Task ${id}`, department: 'IT', assignee: 'IT', dueDate, priority: 'medium', status }
+}
+
+function doc(type: string, status: Document['status'], candidateId = 'c1'): Document {
+  return { id: type, candidateId, type, filename: `${type}.pdf`, uploadDate: '2025-03-01', status }
+}
+
+describe('computeProgress', () => {
+  it('combines stage, task and document completion', () => {
+    const tasks = [task('1', 'completed'), task('2', 'in_progress'), task('3', 'pending'), task('4', 'completed', '2025-03-10', 'other')]
+    const documents = [doc('Government ID', 'valid'), doc('Tax Forms', 'invalid'), doc('Direct Deposit Info', 'valid', 'other')]
+
+    const breakdown = computeProgress(candidate, tasks, documents)
+
+    expect(breakdown.stage).toBe(60)
+    expect(breakdown.tasks).toEqual({ completed: 1, inProgress: 1, total: 3, percentage: 50 })
+    expect(breakdown.documents).toEqual({ validated: 1, required: 4, percentage: 25 })
+    expect(breakdown.progress).toBe(Math.round(0.3 * 60 + 0.45 * 50 + 0.25 * 25))
+  })
+
+  it('reports 100% once the workflow is complete', () => {
+    expect(computeProgress({ ...candidate, status: 'completed' }, [], []).progress).toBe(100)
+  })
+})
+
+describe('progress report context', () => {
+  it('sends the candidate\'s real tasks and documents and flags tasks at risk', () => {
+    const context = buildProgressReportContext(
+      candidate,
+      [task('1', 'pending', '2025-03-09'), task('2', 'pending', '2025-03-20'), task('3', 'pending', '2025-03-09', 'other')],
+      [doc('Government ID', 'valid')],
+      { currentDate: '2025-03-08', requiredDocuments: ['Government ID'] }
+    )
+
+    expect(context.tasks.map(t => [t.task_id, t.at_risk])).toEqual([['1', true], ['2', false]])
+    expect(context.computed_progress).toBe(Math.round(0.3 * 60 + 0.25 * 100))
+    expect(context.documents).toEqual([
+      { type: 'Government ID', filename: 'Government ID.pdf', status: 'validated', submitted_date: '2025-03-01' },
+    ])
+    expect(isTaskAtRisk(task('4', 'completed', '2025-01-01'), '2025-03-08')).toBe(false)
+  })
+})
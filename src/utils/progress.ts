@@ -0,0 +1,153 @@
+/**
+ * Onboarding Progress
+ *
+ * Derives a candidate's progress from their actual records instead of a number set by hand.
+ * Shared by the API routes (which return computed progress) and the UI (which recomputes
+ * it as tasks and documents change).
+ *
+ * WEIGHTING (PROGRESS_WEIGHTS):
+ * - stage     - how far along their workflow the candidate is (workflow stage weights)
+ * - tasks     - completed tasks / all tasks (in-progress tasks count half)
+ * - documents - required document types whose current version is valid / required types
+ *               (the candidate's checklist from the requirements matrix when rules are given)
+ * Reaching the workflow's final stage always means 100%.
+ */
+
+import { getCandidateWorkflow, isFinalStage, stageProgress } from './workflow'
+import { REQUIRED_DOCUMENTS, resolveRequiredDocuments } from './documentRequirements'
+import { currentVersions } from './documentVersions'
+import { taskSlaStatus } from './taskSla'
+import { localDate } from './dates'
+import type { Candidate, Document, DocumentRequirementRule, OnboardingTask } from '@/types'
+
+export const PROGRESS_WEIGHTS = { stage: 0.3, tasks: 0.45, documents: 0.25 }
+
+export interface ProgressBreakdown {
+  progress: number
+  stage: number
+  tasks: { completed: number; inProgress: number; total: number; percentage: number }
+  documents: { validated: number; required: number; percentage: number }
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((100 * part) / total) : 0
+}
+
+/**
+ * Work out a candidate's progress from their tasks and documents
+ *
+ * @param tasks - Tasks of this candidate (other candidates' tasks are ignored)
+ * @param documents - Documents of this candidate (other candidates' documents are ignored)
+ */
+export function computeProgress(
+  candidate: Candidate,
+  tasks: OnboardingTask[],
+  documents: Document[],
+  requiredDocuments: string[] = REQUIRED_DOCUMENTS
+): ProgressBreakdown {
+  const workflow = getCandidateWorkflow(candidate)
+  const ownTasks = tasks.filter(task => task.candidateId === candidate.id)
+
+  const completed = ownTasks.filter(task => task.status === 'completed').length
+  const inProgress = ownTasks.filter(task => task.status === 'in_progress').length
+  const validated = requiredDocuments.length - missingDocuments(candidate, documents, requiredDocuments).length
+
+  const breakdown: ProgressBreakdown = {
+    progress: 0,
+    stage: stageProgress(workflow, candidate.status),
+    tasks: { completed, inProgress, total: ownTasks.length, percentage: percentage(completed + inProgress / 2, ownTasks.length) },
+    documents: { validated, required: requiredDocuments.length, percentage: percentage(validated, requiredDocuments.length) },
+  }
+
+  breakdown.progress = isFinalStage(workflow, candidate.status)
+    ? 100
+    : Math.round(
+        PROGRESS_WEIGHTS.stage * breakdown.stage +
+          PROGRESS_WEIGHTS.tasks * breakdown.tasks.percentage +
+          PROGRESS_WEIGHTS.documents * breakdown.documents.percentage
+      )
+
+  return breakdown
+}
+
+/**
+ * Required document types the candidate has no validated current version of
+ */
+export function missingDocuments(candidate: Candidate, documents: Document[], requiredDocuments: string[] = REQUIRED_DOCUMENTS): string[] {
+  const validTypes = new Set(
+    currentVersions(documents.filter(doc => doc.candidateId === candidate.id))
+      .filter(doc => doc.status === 'valid')
+      .map(doc => doc.type)
+  )
+  return requiredDocuments.filter(type => !validTypes.has(type))
+}
+
+/**
+ * Replace the stored progress of each candidate with the computed value
+ *
+ * @param rules - Requirements matrix; without it everyone is measured against REQUIRED_DOCUMENTS
+ */
+export function withProgress(
+  candidates: Candidate[],
+  tasks: OnboardingTask[],
+  documents: Document[],
+  rules?: DocumentRequirementRule[]
+): Candidate[] {
+  return candidates.map(candidate => ({
+    ...candidate,
+    progress: computeProgress(candidate, tasks, documents, rules ? resolveRequiredDocuments(candidate, rules) : undefined).progress,
+  }))
+}
+
+/**
+ * Open task that is overdue or due soon for its priority (see utils/taskSla.ts)
+ */
+export function isTaskAtRisk(task: OnboardingTask, currentDate: string = localDate()): boolean {
+  const { state } = taskSlaStatus(task, currentDate)
+  return state === 'overdue' || state === 'due_soon'
+}
+
+/**
+ * context_data for the progress report agent, built from the candidate's real records
+ */
+export function buildProgressReportContext(
+  candidate: Candidate,
+  tasks: OnboardingTask[],
+  documents: Document[],
+  options: { currentDate?: string; requiredDocuments?: string[] } = {}
+) {
+  const currentDate = options.currentDate || localDate()
+  const requiredDocuments = options.requiredDocuments || REQUIRED_DOCUMENTS
+  const breakdown = computeProgress(candidate, tasks, documents, requiredDocuments)
+
+  return {
+    candidate_id: candidate.id,
+    candidate_name: candidate.name,
+    role: candidate.role,
+    department: candidate.department,
+    start_date: candidate.startDate,
+    current_date: currentDate,
+    current_stage: candidate.status,
+    computed_progress: breakdown.progress,
+    tasks: tasks
+      .filter(task => task.candidateId === candidate.id)
+      .map(task => ({
+        task_id: task.id,
+        title: task.title,
+        department: task.department,
+        assignee: task.assignee,
+        priority: task.priority,
+        status: task.status,
+        due_date: task.dueDate,
+        at_risk: isTaskAtRisk(task, currentDate),
+      })),
+    documents: currentVersions(documents.filter(doc => doc.candidateId === candidate.id))
+      .map(doc => ({
+        type: doc.type,
+        filename: doc.filename,
+        status: doc.status === 'valid' ? 'validated' : doc.status,
+        submitted_date: doc.uploadDate,
+      })),
+    required_documents: requiredDocuments,
+  }
+}
@@ -0,0 +1,68 @@
+import { getRedactionTokens, redactPii, restorePii, storeRedactionTokens } from './redaction'
+import { describe, it, expect } from 'vitest'
+
+const TAX_FORM = `Form W-4 Employee's Withholding Certificate
+Name: Sarah Johnson
+Social security number: 123-45-6789
+Filing status: Single`
+
+const DIRECT_DEPOSIT = `Direct Deposit Authorization
+Bank: First National
+Routing number: 021000021
+Account number: 000123456789
+Card on file: 4111 1111 1111 1111
+IBAN: GB82 WEST 1234 5698 7654 32`
+
+const PASSPORT = `PASSPORT
+Passport No. X12345678
+Nationality: USA
+Date of expiry 12 MAR 2030
+Issued by: Passport Office`
+
+describe('redactPii', () => {
+  it('masks identifiers and financial numbers in sample documents', () => {
+    const { value, tokens, findings } = redactPii({
+      documents: [
+        { document_type: 'Tax Forms', content: TAX_FORM },
+        { document_type: 'Direct Deposit Info', content: DIRECT_DEPOSIT },
+        { document_type: 'Government ID', content: PASSPORT },
+      ],
+    })
+
+    const text = JSON.stringify(value)
+    for (const secret of ['123-45-6789', '021000021', '000123456789', '4111 1111 1111 1111', 'GB82 WEST 1234 5698 7654 32', 'X12345678']) {
+      expect(text).not.toContain(secret)
+    }
+    expect(value.documents[0].content).toContain('Social security number: [REDACTED_SSN_1]')
+    expect(value.documents[2].content).toContain('Issued by: Passport Office')
+    expect(value.documents[2].content).toContain('Date of expiry 12 MAR 2030')
+    expect(Object.keys(tokens)).toHaveLength(6)
+    expect(findings).toEqual([
+      { path: 'documents[0].content', kinds: ['ssn'], count: 1 },
+      { path: 'documents[1].content', kinds: ['iban', 'card_number', 'routing_number', 'bank_account'], count: 4 },
+      { path: 'documents[2].content', kinds: ['passport_number'], count: 1 },
+    ])
+  })
+
+  it('leaves ordinary numbers and dates alone', () => {
+    const text = 'Start date 2024-02-20, order 1234567890123, phone 555-123-4567, invalid SSN 000-12-3456'
+    const { value, findings } = redactPii(text)
+
+    expect(value).toBe(text)
+    expect(findings).toEqual([])
+  })
+})
+
+describe('restorePii', () => {
+  it('puts the original values back from the stored token map', () => {
+    const { value, tokens } = redactPii({ message: 'Verify SSN 123-45-6789 and 123-45-6789' })
+    expect(value.message).toBe('Verify SSN [REDACTED_SSN_1] and [REDACTED_SSN_1]')
+
+    storeRedactionTokens('request-1', tokens, 0)
+    const answer = { result: { notes: 'SSN [REDACTED_SSN_1] matches the W-4' } }
+
+    expect(restorePii(answer, getRedactionTokens('request-1', 1))).toEqual({ result: { notes: 'SSN 123-45-6789 matches the W-4' } })
+    // Token maps expire
+    expect(getRedactionTokens('request-1', 60 * 60 * 1000 + 1)).toEqual({})
+  })
+})
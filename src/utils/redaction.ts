@@ -0,0 +1,214 @@
+/**
+ * PII Redaction
+ *
+ * Masks sensitive values in agent requests before they leave for the third-party LLM.
+ * Each value is replaced by a token such as [REDACTED_SSN_1]; the same value gets the
+ * same token throughout one request, so the agent can still tell values apart.
+ *
+ * DETECTED:
+ * - ssn             - 123-45-6789, or 9 digits labelled SSN / social security number
+ * - iban            - IBANs that pass the mod-97 check
+ * - card_number     - 13-19 digit numbers that pass the Luhn check
+ * - routing_number  - labelled routing / ABA numbers and sort codes
+ * - bank_account    - labelled account numbers
+ * - passport_number - labelled passport numbers
+ *
+ * The token map stays on the server (REDACTION_VAULT, kept REDACTION_TOKEN_TTL_MS) so answers
+ * that quote a token can be restored before they reach the UI. Set AGENT_PII_REDACTION=off
+ * to send requests unmodified.
+ */
+
+export type PiiKind = 'ssn' | 'iban' | 'card_number' | 'routing_number' | 'bank_account' | 'passport_number'
+
+export interface RedactionFinding {
+  /** Location in the redacted value, e.g. `context.documents[0].content` */
+  path: string
+  kinds: PiiKind[]
+  count: number
+}
+
+export interface RedactionResult<T> {
+  value: T
+  /** token -> original value */
+  tokens: Record<string, string>
+  findings: RedactionFinding[]
+}
+
+interface Detector {
+  kind: PiiKind
+  /** Group 1 is kept (a label), group 2 is the sensitive value */
+  pattern: RegExp
+  validate?: (value: string) => boolean
+}
+
+// Label and value must be on the same line
+const LABEL_SUFFIX = String.raw`(?:[^\S\n]*(?:number|no\.?|#))?[^\S\n]*[:#]?[^\S\n]*`
+
+function digits(value: string): string {
+  return value.replace(/\D/g, '')
+}
+
+function isValidSsn(value: string): boolean {
+  const raw = digits(value)
+  const [area, group, serial] = [raw.slice(0, 3), raw.slice(3, 5), raw.slice(5)].map(Number)
+  return raw.length === 9 && area !== 0 && area !== 666 && area < 900 && group !== 0 && serial !== 0
+}
+
+function passesLuhn(value: string): boolean {
+  const raw = digits(value)
+  if (raw.length < 13 || raw.length > 19) return false
+
+  let sum = 0
+  for (let i = 0; i < raw.length; i++) {
+    let digit = Number(raw[raw.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s+/g, '').toUpperCase()
+  if (iban.length < 15 || iban.length > 34) return false
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4)
+  let remainder = 0
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97
+    }
+  }
+  return remainder === 1
+}
+
+// Order matters: unlabelled formats first, so labelled ones never see an already-masked value
+const DETECTORS: Detector[] = [
+  { kind: 'ssn', pattern: /()\b(\d{3}-\d{2}-\d{4})\b/g, validate: isValidSsn },
+  {
+    kind: 'ssn',
+    pattern: new RegExp(String.raw`(\b(?:ssn|social security)${LABEL_SUFFIX})(\d{9})\b`, 'gi'),
+    validate: isValidSsn,
+  },
+  { kind: 'iban', pattern: /()\b([A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?)\b/g, validate: isValidIban },
+  { kind: 'card_number', pattern: /()\b(\d(?:[ -]?\d){12,18})\b/g, validate: passesLuhn },
+  { kind: 'routing_number', pattern: new RegExp(String.raw`(\b(?:routing|aba)${LABEL_SUFFIX})(\d{9})\b`, 'gi') },
+  { kind: 'routing_number', pattern: new RegExp(String.raw`(\bsort code${LABEL_SUFFIX})(\d{2}-\d{2}-\d{2})\b`, 'gi') },
+  {
+    kind: 'bank_account',
+    pattern: new RegExp(String.raw`(\b(?:account|acct)${LABEL_SUFFIX})(\d[\d -]{2,18}\d)\b`, 'gi'),
+  },
+  {
+    kind: 'passport_number',
+    pattern: new RegExp(String.raw`(\bpassport${LABEL_SUFFIX})((?=[A-Z]*\d)[A-Z0-9]{6,9})\b`, 'gi'),
+  },
+]
+
+export function isRedactionEnabled(): boolean {
+  return (process.env.AGENT_PII_REDACTION || '').toLowerCase() !== 'off'
+}
+
+/**
+ * Mask sensitive values in a string or in every string of a JSON value
+ *
+ * @param path - Name of the value's root in the findings (default: none)
+ */
+export function redactPii<T>(value: T, path = ''): RedactionResult<T> {
+  const tokens: Record<string, string> = {}
+  const byValue = new Map<string, string>()
+  const counters: Partial<Record<PiiKind, number>> = {}
+  const findings: RedactionFinding[] = []
+
+  const tokenFor = (kind: PiiKind, original: string) => {
+    const key = `${kind}:${original}`
+    let token = byValue.get(key)
+    if (!token) {
+      counters[kind] = (counters[kind] || 0) + 1
+      token = `[REDACTED_${kind.toUpperCase()}_${counters[kind]}]`
+      byValue.set(key, token)
+      tokens[token] = original
+    }
+    return token
+  }
+
+  const redactText = (text: string, at: string): string => {
+    const kinds = new Set<PiiKind>()
+    let count = 0
+
+    const redacted = DETECTORS.reduce(
+      (current, { kind, pattern, validate }) =>
+        current.replace(pattern, (match, label: string, sensitive: string) => {
+          if (validate && !validate(sensitive)) return match
+          kinds.add(kind)
+          count++
+          return label + tokenFor(kind, sensitive)
+        }),
+      text
+    )
+
+    if (count > 0) {
+      findings.push({ path: at || '(root)', kinds: Array.from(kinds), count })
+    }
+    return redacted
+  }
+
+  const walk = (current: unknown, at: string): unknown => {
+    if (typeof current === 'string') return redactText(current, at)
+    if (Array.isArray(current)) return current.map((item, index) => walk(item, `${at}[${index}]`))
+    if (current && typeof current === 'object') {
+      return Object.fromEntries(Object.entries(current).map(([key, item]) => [key, walk(item, at ? `${at}.${key}` : key)]))
+    }
+    return current
+  }
+
+  return { value: walk(value, path) as T, tokens, findings }
+}
+
+/**
+ * Put the original values back wherever a token appears
+ */
+export function restorePii<T>(value: T, tokens: Record<string, string>): T {
+  if (Object.keys(tokens).length === 0) return value
+
+  const pattern = /\[REDACTED_[A-Z_]+_\d+\]/g
+  const walk = (current: unknown): unknown => {
+    if (typeof current === 'string') return current.replace(pattern, token => tokens[token] ?? token)
+    if (Array.isArray(current)) return current.map(walk)
+    if (current && typeof current === 'object') {
+      return Object.fromEntries(Object.entries(current).map(([key, item]) => [key, walk(item)]))
+    }
+    return current
+  }
+  return walk(value) as T
+}
+
+// Token maps per request, kept in server memory only
+
+const DEFAULT_TOKEN_TTL_MS = 60 * 60 * 1000
+
+const REDACTION_VAULT = new Map<string, { tokens: Record<string, string>; expiresAt: number }>()
+
+function tokenTtlMs(): number {
+  const value = Number(process.env.REDACTION_TOKEN_TTL_MS)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TOKEN_TTL_MS
+}
+
+export function storeRedactionTokens(requestId: string, tokens: Record<string, string>, now: number = Date.now()): void {
+  for (const [id, entry] of REDACTION_VAULT) {
+    if (entry.expiresAt <= now) REDACTION_VAULT.delete(id)
+  }
+  if (Object.keys(tokens).length > 0) {
+    REDACTION_VAULT.set(requestId, { tokens, expiresAt: now + tokenTtlMs() })
+  }
+}
+
+/**
+ * Token map of an earlier request (empty once it has expired)
+ */
+export function getRedactionTokens(requestId: string, now: number = Date.now()): Record<string, string> {
+  const entry = REDACTION_VAULT.get(requestId)
+  return entry && entry.expiresAt > now ? entry.tokens : {}
+}
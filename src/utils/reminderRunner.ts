@@ -0,0 +1,159 @@
+/**
+ * Reminder Runner
+ *
+ * Sends the reminders planned by utils/reminders.ts and records them in the reminder_jobs
+ * collection (the job table). Server-only - it uses the file store and the mail transport.
+ *
+ * - runReminders() runs once: POST /api/reminders, or the in-process schedule below
+ * - A dry run reports what would be sent without sending or recording anything
+ * - Runs in this process are queued, so two runs never send the same reminder
+ *
+ * SCHEDULE:
+ * Set REMINDER_SCHEDULE to a cron expression (e.g. "0 8 * * *", server local time) to run
+ * inside the server process (started from instrumentation.ts). Each scheduled run also runs the
+ * document expiry checker (utils/expiryChecker.ts). Without it, call POST /api/reminders and
+ * POST /api/documents/expiry-check from an external cron job instead.
+ */
+
+import { cronMatches, parseCron } from './cron'
+import { localDate } from './dates'
+import { runExpiryCheck } from './expiryChecker'
+import {
+  getReminderSettings,
+  MAX_REMINDER_ATTEMPTS,
+  planReminders,
+  type PlannedReminder,
+  type ReminderRunEntry,
+  type ReminderRunResult,
+} from './reminders'
+import { deliverEmail, sendCandidateEmail } from './outbox'
+import {
+  candidateRepository,
+  documentRepository,
+  documentRequirementRepository,
+  emailTemplateRepository,
+  personRepository,
+  reminderJobRepository,
+  taskRepository,
+} from './repositories'
+import type { Candidate, EmailDelivery, ReminderJob } from '@/types'
+
+// sentBy of scheduled emails in the email log
+export const SCHEDULER_SENDER = 'Reminder scheduler'
+
+export interface ReminderRunOptions {
+  // YYYY-MM-DD (default: today, in server local time like the schedule)
+  date?: string
+  dryRun?: boolean
+}
+
+async function send(reminder: PlannedReminder, candidate: Candidate): Promise<EmailDelivery> {
+  if (reminder.kind === 'task_due') {
+    return deliverEmail({ to: reminder.to, subject: reminder.subject, body: reminder.body, sentBy: SCHEDULER_SENDER })
+  }
+  return sendCandidateEmail(candidate, {
+    subject: reminder.subject,
+    body: reminder.body,
+    sentBy: SCHEDULER_SENDER,
+    purpose: reminder.kind === 'document_reminder' ? 'document_reminder' : 'first_day',
+    templateId: reminder.templateId,
+  })
+}
+
+async function execute({ date = localDate(), dryRun = false }: ReminderRunOptions): Promise<ReminderRunResult> {
+  const [candidates, tasks, documents, rules, people, emailTemplates, jobs] = await Promise.all([
+    candidateRepository.list(),
+    taskRepository.list(),
+    documentRepository.list(),
+    documentRequirementRepository.list(),
+    personRepository.list(),
+    emailTemplateRepository.list(),
+    reminderJobRepository.list(),
+  ])
+  const jobsByKey = new Map(jobs.map(job => [job.key, job]))
+  const candidatesById = new Map(candidates.map(candidate => [candidate.id, candidate]))
+
+  const planned = planReminders({ candidates, tasks, documents, rules, people, emailTemplates }, date, getReminderSettings())
+  const reminders: ReminderRunEntry[] = []
+
+  for (const reminder of planned) {
+    const { key, kind, candidateId, taskId, to, subject } = reminder
+    const entry = { key, kind, candidateId, ...(taskId && { taskId }), to, subject }
+    const job = jobsByKey.get(key)
+
+    if (job?.status === 'sent') {
+      reminders.push({ ...entry, outcome: 'already_sent' })
+    } else if (reminder.skipReason) {
+      reminders.push({ ...entry, outcome: 'skipped', reason: reminder.skipReason })
+    } else if (job && job.attempts >= MAX_REMINDER_ATTEMPTS) {
+      reminders.push({ ...entry, outcome: 'skipped', reason: `Gave up after ${job.attempts} failed attempts: ${job.error}` })
+    } else if (dryRun) {
+      reminders.push({ ...entry, outcome: 'would_send' })
+    } else {
+      const delivery = await send(reminder, candidatesById.get(candidateId)!)
+      const record: Omit<ReminderJob, 'id'> = {
+        ...entry,
+        status: delivery.status,
+        attempts: (job?.attempts || 0) + 1,
+        runDate: date,
+        lastAttemptAt: delivery.at,
+        messageId: delivery.messageId,
+        error: delivery.error,
+      }
+      if (job) {
+        await reminderJobRepository.update(job.id, record)
+      } else {
+        await reminderJobRepository.create(record)
+      }
+      reminders.push({ ...entry, outcome: delivery.status, ...(delivery.error && { reason: delivery.error }) })
+    }
+  }
+
+  return {
+    date,
+    dryRun,
+    reminders,
+    sent: reminders.filter(entry => entry.outcome === 'sent').length,
+    failed: reminders.filter(entry => entry.outcome === 'failed').length,
+  }
+}
+
+let queue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Send the reminders due on the date that were not sent yet (or only report them on a dry run)
+ */
+export function runReminders(options: ReminderRunOptions = {}): Promise<ReminderRunResult> {
+  const run = queue.then(() => execute(options))
+  queue = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * Run the reminders and the document expiry check once in every minute the cron expression matches
+ *
+ * @returns a function that stops the schedule
+ * @throws Error when the expression is invalid
+ */
+export function startReminderScheduler(expression: string): () => void {
+  const schedule = parseCron(expression)
+  let lastMinute = ''
+
+  const timer = setInterval(() => {
+    const now = new Date()
+    const minute = now.toISOString().slice(0, 16)
+    if (minute === lastMinute || !cronMatches(schedule, now)) return
+    lastMinute = minute
+
+    runReminders({ date: localDate(now) })
+      .then(result => console.info(`Reminder run for ${result.date}: ${result.sent} sent, ${result.failed} failed`))
+      .catch(error => console.error('Reminder run failed:', error))
+    runExpiryCheck()
+      .then(result => console.info(`Document expiry check: ${result.documents.length} flagged, ${result.expiring} expired or expiring`))
+      .catch(error => console.error('Document expiry check failed:', error))
+  }, 15_000)
+  timer.unref()
+
+  console.info(`Reminder scheduler started (${expression})`)
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,75 @@
+import { planReminders, type ReminderData } from './reminders'
+import { DEFAULT_EMAIL_TEMPLATES } from './emailTemplates'
+import { DEFAULT_REQUIREMENT_RULES } from './documentRequirements'
+import { describe, it, expect } from 'vitest'
+import type { Candidate, OnboardingTask, Person } from '@/types'
+
+const manager: Person = { id: 'john-smith', name: 'John Smith', email: 'john.smith@company.com', title: 'Engineering Manager' }
+const itSupport: Person = { id: 'priya-patel', name: 'Priya Patel', email: 'priya.patel@company.com', title: 'IT Support' }
+
+function candidate(id: string, startDate: string, status = 'welcome_sent'): Candidate {
+  return {
+    id, name: `Candidate ${id}`, email: `${id}@example.com`, role: 'Designer', department: 'Product',
+    startDate, status, progress: 0, managerId: manager.id,
+  }
+}
+
+function task(id: string, dueDate: string, assigneeId?: string, status: OnboardingTask['status'] = 'pending'): OnboardingTask {
+  return { id, candidateId: 'c1', title: `Task ${id}`, department: 'IT', assignee: 'IT Support Team', assigneeId, dueDate, priority: 'medium', status }
+}
+
+function data(overrides: Partial<ReminderData>): ReminderData {
+  return { candidates: [], tasks: [], documents: [], rules: DEFAULT_REQUIREMENT_RULES, people: [manager, itSupport], emailTemplates: DEFAULT_EMAIL_TEMPLATES, ...overrides }
+}
+
+describe('planReminders', () => {
+  it('nudges candidates about missing documents and sends the first-day email before the start date', () => {
+    const candidates = [
+      candidate('c1', '2025-03-15'), // 5 days away: document reminder
+      candidate('c2', '2025-03-11'), // tomorrow: document reminder and first-day email
+      candidate('c3', '2025-04-30'), // too far away
+      candidate('c4', '2025-03-11', 'completed'), // done onboarding
+    ]
+
+    const reminders = planReminders(data({ candidates }), '2025-03-10')
+
+    expect(reminders.map(r => [r.key, r.to])).toEqual([
+      ['document_reminder:c1', 'c1@example.com'],
+      ['document_reminder:c2', 'c2@example.com'],
+      ['first_day_email:c2', 'c2@example.com'],
+    ])
+    expect(reminders[0].subject).toBe('Reminder: documents needed before 2025-03-15')
+    expect(reminders[0].body).toContain('Government ID, Tax Forms, Direct Deposit Info, Emergency Contact')
+    expect(reminders.every(r => !r.skipReason)).toBe(true)
+  })
+
+  it('reminds assignees of open tasks due tomorrow', () => {
+    const tasks = [
+      task('t1', '2025-03-11', itSupport.id),
+      task('t2', '2025-03-11'), // not in the directory
+      task('t3', '2025-03-11', itSupport.id, 'completed'),
+      task('t4', '2025-03-12', itSupport.id),
+    ]
+
+    const reminders = planReminders(data({ candidates: [candidate('c1', '2025-05-01')], tasks }), '2025-03-10')
+
+    expect(reminders.map(r => [r.key, r.to, r.skipReason])).toEqual([
+      ['task_due:t1:2025-03-11', 'priya.patel@company.com', undefined],
+      ['task_due:t2:2025-03-11', '', 'IT Support Team is not in the people directory'],
+    ])
+    expect(reminders[0].subject).toBe('Reminder: "Task t1" is due tomorrow')
+  })
+
+  it('skips candidate emails without a template or with variables that have no value', () => {
+    const noManager = { ...candidate('c1', '2025-03-11'), managerId: undefined }
+    const reminders = planReminders(
+      data({ candidates: [noManager], emailTemplates: DEFAULT_EMAIL_TEMPLATES.filter(t => t.purpose !== 'document_reminder') }),
+      '2025-03-10'
+    )
+
+    expect(reminders.map(r => [r.key, r.skipReason])).toEqual([
+      ['document_reminder:c1', 'No email template with purpose document_reminder'],
+      ['first_day_email:c1', 'First-day logistics has no value for {{manager_name}}, {{manager_email}}'],
+    ])
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Scheduled Reminders
+ *
+ * What the reminder scheduler sends on a given day (see utils/reminderRunner.ts):
+ * - document_reminder - candidates still missing required documents, once, within
+ *                       REMINDER_DOCUMENT_DAYS (default 7) days before their start date
+ * - task_due          - the assignee of every open task due tomorrow (assignees must be in
+ *                       the people directory, which has their email)
+ * - first_day_email   - the first-day logistics email, once, REMINDER_FIRST_DAY_EMAIL_DAYS
+ *                       (default 1) days before the start date
+ * Candidate emails use the email template for the occasion (purpose document_reminder or
+ * first_day); candidates who finished onboarding get nothing.
+ *
+ * IDEMPOTENCY:
+ * Every reminder has a key (kind + candidate or task + due date). The runner records each
+ * key it sends in the reminder_jobs collection and never sends a key twice, so it can run
+ * as often as needed; a rescheduled task gets a new key and a new reminder. A reminder
+ * missed on its day (server down) still goes out while it is within its window.
+ */
+
+import { addDays } from './taskDependencies'
+import { candidateTemplateValues, renderEmailTemplate } from './emailTemplates'
+import { getManager } from './directory'
+import { missingDocuments } from './progress'
+import { resolveRequiredDocuments } from './documentRequirements'
+import { getCandidateWorkflow, isFinalStage } from './workflow'
+import type {
+  Candidate,
+  Document,
+  DocumentRequirementRule,
+  EmailTemplate,
+  EmailTemplatePurpose,
+  OnboardingTask,
+  Person,
+  ReminderKind,
+} from '@/types'
+
+export interface ReminderSettings {
+  // Document reminders go out once the start date is this many days away or less
+  documentReminderDays: number
+  // The first-day email goes out this many days before the start date
+  firstDayEmailDays: number
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = { documentReminderDays: 7, firstDayEmailDays: 1 }
+
+// Failed reminders are retried by later runs up to this many attempts in total
+export const MAX_REMINDER_ATTEMPTS = 3
+
+export interface ReminderData {
+  candidates: Candidate[]
+  tasks: OnboardingTask[]
+  documents: Document[]
+  rules: DocumentRequirementRule[]
+  people: Person[]
+  emailTemplates: EmailTemplate[]
+}
+
+export interface PlannedReminder {
+  key: string
+  kind: ReminderKind
+  candidateId: string
+  taskId?: string
+  templateId?: string
+  to: string
+  subject: string
+  body: string
+  // Why it cannot be sent (no template, a variable without a value, assignee not in the directory)
+  skipReason?: string
+}
+
+export type ReminderOutcome = 'sent' | 'failed' | 'skipped' | 'already_sent' | 'would_send'
+
+export interface ReminderRunEntry {
+  key: string
+  kind: ReminderKind
+  candidateId: string
+  taskId?: string
+  to: string
+  subject: string
+  outcome: ReminderOutcome
+  // Why it was skipped or failed
+  reason?: string
+}
+
+// What a run of the scheduler did (or, on a dry run, would do)
+export interface ReminderRunResult {
+  date: string
+  dryRun: boolean
+  reminders: ReminderRunEntry[]
+  sent: number
+  failed: number
+}
+
+export function getReminderSettings(): ReminderSettings {
+  const days = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value)
+    return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback
+  }
+  return {
+    documentReminderDays: days(process.env.REMINDER_DOCUMENT_DAYS, DEFAULT_REMINDER_SETTINGS.documentReminderDays),
+    firstDayEmailDays: days(process.env.REMINDER_FIRST_DAY_EMAIL_DAYS, DEFAULT_REMINDER_SETTINGS.firstDayEmailDays),
+  }
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86_400_000)
+}
+
+// A candidate email from the first template for the occasion
+function candidateReminder(
+  kind: ReminderKind,
+  purpose: EmailTemplatePurpose,
+  candidate: Candidate,
+  data: ReminderData,
+  missing: string[]
+): PlannedReminder {
+  const reminder = { key: `${kind}:${candidate.id}`, kind, candidateId: candidate.id, to: candidate.email }
+  const template = data.emailTemplates.find(t => t.purpose === purpose)
+  if (!template) {
+    return { ...reminder, subject: '', body: '', skipReason: `No email template with purpose ${purpose}` }
+  }
+
+  const rendered = renderEmailTemplate(
+    template,
+    candidateTemplateValues(candidate, { manager: getManager(candidate, data.people), missingDocuments: missing })
+  )
+  return {
+    ...reminder,
+    templateId: template.id,
+    subject: rendered.subject,
+    body: rendered.body,
+    ...(rendered.missing.length > 0 && {
+      skipReason: `${template.name} has no value for ${rendered.missing.map(name => `{{${name}}}`).join(', ')}`,
+    }),
+  }
+}
+
+function taskDueReminder(task: OnboardingTask, candidate: Candidate, people: Person[]): PlannedReminder {
+  const assignee = people.find(person => person.id === task.assigneeId)
+  return {
+    key: `task_due:${task.id}:${task.dueDate}`,
+    kind: 'task_due',
+    candidateId: candidate.id,
+    taskId: task.id,
+    to: assignee?.email || '',
+    subject: `Reminder: "${task.title}" is due tomorrow`,
+    body:
+      `Hi ${assignee?.name || task.assignee},\n\n` +
+      `"${task.title}" for ${candidate.name} (${candidate.role}, starting ${candidate.startDate}) is due tomorrow, ${task.dueDate}.\n\n` +
+      'Please complete it or update its due date in the onboarding app.',
+    ...(!assignee && { skipReason: `${task.assignee || 'The assignee'} is not in the people directory` }),
+  }
+}
+
+/**
+ * The reminders due on `date` (YYYY-MM-DD), whether or not they were sent already
+ */
+export function planReminders(
+  data: ReminderData,
+  date: string,
+  settings: ReminderSettings = DEFAULT_REMINDER_SETTINGS
+): PlannedReminder[] {
+  const reminders: PlannedReminder[] = []
+  const tomorrow = addDays(date, 1)
+
+  for (const candidate of data.candidates) {
+    if (isFinalStage(getCandidateWorkflow(candidate), candidate.status)) continue
+    const daysToStart = daysBetween(date, candidate.startDate)
+
+    if (daysToStart > 0 && daysToStart <= settings.documentReminderDays) {
+      const missing = missingDocuments(candidate, data.documents, resolveRequiredDocuments(candidate, data.rules))
+      if (missing.length > 0) {
+        reminders.push(candidateReminder('document_reminder', 'document_reminder', candidate, data, missing))
+      }
+    }
+
+    if (daysToStart >= 0 && daysToStart <= settings.firstDayEmailDays) {
+      reminders.push(candidateReminder('first_day_email', 'first_day', candidate, data, []))
+    }
+
+    for (const task of data.tasks) {
+      if (task.candidateId === candidate.id && task.status !== 'completed' && task.dueDate === tomorrow) {
+        reminders.push(taskDueReminder(task, candidate, data.people))
+      }
+    }
+  }
+  return reminders
+}
@@ -0,0 +1,124 @@
+/**
+ * Onboarding Repositories
+ *
+ * One repository per onboarding collection, backed by the file store.
+ * Seed records give a fresh install the same demo pipeline the UI used to hard-code.
+ */
+
+import { createRepository } from './store'
+import { DEFAULT_REQUIREMENT_RULES } from './documentRequirements'
+import { DEFAULT_TASK_TEMPLATES } from './taskTemplates'
+import { DEFAULT_PEOPLE, DEFAULT_TEAMS } from './directory'
+import { DEFAULT_EMAIL_TEMPLATES } from './emailTemplates'
+import { DEFAULT_CHANNEL_MAPPINGS } from './taskChannels'
+import type {
+  Candidate,
+  ChannelMapping,
+  ChatNotification,
+  Document,
+  DocumentRequirementRule,
+  EmailTemplate,
+  OnboardingTask,
+  Person,
+  RedactionRecord,
+  ReminderJob,
+  SentEmail,
+  TaskActivity,
+  TaskAttachment,
+  TaskComment,
+  TaskTemplate,
+  Team,
+  WebhookDelivery,
+} from '@/types'
+
+const SEED_CANDIDATES: Candidate[] = [
+  {
+    id: '1',
+    name: 'Sarah Johnson',
+    email: 'sarah.johnson@email.com',
+    role: 'Product Manager',
+    department: 'Product',
+    startDate: '2024-02-20',
+    status: 'documents_received',
+    progress: 65,
+    managerId: 'john-smith'
+  },
+  {
+    id: '2',
+    name: 'Michael Chen',
+    email: 'michael.chen@email.com',
+    role: 'Software Engineer',
+    department: 'Engineering',
+    startDate: '2024-02-15',
+    status: 'welcome_sent',
+    progress: 40,
+    managerId: 'jane-doe'
+  }
+]
+
+const SEED_TASKS: OnboardingTask[] = [
+  {
+    id: '1',
+    candidateId: '1',
+    title: 'Setup laptop and development environment',
+    department: 'IT',
+    assignee: 'Priya Patel',
+    assigneeId: 'priya-patel',
+    dueDate: '2024-02-19',
+    priority: 'high',
+    status: 'completed'
+  },
+  {
+    id: '2',
+    candidateId: '1',
+    title: 'Prepare team introduction meeting',
+    department: 'Product',
+    assignee: 'John Smith',
+    assigneeId: 'john-smith',
+    dueDate: '2024-02-20',
+    priority: 'medium',
+    status: 'pending'
+  }
+]
+
+export const candidateRepository = createRepository<Candidate>('candidates', { seed: SEED_CANDIDATES })
+
+export const taskRepository = createRepository<OnboardingTask>('tasks', { seed: SEED_TASKS })
+
+// Append-only: entries are never updated, only removed with their task
+export const taskActivityRepository = createRepository<TaskActivity>('task_activity')
+
+export const taskCommentRepository = createRepository<TaskComment>('task_comments')
+
+export const taskAttachmentRepository = createRepository<TaskAttachment>('task_attachments')
+
+export const taskTemplateRepository = createRepository<TaskTemplate>('task_templates', { seed: DEFAULT_TASK_TEMPLATES })
+
+export const personRepository = createRepository<Person>('people', { seed: DEFAULT_PEOPLE })
+
+export const teamRepository = createRepository<Team>('teams', { seed: DEFAULT_TEAMS })
+
+export const emailTemplateRepository = createRepository<EmailTemplate>('email_templates', { seed: DEFAULT_EMAIL_TEMPLATES })
+
+// Every email sent (or attempted) to a candidate
+export const emailLogRepository = createRepository<SentEmail>('email_log')
+
+export const channelMappingRepository = createRepository<ChannelMapping>('channel_mappings', { seed: DEFAULT_CHANNEL_MAPPINGS })
+
+// Posts of new tasks to chat channels
+export const chatNotificationRepository = createRepository<ChatNotification>('chat_notifications')
+
+// Reminders sent by the scheduler, keyed for idempotency (see utils/reminderRunner.ts)
+export const reminderJobRepository = createRepository<ReminderJob>('reminder_jobs')
+
+// Inbound status updates already applied, kept for replay protection (see utils/taskWebhooks.ts)
+export const webhookDeliveryRepository = createRepository<WebhookDelivery>('webhook_deliveries')
+
+export const documentRepository = createRepository<Document>('documents')
+
+export const documentRequirementRepository = createRepository<DocumentRequirementRule>('document_requirements', {
+  seed: DEFAULT_REQUIREMENT_RULES,
+})
+
+// Never holds the redacted values themselves, only where they were found
+export const redactionLogRepository = createRepository<RedactionRecord>('redaction_log')
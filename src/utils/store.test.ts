@@ -0,0 +1,66 @@
+import { createRepository } from './store'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+interface Note {
+  id: string
+  text: string
+  owner?: string
+}
+
+describe('createRepository', () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), 'onboarding-store-'))
+    process.env.ONBOARDING_DATA_DIR = dataDir
+  })
+
+  afterEach(() => {
+    delete process.env.ONBOARDING_DATA_DIR
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('writes seed data on first access', async () => {
+    const notes = createRepository<Note>('notes', { seed: [{ id: 'seed', text: 'Seeded' }] })
+
+    expect(await notes.list()).toEqual([{ id: 'seed', text: 'Seeded' }])
+    expect(JSON.parse(readFileSync(path.join(dataDir, 'notes.json'), 'utf8'))).toHaveLength(1)
+  })
+
+  it('persists creates and updates across repository instances', async () => {
+    const notes = createRepository<Note>('notes')
+    const created = await notes.create({ text: 'Hello' })
+    await notes.update(created.id, { text: 'Updated' })
+
+    const reopened = createRepository<Note>('notes')
+    expect(await reopened.get(created.id)).toEqual({ id: created.id, text: 'Updated' })
+  })
+
+  it('filters by field values and removes matching records', async () => {
+    const notes = createRepository<Note>('notes')
+    await notes.createMany([
+      { text: 'a', owner: 'hr' },
+      { text: 'b', owner: 'it' },
+      { text: 'c', owner: 'hr' },
+    ])
+
+    expect(await notes.list({ owner: 'hr' })).toHaveLength(2)
+    expect(await notes.removeWhere({ owner: 'hr' })).toBe(2)
+    expect((await notes.list()).map(n => n.text)).toEqual(['b'])
+  })
+
+  it('does not lose concurrent writes', async () => {
+    const notes = createRepository<Note>('notes')
+    await Promise.all(Array.from({ length: 20 }, (_, i) => notes.create({ text: `note-${i}` })))
+
+    expect(await notes.list()).toHaveLength(20)
+  })
+
+  it('returns null when updating a missing record', async () => {
+    const notes = createRepository<Note>('notes')
+    expect(await notes.update('missing', { text: 'x' })).toBeNull()
+  })
+})
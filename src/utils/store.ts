@@ -0,0 +1,154 @@
+/**
+ * File-backed JSON Store
+ *
+ * Server-side persistence for the onboarding pipeline. Every collection is a
+ * single JSON file under the data directory, so the store needs no database
+ * server and survives restarts. Only import this from API routes - it uses `fs`.
+ *
+ * CONFIGURATION:
+ * - ONBOARDING_DATA_DIR: directory holding the collection files (default: ./.data)
+ *
+ * GUARANTEES:
+ * - Writes are atomic (temp file + rename), so a crash never leaves half a file
+ * - Read-modify-write cycles are serialized per collection within the process
+ * - Missing collections are created from their seed data on first access
+ *
+ * @example
+ * ```ts
+ * const notes = createRepository<Note>('notes')
+ * const note = await notes.create({ text: 'Hello' })
+ * await notes.update(note.id, { text: 'Updated' })
+ * ```
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+
+export interface Entity {
+  id: string
+}
+
+export type NewEntity<T extends Entity> = Omit<T, 'id'> & { id?: string }
+
+export type EntityFilter<T> = Partial<T> | ((item: T) => boolean)
+
+export interface Repository<T extends Entity> {
+  list(filter?: EntityFilter<T>): Promise<T[]>
+  get(id: string): Promise<T | null>
+  create(data: NewEntity<T>): Promise<T>
+  createMany(data: NewEntity<T>[]): Promise<T[]>
+  update(id: string, patch: Partial<Omit<T, 'id'>>): Promise<T | null>
+  remove(id: string): Promise<boolean>
+  removeWhere(filter: EntityFilter<T>): Promise<number>
+}
+
+/**
+ * Directory holding the collection files (read on every call so tests can point it elsewhere)
+ */
+export function getDataDir(): string {
+  return process.env.ONBOARDING_DATA_DIR || path.join(process.cwd(), '.data')
+}
+
+function collectionPath(collection: string): string {
+  return path.join(getDataDir(), `${collection}.json`)
+}
+
+// One promise chain per collection file keeps concurrent requests from losing updates
+const locks = new Map<string, Promise<unknown>>()
+
+function withLock<R>(key: string, fn: () => Promise<R>): Promise<R> {
+  const previous = locks.get(key) || Promise.resolve()
+  const next = previous.catch(() => undefined).then(fn)
+  locks.set(key, next)
+  return next
+}
+
+async function writeCollection<T>(collection: string, items: T[]): Promise<void> {
+  const file = collectionPath(collection)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+
+  const tmpFile = `${file}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tmpFile, JSON.stringify(items, null, 2), 'utf8')
+  await fs.rename(tmpFile, file)
+}
+
+async function readCollection<T>(collection: string, seed: T[]): Promise<T[]> {
+  try {
+    const text = await fs.readFile(collectionPath(collection), 'utf8')
+    const parsed = JSON.parse(text)
+    return Array.isArray(parsed) ? parsed : []
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      // First access: materialize the seed data so every coordinator sees the same records
+      const initial = structuredClone(seed)
+      await writeCollection(collection, initial)
+      return initial
+    }
+    throw error
+  }
+}
+
+function matches<T>(item: T, filter?: EntityFilter<T>): boolean {
+  if (!filter) return true
+  if (typeof filter === 'function') return filter(item)
+  return Object.entries(filter).every(([key, value]) => value === undefined || (item as any)[key] === value)
+}
+
+/**
+ * Create a repository for one collection
+ *
+ * @param collection - File name (without extension) inside the data directory
+ * @param options - Optional seed records written when the collection does not exist yet
+ */
+export function createRepository<T extends Entity>(
+  collection: string,
+  options: { seed?: T[] } = {}
+): Repository<T> {
+  const seed = options.seed || []
+  const read = () => readCollection<T>(collection, seed)
+
+  const createMany = (data: NewEntity<T>[]) =>
+    withLock(collection, async () => {
+      const items = await read()
+      const created = data.map(entry => ({ ...entry, id: entry.id || randomUUID() }) as T)
+      await writeCollection(collection, [...items, ...created])
+      return created
+    })
+
+  const removeWhere = (filter: EntityFilter<T>) =>
+    withLock(collection, async () => {
+      const items = await read()
+      const kept = items.filter(item => !matches(item, filter))
+      if (kept.length !== items.length) {
+        await writeCollection(collection, kept)
+      }
+      return items.length - kept.length
+    })
+
+  return {
+    list: filter => withLock(collection, async () => (await read()).filter(item => matches(item, filter))),
+
+    get: id => withLock(collection, async () => (await read()).find(item => item.id === id) || null),
+
+    create: async data => (await createMany([data]))[0],
+
+    createMany,
+
+    update: (id, patch) =>
+      withLock(collection, async () => {
+        const items = await read()
+        const index = items.findIndex(item => item.id === id)
+        if (index === -1) return null
+
+        const updated = { ...items[index], ...patch, id } as T
+        items[index] = updated
+        await writeCollection(collection, items)
+        return updated
+      }),
+
+    remove: async id => (await removeWhere(item => item.id === id)) > 0,
+
+    removeWhere,
+  }
+}
@@ -0,0 +1,41 @@
+import { buildCommentThreads, describeTaskChanges, taskCommentSchema } from './taskActivity'
+import { describe, it, expect } from 'vitest'
+import type { OnboardingTask, TaskComment } from '@/types'
+
+describe('describeTaskChanges', () => {
+  it('records status, assignee and due-date changes only', () => {
+    const before: OnboardingTask = {
+      id: 't1', candidateId: 'c1', title: 'Ship laptop', department: 'IT', assignee: 'IT Support Team',
+      dueDate: '2025-04-01', priority: 'high', status: 'pending',
+    }
+    const after = { ...before, title: 'Ship laptop (15")', assignee: 'Priya Patel', dueDate: '2025-04-03' }
+
+    expect(describeTaskChanges(before, after, 'Priya Patel', '2025-03-28T10:00:00Z')).toEqual([
+      { taskId: 't1', candidateId: 'c1', type: 'assignee_changed', actor: 'Priya Patel', at: '2025-03-28T10:00:00Z', from: 'IT Support Team', to: 'Priya Patel' },
+      { taskId: 't1', candidateId: 'c1', type: 'due_date_changed', actor: 'Priya Patel', at: '2025-03-28T10:00:00Z', from: '2025-04-01', to: '2025-04-03' },
+    ])
+    expect(describeTaskChanges(before, { ...before }, 'Priya Patel')).toEqual([])
+  })
+})
+
+describe('comments', () => {
+  it('nests replies under their parent, oldest first', () => {
+    const comment = (id: string, createdAt: string, parentId?: string): TaskComment => ({
+      id, taskId: 't1', candidateId: 'c1', author: 'Marcus Lee', body: `Comment ${id}`, createdAt, parentId,
+    })
+
+    const threads = buildCommentThreads([
+      comment('reply', '2025-03-28T11:00:00Z', 'first'),
+      comment('second', '2025-03-28T10:30:00Z'),
+      comment('first', '2025-03-28T10:00:00Z'),
+      comment('orphan', '2025-03-28T12:00:00Z', 'deleted'),
+    ])
+
+    expect(threads.map(t => [t.comment.id, t.replies.map(r => r.comment.id)])).toEqual([
+      ['first', ['reply']],
+      ['second', []],
+      ['orphan', []],
+    ])
+    expect(taskCommentSchema.safeParse({ author: 'Marcus Lee', body: '   ' }).success).toBe(false)
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * Task Activity and Comments
+ *
+ * ACTIVITY:
+ * An append-only history per task: status, assignee and due-date changes (board moves,
+ * edits) and escalations, each with who made it and when. Entries are never edited; they
+ * are only removed together with their task.
+ *
+ * COMMENTS:
+ * Assignees note progress on a task ("laptop shipped, tracking #..."). A comment may reply to
+ * another comment of the same task; buildCommentThreads() nests replies under their parent.
+ */
+
+import { z } from 'zod'
+import type { OnboardingTask, TaskActivity, TaskComment } from '@/types'
+
+export const MAX_COMMENT_LENGTH = 5000
+
+export const taskCommentSchema = z.object({
+  author: z.string().trim().min(1, 'author is required'),
+  body: z.string().trim().min(1, 'body is required').max(MAX_COMMENT_LENGTH, `body must be at most ${MAX_COMMENT_LENGTH} characters`),
+  parentId: z
+    .string()
+    .trim()
+    .optional()
+    .transform(value => value || undefined),
+})
+
+export type TaskCommentInput = z.input<typeof taskCommentSchema>
+
+export interface CommentThread {
+  comment: TaskComment
+  replies: CommentThread[]
+}
+
+type TrackedTask = Pick<OnboardingTask, 'id' | 'candidateId' | 'status' | 'assignee' | 'dueDate'>
+
+/**
+ * Activity entries for the tracked fields an edit changed
+ */
+export function describeTaskChanges(
+  before: TrackedTask,
+  after: TrackedTask,
+  actor: string,
+  at: string = new Date().toISOString()
+): Omit<TaskActivity, 'id'>[] {
+  const changes: [TaskActivity['type'], string, string][] = [
+    ['status_changed', before.status, after.status],
+    ['assignee_changed', before.assignee, after.assignee],
+    ['due_date_changed', before.dueDate, after.dueDate],
+  ]
+
+  return changes
+    .filter(([, from, to]) => (from || '') !== (to || ''))
+    .map(([type, from, to]) => ({ taskId: before.id, candidateId: before.candidateId, type, actor, at, from, to }))
+}
+
+/**
+ * Top-level comments oldest first, each with its replies (also oldest first); replies to a
+ * missing comment are shown at the top level
+ */
+export function buildCommentThreads(comments: TaskComment[]): CommentThread[] {
+  const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  const threads = new Map(sorted.map(comment => [comment.id, { comment, replies: [] as CommentThread[] }]))
+
+  const roots: CommentThread[] = []
+  for (const comment of sorted) {
+    const thread = threads.get(comment.id)!
+    const parent = comment.parentId ? threads.get(comment.parentId) : undefined
+    if (parent && parent !== thread) {
+      parent.replies.push(thread)
+    } else {
+      roots.push(thread)
+    }
+  }
+  return roots
+}
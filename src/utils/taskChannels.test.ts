@@ -0,0 +1,43 @@
+import { DEFAULT_CHANNEL_MAPPINGS, channelMappingSchema, formatTaskMessage, routeTasks } from './taskChannels'
+import { describe, it, expect } from 'vitest'
+import type { Candidate, OnboardingTask } from '@/types'
+
+const candidate: Candidate = {
+  id: 'c1', name: 'Sarah Johnson', email: 'sarah@example.com', role: 'Software Engineer',
+  department: 'Engineering', startDate: '2025-04-01', status: 'tasks_assigned', progress: 0,
+}
+
+function task(id: string, department: string, title = `Task ${id}`): OnboardingTask {
+  return { id, candidateId: 'c1', title, department, assignee: 'IT Support Team', dueDate: '2025-03-27', priority: 'high', status: 'pending' }
+}
+
+describe('routeTasks', () => {
+  it('groups tasks by their department channel, in mapping order', () => {
+    const { routes, unmapped } = routeTasks(
+      [task('1', 'facilities'), task('2', 'IT'), task('3', 'Legal'), task('4', 'IT')],
+      DEFAULT_CHANNEL_MAPPINGS
+    )
+
+    expect(routes.map(route => [route.mapping.channel, route.tasks.map(t => t.id)])).toEqual([
+      ['#it-requests', ['2', '4']],
+      ['#facilities', ['1']],
+    ])
+    expect(unmapped.map(t => t.id)).toEqual(['3'])
+  })
+
+  it('validates channels and webhook URLs', () => {
+    expect(channelMappingSchema.safeParse({ department: 'IT', channel: 'it-requests' }).success).toBe(false)
+    expect(channelMappingSchema.safeParse({ department: 'IT', channel: '#it', webhookUrl: 'hooks.slack.com' }).success).toBe(false)
+    expect(channelMappingSchema.parse({ department: ' IT ', channel: '#it-requests', webhookUrl: '' })).toEqual({ department: 'IT', channel: '#it-requests' })
+  })
+})
+
+describe('formatTaskMessage', () => {
+  it('lists the tasks and escapes user text', () => {
+    const message = formatTaskMessage(candidate, [task('1', 'IT', 'Order <laptop> & <!channel> dock')], '#it-requests')
+
+    expect(message.channel).toBe('#it-requests')
+    expect(message.text).toBe('New onboarding tasks for Sarah Johnson (Software Engineer, starts 2025-04-01): Order &lt;laptop&gt; &amp; &lt;!channel&gt; dock')
+    expect(message.blocks[1].text.text).toBe('• *Order &lt;laptop&gt; &amp; &lt;!channel&gt; dock* - due 2025-03-27, high priority, IT Support Team')
+  })
+})
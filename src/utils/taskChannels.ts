@@ -0,0 +1,117 @@
+/**
+ * Task Channels
+ *
+ * New tasks are posted to the chat channel of their department (#it-requests for IT, ...)
+ * through Slack-compatible incoming webhooks (see utils/chatWebhook.ts). HR edits the
+ * department -> channel mappings; each mapping may have its own webhook URL, otherwise the
+ * default webhook posts with a `channel` override. Tasks of departments without a mapping
+ * are not posted.
+ *
+ * Messages carry a plain `text` fallback and Block Kit sections; user text is escaped so a
+ * task title cannot mention @channel or inject links.
+ */
+
+import { z } from 'zod'
+import type { Candidate, ChannelMapping, OnboardingTask } from '@/types'
+
+export const channelMappingSchema = z.object({
+  department: z.string().trim().min(1, 'department is required'),
+  channel: z
+    .string()
+    .trim()
+    .regex(/^#[a-z0-9][a-z0-9._-]*$/, 'channel must look like #channel-name (lowercase)'),
+  // '' removes the mapping's own webhook when it is edited
+  webhookUrl: z
+    .string()
+    .trim()
+    .optional()
+    .transform(value => value || undefined)
+    .refine(value => !value || /^https?:\/\/\S+$/.test(value), 'webhookUrl must be an http(s) URL'),
+})
+
+export type ChannelMappingInput = z.input<typeof channelMappingSchema>
+
+// Mappings as the API returns them: webhook URLs are secrets, so only whether one is set
+export type ChannelMappingView = Omit<ChannelMapping, 'webhookUrl'> & { webhookConfigured: boolean }
+
+// Seed mappings: the channels the task generation agent is told about
+export const DEFAULT_CHANNEL_MAPPINGS: ChannelMapping[] = [
+  { id: 'it', department: 'IT', channel: '#it-requests' },
+  { id: 'facilities', department: 'Facilities', channel: '#facilities' },
+  { id: 'hr', department: 'HR', channel: '#hr-onboarding' },
+  { id: 'engineering', department: 'Engineering', channel: '#engineering-team' },
+]
+
+export interface ChatMessage {
+  channel: string
+  text: string
+  blocks: { type: 'section'; text: { type: 'mrkdwn'; text: string } }[]
+}
+
+// Outcome of posting a candidate's tasks to one channel
+export interface ChannelNotificationResult {
+  department: string
+  channel: string
+  taskIds: string[]
+  status: 'sent' | 'failed' | 'skipped'
+  error?: string
+}
+
+export interface TaskRoute {
+  mapping: ChannelMapping
+  tasks: OnboardingTask[]
+}
+
+export function toChannelMappingView({ webhookUrl, ...mapping }: ChannelMapping): ChannelMappingView {
+  return { ...mapping, webhookConfigured: Boolean(webhookUrl) }
+}
+
+export function findChannelMapping<T extends Pick<ChannelMapping, 'department'>>(department: string, mappings: T[]): T | undefined {
+  const key = department.trim().toLowerCase()
+  return mappings.find(mapping => mapping.department.trim().toLowerCase() === key)
+}
+
+/**
+ * Tasks grouped by the channel of their department, in mapping order
+ */
+export function routeTasks(tasks: OnboardingTask[], mappings: ChannelMapping[]): { routes: TaskRoute[]; unmapped: OnboardingTask[] } {
+  const routes = new Map<string, TaskRoute>()
+  const unmapped: OnboardingTask[] = []
+
+  for (const task of tasks) {
+    const mapping = findChannelMapping(task.department, mappings)
+    if (!mapping) {
+      unmapped.push(task)
+      continue
+    }
+    if (!routes.has(mapping.id)) routes.set(mapping.id, { mapping, tasks: [] })
+    routes.get(mapping.id)!.tasks.push(task)
+  }
+
+  const order = new Map(mappings.map((mapping, index) => [mapping.id, index]))
+  return { routes: Array.from(routes.values()).sort((a, b) => order.get(a.mapping.id)! - order.get(b.mapping.id)!), unmapped }
+}
+
+/**
+ * Escape Slack's control characters (&, <, >) so user text is shown literally
+ */
+export function escapeChatText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export function formatTaskMessage(candidate: Candidate, tasks: OnboardingTask[], channel: string): ChatMessage {
+  const heading = `New onboarding tasks for ${candidate.name} (${candidate.role}, starts ${candidate.startDate})`
+  const lines = tasks.map(task =>
+    `• *${escapeChatText(task.title)}* - due ${task.dueDate || 'unscheduled'}, ${task.priority} priority, ` +
+    escapeChatText(task.assignee || 'unassigned')
+  )
+
+  return {
+    channel,
+    text: escapeChatText(`${heading}: ${tasks.map(task => task.title).join(', ')}`),
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: `*${escapeChatText(heading)}*` } },
+      { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } },
+    ],
+  }
+}
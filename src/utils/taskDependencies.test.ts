@@ -0,0 +1,59 @@
+import { blockingTasks, resolveDependencyReferences, scheduleTasks, TaskDependencyError, validateDependencies } from './taskDependencies'
+import { describe, it, expect } from 'vitest'
+import type { OnboardingTask } from '@/types'
+
+function task(id: string, extra: Partial<OnboardingTask> = {}): OnboardingTask {
+  return {
+    id,
+    candidateId: 'c1',
+    title: id,
+    department: 'IT',
+    assignee: '',
+    dueDate: '',
+    priority: 'medium',
+    status: 'pending',
+    ...extra,
+  }
+}
+
+describe('validateDependencies', () => {
+  it('rejects cycles and dependencies on other candidates\' tasks', () => {
+    const cyclic = [task('email', { dependsOn: ['slack'] }), task('slack', { dependsOn: ['laptop'] }), task('laptop', { dependsOn: ['email'] })]
+    expect(() => validateDependencies(cyclic)).toThrow(TaskDependencyError)
+    try {
+      validateDependencies(cyclic)
+    } catch (error) {
+      expect((error as TaskDependencyError).code).toBe('DEPENDENCY_CYCLE')
+      expect((error as TaskDependencyError).taskIds).toEqual(['email', 'slack', 'laptop', 'email'])
+    }
+
+    const crossCandidate = [task('email'), task('slack', { candidateId: 'c2', dependsOn: ['email'] })]
+    expect(() => validateDependencies(crossCandidate)).toThrow(/not another task of the same candidate/)
+    expect(() => validateDependencies([task('email'), task('slack', { dependsOn: ['email'] })])).not.toThrow()
+  })
+
+  it('resolves titles from the task generation agent and reports blocking tasks', () => {
+    const email = task('t1', { title: 'Create email account', status: 'in_progress' })
+    const [slack] = resolveDependencyReferences([task('t2', { title: 'Add to Slack channels', dependsOn: ['create email account'] })], [email])
+
+    expect(slack.dependsOn).toEqual(['t1'])
+    expect(blockingTasks(slack, [email, slack]).map(t => t.id)).toEqual(['t1'])
+    expect(blockingTasks(slack, [{ ...email, status: 'completed' }, slack])).toEqual([])
+  })
+})
+
+describe('scheduleTasks', () => {
+  it('back-schedules prerequisites from the start date and finds the critical path', () => {
+    const tasks = [
+      task('email'),
+      task('laptop', { dependsOn: ['email'], durationDays: 3 }),
+      task('slack', { dependsOn: ['email'] }),
+      task('benefits', { dueDate: '2025-04-03' }),
+    ]
+
+    const { dueDates, criticalPath } = scheduleTasks(tasks, '2025-04-01')
+
+    expect(dueDates).toEqual({ email: '2025-03-29', laptop: '2025-04-01', slack: '2025-04-01', benefits: '2025-04-03' })
+    expect(criticalPath).toEqual(['email', 'laptop'])
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * Task Dependencies
+ *
+ * A task lists the tasks that must be completed before it can start (`dependsOn`, task ids),
+ * e.g. "Add to Slack channels" depends on "Create email account". Dependencies stay within
+ * one candidate's tasks and may not form a cycle.
+ *
+ * BLOCKED:
+ * A task is blocked while any of its dependencies is not completed.
+ *
+ * BACK-SCHEDULING:
+ * Tasks nothing depends on keep their own due date, or are due on the candidate's start date.
+ * Every prerequisite is due early enough for the tasks that depend on it to take their
+ * `durationDays` (default 1) before their own due date. The critical path is the chain of
+ * tasks that has to start first.
+ */
+
+import type { OnboardingTask } from '@/types'
+
+export const DEFAULT_TASK_DURATION_DAYS = 1
+
+export type TaskDependencyErrorCode = 'UNKNOWN_DEPENDENCY' | 'DEPENDENCY_CYCLE'
+
+export class TaskDependencyError extends Error {
+  readonly code: TaskDependencyErrorCode
+  /** The unknown references, or the tasks forming the cycle */
+  readonly taskIds: string[]
+
+  constructor(code: TaskDependencyErrorCode, message: string, taskIds: string[] = []) {
+    super(message)
+    this.name = 'TaskDependencyError'
+    this.code = code
+    this.taskIds = taskIds
+  }
+}
+
+type DependencyTask = Pick<OnboardingTask, 'id' | 'candidateId' | 'dependsOn'>
+
+export interface TaskSchedule {
+  /** task id -> back-scheduled due date (YYYY-MM-DD) */
+  dueDates: Record<string, string>
+  /** Task ids of the critical path, first task first */
+  criticalPath: string[]
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Shift a YYYY-MM-DD date by whole days ('' for anything else)
+ */
+export function addDays(date: string, days: number): string {
+  const base = new Date(`${date}T00:00:00Z`)
+  if (Number.isNaN(base.getTime())) return ''
+  base.setUTCDate(base.getUTCDate() + days)
+  return base.toISOString().split('T')[0]
+}
+
+function durationOf(task: OnboardingTask): number {
+  return task.durationDays && task.durationDays > 0 ? task.durationDays : DEFAULT_TASK_DURATION_DAYS
+}
+
+/**
+ * One dependency cycle, as the ids along it (first id repeated at the end), or null
+ */
+export function findDependencyCycle(tasks: DependencyTask[]): string[] | null {
+  const byId = new Map(tasks.map(task => [task.id, task]))
+  const state = new Map<string, 'visiting' | 'done'>()
+  const path: string[] = []
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null
+    if (state.get(id) === 'visiting') return [...path.slice(path.indexOf(id)), id]
+
+    state.set(id, 'visiting')
+    path.push(id)
+    for (const dependency of byId.get(id)?.dependsOn || []) {
+      if (!byId.has(dependency)) continue
+      const cycle = visit(dependency)
+      if (cycle) return cycle
+    }
+    path.pop()
+    state.set(id, 'done')
+    return null
+  }
+
+  for (const task of tasks) {
+    const cycle = visit(task.id)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * Check that every dependency is another task of the same candidate and that there is no cycle
+ *
+ * @throws TaskDependencyError
+ */
+export function validateDependencies(tasks: DependencyTask[]): void {
+  const byId = new Map(tasks.map(task => [task.id, task]))
+
+  for (const task of tasks) {
+    const unknown = (task.dependsOn || []).filter(
+      id => id === task.id || byId.get(id)?.candidateId !== task.candidateId
+    )
+    if (unknown.length > 0) {
+      throw new TaskDependencyError(
+        'UNKNOWN_DEPENDENCY',
+        `Task ${task.id} depends on ${unknown.join(', ')}, which ${unknown.length === 1 ? 'is' : 'are'} not another task of the same candidate`,
+        unknown
+      )
+    }
+  }
+
+  const cycle = findDependencyCycle(tasks)
+  if (cycle) {
+    throw new TaskDependencyError('DEPENDENCY_CYCLE', `Task dependencies form a cycle: ${cycle.join(' -> ')}`, cycle)
+  }
+}
+
+/**
+ * Turn dependency references into task ids
+ *
+ * The task generation agent names prerequisites by title. A reference that is not the id of
+ * a task of the same candidate is matched by title (case-insensitive); unmatched references
+ * are kept so validateDependencies() reports them.
+ */
+export function resolveDependencyReferences<T extends OnboardingTask>(tasks: T[], pool: OnboardingTask[]): T[] {
+  return tasks.map(task => {
+    const candidateTasks = pool.filter(other => other.candidateId === task.candidateId && other.id !== task.id)
+    const dependsOn = (task.dependsOn || []).map(reference => {
+      const byTitle = candidateTasks.find(other => other.title.trim().toLowerCase() === reference.trim().toLowerCase())
+      return candidateTasks.some(other => other.id === reference) ? reference : byTitle?.id || reference
+    })
+    return { ...task, dependsOn: Array.from(new Set(dependsOn)) }
+  })
+}
+
+/**
+ * Dependencies of a task that are not completed yet
+ */
+export function blockingTasks(task: OnboardingTask, tasks: OnboardingTask[]): OnboardingTask[] {
+  const dependencies = new Set(task.dependsOn || [])
+  return tasks.filter(other => dependencies.has(other.id) && other.status !== 'completed')
+}
+
+export function isBlocked(task: OnboardingTask, tasks: OnboardingTask[]): boolean {
+  return blockingTasks(task, tasks).length > 0
+}
+
+/**
+ * Back-schedule the due dates of one candidate's tasks from their start date
+ *
+ * @param startDate - YYYY-MM-DD; the tasks must not contain a cycle (see validateDependencies)
+ */
+export function scheduleTasks(tasks: OnboardingTask[], startDate: string): TaskSchedule {
+  const dependents = new Map<string, OnboardingTask[]>()
+  for (const task of tasks) {
+    for (const dependency of task.dependsOn || []) {
+      dependents.set(dependency, [...(dependents.get(dependency) || []), task])
+    }
+  }
+
+  const dueDates: Record<string, string> = {}
+  // The dependent each task's due date was derived from, to walk the critical path
+  const constrainedBy = new Map<string, string>()
+
+  const dueDateOf = (task: OnboardingTask): string => {
+    if (dueDates[task.id]) return dueDates[task.id]
+
+    const next = dependents.get(task.id) || []
+    let due = next.length === 0 ? (ISO_DATE.test(task.dueDate) ? task.dueDate : startDate) : ''
+    for (const dependent of next) {
+      const latest = addDays(dueDateOf(dependent), -durationOf(dependent))
+      if (!due || latest < due) {
+        due = latest
+        constrainedBy.set(task.id, dependent.id)
+      }
+    }
+    dueDates[task.id] = due
+    return due
+  }
+
+  const startOf = (task: OnboardingTask) => addDays(dueDateOf(task), -durationOf(task))
+  const first = tasks.reduce<OnboardingTask | null>(
+    (earliest, task) => (!earliest || startOf(task) < startOf(earliest) ? task : earliest),
+    null
+  )
+
+  const criticalPath: string[] = []
+  for (let id = first?.id; id; id = constrainedBy.get(id)) {
+    criticalPath.push(id)
+  }
+
+  return { dueDates, criticalPath }
+}
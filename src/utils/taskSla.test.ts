@@ -0,0 +1,55 @@
+import { escalationContact, escalationEmail, findOverdueTasks, taskSlaStatus } from './taskSla'
+import { DEFAULT_PEOPLE } from './directory'
+import { describe, it, expect } from 'vitest'
+import type { OnboardingTask } from '@/types'
+
+function task(id: string, priority: OnboardingTask['priority'], dueDate: string, extra: Partial<OnboardingTask> = {}): OnboardingTask {
+  return { id, candidateId: 'c1', title: `Task ${id}`, department: 'IT', assignee: '', dueDate, priority, status: 'pending', ...extra }
+}
+
+const people = [...DEFAULT_PEOPLE, { id: 'sam', name: 'Sam Reed', email: 'sam@company.com', title: 'IT Technician', managerId: 'priya-patel' }]
+
+describe('taskSlaStatus', () => {
+  it('uses the due-soon window and escalation threshold of the task priority', () => {
+    expect(taskSlaStatus(task('1', 'high', '2025-03-13'), '2025-03-10')).toEqual({ state: 'due_soon', daysUntilDue: 3, needsEscalation: false })
+    expect(taskSlaStatus(task('2', 'low', '2025-03-12'), '2025-03-10').state).toBe('on_track')
+    expect(taskSlaStatus(task('3', 'high', '2025-03-09'), '2025-03-10')).toEqual({ state: 'overdue', daysUntilDue: -1, needsEscalation: true })
+    expect(taskSlaStatus(task('4', 'low', '2025-03-08'), '2025-03-10').needsEscalation).toBe(false)
+    expect(taskSlaStatus(task('5', 'high', '2025-03-01', { status: 'completed' }), '2025-03-10').state).toBe('none')
+    expect(taskSlaStatus(task('6', 'high', '2025-03-01', { escalatedAt: '2025-03-02T09:00:00Z' }), '2025-03-10').needsEscalation).toBe(false)
+  })
+})
+
+describe('escalation', () => {
+  it('goes to the assignee\'s manager, then the candidate\'s manager', () => {
+    expect(escalationContact({ assigneeId: 'sam' }, people, 'jane-doe')?.id).toBe('priya-patel')
+    expect(escalationContact({ assigneeId: 'alex-morgan' }, people, 'jane-doe')?.id).toBe('jane-doe')
+    expect(escalationContact({}, people)).toBeNull()
+
+    const overdue = findOverdueTasks(
+      [task('1', 'low', '2025-03-05'), task('2', 'high', '2025-03-05', { assigneeId: 'sam' }), task('3', 'medium', '2025-03-20')],
+      people,
+      { c1: 'john-smith' },
+      '2025-03-10'
+    )
+    expect(overdue.map(o => [o.task.id, o.daysOverdue, o.needsEscalation, o.escalateTo?.id])).toEqual([
+      ['2', 5, true, 'priya-patel'],
+      ['1', 5, true, 'john-smith'],
+    ])
+  })
+
+  it('tells the manager which task is overdue and who escalated it', () => {
+    const overdue = task('1', 'high', '2025-03-05', { title: 'Order laptop', assignee: 'Sam Reed' })
+    const email = escalationEmail(overdue, people.find(p => p.id === 'priya-patel')!, {
+      candidate: { name: 'Sarah Johnson' },
+      actor: 'HR Admin',
+      currentDate: '2025-03-10',
+    })
+
+    expect(email.subject).toBe('Escalated: "Order laptop" is 5 days overdue')
+    expect(email.body).toContain('Hi Priya,')
+    expect(email.body).toContain('"Order laptop" for Sarah Johnson was due on 2025-03-05')
+    expect(email.body).toContain('assigned to Sam Reed (IT)')
+    expect(email.body).toContain('HR Admin escalated it to you')
+  })
+})
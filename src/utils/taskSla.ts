@@ -0,0 +1,137 @@
+/**
+ * Task SLAs
+ *
+ * Every open task with a due date is evaluated against today (the local date, like the due
+ * dates themselves - see utils/dates.ts):
+ * - on_track  - due later than its priority's due-soon window
+ * - due_soon  - due today or within the window
+ * - overdue   - the due date has passed
+ *
+ * ESCALATION:
+ * An overdue task is escalated once it is more than its priority's escalateAfterDays late.
+ * It goes to the assignee's manager, or to the candidate's hiring manager when the assignee
+ * is not in the directory or has no manager. Escalating records who it went to on the task
+ * and emails them (POST /api/tasks/:id/escalate); changing the due date clears it.
+ */
+
+import { localDate } from './dates'
+import type { Candidate, OnboardingTask, Person, TaskPriority } from '@/types'
+
+export interface TaskSla {
+  // Open tasks due within this many days are due soon
+  dueSoonDays: number
+  // Overdue tasks are escalated once they are more than this many days late
+  escalateAfterDays: number
+}
+
+export const TASK_SLAS: Record<TaskPriority, TaskSla> = {
+  high: { dueSoonDays: 3, escalateAfterDays: 0 },
+  medium: { dueSoonDays: 2, escalateAfterDays: 1 },
+  low: { dueSoonDays: 1, escalateAfterDays: 3 },
+}
+
+export type TaskSlaState = 'none' | 'on_track' | 'due_soon' | 'overdue'
+
+export interface TaskSlaStatus {
+  // 'none' for completed tasks and tasks without a due date
+  state: TaskSlaState
+  // Negative once overdue; null without a due date
+  daysUntilDue: number | null
+  // Overdue past the escalation threshold and not escalated yet
+  needsEscalation: boolean
+}
+
+export interface OverdueTask {
+  task: OnboardingTask
+  daysOverdue: number
+  needsEscalation: boolean
+  // Who the task goes to when escalated
+  escalateTo: Person | null
+}
+
+const DAY_MS = 86_400_000
+
+function slaOf(task: Pick<OnboardingTask, 'priority'>): TaskSla {
+  return TASK_SLAS[task.priority] || TASK_SLAS.medium
+}
+
+export function taskSlaStatus(task: OnboardingTask, currentDate: string = localDate()): TaskSlaStatus {
+  const due = new Date(`${task.dueDate}T00:00:00Z`).getTime()
+  const now = new Date(`${currentDate}T00:00:00Z`).getTime()
+  if (!task.dueDate || Number.isNaN(due) || Number.isNaN(now)) {
+    return { state: 'none', daysUntilDue: null, needsEscalation: false }
+  }
+
+  const daysUntilDue = Math.round((due - now) / DAY_MS)
+  if (task.status === 'completed') {
+    return { state: 'none', daysUntilDue, needsEscalation: false }
+  }
+
+  const sla = slaOf(task)
+  const state: TaskSlaState = daysUntilDue < 0 ? 'overdue' : daysUntilDue <= sla.dueSoonDays ? 'due_soon' : 'on_track'
+  return {
+    state,
+    daysUntilDue,
+    needsEscalation: state === 'overdue' && -daysUntilDue > sla.escalateAfterDays && !task.escalatedAt,
+  }
+}
+
+/**
+ * The assignee's manager, falling back to the candidate's hiring manager
+ */
+export function escalationContact(
+  task: Pick<OnboardingTask, 'assigneeId'>,
+  people: Person[],
+  candidateManagerId?: string
+): Person | null {
+  const assignee = people.find(person => person.id === task.assigneeId)
+  const managerId = assignee?.managerId || candidateManagerId
+  return people.find(person => person.id === managerId && person.id !== assignee?.id) || null
+}
+
+/**
+ * The email telling the manager about a task escalated to them
+ */
+export function escalationEmail(
+  task: OnboardingTask,
+  manager: Person,
+  context: { candidate?: Pick<Candidate, 'name'> | null; actor: string; currentDate?: string }
+): { subject: string; body: string } {
+  const daysOverdue = Math.max(0, -(taskSlaStatus(task, context.currentDate).daysUntilDue ?? 0))
+  const firstName = manager.name.trim().split(/\s+/)[0] || manager.name
+  const forCandidate = context.candidate ? ` for ${context.candidate.name}` : ''
+
+  return {
+    subject: `Escalated: "${task.title}" is ${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue`,
+    body:
+      `Hi ${firstName},\n\nThe onboarding task "${task.title}"${forCandidate} was due on ${task.dueDate} and is not done yet. ` +
+      `It is assigned to ${task.assignee || 'nobody'} (${task.department}).\n\n` +
+      `${context.actor} escalated it to you. Please follow up with the assignee, or reassign the task or move its ` +
+      'due date in the onboarding app.',
+  }
+}
+
+/**
+ * Open overdue tasks, most overdue first (high priority first on ties)
+ *
+ * @param managerOf - candidate id -> the candidate's hiring manager id
+ */
+export function findOverdueTasks(
+  tasks: OnboardingTask[],
+  people: Person[],
+  managerOf: Record<string, string | undefined> = {},
+  currentDate: string = localDate()
+): OverdueTask[] {
+  const priorityRank: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 }
+
+  return tasks
+    .map(task => ({ task, sla: taskSlaStatus(task, currentDate) }))
+    .filter(({ sla }) => sla.state === 'overdue')
+    .map(({ task, sla }) => ({
+      task,
+      daysOverdue: -sla.daysUntilDue!,
+      needsEscalation: sla.needsEscalation,
+      escalateTo: escalationContact(task, people, managerOf[task.candidateId]),
+    }))
+    .sort((a, b) => b.daysOverdue - a.daysOverdue || priorityRank[a.task.priority] - priorityRank[b.task.priority])
+}
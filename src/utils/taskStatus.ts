@@ -0,0 +1,76 @@
+/**
+ * Task Status Changes
+ *
+ * The one way a task's status changes outside a plain edit: board moves (POST /api/tasks/:id/move)
+ * and status updates from external systems (POST /api/webhooks/task-status) both go through
+ * applyTaskStatus(), so each change is recorded in the task's activity and the candidate's stored
+ * progress follows it. Server-only - it uses the file store.
+ */
+
+import {
+  candidateRepository,
+  documentRepository,
+  documentRequirementRepository,
+  taskActivityRepository,
+  taskRepository,
+} from './repositories'
+import { computeProgress } from './progress'
+import { resolveRequiredDocuments } from './documentRequirements'
+import type { OnboardingTask, TaskActivity, TaskStatus } from '@/types'
+
+export const TASK_STATUSES: TaskStatus[] = ['pending', 'in_progress', 'completed']
+
+export interface TaskStatusChange {
+  task: OnboardingTask
+  // null when the task already had the status
+  activity: TaskActivity | null
+  // The candidate's progress after the change; null when the candidate no longer exists
+  progress: number | null
+}
+
+/**
+ * Recompute and store the candidate's progress from their tasks and documents
+ *
+ * @returns the new progress, or null when the candidate does not exist
+ */
+export async function recomputeCandidateProgress(candidateId: string): Promise<number | null> {
+  const candidate = await candidateRepository.get(candidateId)
+  if (!candidate) return null
+
+  const [tasks, documents, rules] = await Promise.all([
+    taskRepository.list({ candidateId }),
+    documentRepository.list({ candidateId }),
+    documentRequirementRepository.list(),
+  ])
+  const { progress } = computeProgress(candidate, tasks, documents, resolveRequiredDocuments(candidate, rules))
+  await candidateRepository.update(candidateId, { progress })
+  return progress
+}
+
+/**
+ * Set the task's status as changed by `actor`; setting the status it already has changes nothing
+ */
+export async function applyTaskStatus(
+  task: OnboardingTask,
+  status: TaskStatus,
+  actor: string,
+  at: string = new Date().toISOString()
+): Promise<TaskStatusChange> {
+  if (task.status === status) {
+    const candidate = await candidateRepository.get(task.candidateId)
+    return { task, activity: null, progress: candidate?.progress ?? null }
+  }
+
+  const updated = (await taskRepository.update(task.id, { status }))!
+  const activity = await taskActivityRepository.create({
+    taskId: task.id,
+    candidateId: task.candidateId,
+    type: 'status_changed',
+    actor,
+    at,
+    from: task.status,
+    to: updated.status,
+  })
+
+  return { task: updated, activity, progress: await recomputeCandidateProgress(task.candidateId) }
+}
@@ -0,0 +1,56 @@
+import { DEFAULT_TASK_TEMPLATES, instantiateTaskTemplate, selectTaskTemplate, suggestedAdditions, taskTemplateSchema } from './taskTemplates'
+import { describe, it, expect } from 'vitest'
+
+describe('selectTaskTemplate', () => {
+  it('picks the most specific matching template', () => {
+    expect(selectTaskTemplate(DEFAULT_TASK_TEMPLATES, { role: 'software engineer', department: 'Engineering' })?.id).toBe('software-engineer')
+    expect(selectTaskTemplate(DEFAULT_TASK_TEMPLATES, { role: 'Account Executive', department: 'Sales' })?.id).toBe('sales')
+    expect(selectTaskTemplate(DEFAULT_TASK_TEMPLATES, { role: 'Designer', department: 'Product' })?.id).toBe('all-hires')
+    expect(selectTaskTemplate(DEFAULT_TASK_TEMPLATES.slice(1), { role: 'Designer', department: 'Product' })).toBeNull()
+  })
+})
+
+describe('instantiateTaskTemplate', () => {
+  it('creates the same tasks every time, due relative to the start date', () => {
+    const template = DEFAULT_TASK_TEMPLATES.find(t => t.id === 'software-engineer')!
+    const candidate = { id: 'c1', startDate: '2025-04-07' }
+
+    const tasks = instantiateTaskTemplate(template, candidate)
+
+    expect(tasks).toEqual(instantiateTaskTemplate(template, candidate))
+    expect(tasks[0]).toEqual({
+      candidateId: 'c1',
+      title: 'Create email account',
+      department: 'IT',
+      assignee: 'IT Support Team',
+      dueDate: '2025-04-02',
+      priority: 'high',
+      status: 'pending',
+      dependsOn: [],
+    })
+    expect(tasks.find(t => t.title === 'Add to Slack channels')?.dependsOn).toEqual(['Create email account'])
+  })
+})
+
+describe('task template contracts', () => {
+  it('rejects dependencies outside the template and keeps only new agent suggestions', () => {
+    const result = taskTemplateSchema.safeParse({
+      name: 'Broken',
+      tasks: [{ title: 'Add to Slack channels', department: 'IT', dependsOn: ['Create email account'] }],
+    })
+    expect(result.success).toBe(false)
+
+    const additions = suggestedAdditions(
+      {
+        tasks_by_department: {
+          IT: [
+            { task_title: 'Create Email Account', assignee: '', due_date: '', priority: 'high', status: 'pending' },
+            { task_title: 'Order second monitor', assignee: '', due_date: '', priority: 'low', status: 'pending' },
+          ],
+        },
+      },
+      [{ title: 'Create email account' }]
+    )
+    expect(additions.map(a => a.task.task_title)).toEqual(['Order second monitor'])
+  })
+})
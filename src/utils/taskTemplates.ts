@@ -0,0 +1,176 @@
+/**
+ * Onboarding Task Templates
+ *
+ * HR-managed task lists by role and/or department (e.g. "Software Engineer / Engineering"),
+ * each task with a default assignee, priority and a due date relative to the start date.
+ *
+ * SELECTION:
+ * When a candidate is created, the most specific matching template is instantiated:
+ * role and department > role > department > a template without criteria (ties go to the
+ * first template in the list). The same candidate always gets the same tasks.
+ *
+ * AGENT ADDITIONS:
+ * The task generation agent may suggest more tasks on top; suggestedAdditions() drops the
+ * ones the candidate already has so HR only reviews what is new.
+ *
+ * Templates live in the `task_templates` collection (see /api/task-templates).
+ */
+
+import { z } from 'zod'
+import { addDays, findDependencyCycle } from './taskDependencies'
+import type { GeneratedTask, TaskGenerationResponse } from './agentSchemas'
+import type { Candidate, OnboardingTask, TaskTemplate, TaskTemplateItem } from '@/types'
+
+const optionalText = z
+  .string()
+  .trim()
+  .optional()
+  .transform(value => value || undefined)
+
+export const taskTemplateItemSchema = z.object({
+  title: z.string().trim().min(1, 'title is required'),
+  department: z.string().trim().min(1, 'department is required'),
+  assignee: z.string().trim().default(''),
+  dueOffsetDays: z.number().int().default(0),
+  priority: z.enum(['high', 'medium', 'low']).default('medium'),
+  dependsOn: z.array(z.string().trim().min(1)).default([]),
+  durationDays: z.number().int().positive().optional(),
+})
+
+export const taskTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name is required'),
+    role: optionalText,
+    department: optionalText,
+    tasks: z.array(taskTemplateItemSchema).min(1, 'A template needs at least one task'),
+  })
+  .superRefine((template, ctx) => {
+    const titles = new Set(template.tasks.map(task => sameTitleKey(task.title)))
+    template.tasks.forEach((task, index) => {
+      const unknown = task.dependsOn.filter(title => !titles.has(sameTitleKey(title)) || sameTitleKey(title) === sameTitleKey(task.title))
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `depends on ${unknown.join(', ')}, which is not another task of this template`,
+          path: ['tasks', index, 'dependsOn'],
+        })
+      }
+    })
+
+    const cycle = findDependencyCycle(
+      template.tasks.map(task => ({ id: sameTitleKey(task.title), candidateId: '', dependsOn: task.dependsOn.map(sameTitleKey) }))
+    )
+    if (cycle) {
+      ctx.addIssue({ code: 'custom', message: `Task dependencies form a cycle: ${cycle.join(' -> ')}`, path: ['tasks'] })
+    }
+  })
+
+export type TaskTemplateInput = z.input<typeof taskTemplateSchema>
+
+function sameTitleKey(title: string): string {
+  return title.trim().toLowerCase()
+}
+
+function sameText(a: string | undefined, b: string | undefined): boolean {
+  return (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase()
+}
+
+const EMAIL_ACCOUNT = 'Create email account'
+
+const BASE_TASKS: TaskTemplateItem[] = [
+  { title: EMAIL_ACCOUNT, department: 'IT', assignee: 'IT Support Team', dueOffsetDays: -5, priority: 'high' },
+  { title: 'Add to Slack channels', department: 'IT', assignee: 'IT Support Team', dueOffsetDays: -2, priority: 'medium', dependsOn: [EMAIL_ACCOUNT] },
+  { title: 'Assign desk and badge access', department: 'Facilities', assignee: 'Facilities Team', dueOffsetDays: -2, priority: 'medium' },
+  { title: 'Schedule benefits enrollment session', department: 'HR', assignee: 'HR Onboarding', dueOffsetDays: 3, priority: 'medium' },
+]
+
+// Seed templates: the tasks every hire gets, plus the engineering and sales variations
+export const DEFAULT_TASK_TEMPLATES: TaskTemplate[] = [
+  { id: 'all-hires', name: 'All hires', tasks: BASE_TASKS },
+  {
+    id: 'software-engineer',
+    name: 'Software Engineer / Engineering',
+    role: 'Software Engineer',
+    department: 'Engineering',
+    tasks: [
+      ...BASE_TASKS,
+      { title: 'Prepare laptop and development environment', department: 'IT', assignee: 'IT Support Team', dueOffsetDays: -3, priority: 'high', dependsOn: [EMAIL_ACCOUNT], durationDays: 2 },
+      { title: 'Grant repository and CI access', department: 'Engineering', assignee: 'Engineering Manager', dueOffsetDays: -1, priority: 'high', dependsOn: [EMAIL_ACCOUNT] },
+      { title: 'Assign onboarding buddy', department: 'Engineering', assignee: 'Engineering Manager', dueOffsetDays: 0, priority: 'low' },
+    ],
+  },
+  {
+    id: 'sales',
+    name: 'Sales',
+    department: 'Sales',
+    tasks: [
+      ...BASE_TASKS,
+      { title: 'Create CRM account', department: 'IT', assignee: 'IT Support Team', dueOffsetDays: -2, priority: 'high', dependsOn: [EMAIL_ACCOUNT] },
+      { title: 'Schedule call shadowing with an account executive', department: 'Sales', assignee: 'Sales Manager', dueOffsetDays: 5, priority: 'medium' },
+    ],
+  },
+]
+
+/**
+ * How specifically a template fits a candidate: 3 = role and department, 2 = role,
+ * 1 = department, 0 = no criteria, -1 = does not match
+ */
+export function templateSpecificity(template: TaskTemplate, candidate: Pick<Candidate, 'role' | 'department'>): number {
+  if (template.role && !sameText(template.role, candidate.role)) return -1
+  if (template.department && !sameText(template.department, candidate.department)) return -1
+  return (template.role ? 2 : 0) + (template.department ? 1 : 0)
+}
+
+export function selectTaskTemplate(
+  templates: TaskTemplate[],
+  candidate: Pick<Candidate, 'role' | 'department'>
+): TaskTemplate | null {
+  return templates.reduce<TaskTemplate | null>((best, template) => {
+    const specificity = templateSpecificity(template, candidate)
+    return specificity >= 0 && (!best || specificity > templateSpecificity(best, candidate)) ? template : best
+  }, null)
+}
+
+/**
+ * The template's tasks for one candidate, due relative to their start date
+ *
+ * dependsOn still holds titles; POST /api/tasks and the candidate route resolve them to ids
+ * (utils/taskDependencies.ts resolveDependencyReferences).
+ */
+export function instantiateTaskTemplate(
+  template: TaskTemplate,
+  candidate: Pick<Candidate, 'id' | 'startDate'>
+): Omit<OnboardingTask, 'id'>[] {
+  return template.tasks.map(item => ({
+    candidateId: candidate.id,
+    title: item.title,
+    department: item.department,
+    assignee: item.assignee,
+    dueDate: addDays(candidate.startDate, item.dueOffsetDays),
+    priority: item.priority,
+    status: 'pending',
+    dependsOn: item.dependsOn || [],
+    ...(item.durationDays ? { durationDays: item.durationDays } : {}),
+  }))
+}
+
+/**
+ * Agent-suggested tasks the candidate does not have yet, with the department that owns them
+ */
+export function suggestedAdditions(
+  taskResult: TaskGenerationResponse['result'],
+  existing: Pick<OnboardingTask, 'title'>[]
+): { department: string; task: GeneratedTask }[] {
+  const seen = new Set(existing.map(task => sameTitleKey(task.title)))
+  const additions: { department: string; task: GeneratedTask }[] = []
+
+  for (const [department, tasks] of Object.entries(taskResult.tasks_by_department)) {
+    for (const task of tasks) {
+      const key = sameTitleKey(task.task_title)
+      if (!key || seen.has(key)) continue
+      seen.add(key)
+      additions.push({ department, task })
+    }
+  }
+  return additions
+}
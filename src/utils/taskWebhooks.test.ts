@@ -0,0 +1,62 @@
+import {
+  WebhookSignatureError,
+  matchUpdateTasks,
+  signWebhookPayload,
+  taskStatusUpdateSchema,
+  verifyWebhookSignature,
+} from './taskWebhooks'
+import { describe, it, expect } from 'vitest'
+import type { OnboardingTask } from '@/types'
+
+const body = JSON.stringify({ id: 'evt_1', external_ref: 'IT-4821', status: 'completed' })
+const now = 1_760_000_000
+
+function rejection(run: () => void): string | undefined {
+  try {
+    run()
+  } catch (error) {
+    return error instanceof WebhookSignatureError ? error.code : 'other'
+  }
+  return undefined
+}
+
+describe('verifyWebhookSignature', () => {
+  it('accepts the signed body and rejects tampered, unsigned or stale requests', () => {
+    const header = signWebhookPayload(body, 'secret', now)
+
+    expect(rejection(() => verifyWebhookSignature(body, header, ['secret'], { now }))).toBeUndefined()
+    expect(rejection(() => verifyWebhookSignature(body.replace('completed', 'pending'), header, ['secret'], { now }))).toBe('SIGNATURE_INVALID')
+    expect(rejection(() => verifyWebhookSignature(body, header, ['other'], { now }))).toBe('SIGNATURE_INVALID')
+    expect(rejection(() => verifyWebhookSignature(body, `t=${now},v1=abc`, ['secret'], { now }))).toBe('SIGNATURE_INVALID')
+    expect(rejection(() => verifyWebhookSignature(body, null, ['secret'], { now }))).toBe('SIGNATURE_MISSING')
+    expect(rejection(() => verifyWebhookSignature(body, header, ['secret'], { now: now + 301 }))).toBe('SIGNATURE_EXPIRED')
+    expect(rejection(() => verifyWebhookSignature(body, header, ['secret'], { now: now - 301 }))).toBe('SIGNATURE_EXPIRED')
+  })
+
+  it('accepts either secret while they are rotated', () => {
+    const oldOnly = signWebhookPayload(body, 'old', now)
+    const both = `${oldOnly},v1=${signWebhookPayload(body, 'new', now).split('v1=')[1]}`
+
+    expect(rejection(() => verifyWebhookSignature(body, oldOnly, ['new', 'old'], { now }))).toBeUndefined()
+    expect(rejection(() => verifyWebhookSignature(body, both, ['new'], { now }))).toBeUndefined()
+  })
+})
+
+describe('status updates', () => {
+  const task = (id: string, externalRef?: string): OnboardingTask => ({
+    id, candidateId: 'c1', title: `Task ${id}`, department: 'IT', assignee: '', dueDate: '', priority: 'medium', status: 'pending',
+    ...(externalRef ? { externalRef } : {}),
+  })
+
+  it('name the task by id or external reference, not both', () => {
+    expect(taskStatusUpdateSchema.safeParse({ id: 'evt_1', task_id: '1', status: 'completed' }).success).toBe(true)
+    expect(taskStatusUpdateSchema.safeParse({ id: 'evt_1', task_id: '1', external_ref: 'IT-1', status: 'completed' }).success).toBe(false)
+    expect(taskStatusUpdateSchema.safeParse({ id: 'evt_1', status: 'completed' }).success).toBe(false)
+    expect(taskStatusUpdateSchema.safeParse({ id: 'evt_1', task_id: '1', status: 'done' }).success).toBe(false)
+
+    const tasks = [task('1', 'IT-1'), task('2', 'IT-2'), task('3', 'IT-2')]
+    expect(matchUpdateTasks(taskStatusUpdateSchema.parse({ id: 'e', external_ref: 'IT-1', status: 'completed' }), tasks).map(t => t.id)).toEqual(['1'])
+    expect(matchUpdateTasks(taskStatusUpdateSchema.parse({ id: 'e', external_ref: 'IT-2', status: 'completed' }), tasks)).toHaveLength(2)
+    expect(matchUpdateTasks(taskStatusUpdateSchema.parse({ id: 'e', task_id: 'IT-1', status: 'completed' }), tasks)).toHaveLength(0)
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Inbound Task Webhooks
+ *
+ * Other teams' systems (e.g. IT's helpdesk) report status changes of the tickets behind our
+ * onboarding tasks to POST /api/webhooks/task-status. An update names the task by its id or by
+ * the task's externalRef (the ticket id).
+ *
+ * SIGNATURES:
+ * Every request carries `X-Onboarding-Signature: t=<unix seconds>,v1=<hex>`, where v1 is the
+ * HMAC-SHA256 of `<t>.<raw request body>` with the shared secret. Several v1 entries are allowed,
+ * so a sender can sign with an old and a new secret while they are rotated.
+ *
+ * REPLAY PROTECTION:
+ * - Signatures older (or further in the future) than the tolerance are rejected
+ * - Every update has a delivery id; a delivery seen within the tolerance is acknowledged but
+ *   not applied again, so retries from the sender are harmless
+ *
+ * CONFIGURATION:
+ * - TASK_WEBHOOK_SECRET: shared secret; comma-separate several to rotate (endpoint is off without it)
+ * - TASK_WEBHOOK_TOLERANCE_SECONDS: accepted clock difference (default 300)
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { z } from 'zod'
+import type { OnboardingTask } from '@/types'
+
+export const SIGNATURE_HEADER = 'x-onboarding-signature'
+
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300
+
+export type WebhookSignatureErrorCode = 'SIGNATURE_MISSING' | 'SIGNATURE_INVALID' | 'SIGNATURE_EXPIRED'
+
+export class WebhookSignatureError extends Error {
+  readonly code: WebhookSignatureErrorCode
+
+  constructor(code: WebhookSignatureErrorCode, message: string) {
+    super(message)
+    this.name = 'WebhookSignatureError'
+    this.code = code
+  }
+}
+
+export const taskStatusUpdateSchema = z
+  .object({
+    // The sender's id for this update, unique per update (not per ticket)
+    id: z.string().trim().min(1, 'id (delivery id) is required').max(200),
+    task_id: z.string().trim().min(1).optional(),
+    external_ref: z.string().trim().min(1).optional(),
+    status: z.enum(['pending', 'in_progress', 'completed']),
+    // Name of the sending system, recorded as the actor in the task's activity
+    source: z.string().trim().min(1).max(100).optional(),
+  })
+  .refine(update => Boolean(update.task_id) !== Boolean(update.external_ref), {
+    message: 'exactly one of task_id and external_ref is required',
+    path: ['task_id'],
+  })
+
+export type TaskStatusUpdate = z.infer<typeof taskStatusUpdateSchema>
+
+function hmac(body: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * The signature header value for a body (what senders - and tests - put in SIGNATURE_HEADER)
+ */
+export function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${hmac(body, secret, timestamp)}`
+}
+
+/**
+ * Checks that the body was signed with one of the secrets within the tolerance
+ *
+ * @throws WebhookSignatureError
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string | null | undefined,
+  secrets: string[],
+  options: { toleranceSeconds?: number; now?: number } = {}
+): void {
+  if (!header) {
+    throw new WebhookSignatureError('SIGNATURE_MISSING', `${SIGNATURE_HEADER} header is required`)
+  }
+
+  const parts = header.split(',').map(part => part.trim().split('='))
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1])
+  const signatures = parts.filter(([key, value]) => key === 'v1' && value).map(([, value]) => value)
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    throw new WebhookSignatureError('SIGNATURE_INVALID', `${SIGNATURE_HEADER} must be t=<timestamp>,v1=<signature>`)
+  }
+
+  const tolerance = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+  const now = options.now ?? Math.floor(Date.now() / 1000)
+  if (Math.abs(now - timestamp) > tolerance) {
+    throw new WebhookSignatureError('SIGNATURE_EXPIRED', `Signature timestamp is more than ${tolerance} seconds off`)
+  }
+
+  const matches = secrets.some(secret => {
+    const expected = Buffer.from(hmac(body, secret, timestamp), 'hex')
+    return signatures.some(signature => {
+      const given = Buffer.from(signature, 'hex')
+      return given.length === expected.length && timingSafeEqual(given, expected)
+    })
+  })
+  if (!matches) {
+    throw new WebhookSignatureError('SIGNATURE_INVALID', 'Signature does not match the request body')
+  }
+}
+
+export function getWebhookSecrets(): string[] {
+  return (process.env.TASK_WEBHOOK_SECRET || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean)
+}
+
+export function getWebhookTolerance(): number {
+  const value = Number(process.env.TASK_WEBHOOK_TOLERANCE_SECONDS)
+  return process.env.TASK_WEBHOOK_TOLERANCE_SECONDS && Number.isFinite(value) && value > 0
+    ? value
+    : DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+}
+
+/**
+ * Tasks an update applies to: the task with its id, or every task with its external reference
+ * (more than one means the reference is ambiguous)
+ */
+export function matchUpdateTasks(update: TaskStatusUpdate, tasks: OnboardingTask[]): OnboardingTask[] {
+  return update.task_id
+    ? tasks.filter(task => task.id === update.task_id)
+    : tasks.filter(task => task.externalRef === update.external_ref)
+}
@@ -0,0 +1,86 @@
+import { detectMimeType, DOCX_MIME_TYPE, extractText, MAX_INFLATED_BYTES, PDF_MIME_TYPE } from './textExtraction'
+import { describe, it, expect } from 'vitest'
+import { deflateRawSync, deflateSync } from 'zlib'
+
+// Minimal single-entry zip archive (deflated), enough for readZipEntry
+function zip(name: string, content: string | Buffer): Buffer {
+  const data = deflateRawSync(typeof content === 'string' ? Buffer.from(content, 'utf8') : content)
+  const fileName = Buffer.from(name, 'utf8')
+
+  const local = Buffer.alloc(30)
+  local.writeUInt32LE(0x04034b50, 0)
+  local.writeUInt16LE(8, 8)
+  local.writeUInt32LE(data.length, 18)
+  local.writeUInt16LE(fileName.length, 26)
+
+  const central = Buffer.alloc(46)
+  central.writeUInt32LE(0x02014b50, 0)
+  central.writeUInt16LE(8, 10)
+  central.writeUInt32LE(data.length, 20)
+  central.writeUInt16LE(fileName.length, 28)
+  central.writeUInt32LE(0, 42)
+
+  const centralOffset = local.length + fileName.length + data.length
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(1, 10)
+  end.writeUInt32LE(central.length + fileName.length, 12)
+  end.writeUInt32LE(centralOffset, 16)
+
+  return Buffer.concat([local, fileName, data, central, fileName, end])
+}
+
+describe('extractText', () => {
+  it('reads paragraphs from a DOCX file', () => {
+    const docx = zip(
+      'word/document.xml',
+      '<w:document><w:body><w:p><w:r><w:t>Employee Tax Form</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:t>Name:</w:t><w:tab/><w:t>Jane &amp; Co</w:t></w:r></w:p></w:body></w:document>'
+    )
+
+    expect(detectMimeType(docx, 'w4.docx')).toBe(DOCX_MIME_TYPE)
+    expect(extractText(docx, DOCX_MIME_TYPE)).toEqual({
+      text: 'Employee Tax Form\nName: Jane & Co',
+      method: 'docx',
+      truncated: false,
+    })
+  })
+
+  it('reads text operators from compressed PDF content streams', () => {
+    const content = deflateSync(
+      Buffer.from('BT /F1 12 Tf 72 712 Td (Passport \\(copy\\)) Tj T* [(Number) -300 (X123)] TJ ET', 'latin1')
+    )
+    const pdf = Buffer.concat([
+      Buffer.from(`%PDF-1.4\n4 0 obj\n<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      content,
+      Buffer.from('\nendstream\nendobj\n%%EOF', 'latin1'),
+    ])
+
+    expect(detectMimeType(pdf, 'passport.pdf', 'application/octet-stream')).toBe(PDF_MIME_TYPE)
+    expect(extractText(pdf, PDF_MIME_TYPE).text).toBe('Passport (copy)\nNumber X123')
+  })
+
+  it('decodes plain text and leaves images empty', () => {
+    expect(extractText(Buffer.from('\uFEFFEmergency contact:   Bob\r\n555-0100'), 'text/plain').text).toBe(
+      'Emergency contact: Bob\n555-0100'
+    )
+    expect(extractText(Buffer.from([0xff, 0xd8, 0xff, 0xe0]), 'image/jpeg')).toEqual({ text: '', method: 'none', truncated: false })
+  })
+
+  it('gives up on documents that inflate past the limit (zip bombs)', () => {
+    // A few KB compressed, four times the limit inflated
+    const bomb = Buffer.alloc(4 * MAX_INFLATED_BYTES, ' ')
+
+    const docx = zip('word/document.xml', Buffer.concat([Buffer.from('<w:p><w:t>Tax Form</w:t></w:p>'), bomb]))
+    expect(docx.length).toBeLessThan(100_000)
+    expect(extractText(docx, DOCX_MIME_TYPE).text).toBe('')
+
+    const content = deflateSync(Buffer.concat([Buffer.from('BT (Passport) Tj ET '), bomb]))
+    const pdf = Buffer.concat([
+      Buffer.from(`%PDF-1.4\n4 0 obj\n<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      content,
+      Buffer.from('\nendstream\nendobj\n%%EOF', 'latin1'),
+    ])
+    expect(extractText(pdf, PDF_MIME_TYPE).text).toBe('')
+  })
+})
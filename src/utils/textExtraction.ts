@@ -0,0 +1,318 @@
+/**
+ * Document Text Extraction
+ *
+ * Pulls readable text out of uploaded documents so the document-validation agent
+ * can judge their content, not just their filename. Server-only (uses zlib).
+ *
+ * SUPPORTED FORMATS:
+ * - Plain text (text/*, JSON) - decoded as UTF-8
+ * - DOCX - paragraphs of word/document.xml, read straight from the zip container
+ * - PDF  - text-showing operators (Tj, TJ, ', ") of uncompressed and FlateDecode content streams
+ * Anything else (images, scanned PDFs without a text layer) yields empty text.
+ *
+ * The result is whitespace-normalized and capped at MAX_EXTRACTED_CHARS.
+ * Decompression stops at MAX_INFLATED_BYTES per file, so a small crafted upload cannot expand
+ * into gigabytes (a zip bomb); a document that would exceed it yields no text.
+ */
+
+import { inflateRawSync, inflateSync } from 'zlib'
+
+export const MAX_EXTRACTED_CHARS = 20_000
+
+// Markup and layout operators far outweigh the text they carry, hence the headroom
+export const MAX_INFLATED_BYTES = 4 * 1024 * 1024
+
+export const PDF_MIME_TYPE = 'application/pdf'
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+export type ExtractionMethod = 'plain' | 'docx' | 'pdf' | 'none'
+
+export interface ExtractedText {
+  text: string
+  method: ExtractionMethod
+  truncated: boolean
+}
+
+/**
+ * MIME type from the file's magic bytes, falling back to its extension and the declared type
+ */
+export function detectMimeType(bytes: Buffer, filename: string, declared?: string): string {
+  const extension = filename.toLowerCase().split('.').pop() || ''
+
+  if (bytes.subarray(0, 5).toString('latin1') === '%PDF-') return PDF_MIME_TYPE
+  if (bytes.length >= 4 && bytes.readUInt32LE(0) === 0x04034b50 && extension === 'docx') return DOCX_MIME_TYPE
+  if (bytes[0] === 0x89 && bytes.subarray(1, 4).toString('latin1') === 'PNG') return 'image/png'
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg'
+
+  const byExtension: Record<string, string> = {
+    txt: 'text/plain',
+    md: 'text/markdown',
+    csv: 'text/csv',
+    json: 'application/json',
+  }
+  return byExtension[extension] || declared || 'application/octet-stream'
+}
+
+function isPlainText(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || mimeType === 'application/json'
+}
+
+function normalize(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// DOCX (zip container)
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_CENTRAL_FILE_HEADER = 0x02014b50
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50
+
+/**
+ * Read one entry of a zip archive (stored or deflated)
+ *
+ * @returns null when the entry is missing, uses another compression method or inflates to
+ *          more than MAX_INFLATED_BYTES
+ */
+export function readZipEntry(zip: Buffer, name: string): Buffer | null {
+  let end = -1
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) return null
+
+  const entries = zip.readUInt16LE(end + 10)
+  let offset = zip.readUInt32LE(end + 16)
+
+  for (let i = 0; i < entries && offset + 46 <= zip.length; i++) {
+    if (zip.readUInt32LE(offset) !== ZIP_CENTRAL_FILE_HEADER) return null
+
+    const method = zip.readUInt16LE(offset + 10)
+    const compressedSize = zip.readUInt32LE(offset + 20)
+    const nameLength = zip.readUInt16LE(offset + 28)
+    const extraLength = zip.readUInt16LE(offset + 30)
+    const commentLength = zip.readUInt16LE(offset + 32)
+    const localOffset = zip.readUInt32LE(offset + 42)
+    const entryName = zip.subarray(offset + 46, offset + 46 + nameLength).toString('utf8')
+
+    if (entryName === name) {
+      if (zip.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) return null
+      const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28)
+      const data = zip.subarray(dataStart, dataStart + compressedSize)
+      if (method === 0) return data
+      if (method === 8) {
+        try {
+          return inflateRawSync(data, { maxOutputLength: MAX_INFLATED_BYTES })
+        } catch {
+          return null
+        }
+      }
+      return null
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return null
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+export function extractDocxText(bytes: Buffer): string {
+  const xml = readZipEntry(bytes, 'word/document.xml')
+  if (!xml) return ''
+
+  return decodeXmlEntities(
+    xml
+      .toString('utf8')
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:(br|cr)\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+}
+
+// PDF
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }
+
+/**
+ * Read a literal string starting at `start` (the opening parenthesis)
+ */
+function readPdfLiteral(content: string, start: number): { value: string; end: number } {
+  let value = ''
+  let depth = 0
+  let i = start
+
+  for (; i < content.length; i++) {
+    const char = content[i]
+    if (char === '\\') {
+      const next = content[++i]
+      if (PDF_ESCAPES[next]) {
+        value += PDF_ESCAPES[next]
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i, i + 3).match(/^[0-7]{1,3}/)![0]
+        value += String.fromCharCode(parseInt(octal, 8))
+        i += octal.length - 1
+      } else if (next !== '\n' && next !== '\r') {
+        value += next
+      }
+      continue
+    }
+    if (char === '(') {
+      if (depth++ > 0) value += char
+      continue
+    }
+    if (char === ')') {
+      if (--depth === 0) break
+      value += char
+      continue
+    }
+    value += char
+  }
+
+  return { value, end: i }
+}
+
+function readPdfHex(content: string, start: number): { value: string; end: number } {
+  const end = content.indexOf('>', start)
+  const hex = content.slice(start + 1, end === -1 ? undefined : end).replace(/\s+/g, '')
+  const value = Buffer.from(hex.length % 2 ? hex + '0' : hex, 'hex').toString('latin1')
+  return { value, end: end === -1 ? content.length : end }
+}
+
+/**
+ * Text shown by the operators of one content stream
+ */
+export function extractPdfContentText(content: string): string {
+  let output = ''
+  let pending: string[] = []
+  let inArray = false
+  let token = ''
+
+  const flushOperator = (operator: string) => {
+    if (operator === 'Tj' || operator === 'TJ') {
+      output += pending.join('')
+    } else if (operator === "'" || operator === '"') {
+      output += '\n' + pending.join('')
+    } else if (operator === 'T*' || operator === 'Td' || operator === 'TD' || operator === 'ET') {
+      output += '\n'
+    } else if (inArray && /^-?\d*\.?\d+$/.test(operator) && Number(operator) < -200) {
+      // Large negative kerning inside a TJ array separates words
+      pending.push(' ')
+      return
+    }
+    if (!inArray) pending = []
+  }
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (char === '(' || (char === '<' && content[i + 1] !== '<')) {
+      if (token) flushOperator(token)
+      token = ''
+      const literal = char === '(' ? readPdfLiteral(content, i) : readPdfHex(content, i)
+      pending.push(literal.value)
+      i = literal.end
+    } else if (char === '[' || char === ']') {
+      if (token) flushOperator(token)
+      token = ''
+      inArray = char === '['
+    } else if (/\s/.test(char)) {
+      if (token) flushOperator(token)
+      token = ''
+    } else {
+      token += char
+    }
+  }
+  if (token) flushOperator(token)
+
+  return output
+}
+
+export function extractPdfText(bytes: Buffer): string {
+  const pdf = bytes.toString('latin1')
+  const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n/g
+  const parts: string[] = []
+  let match: RegExpExecArray | null
+  // Shared by all streams, so many small bombs cannot add up either
+  let budget = MAX_INFLATED_BYTES
+
+  while ((match = streamPattern.exec(pdf))) {
+    const dictionary = match[1]
+    const start = match.index + match[0].length
+    const end = pdf.indexOf('endstream', start)
+    if (end === -1) break
+    streamPattern.lastIndex = end
+
+    if (/\/Subtype\s*\/Image/.test(dictionary)) continue
+
+    let data = bytes.subarray(start, end)
+    if (/\/FlateDecode/.test(dictionary)) {
+      if (budget <= 0) return ''
+      try {
+        data = inflateSync(data, { maxOutputLength: budget })
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') return ''
+        continue
+      }
+      budget -= data.length
+    } else if (/\/Filter/.test(dictionary)) {
+      continue
+    }
+
+    const content = data.toString('latin1')
+    if (/\bBT\b/.test(content)) {
+      parts.push(extractPdfContentText(content))
+    }
+  }
+
+  return parts.join('\n')
+}
+
+/**
+ * Extract readable text from an uploaded file
+ */
+export function extractText(bytes: Buffer, mimeType: string): ExtractedText {
+  let text = ''
+  let method: ExtractionMethod = 'none'
+
+  try {
+    if (mimeType === PDF_MIME_TYPE) {
+      text = extractPdfText(bytes)
+      method = 'pdf'
+    } else if (mimeType === DOCX_MIME_TYPE) {
+      text = extractDocxText(bytes)
+      method = 'docx'
+    } else if (isPlainText(mimeType)) {
+      text = bytes.toString('utf8').replace(/^\uFEFF/, '')
+      method = 'plain'
+    }
+  } catch (error) {
+    console.error('Text extraction failed:', error)
+    text = ''
+  }
+
+  const normalized = normalize(text)
+  return {
+    text: normalized.slice(0, MAX_EXTRACTED_CHARS),
+    method,
+    truncated: normalized.length > MAX_EXTRACTED_CHARS,
+  }
+}
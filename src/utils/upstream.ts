@@ -0,0 +1,230 @@
+/**
+ * Resilient Upstream Calls
+ *
+ * fetch() wrapper used for every call to the Lyzr API:
+ * - Per-call timeout (AbortController) on the time until response headers arrive
+ * - Exponential retry with full jitter on network errors, timeouts, 429 and 5xx
+ * - Honors Retry-After on 429/503 (capped at the maximum delay)
+ * - Circuit breaker per upstream that fails fast after repeated failures
+ *
+ * Failures that cannot be recovered are thrown as UpstreamError with a stable `code`
+ * the API routes pass through to clients. Non-retryable responses (e.g. 400/401)
+ * and the last retryable response are returned as-is for the caller to report.
+ */
+
+export type UpstreamErrorCode = 'UPSTREAM_TIMEOUT' | 'UPSTREAM_UNREACHABLE' | 'CIRCUIT_OPEN'
+
+const STATUS_BY_CODE: Record<UpstreamErrorCode, number> = {
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_UNREACHABLE: 502,
+  CIRCUIT_OPEN: 503,
+}
+
+export class UpstreamError extends Error {
+  readonly code: UpstreamErrorCode
+  readonly status: number
+  readonly attempts: number
+  readonly retryAfterMs?: number
+
+  constructor(code: UpstreamErrorCode, message: string, options: { attempts?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'UpstreamError'
+    this.code = code
+    this.status = STATUS_BY_CODE[code]
+    this.attempts = options.attempts ?? 0
+    this.retryAfterMs = options.retryAfterMs
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number
+  resetTimeoutMs: number
+}
+
+/**
+ * Classic three-state circuit breaker
+ *
+ * closed    - requests flow; consecutive failures are counted
+ * open      - requests fail fast until resetTimeoutMs has passed
+ * half_open - one trial request decides between closed and open
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+  private trialInFlight = false
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  getState(now = Date.now()): CircuitState {
+    if (this.state === 'open' && now - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half_open'
+      this.trialInFlight = false
+    }
+    return this.state
+  }
+
+  /** Milliseconds until an open breaker lets a trial request through */
+  retryAfterMs(now = Date.now()): number {
+    return Math.max(0, this.openedAt + this.options.resetTimeoutMs - now)
+  }
+
+  tryAcquire(now = Date.now()): boolean {
+    const state = this.getState(now)
+    if (state === 'closed') return true
+    if (state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+    return false
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed'
+    this.failures = 0
+    this.trialInFlight = false
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures++
+    if (this.state === 'half_open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open'
+      this.openedAt = now
+      this.trialInFlight = false
+    }
+  }
+}
+
+export interface ResilienceOptions {
+  timeoutMs: number
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  breaker?: CircuitBreaker
+  /** Transport to use instead of the global fetch (e.g. the mock agents) */
+  fetchImpl?: (url: string, init: RequestInit) => Promise<Response>
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+function retryAfterHeaderMs(response: Response): number | undefined {
+  const header = response.headers?.get?.('retry-after')
+  if (!header) return undefined
+
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) return seconds * 1000
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Full-jitter exponential backoff: random delay in [0, min(max, base * 2^attempt)]
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve()
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  fetchImpl: (url: string, init: RequestInit) => Promise<Response> = (...args) => fetch(...args)
+): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    return await fetchImpl(url, { ...init, signal: controller.signal })
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * fetch() with timeout, retries and an optional circuit breaker
+ *
+ * @throws UpstreamError when the breaker is open, or every attempt timed out / failed to connect
+ */
+export async function fetchWithResilience(url: string, init: RequestInit, options: ResilienceOptions): Promise<Response> {
+  const { timeoutMs, maxRetries, baseDelayMs, maxDelayMs, breaker, fetchImpl } = options
+
+  if (breaker && !breaker.tryAcquire()) {
+    throw new UpstreamError('CIRCUIT_OPEN', 'Upstream is unhealthy; failing fast until it recovers', {
+      retryAfterMs: breaker.retryAfterMs(),
+    })
+  }
+
+  let lastError: unknown = null
+  let lastResponse: Response | null = null
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    let retryAfter: number | undefined
+
+    try {
+      const response = await fetchWithTimeout(url, init, timeoutMs, fetchImpl)
+      if (!isRetryableStatus(response.status)) {
+        breaker?.recordSuccess()
+        return response
+      }
+      lastResponse = response
+      lastError = null
+      retryAfter = retryAfterHeaderMs(response)
+    } catch (error) {
+      lastError = error
+      lastResponse = null
+    }
+
+    if (attempt < maxRetries) {
+      const delay = retryAfter !== undefined
+        ? Math.min(retryAfter, maxDelayMs)
+        : backoffDelay(attempt, baseDelayMs, maxDelayMs)
+      await sleep(delay)
+    }
+  }
+
+  breaker?.recordFailure()
+
+  if (lastResponse) {
+    return lastResponse
+  }
+
+  const attempts = maxRetries + 1
+  if ((lastError as Error | null)?.name === 'AbortError') {
+    throw new UpstreamError('UPSTREAM_TIMEOUT', `Upstream did not respond within ${timeoutMs}ms`, {
+      attempts,
+      cause: lastError,
+    })
+  }
+
+  throw new UpstreamError('UPSTREAM_UNREACHABLE', 'Upstream could not be reached', {
+    attempts,
+    cause: lastError,
+  })
+}
+
+// One breaker per upstream, shared by every request handled by this server process
+const breakers = new Map<string, CircuitBreaker>()
+
+export function getCircuitBreaker(key: string, options: CircuitBreakerOptions): CircuitBreaker {
+  let breaker = breakers.get(key)
+  if (!breaker) {
+    breaker = new CircuitBreaker(options)
+    breakers.set(key, breaker)
+  }
+  return breaker
+}
+
+/**
+ * Forget all breaker state (tests, or after reconfiguring the upstream)
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear()
+}
@@ -0,0 +1,33 @@
+import { getCandidateWorkflow, planTransition, resolveWorkflow, stageProgress, WorkflowError } from './workflow'
+import { describe, it, expect } from 'vitest'
+
+describe('onboarding workflows', () => {
+  it('picks the pipeline by department and falls back to the standard one', () => {
+    expect(resolveWorkflow('engineering').id).toBe('engineering')
+    expect(resolveWorkflow('Sales').id).toBe('sales')
+    expect(resolveWorkflow('Product').id).toBe('standard')
+    expect(getCandidateWorkflow({ department: 'Engineering', workflowId: 'standard' }).id).toBe('standard')
+  })
+
+  it('plans allowed transitions with their actions and progress', () => {
+    const plan = planTransition(resolveWorkflow('Product'), 'pending', 'welcome_sent')
+
+    expect(plan.actions).toEqual([expect.objectContaining({ type: 'call_agent', agent: 'welcomeEmail' })])
+    expect(plan.progress).toBe(25)
+    expect(stageProgress(resolveWorkflow('Product'), 'tasks_assigned')).toBe(60)
+    expect(stageProgress(resolveWorkflow('Product'), 'completed')).toBe(100)
+  })
+
+  it('rejects transitions the workflow does not allow', () => {
+    const workflow = resolveWorkflow('Engineering')
+
+    expect(() => planTransition(workflow, 'pending', 'completed')).toThrow(WorkflowError)
+    try {
+      planTransition(workflow, 'tasks_assigned', 'completed')
+    } catch (error) {
+      expect((error as WorkflowError).code).toBe('INVALID_TRANSITION')
+      expect((error as WorkflowError).allowed).toEqual(['environment_ready'])
+    }
+    expect(() => planTransition(workflow, 'pending', 'territory_assigned')).toThrow(/not part of/)
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * Onboarding Workflows
+ *
+ * Declarative pipelines a candidate moves through, one per department group.
+ * Each workflow lists its stages in order, the transitions allowed between them,
+ * the actions to run when a stage is entered or left, and how much each stage
+ * contributes to the candidate's progress.
+ *
+ * ENFORCEMENT:
+ * - planTransition() is the state machine: it rejects transitions the workflow does not
+ *   allow (WorkflowError, code INVALID_TRANSITION) and returns the actions to run plus
+ *   the resulting progress
+ * - The client runs the actions (e.g. has the welcome email agent draft the email HR sends)
+ *   and then commits the stage with POST /api/candidates/:id/transition, which re-checks the
+ *   same rules
+ *
+ * ADDING A PIPELINE:
+ * - Add a WorkflowDefinition to WORKFLOWS and list the departments it applies to
+ * - Candidates keep the workflow they started with (Candidate.workflowId)
+ *
+ * @example
+ * ```ts
+ * const plan = planTransition(getCandidateWorkflow(candidate), candidate.status, 'welcome_sent')
+ * for (const action of plan.actions) await run(action)
+ * await transitionCandidate(candidate.id, plan.to)
+ * ```
+ */
+
+import type { AgentName } from './agents'
+import type { Candidate } from '@/types'
+
+export type WorkflowAction = {
+  type: 'call_agent'
+  agent: AgentName
+  message: string
+}
+
+export interface WorkflowStage {
+  id: string
+  label: string
+  /** Share of the overall progress earned by reaching this stage */
+  weight: number
+  /** Stage can be entered from the dashboard; the button shows actionLabel */
+  manual?: boolean
+  actionLabel?: string
+  onEnter?: WorkflowAction[]
+  onExit?: WorkflowAction[]
+}
+
+export interface WorkflowDefinition {
+  id: string
+  name: string
+  /** Departments that start on this workflow (matched case-insensitively) */
+  departments: string[]
+  initialStage: string
+  /** The stage that marks the onboarding as finished */
+  finalStage: string
+  stages: WorkflowStage[]
+  transitions: Record<string, string[]>
+}
+
+export interface TransitionPlan {
+  workflowId: string
+  from: string
+  to: string
+  /** Exit actions of the current stage followed by entry actions of the next one */
+  actions: WorkflowAction[]
+  progress: number
+}
+
+export type WorkflowErrorCode = 'UNKNOWN_STAGE' | 'INVALID_TRANSITION'
+
+export class WorkflowError extends Error {
+  readonly code: WorkflowErrorCode
+  readonly allowed: string[]
+
+  constructor(code: WorkflowErrorCode, message: string, allowed: string[] = []) {
+    super(message)
+    this.name = 'WorkflowError'
+    this.code = code
+    this.allowed = allowed
+  }
+}
+
+const WELCOME_EMAIL: WorkflowAction = {
+  type: 'call_agent',
+  agent: 'welcomeEmail',
+  message: 'Draft a personalized welcome email for this new hire',
+}
+
+const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  id: 'standard',
+  name: 'Standard onboarding',
+  departments: [],
+  initialStage: 'pending',
+  finalStage: 'completed',
+  stages: [
+    { id: 'pending', label: 'Pending', weight: 0 },
+    { id: 'welcome_sent', label: 'Welcome sent', weight: 25, manual: true, actionLabel: 'Initiate', onEnter: [WELCOME_EMAIL] },
+    { id: 'documents_received', label: 'Documents received', weight: 20 },
+    { id: 'tasks_assigned', label: 'Tasks assigned', weight: 15 },
+    { id: 'completed', label: 'Completed', weight: 40, manual: true, actionLabel: 'Mark complete' },
+  ],
+  transitions: {
+    pending: ['welcome_sent'],
+    welcome_sent: ['documents_received', 'tasks_assigned'],
+    documents_received: ['tasks_assigned'],
+    tasks_assigned: ['completed'],
+  },
+}
+
+const ENGINEERING_WORKFLOW: WorkflowDefinition = {
+  id: 'engineering',
+  name: 'Engineering onboarding',
+  departments: ['Engineering'],
+  initialStage: 'pending',
+  finalStage: 'completed',
+  stages: [
+    { id: 'pending', label: 'Pending', weight: 0 },
+    { id: 'welcome_sent', label: 'Welcome sent', weight: 20, manual: true, actionLabel: 'Initiate', onEnter: [WELCOME_EMAIL] },
+    { id: 'documents_received', label: 'Documents received', weight: 20 },
+    { id: 'tasks_assigned', label: 'Tasks assigned', weight: 15 },
+    { id: 'environment_ready', label: 'Environment ready', weight: 15, manual: true, actionLabel: 'Environment ready' },
+    { id: 'completed', label: 'Completed', weight: 30, manual: true, actionLabel: 'Mark complete' },
+  ],
+  transitions: {
+    pending: ['welcome_sent'],
+    welcome_sent: ['documents_received'],
+    documents_received: ['tasks_assigned'],
+    tasks_assigned: ['environment_ready'],
+    environment_ready: ['completed'],
+  },
+}
+
+const SALES_WORKFLOW: WorkflowDefinition = {
+  id: 'sales',
+  name: 'Sales onboarding',
+  departments: ['Sales'],
+  initialStage: 'pending',
+  finalStage: 'completed',
+  stages: [
+    { id: 'pending', label: 'Pending', weight: 0 },
+    { id: 'welcome_sent', label: 'Welcome sent', weight: 25, manual: true, actionLabel: 'Initiate', onEnter: [WELCOME_EMAIL] },
+    { id: 'tasks_assigned', label: 'Tasks assigned', weight: 15 },
+    { id: 'documents_received', label: 'Documents received', weight: 15 },
+    { id: 'territory_assigned', label: 'Territory assigned', weight: 15, manual: true, actionLabel: 'Assign territory' },
+    { id: 'completed', label: 'Completed', weight: 30, manual: true, actionLabel: 'Mark complete' },
+  ],
+  transitions: {
+    pending: ['welcome_sent'],
+    welcome_sent: ['tasks_assigned', 'documents_received'],
+    tasks_assigned: ['documents_received', 'territory_assigned'],
+    documents_received: ['tasks_assigned', 'territory_assigned'],
+    territory_assigned: ['completed'],
+  },
+}
+
+export const WORKFLOWS: WorkflowDefinition[] = [ENGINEERING_WORKFLOW, SALES_WORKFLOW, DEFAULT_WORKFLOW]
+
+export function getWorkflowById(id: string): WorkflowDefinition | undefined {
+  return WORKFLOWS.find(workflow => workflow.id === id)
+}
+
+/**
+ * Workflow a new candidate in `department` starts on (falls back to the standard pipeline)
+ */
+export function resolveWorkflow(department: string): WorkflowDefinition {
+  const key = department.trim().toLowerCase()
+  return (
+    WORKFLOWS.find(workflow => workflow.departments.some(name => name.toLowerCase() === key)) ||
+    DEFAULT_WORKFLOW
+  )
+}
+
+/**
+ * Workflow a candidate is on - the one recorded at creation, else the department's
+ */
+export function getCandidateWorkflow(candidate: Pick<Candidate, 'department' | 'workflowId'>): WorkflowDefinition {
+  return (candidate.workflowId && getWorkflowById(candidate.workflowId)) || resolveWorkflow(candidate.department)
+}
+
+export function getStage(workflow: WorkflowDefinition, stageId: string): WorkflowStage | undefined {
+  return workflow.stages.find(stage => stage.id === stageId)
+}
+
+/**
+ * Progress (0-100) earned by reaching `stageId`: the summed weights of it and every earlier stage
+ */
+export function stageProgress(workflow: WorkflowDefinition, stageId: string): number {
+  const index = workflow.stages.findIndex(stage => stage.id === stageId)
+  if (index === -1) return 0
+
+  const total = workflow.stages.reduce((sum, stage) => sum + stage.weight, 0)
+  const reached = workflow.stages.slice(0, index + 1).reduce((sum, stage) => sum + stage.weight, 0)
+  return total > 0 ? Math.round((100 * reached) / total) : 0
+}
+
+export function getNextStages(workflow: WorkflowDefinition, stageId: string): WorkflowStage[] {
+  return (workflow.transitions[stageId] || [])
+    .map(id => getStage(workflow, id))
+    .filter((stage): stage is WorkflowStage => Boolean(stage))
+}
+
+export function canTransition(workflow: WorkflowDefinition, from: string, to: string): boolean {
+  return (workflow.transitions[from] || []).includes(to)
+}
+
+export function isFinalStage(workflow: WorkflowDefinition, stageId: string): boolean {
+  return workflow.finalStage === stageId
+}
+
+/**
+ * Validate a stage change and work out its side effects
+ *
+ * @throws WorkflowError when either stage is unknown or the transition is not allowed
+ */
+export function planTransition(workflow: WorkflowDefinition, from: string, to: string): TransitionPlan {
+  const current = getStage(workflow, from)
+  const next = getStage(workflow, to)
+  const allowed = workflow.transitions[from] || []
+
+  if (!current) {
+    throw new WorkflowError('UNKNOWN_STAGE', `Stage "${from}" is not part of the ${workflow.name} workflow`, allowed)
+  }
+  if (!next) {
+    throw new WorkflowError('UNKNOWN_STAGE', `Stage "${to}" is not part of the ${workflow.name} workflow`, allowed)
+  }
+  if (!allowed.includes(to)) {
+    throw new WorkflowError('INVALID_TRANSITION', `Cannot move from "${from}" to "${to}" in the ${workflow.name} workflow`, allowed)
+  }
+
+  return {
+    workflowId: workflow.id,
+    from,
+    to,
+    actions: [...(current.onExit || []), ...(next.onEnter || [])],
+    progress: stageProgress(workflow, to),
+  }
+}